@@ -1,23 +1,37 @@
 import "../util/polyfills";
 
-import React, { useEffect, useState } from "react";
-import { Stack } from "expo-router";
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import {
+  Stack,
+  useGlobalSearchParams,
+  usePathname,
+  useRootNavigationState,
+  useRouter,
+  type Href,
+} from "expo-router";
 import { ModalProvider } from "../context/ModalContext";
 import { observer } from "@legendapp/state/react";
 import { initializeApp } from "../util/initialize-app";
 import { SafeAreaProvider } from "react-native-safe-area-context";
 import { enableScreens } from "react-native-screens";
 
-import {
-  hasHardwareAsync,
-  isEnrolledAsync,
-  authenticateAsync,
-} from "expo-local-authentication";
-import { View, StatusBar } from "react-native";
+import { authenticateAsync } from "expo-local-authentication";
+import { AppState, View, StatusBar } from "react-native";
 import { AuthenticationView } from "../components/auth/AuthenticationView";
 import { InitializationError } from "@/components/InitializationError";
 import { InitializingApp } from "@/components/InitializingApp";
 import { styles } from "../styles/styles";
+import {
+  appLock,
+  recordUserActivity,
+  resolveUnlockMethod,
+  setCurrentRoute,
+  takeLockedRoute,
+  unlockApp,
+  unlockWithAppPin,
+  type UnlockMethod,
+} from "../util/app-lock";
+import { hasPINSetup } from "../util/user-state";
 
 // Enable screens for react-native-screens
 enableScreens();
@@ -39,27 +53,62 @@ const Layout = ({ children }: { children: React.ReactNode }) => (
   </SafeAreaProvider>
 );
 
+// Counts every touch as activity for the auto-lock, without claiming it
+const recordTouch = () => {
+  recordUserActivity();
+  return false;
+};
+
+// Reopens the route the app was on when it locked, once the stack is mounted
+const LockedRouteRestorer = () => {
+  const router = useRouter();
+  const navigationKey = useRootNavigationState()?.key;
+
+  useEffect(() => {
+    if (!navigationKey) return;
+
+    const route = takeLockedRoute();
+    if (route && route.pathname !== "/") {
+      router.push({ pathname: route.pathname, params: route.params } as Href);
+    }
+  }, [navigationKey, router]);
+
+  return null;
+};
+
 // App layout with navigation and global providers
 const RootLayout = observer(() => {
   const [isInitialized, setIsInitialized] = useState(false);
   const [initError, setInitError] = useState<Error | null>(null);
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [authChecking, setAuthChecking] = useState(true);
   const [authError, setAuthError] = useState<string | null>(null);
+  const [unlockMethod, setUnlockMethod] = useState<UnlockMethod>("device");
+  const authInProgress = useRef(false);
+  const isLocked = appLock.locked.get();
+  const pathname = usePathname();
+  const params = useGlobalSearchParams();
 
   // Function to authenticate the user
-  const authenticate = async () => {
+  const authenticate = useCallback(async () => {
+    if (authInProgress.current) return;
+    authInProgress.current = true;
+
     try {
       setAuthChecking(true);
       setAuthError(null);
 
-      const hasHardware = await hasHardwareAsync();
-      const isEnrolled = await isEnrolledAsync();
+      const method = await resolveUnlockMethod();
+      setUnlockMethod(method);
+
+      // Before onboarding created a PIN there is nothing to unlock with
+      if (method === "none") {
+        console.log("No biometrics or app PIN available, allowing access");
+        unlockApp();
+        return;
+      }
 
-      // If device doesn't support biometrics or has no enrollments, default to allowing access
-      if (!hasHardware || !isEnrolled) {
-        console.log("Biometric authentication not available, allowing access");
-        setIsAuthenticated(true);
+      // The lock screen asks for the app PIN itself
+      if (method === "app_pin") {
         return;
       }
 
@@ -71,7 +120,7 @@ const RootLayout = observer(() => {
       });
 
       if (result.success) {
-        setIsAuthenticated(true);
+        unlockApp();
         setAuthError(null);
       } else {
         // User cancelled or authentication failed
@@ -80,25 +129,28 @@ const RootLayout = observer(() => {
         } else {
           setAuthError("Authentication failed. Please try again.");
         }
-        setIsAuthenticated(false);
       }
     } catch (error) {
       console.error("Authentication error:", error);
       setAuthError("Authentication error occurred. Please try again.");
-      // On error, allow access by default for better user experience
-      setIsAuthenticated(true);
+      // Fall back to the app PIN; without one, allow access by default for
+      // better user experience
+      if (await hasPINSetup()) {
+        setUnlockMethod("app_pin");
+      } else {
+        unlockApp();
+      }
     } finally {
+      authInProgress.current = false;
       setAuthChecking(false);
     }
-  };
+  }, []);
 
   useEffect(() => {
     async function init() {
       try {
         await initializeApp();
         setIsInitialized(true);
-        // Trigger authentication after initialization
-        authenticate();
       } catch (error) {
         console.error("Failed to initialize:", error);
         setInitError(error instanceof Error ? error : new Error(String(error)));
@@ -109,6 +161,41 @@ const RootLayout = observer(() => {
     init();
   }, []);
 
+  // Authenticate after initialization, as soon as the app locks while in the
+  // foreground, and when it comes back to the foreground locked
+  useEffect(() => {
+    if (!isInitialized || !isLocked) return;
+
+    if (AppState.currentState === "active") {
+      authenticate();
+    }
+
+    // Only after the background: a dismissed prompt also reports "active"
+    let previousState = AppState.currentState;
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state === "active" && previousState === "background") {
+        authenticate();
+      }
+      previousState = state;
+    });
+    return () => subscription.remove();
+  }, [isInitialized, isLocked, authenticate]);
+
+  // Remember where the user is, to return there after the app locks
+  useEffect(() => {
+    if (!isLocked) {
+      setCurrentRoute({
+        pathname,
+        params: Object.fromEntries(
+          Object.entries(params).map(([key, value]) => [
+            key,
+            Array.isArray(value) ? value.join(",") : (value ?? ""),
+          ]),
+        ),
+      });
+    }
+  }, [isLocked, pathname, params]);
+
   if (!isInitialized) {
     return (
       <Layout>
@@ -129,13 +216,15 @@ const RootLayout = observer(() => {
     );
   }
 
-  if (!isAuthenticated) {
+  if (isLocked) {
     return (
       <Layout>
         <AuthenticationView
           isLoading={false}
           onAuthenticate={authenticate}
-          subtitle={authError || "Please authenticate to access your wallet."}
+          mode={unlockMethod === "app_pin" ? "pin" : "device"}
+          onPinSubmit={unlockWithAppPin}
+          subtitle={authError || undefined}
         />
       </Layout>
     );
@@ -144,18 +233,25 @@ const RootLayout = observer(() => {
   // Return main app if authenticated
   return (
     <Layout>
-      <Stack
-        screenOptions={{
-          headerStyle: {
-            backgroundColor: styles.headerContainer.backgroundColor,
-          },
-          headerTintColor: styles.authText.color,
-          contentStyle: {
-            backgroundColor: styles.headerContainer.backgroundColor,
-          },
-          animation: "fade",
-        }}
-      />
+      <View
+        style={{ flex: 1 }}
+        onStartShouldSetResponderCapture={recordTouch}
+        onMoveShouldSetResponderCapture={recordTouch}
+      >
+        <Stack
+          screenOptions={{
+            headerStyle: {
+              backgroundColor: styles.headerContainer.backgroundColor,
+            },
+            headerTintColor: styles.authText.color,
+            contentStyle: {
+              backgroundColor: styles.headerContainer.backgroundColor,
+            },
+            animation: "fade",
+          }}
+        />
+        <LockedRouteRestorer />
+      </View>
     </Layout>
   );
 });
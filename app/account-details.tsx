@@ -92,6 +92,7 @@ export default function AccountDetailsScreen() {
             </View>
           ) : (
             <HistoricalTransactions
+              accountId={account.id}
               accountAddress={account.account_address}
               headerComponent={renderHeader}
               onRefresh={onRefresh}
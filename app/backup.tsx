@@ -0,0 +1,28 @@
+import React from "react";
+import { View } from "react-native";
+import { observer } from "@legendapp/state/react";
+import { Stack } from "expo-router";
+import { styles } from "../styles/styles";
+import { SetupGuard } from "../components/auth/SetupGuard";
+import { WalletBackupView } from "../components/backup/WalletBackupView";
+
+/**
+ * Wallet backup export and import screen
+ */
+const BackupScreen = observer(() => {
+  return (
+    <SetupGuard requiresPin={true} requiresAccount={false}>
+      <View style={styles.root}>
+        <Stack.Screen
+          options={{
+            title: "Backup & Restore",
+            headerBackTitle: "Back",
+          }}
+        />
+        <WalletBackupView />
+      </View>
+    </SetupGuard>
+  );
+});
+
+export default BackupScreen;
@@ -16,6 +16,7 @@ import { SetupGuard } from "@/components/auth/SetupGuard";
 import AccountList from "@/components/profile/AccountList";
 import { AccountTotals } from "@/components/profile/AccountTotals";
 import { appConfig, getProfileForAccount } from "@/util/app-config-store";
+import { getVisibleProfiles } from "@/util/duress";
 
 // Main App component that combines the functionality
 export default function App() {
@@ -82,7 +83,7 @@ const AppContent = observer(() => {
 const SmartAccountList = observer(
   ({ onShowMenu }: { onShowMenu: () => void }) => {
     const activeAccountId = appConfig.activeAccountId.get();
-    const profiles = appConfig.profiles.get();
+    const profiles = getVisibleProfiles();
 
     // Early return if profiles aren't loaded yet
     if (!profiles || Object.keys(profiles).length === 0) {
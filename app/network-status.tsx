@@ -0,0 +1,15 @@
+import React from "react";
+import { View } from "react-native";
+import { NetworkStatusView } from "../components/settings/NetworkStatusView";
+import { router } from "expo-router";
+
+/**
+ * Network status screen
+ */
+export default function NetworkStatusScreen() {
+  return (
+    <View style={{ flex: 1 }}>
+      <NetworkStatusView onClose={() => router.back()} />
+    </View>
+  );
+}
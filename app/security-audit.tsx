@@ -0,0 +1,15 @@
+import React from "react";
+import { View } from "react-native";
+import { SecurityAuditView } from "../components/settings/SecurityAuditView";
+import { router } from "expo-router";
+
+/**
+ * Security audit log screen
+ */
+export default function SecurityAuditScreen() {
+  return (
+    <View style={{ flex: 1 }}>
+      <SecurityAuditView onClose={() => router.back()} />
+    </View>
+  );
+}
@@ -0,0 +1,99 @@
+import React, { useState, useCallback } from "react";
+import { View, Text } from "react-native";
+import { ActionButton } from "../common/ActionButton";
+import { FormInput } from "../common/FormInput";
+import { styles } from "../../styles/styles";
+import {
+  checkQuizAnswers,
+  pickQuizPositions,
+} from "../../util/backup-verification";
+
+interface BackupVerificationQuizProps {
+  mnemonic: string;
+  onVerified: () => void;
+  onCancel: () => void;
+  disabled?: boolean;
+}
+
+/**
+ * Asks for the recovery phrase words at a few random positions, so the user
+ * proves they wrote the phrase down. A wrong answer starts over with new
+ * positions.
+ */
+export const BackupVerificationQuiz: React.FC<BackupVerificationQuizProps> = ({
+  mnemonic,
+  onVerified,
+  onCancel,
+  disabled = false,
+}) => {
+  const [positions, setPositions] = useState(() =>
+    pickQuizPositions(mnemonic.trim().split(/\s+/).length),
+  );
+  const [answers, setAnswers] = useState<string[]>(() =>
+    positions.map(() => ""),
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAnswerChange = useCallback((index: number, text: string) => {
+    setAnswers((prev) => prev.map((item, i) => (i === index ? text : item)));
+    setError(null);
+  }, []);
+
+  const handleCheck = useCallback(() => {
+    if (checkQuizAnswers(mnemonic, positions, answers)) {
+      onVerified();
+      return;
+    }
+
+    const nextPositions = pickQuizPositions(
+      mnemonic.trim().split(/\s+/).length,
+    );
+    setPositions(nextPositions);
+    setAnswers(nextPositions.map(() => ""));
+    setError(
+      "Some words did not match. Check your written copy and try these words.",
+    );
+  }, [mnemonic, positions, answers, onVerified]);
+
+  const isComplete = answers.every((answer) => answer.trim().length > 0);
+
+  return (
+    <View style={styles.inputContainer}>
+      <Text style={styles.label}>Verify Your Backup</Text>
+      <Text style={styles.description}>
+        Enter these words from your written recovery phrase.
+      </Text>
+
+      {positions.map((position, index) => (
+        <FormInput
+          key={position}
+          label={`Word #${position + 1}`}
+          value={answers[index]}
+          onChangeText={(text) => handleAnswerChange(index, text)}
+          placeholder={`Word number ${position + 1}`}
+          autoCapitalize="none"
+          autoCorrect={false}
+          disabled={disabled}
+        />
+      ))}
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      <ActionButton
+        text="Check Words"
+        onPress={handleCheck}
+        disabled={disabled || !isComplete}
+        accessibilityLabel="Check the entered recovery words"
+      />
+
+      <ActionButton
+        text="Show Phrase Again"
+        onPress={onCancel}
+        disabled={disabled}
+        variant="secondary"
+        style={{ marginTop: 12 }}
+        accessibilityLabel="Go back to the recovery phrase"
+      />
+    </View>
+  );
+};
@@ -76,6 +76,8 @@ export const DerivedAddressDisplay: React.FC<DerivedAddressDisplayProps> = ({
           <CopyButton
             text={mnemonic}
             label="Copy"
+            sensitivity="secret"
+            secretDescription="recovery phrase"
             variant="icon"
             size="small"
             disabled={isLoading}
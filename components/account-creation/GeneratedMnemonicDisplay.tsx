@@ -3,6 +3,7 @@ import { View, Text } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import { ActionButton } from "../common/ActionButton";
 import { CopyButton } from "../common/CopyButton";
+import { MnemonicSharesDisplay } from "./MnemonicSharesDisplay";
 import { styles, colors } from "../../styles/styles";
 
 interface GeneratedMnemonicDisplayProps {
@@ -46,6 +47,8 @@ export const GeneratedMnemonicDisplay: React.FC<
           <CopyButton
             text={mnemonic}
             label="Copy"
+            sensitivity="secret"
+            secretDescription="recovery phrase"
             variant="icon"
             size="small"
             disabled={isLoading}
@@ -64,6 +67,8 @@ export const GeneratedMnemonicDisplay: React.FC<
           </Text>
         </View>
       </View>
+
+      <MnemonicSharesDisplay mnemonic={mnemonic} disabled={isLoading} />
     </View>
   );
 };
@@ -0,0 +1,128 @@
+import React, { useState, useCallback, useEffect } from "react";
+import { View, Text } from "react-native";
+import { ActionButton } from "../common/ActionButton";
+import { CopyButton } from "../common/CopyButton";
+import Dropdown from "../common/Dropdown";
+import { styles } from "../../styles/styles";
+import { MAX_SHARE_COUNT, splitMnemonic } from "../../util/mnemonic-shares";
+
+const COUNT_OPTIONS = Array.from({ length: MAX_SHARE_COUNT - 1 }, (_, i) =>
+  String(i + 2),
+);
+
+interface MnemonicSharesDisplayProps {
+  mnemonic: string;
+  disabled?: boolean;
+}
+
+/**
+ * Splits a recovery phrase into M-of-N shares that can be written down or
+ * handed to different trusted people
+ */
+export const MnemonicSharesDisplay: React.FC<MnemonicSharesDisplayProps> = ({
+  mnemonic,
+  disabled = false,
+}) => {
+  const [threshold, setThreshold] = useState("2");
+  const [shareCount, setShareCount] = useState("3");
+  const [shares, setShares] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Shares of a previous phrase must never be shown next to a new one
+  useEffect(() => {
+    setShares([]);
+    setError(null);
+  }, [mnemonic]);
+
+  const handleSplit = useCallback(() => {
+    try {
+      setShares(splitMnemonic(mnemonic, Number(threshold), Number(shareCount)));
+      setError(null);
+    } catch (err) {
+      setShares([]);
+      setError(err instanceof Error ? err.message : "Failed to create shares");
+    }
+  }, [mnemonic, threshold, shareCount]);
+
+  return (
+    <View style={styles.inputContainer}>
+      <Text style={styles.label}>Split Into Shares</Text>
+      <Text style={styles.description}>
+        Instead of one phrase, keep several shares in different places. Any{" "}
+        {threshold} of the {shareCount} shares rebuild the recovery phrase.
+        Fewer shares reveal nothing.
+      </Text>
+
+      <Dropdown
+        label="Shares needed to recover"
+        value={threshold}
+        options={COUNT_OPTIONS.filter(
+          (count) => Number(count) <= Number(shareCount),
+        )}
+        onSelect={(value) => {
+          setThreshold(value);
+          setShares([]);
+        }}
+      />
+
+      <Dropdown
+        label="Total shares"
+        value={shareCount}
+        options={COUNT_OPTIONS}
+        onSelect={(value) => {
+          setShareCount(value);
+          if (Number(threshold) > Number(value)) setThreshold(value);
+          setShares([]);
+        }}
+      />
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      <ActionButton
+        text={shares.length > 0 ? "Create New Shares" : "Create Shares"}
+        onPress={handleSplit}
+        disabled={disabled || !mnemonic}
+        variant="secondary"
+        accessibilityHint="Split the recovery phrase into shares"
+      />
+
+      {shares.map((share, i) => (
+        <View key={share} style={{ marginTop: 12 }}>
+          <View
+            style={{
+              flexDirection: "row",
+              justifyContent: "space-between",
+              alignItems: "center",
+              marginBottom: 8,
+            }}
+          >
+            <Text style={styles.label}>
+              Share {i + 1} of {shares.length} ({threshold} needed)
+            </Text>
+            <CopyButton
+              text={share}
+              label="Copy"
+              sensitivity="secret"
+              secretDescription="recovery phrase share"
+              variant="icon"
+              size="small"
+              disabled={disabled}
+              accessibilityLabel={`Copy share ${i + 1}`}
+              accessibilityHint="Copy this share to clipboard"
+            />
+          </View>
+          <View style={styles.input}>
+            <Text
+              style={[
+                styles.description,
+                { fontFamily: "monospace", lineHeight: 20 },
+              ]}
+            >
+              {share}
+            </Text>
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+};
@@ -1,22 +1,32 @@
 import React, { useState, useCallback } from "react";
 import { View, Text, Alert } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
 import { ActionButton } from "../common/ActionButton";
 import { CopyButton } from "../common/CopyButton";
-import { styles } from "../../styles/styles";
+import { BackupVerificationQuiz } from "../account-creation/BackupVerificationQuiz";
+import { styles, colors } from "../../styles/styles";
 import { generateMnemonic } from "open-libra-sdk";
 
 interface GeneratedMnemonicSectionProps {
   onMnemonicGenerated: (mnemonic: string) => void;
+  onBackupVerified: () => void;
+  isBackupVerified: boolean;
   isLoading?: boolean;
 }
 
 export const GeneratedMnemonicSection: React.FC<
   GeneratedMnemonicSectionProps
-> = ({ onMnemonicGenerated, isLoading = false }) => {
+> = ({
+  onMnemonicGenerated,
+  onBackupVerified,
+  isBackupVerified,
+  isLoading = false,
+}) => {
   const [generatedMnemonic, setGeneratedMnemonic] = useState<string | null>(
     null,
   );
   const [isGenerating, setIsGenerating] = useState(false);
+  const [isQuizVisible, setIsQuizVisible] = useState(false);
 
   const handleGenerateMnemonic = useCallback(async () => {
     setIsGenerating(true);
@@ -27,6 +37,7 @@ export const GeneratedMnemonicSection: React.FC<
 
       const newMnemonic = generateMnemonic();
       setGeneratedMnemonic(newMnemonic);
+      setIsQuizVisible(false);
       onMnemonicGenerated(newMnemonic);
     } catch (error) {
       console.error("Error generating mnemonic:", error);
@@ -40,6 +51,23 @@ export const GeneratedMnemonicSection: React.FC<
     }
   }, [onMnemonicGenerated]);
 
+  const handleBackupVerified = useCallback(() => {
+    setIsQuizVisible(false);
+    onBackupVerified();
+  }, [onBackupVerified]);
+
+  // The phrase stays hidden while the user answers from their written copy
+  if (generatedMnemonic && isQuizVisible) {
+    return (
+      <BackupVerificationQuiz
+        mnemonic={generatedMnemonic}
+        onVerified={handleBackupVerified}
+        onCancel={() => setIsQuizVisible(false)}
+        disabled={isLoading}
+      />
+    );
+  }
+
   return (
     <View style={styles.inputContainer}>
       <View
@@ -55,6 +83,8 @@ export const GeneratedMnemonicSection: React.FC<
           <CopyButton
             text={generatedMnemonic}
             label="Copy"
+            sensitivity="secret"
+            secretDescription="recovery phrase"
             variant="icon"
             size="small"
             disabled={isLoading}
@@ -95,14 +125,45 @@ export const GeneratedMnemonicSection: React.FC<
             style={[styles.description, { marginTop: 12, marginBottom: 0 }]}
           >
             Write these words down in order and keep them safe. You&apos;ll need
-            them to recover your account.
+            them to recover your account, and to verify your copy before the
+            account is created.
           </Text>
 
+          {isBackupVerified ? (
+            <View
+              style={{
+                flexDirection: "row",
+                alignItems: "center",
+                marginTop: 16,
+              }}
+            >
+              <Ionicons
+                name="checkmark-circle"
+                size={20}
+                color={colors.success}
+                style={{ marginRight: 8 }}
+              />
+              <Text style={[styles.description, { marginBottom: 0 }]}>
+                Backup verified
+              </Text>
+            </View>
+          ) : (
+            <ActionButton
+              text="I Wrote It Down"
+              onPress={() => setIsQuizVisible(true)}
+              disabled={isLoading}
+              style={{ marginTop: 16 }}
+              accessibilityLabel="Verify your written recovery phrase"
+              accessibilityHint="Asks for a few words of the phrase before the account can be created"
+            />
+          )}
+
           <ActionButton
             text="Generate New Words"
             onPress={handleGenerateMnemonic}
             isLoading={isGenerating}
             disabled={isLoading}
+            variant="secondary"
             style={{ marginTop: 16 }}
           />
         </View>
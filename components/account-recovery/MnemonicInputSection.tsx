@@ -1,6 +1,8 @@
-import React from "react";
+import React, { useState, useCallback } from "react";
 import { MnemonicInput } from "../common/MnemonicInput";
 import { ProgressIndicator } from "../common/ProgressIndicator";
+import { ActionButton } from "../common/ActionButton";
+import { MnemonicSharesInput } from "./MnemonicSharesInput";
 
 interface MnemonicInputSectionProps {
   mnemonic: string;
@@ -17,17 +19,48 @@ export const MnemonicInputSection: React.FC<MnemonicInputSectionProps> = ({
   onMnemonicChange,
   onMnemonicValidation,
 }) => {
+  const [useShares, setUseShares] = useState(false);
+
+  // The rebuilt phrase goes through the phrase input, so it is validated and
+  // derived exactly like a typed phrase
+  const handleMnemonicRebuilt = useCallback(
+    (rebuilt: string) => {
+      setUseShares(false);
+      onMnemonicChange(rebuilt);
+    },
+    [onMnemonicChange],
+  );
+
   return (
     <>
-      <MnemonicInput
-        label="Recovery Phrase"
-        value={mnemonic}
-        onChangeText={onMnemonicChange}
-        onValidationChange={onMnemonicValidation}
-        placeholder="Enter your 24-word recovery phrase..."
+      {useShares ? (
+        <MnemonicSharesInput
+          disabled={isLoading || isDeriving}
+          onMnemonicRebuilt={handleMnemonicRebuilt}
+        />
+      ) : (
+        <MnemonicInput
+          label="Recovery Phrase"
+          value={mnemonic}
+          onChangeText={onMnemonicChange}
+          onValidationChange={onMnemonicValidation}
+          placeholder="Enter your 24-word recovery phrase..."
+          disabled={isLoading || isDeriving}
+          showWordCount={true}
+          autoValidate={true}
+        />
+      )}
+
+      <ActionButton
+        text={
+          useShares ? "Enter Recovery Phrase Instead" : "Recover From Shares"
+        }
+        onPress={() => setUseShares((prev) => !prev)}
         disabled={isLoading || isDeriving}
-        showWordCount={true}
-        autoValidate={true}
+        variant="secondary"
+        size="small"
+        style={{ marginBottom: 16 }}
+        accessibilityHint="Switch between entering the recovery phrase and entering shares"
       />
 
       {isDeriving && (
@@ -0,0 +1,96 @@
+import React, { useState, useCallback } from "react";
+import { View, Text } from "react-native";
+import { styles } from "../../styles/styles";
+import { ActionButton } from "../common/ActionButton";
+import { FormInput } from "../common/FormInput";
+import {
+  combineMnemonicShares,
+  describeMnemonicShare,
+} from "../../util/mnemonic-shares";
+
+interface MnemonicSharesInputProps {
+  disabled?: boolean;
+  onMnemonicRebuilt: (mnemonic: string) => void;
+}
+
+/**
+ * Collects recovery phrase shares and rebuilds the phrase once enough valid
+ * shares have been entered
+ */
+export const MnemonicSharesInput: React.FC<MnemonicSharesInputProps> = ({
+  disabled = false,
+  onMnemonicRebuilt,
+}) => {
+  const [shares, setShares] = useState<string[]>(["", ""]);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateShare = useCallback((index: number, text: string) => {
+    setShares((prev) => prev.map((share, i) => (i === index ? text : share)));
+    setError(null);
+  }, []);
+
+  const handleCombine = useCallback(() => {
+    const result = combineMnemonicShares(shares);
+    if (!result.success || !result.mnemonic) {
+      setError(result.error ?? "Could not rebuild the recovery phrase");
+      return;
+    }
+
+    setShares(["", ""]);
+    onMnemonicRebuilt(result.mnemonic);
+  }, [shares, onMnemonicRebuilt]);
+
+  const threshold = shares
+    .map(describeMnemonicShare)
+    .find((share) => share !== null)?.threshold;
+
+  return (
+    <View style={styles.inputContainer}>
+      <Text style={styles.description}>
+        Enter your recovery phrase shares, one per field.
+        {threshold ? ` ${threshold} shares are needed.` : ""}
+      </Text>
+
+      {shares.map((share, i) => {
+        const description = share.trim() ? describeMnemonicShare(share) : null;
+        return (
+          <FormInput
+            key={i}
+            label={`Share ${i + 1}`}
+            value={share}
+            onChangeText={(text) => updateShare(i, text)}
+            placeholder="Enter share words..."
+            multiline={true}
+            autoCapitalize="none"
+            autoCorrect={false}
+            disabled={disabled}
+            error={
+              share.trim() && !description
+                ? "Invalid share. Check for typos or missing words."
+                : undefined
+            }
+          />
+        );
+      })}
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      <ActionButton
+        text="Add Another Share"
+        onPress={() => setShares((prev) => [...prev, ""])}
+        disabled={disabled}
+        variant="secondary"
+        size="small"
+        accessibilityHint="Add a field for another share"
+      />
+
+      <ActionButton
+        text="Rebuild Recovery Phrase"
+        onPress={handleCombine}
+        disabled={disabled || shares.filter((s) => s.trim()).length < 2}
+        style={{ marginTop: 10 }}
+        accessibilityHint="Combine the entered shares into the recovery phrase"
+      />
+    </View>
+  );
+};
@@ -0,0 +1,68 @@
+import React, { useState } from "react";
+import { View, Text } from "react-native";
+import { styles } from "../../styles/styles";
+import { ActionButton } from "../common/ActionButton";
+import { PassphraseInputField } from "../pin-input/PassphraseInputField";
+import { AccountMode } from "./types";
+
+interface PassphraseSectionProps {
+  passphrase: string;
+  mode: AccountMode;
+  disabled?: boolean;
+  onPassphraseChange: (passphrase: string) => void;
+}
+
+/**
+ * Optional BIP39 passphrase ("25th word") applied on top of the recovery
+ * phrase. Hidden behind a toggle since most accounts do not use one.
+ */
+export const PassphraseSection: React.FC<PassphraseSectionProps> = ({
+  passphrase,
+  mode,
+  disabled = false,
+  onPassphraseChange,
+}) => {
+  const [expanded, setExpanded] = useState(passphrase.length > 0);
+
+  if (!expanded) {
+    return (
+      <ActionButton
+        text="Use a Passphrase (Advanced)"
+        onPress={() => setExpanded(true)}
+        disabled={disabled}
+        variant="secondary"
+        size="small"
+        style={{ marginBottom: 16 }}
+        accessibilityHint="Add an optional passphrase to the recovery phrase"
+      />
+    );
+  }
+
+  return (
+    <View style={styles.inputContainer}>
+      <PassphraseInputField
+        label="Passphrase (optional)"
+        value={passphrase}
+        onChangeText={onPassphraseChange}
+        placeholder="Enter passphrase"
+        editable={!disabled}
+      />
+      <Text style={styles.description}>
+        {mode === "generate"
+          ? "The passphrase is needed together with the recovery words to restore this account. Without it, the recovery words lead to a different, empty account."
+          : "Enter the passphrase the account was created with. A different passphrase derives a different account."}
+      </Text>
+      <ActionButton
+        text="Remove Passphrase"
+        onPress={() => {
+          onPassphraseChange("");
+          setExpanded(false);
+        }}
+        disabled={disabled}
+        variant="secondary"
+        size="small"
+        accessibilityHint="Stop using a passphrase for this account"
+      />
+    </View>
+  );
+};
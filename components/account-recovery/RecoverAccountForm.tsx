@@ -8,6 +8,7 @@ import { GeneratedMnemonicSection } from "./GeneratedMnemonicSection";
 import { GeneratedAddressDisplay } from "./GeneratedAddressDisplay";
 import { ProfileSelectionSection } from "./ProfileSelectionSection";
 import { MnemonicInputSection } from "./MnemonicInputSection";
+import { PassphraseSection } from "./PassphraseSection";
 import { AddressVerificationSection } from "./AddressVerificationSection";
 import { RecoveryActionSection } from "./RecoveryActionSection";
 import { RecoveryModals } from "./RecoveryModals";
@@ -83,8 +84,10 @@ const RecoverAccountForm: React.FC<RecoverAccountFormProps> = ({
     (mode: AccountMode) => {
       actions.setMode(mode);
       actions.setMnemonic("");
+      actions.setPassphrase("");
       actions.setError(null);
       actions.setIsVerifiedMnemonic(false);
+      actions.setIsBackupVerified(false);
       actions.setDerivedAddress(null);
       actions.setChainAddress(null);
       actions.setAccountCreated(false);
@@ -96,16 +99,32 @@ const RecoverAccountForm: React.FC<RecoverAccountFormProps> = ({
     [actions],
   );
 
+  // Passphrase changes derive a different address, which must be verified again
+  const handlePassphraseChange = useCallback(
+    (passphrase: string) => {
+      actions.setPassphrase(passphrase);
+      actions.setChainAddress(null);
+      actions.setIsChainVerified(state.mode === "generate");
+    },
+    [actions, state.mode],
+  );
+
   // Generated mnemonic handler
   const handleMnemonicGenerated = useCallback(
     (mnemonic: string) => {
       actions.setMnemonic(mnemonic);
       actions.setIsVerifiedMnemonic(true);
+      actions.setIsBackupVerified(false);
       actions.setIsDeriving(true);
     },
     [actions],
   );
 
+  // Backup quiz passed for the generated mnemonic
+  const handleBackupVerified = useCallback(() => {
+    actions.setIsBackupVerified(true);
+  }, [actions]);
+
   return (
     <SectionContainer>
       <AccountModeSelection
@@ -136,10 +155,19 @@ const RecoverAccountForm: React.FC<RecoverAccountFormProps> = ({
       ) : (
         <GeneratedMnemonicSection
           onMnemonicGenerated={handleMnemonicGenerated}
+          onBackupVerified={handleBackupVerified}
+          isBackupVerified={state.isBackupVerified}
           isLoading={state.isLoading}
         />
       )}
 
+      <PassphraseSection
+        passphrase={state.passphrase}
+        mode={state.mode}
+        disabled={state.isLoading || state.accountCreated}
+        onPassphraseChange={handlePassphraseChange}
+      />
+
       {state.mode === "generate" && (
         <GeneratedAddressDisplay
           derivedAddress={state.derivedAddress}
@@ -162,6 +190,7 @@ const RecoverAccountForm: React.FC<RecoverAccountFormProps> = ({
         nickname={state.nickname}
         selectedProfile={state.selectedProfile}
         isChainVerified={state.isChainVerified}
+        isBackupVerified={state.isBackupVerified}
         isLoading={state.isLoading}
         canRecover={canRecover || false}
         canRetryMnemonicSave={canRetryMnemonicSave || false}
@@ -7,6 +7,7 @@ interface RecoveryActionSectionProps {
   nickname: string;
   selectedProfile: string;
   isChainVerified: boolean;
+  isBackupVerified: boolean;
   isLoading: boolean;
   canRecover: boolean;
   canRetryMnemonicSave?: boolean;
@@ -20,6 +21,7 @@ export const RecoveryActionSection: React.FC<RecoveryActionSectionProps> = ({
   nickname,
   selectedProfile,
   isChainVerified,
+  isBackupVerified,
   isLoading,
   canRecover,
   canRetryMnemonicSave = false,
@@ -32,6 +34,9 @@ export const RecoveryActionSection: React.FC<RecoveryActionSectionProps> = ({
     if (mode === "recover" && !isChainVerified) {
       return "Verify Chain First";
     }
+    if (mode === "generate" && !isBackupVerified) {
+      return "Verify Backup First";
+    }
     return mode === "recover" ? "Recover Account" : "Create Account";
   };
 
@@ -5,10 +5,12 @@ export type AccountMode = "recover" | "generate";
 export interface RecoveryState {
   mode: AccountMode;
   mnemonic: string;
+  passphrase: string;
   nickname: string;
   error: string | null;
   isLoading: boolean;
   isVerifiedMnemonic: boolean;
+  isBackupVerified: boolean;
   derivedAddress: AccountAddress | null;
   isChainVerified: boolean;
   chainAddress: AccountAddress | null;
@@ -24,10 +26,12 @@ export interface RecoveryState {
 export interface RecoveryActions {
   setMode: (mode: AccountMode) => void;
   setMnemonic: (mnemonic: string) => void;
+  setPassphrase: (passphrase: string) => void;
   setNickname: (nickname: string) => void;
   setError: (error: string | null) => void;
   setIsLoading: (loading: boolean) => void;
   setIsVerifiedMnemonic: (verified: boolean) => void;
+  setIsBackupVerified: (verified: boolean) => void;
   setDerivedAddress: (address: AccountAddress | null) => void;
   setIsChainVerified: (verified: boolean) => void;
   setChainAddress: (address: AccountAddress | null) => void;
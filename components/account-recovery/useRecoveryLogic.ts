@@ -1,8 +1,14 @@
 import { useEffect, useCallback } from "react";
-import { LibraWallet, Network } from "open-libra-sdk";
 import { createAccount } from "../../util/account-utils";
-import { getLibraClientUrl } from "../../util/libra-client";
-import { appConfig } from "../../util/app-config-store";
+import {
+  createWalletFromSecret,
+  encodeAccountSecret,
+} from "../../util/account-secret";
+import { getNetworkConfigForProfile } from "../../util/libra-client";
+import {
+  appConfig,
+  setAccountBackupVerified,
+} from "../../util/app-config-store";
 import { useSecureStorage } from "../../hooks/use-secure-storage";
 import { RecoveryState, RecoveryActions } from "./types";
 
@@ -49,14 +55,16 @@ export const useRecoveryLogic = (
         actions.setIsDeriving(true);
         actions.setError(null);
 
-        const clientUrl = getLibraClientUrl();
+        const { network, url } = getNetworkConfigForProfile(
+          state.selectedProfile,
+        );
 
         // Validate the mnemonic by creating a wallet
         // This should throw an error if the mnemonic is invalid
-        const wallet = LibraWallet.fromMnemonic(
-          state.mnemonic.trim(),
-          Network.MAINNET,
-          clientUrl,
+        const wallet = createWalletFromSecret(
+          { mnemonic: state.mnemonic, passphrase: state.passphrase },
+          network,
+          url,
         );
 
         const address = wallet.getAddress();
@@ -77,7 +85,19 @@ export const useRecoveryLogic = (
     };
 
     deriveAddress();
-  }, [state.isVerifiedMnemonic, state.mnemonic, actions]);
+  }, [
+    state.isVerifiedMnemonic,
+    state.mnemonic,
+    state.passphrase,
+    state.selectedProfile,
+    actions,
+  ]);
+
+  // Verify again on the network of a newly selected profile
+  useEffect(() => {
+    actions.setIsChainVerified(false);
+    actions.setChainAddress(null);
+  }, [state.selectedProfile, actions]);
 
   // Auto-verify on chain for recovery mode after address is derived
   useEffect(() => {
@@ -96,11 +116,13 @@ export const useRecoveryLogic = (
         // Call the verification logic directly
         const performAutoVerification = async () => {
           try {
-            const clientUrl = getLibraClientUrl();
-            const wallet = LibraWallet.fromMnemonic(
-              state.mnemonic.trim(),
-              Network.MAINNET,
-              clientUrl,
+            const { network, url } = getNetworkConfigForProfile(
+              state.selectedProfile,
+            );
+            const wallet = createWalletFromSecret(
+              { mnemonic: state.mnemonic, passphrase: state.passphrase },
+              network,
+              url,
             );
 
             const walletAddress = wallet.getAddress();
@@ -155,6 +177,8 @@ export const useRecoveryLogic = (
     state.isVerifyingChain,
     state.isVerifiedMnemonic,
     state.mnemonic,
+    state.passphrase,
+    state.selectedProfile,
     actions,
   ]);
 
@@ -232,12 +256,14 @@ export const useRecoveryLogic = (
     }
 
     try {
-      const clientUrl = getLibraClientUrl();
+      const { network, url } = getNetworkConfigForProfile(
+        state.selectedProfile,
+      );
       // First validate that the mnemonic can create a wallet
-      const wallet = LibraWallet.fromMnemonic(
-        state.mnemonic.trim(),
-        Network.MAINNET,
-        clientUrl,
+      const wallet = createWalletFromSecret(
+        { mnemonic: state.mnemonic, passphrase: state.passphrase },
+        network,
+        url,
       );
 
       // Get the address from the wallet to verify it matches our derived address
@@ -282,7 +308,13 @@ export const useRecoveryLogic = (
     } finally {
       actions.setIsVerifyingChain(false);
     }
-  }, [state.derivedAddress, state.mnemonic, actions]);
+  }, [
+    state.derivedAddress,
+    state.mnemonic,
+    state.passphrase,
+    state.selectedProfile,
+    actions,
+  ]);
 
   const handleRecoverAccount = useCallback(async () => {
     const addressToUse = state.chainAddress || state.derivedAddress;
@@ -307,6 +339,10 @@ export const useRecoveryLogic = (
 
       if (result.success && result.account) {
         console.log("Account created successfully:", result.account.id);
+        // Generated phrases passed the backup quiz, recovered ones were
+        // typed in from the user's copy
+        setAccountBackupVerified(result.account.id, true);
+
         // Store the created account ID
         actions.setCreatedAccountId(result.account.id);
         actions.setAccountCreated(true);
@@ -317,7 +353,13 @@ export const useRecoveryLogic = (
 
           // Show PIN modal immediately - the mnemonic has already been validated
           // The PIN modal will be shown by the secure storage hook
-          secureStorage.handleSaveWithValue(result.account.id, state.mnemonic);
+          secureStorage.handleSaveWithValue(
+            result.account.id,
+            encodeAccountSecret({
+              mnemonic: state.mnemonic,
+              passphrase: state.passphrase,
+            }),
+          );
         } else {
           console.log("No mnemonic to save, showing success immediately");
           // If no mnemonic to save, show success immediately
@@ -340,6 +382,7 @@ export const useRecoveryLogic = (
     state.selectedProfile,
     state.nickname,
     state.mnemonic,
+    state.passphrase,
     state.mode,
     state.saveInitiated,
     actions,
@@ -351,9 +394,11 @@ export const useRecoveryLogic = (
 
   const resetForm = useCallback(() => {
     actions.setMnemonic("");
+    actions.setPassphrase("");
     actions.setNickname("");
     actions.setError(null);
     actions.setIsVerifiedMnemonic(false);
+    actions.setIsBackupVerified(false);
     actions.setDerivedAddress(null);
     actions.setIsChainVerified(false);
     actions.setChainAddress(null);
@@ -379,14 +424,28 @@ export const useRecoveryLogic = (
       );
       actions.setSaveInitiated(true);
       actions.setError(null);
-      secureStorage.handleSaveWithValue(state.createdAccountId, state.mnemonic);
+      secureStorage.handleSaveWithValue(
+        state.createdAccountId,
+        encodeAccountSecret({
+          mnemonic: state.mnemonic,
+          passphrase: state.passphrase,
+        }),
+      );
     }
-  }, [state.createdAccountId, state.mnemonic, actions, secureStorage]);
+  }, [
+    state.createdAccountId,
+    state.mnemonic,
+    state.passphrase,
+    actions,
+    secureStorage,
+  ]);
 
   const canRecover =
     state.isVerifiedMnemonic &&
     state.derivedAddress &&
-    (state.mode === "generate" || state.isChainVerified) &&
+    (state.mode === "generate"
+      ? state.isBackupVerified
+      : state.isChainVerified) &&
     !state.isLoading &&
     !state.isVerifyingChain &&
     !state.isDeriving &&
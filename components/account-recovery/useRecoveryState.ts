@@ -1,12 +1,13 @@
 import { useState, useMemo } from "react";
 import { AccountAddress } from "open-libra-sdk";
 import { appConfig, getProfileForAccount } from "../../util/app-config-store";
+import { getVisibleProfiles } from "../../util/duress";
 import { useSecureStorage } from "../../hooks/use-secure-storage";
 import { RecoveryState, RecoveryActions, AccountMode } from "./types";
 
 export const useRecoveryState = () => {
   // Get all available profiles - memoized to prevent recalculation on every render
-  const profileNames = useMemo(() => Object.keys(appConfig.profiles.get()), []);
+  const profileNames = useMemo(() => Object.keys(getVisibleProfiles()), []);
   const activeAccountId = useMemo(() => appConfig.activeAccountId.get(), []);
   const activeProfileName = useMemo(
     () => (activeAccountId ? getProfileForAccount(activeAccountId) : null),
@@ -17,10 +18,12 @@ export const useRecoveryState = () => {
   const [state, setState] = useState<RecoveryState>(() => ({
     mode: "recover",
     mnemonic: "",
+    passphrase: "",
     nickname: "",
     error: null,
     isLoading: false,
     isVerifiedMnemonic: false,
+    isBackupVerified: false,
     derivedAddress: null,
     isChainVerified: false,
     chainAddress: null,
@@ -47,6 +50,8 @@ export const useRecoveryState = () => {
       setMode: (mode: AccountMode) => setState((prev) => ({ ...prev, mode })),
       setMnemonic: (mnemonic: string) =>
         setState((prev) => ({ ...prev, mnemonic })),
+      setPassphrase: (passphrase: string) =>
+        setState((prev) => ({ ...prev, passphrase })),
       setNickname: (nickname: string) =>
         setState((prev) => ({ ...prev, nickname })),
       setError: (error: string | null) =>
@@ -55,6 +60,8 @@ export const useRecoveryState = () => {
         setState((prev) => ({ ...prev, isLoading })),
       setIsVerifiedMnemonic: (isVerifiedMnemonic: boolean) =>
         setState((prev) => ({ ...prev, isVerifiedMnemonic })),
+      setIsBackupVerified: (isBackupVerified: boolean) =>
+        setState((prev) => ({ ...prev, isBackupVerified })),
       setDerivedAddress: (derivedAddress: AccountAddress | null) =>
         setState((prev) => ({ ...prev, derivedAddress })),
       setIsChainVerified: (isChainVerified: boolean) =>
@@ -1,12 +1,19 @@
-import React from "react";
+import React, { useCallback, useEffect, useState } from "react";
 import { View, Text, StyleSheet } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import { ActionButton } from "../common/ActionButton";
+import { PinInputModal } from "../pin-input/PinInputModal";
 import { colors } from "../../styles/styles";
+import { getCredentialLabel } from "../../util/pin-security";
+import { useCredentialType } from "../../hooks/use-credential-type";
 
 interface AuthenticationViewProps {
   isLoading?: boolean;
   onAuthenticate: () => void;
+  // "pin" asks for the app PIN instead of device authentication
+  mode?: "device" | "pin";
+  // Checks the app PIN in "pin" mode, resolving to true once unlocked
+  onPinSubmit?: (pin: string) => Promise<boolean>;
   title?: string;
   subtitle?: string;
   buttonText?: string;
@@ -19,10 +26,37 @@ interface AuthenticationViewProps {
 export function AuthenticationView({
   isLoading = false,
   onAuthenticate,
+  mode = "device",
+  onPinSubmit,
   title = "Authentication Required",
-  subtitle = "Please authenticate to access your wallet.",
+  subtitle,
   buttonText = "Authenticate",
 }: AuthenticationViewProps) {
+  const isPinMode = mode === "pin";
+  const label = getCredentialLabel(useCredentialType(isPinMode));
+  // The PIN prompt opens right away, like the device authentication prompt
+  const [pinModalVisible, setPinModalVisible] = useState(isPinMode);
+
+  // The mode can change while the view is shown: it is resolved after the
+  // lock screen appears, and falls back to the PIN if device authentication
+  // fails
+  useEffect(() => {
+    setPinModalVisible(isPinMode);
+  }, [isPinMode]);
+
+  const handleAuthenticate = useCallback(() => {
+    if (isPinMode) {
+      setPinModalVisible(true);
+    } else {
+      onAuthenticate();
+    }
+  }, [isPinMode, onAuthenticate]);
+
+  const handlePinAction = useCallback(
+    async (pin: string) => (onPinSubmit ? onPinSubmit(pin) : false),
+    [onPinSubmit],
+  );
+
   if (isLoading) {
     return (
       <View style={styles.container}>
@@ -37,34 +71,66 @@ export function AuthenticationView({
     <View style={styles.container}>
       <View style={styles.content}>
         <View style={styles.iconContainer}>
-          <Ionicons name="lock-closed" size={32} color={colors.primary} />
+          <Ionicons
+            name={isPinMode ? "keypad" : "lock-closed"}
+            size={32}
+            color={colors.primary}
+          />
         </View>
 
         <Text style={styles.title}>{title}</Text>
-        <Text style={styles.subtitle}>{subtitle}</Text>
+        <Text style={styles.subtitle}>
+          {subtitle ??
+            (isPinMode
+              ? `Enter your app ${label} to access your wallet.`
+              : "Please authenticate to access your wallet.")}
+        </Text>
 
         <View style={styles.infoContainer}>
-          <Text style={styles.infoText}>
-            Your wallet is protected by your device&apos;s security features.
-            {"\n\n"}
-            This authentication is separate from your wallet PIN and provides an
-            additional layer of security.
-          </Text>
+          {isPinMode ? (
+            <Text style={styles.infoText}>
+              Your wallet is protected by your app {label}.{"\n\n"}
+              Repeated wrong entries lock {label} entry for a while, as they do
+              everywhere else in the app.
+            </Text>
+          ) : (
+            <Text style={styles.infoText}>
+              Your wallet is protected by your device&apos;s security features.
+              {"\n\n"}
+              This authentication is separate from your wallet PIN and provides
+              an additional layer of security.
+            </Text>
+          )}
         </View>
 
         <ActionButton
-          text={buttonText}
+          text={isPinMode ? `Enter ${label}` : buttonText}
           variant="auth"
-          onPress={onAuthenticate}
-          accessibilityLabel="Authenticate with device security"
+          onPress={handleAuthenticate}
+          accessibilityLabel={
+            isPinMode
+              ? `Unlock with your app ${label}`
+              : "Authenticate with device security"
+          }
           style={styles.authButton}
         />
 
-        <Text style={styles.footerText}>
-          If authentication fails, please check your device&apos;s security
-          settings.
-        </Text>
+        {!isPinMode && (
+          <Text style={styles.footerText}>
+            If authentication fails, please check your device&apos;s security
+            settings.
+          </Text>
+        )}
       </View>
+
+      {isPinMode && (
+        <PinInputModal
+          visible={pinModalVisible}
+          onClose={() => setPinModalVisible(false)}
+          purpose="unlock_app"
+          onPinAction={handlePinAction}
+        />
+      )}
     </View>
   );
 }
@@ -0,0 +1,127 @@
+import React, { useState, useCallback } from "react";
+import { Text, Share } from "react-native";
+import { styles } from "../../styles/styles";
+import { SectionContainer } from "../common/SectionContainer";
+import { ActionButton } from "../common/ActionButton";
+import { PassphraseInputField } from "../pin-input/PassphraseInputField";
+import { PinInputModal } from "../pin-input/PinInputModal";
+import { useModal } from "../../context/ModalContext";
+import { MIN_PASSPHRASE_LENGTH } from "../../util/pin-security";
+import {
+  estimatePassphraseStrength,
+  MIN_ACCEPTABLE_STRENGTH,
+} from "../../util/passphrase-strength";
+import { createWalletBackup } from "../../util/wallet-backup";
+
+/**
+ * Exports all profiles, settings and stored secrets as a file encrypted with
+ * a backup passphrase, shared through the system share sheet
+ */
+export const BackupExportSection: React.FC = () => {
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [pinModalVisible, setPinModalVisible] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const { showAlert } = useModal();
+
+  const handleExport = useCallback(() => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(
+        `Backup passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`,
+      );
+      return;
+    }
+
+    if (
+      estimatePassphraseStrength(passphrase).score < MIN_ACCEPTABLE_STRENGTH
+    ) {
+      setError("Backup passphrase is too weak");
+      return;
+    }
+
+    if (passphrase !== confirmPassphrase) {
+      setError("Backup passphrases do not match");
+      return;
+    }
+
+    setError(null);
+    setPinModalVisible(true);
+  }, [passphrase, confirmPassphrase]);
+
+  const handlePinAction = useCallback(
+    async (pin: string): Promise<boolean> => {
+      setIsExporting(true);
+      try {
+        const result = await createWalletBackup(pin, passphrase);
+        if (!result.success || !result.backup) {
+          if (result.error === "Incorrect PIN") {
+            return false;
+          }
+          setPinModalVisible(false);
+          showAlert("Backup Failed", result.error ?? "Unknown error");
+          return true;
+        }
+
+        setPinModalVisible(false);
+        await Share.share({
+          title: "Carpe wallet backup",
+          message: result.backup,
+        });
+
+        setPassphrase("");
+        setConfirmPassphrase("");
+        return true;
+      } catch (shareError) {
+        console.error("Error sharing wallet backup:", shareError);
+        showAlert("Backup Failed", "Could not open the share sheet");
+        return true;
+      } finally {
+        setIsExporting(false);
+      }
+    },
+    [passphrase, showAlert],
+  );
+
+  return (
+    <SectionContainer title="Export Backup">
+      <Text style={styles.description}>
+        Creates a backup file with all profiles, settings and stored recovery
+        phrases, encrypted with a backup passphrase. Store the file and the
+        passphrase separately. Anyone with both can access your accounts.
+      </Text>
+
+      <PassphraseInputField
+        label="Backup passphrase:"
+        value={passphrase}
+        onChangeText={setPassphrase}
+        showStrength={true}
+      />
+
+      <PassphraseInputField
+        label="Confirm backup passphrase:"
+        value={confirmPassphrase}
+        onChangeText={setConfirmPassphrase}
+      />
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      <ActionButton
+        text="Export Backup"
+        onPress={handleExport}
+        isLoading={isExporting}
+        disabled={isExporting || !passphrase}
+        accessibilityHint="Encrypt a wallet backup and open the share sheet"
+      />
+
+      <PinInputModal
+        visible={pinModalVisible}
+        onClose={() => setPinModalVisible(false)}
+        purpose="retrieve"
+        onPinAction={handlePinAction}
+        actionTitle="Export Backup"
+        actionSubtitle="Enter your PIN to decrypt your stored secrets for the backup."
+      />
+    </SectionContainer>
+  );
+};
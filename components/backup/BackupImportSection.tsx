@@ -0,0 +1,189 @@
+import React, { useState, useCallback } from "react";
+import { View, Text } from "react-native";
+import { styles } from "../../styles/styles";
+import { SectionContainer } from "../common/SectionContainer";
+import { ActionButton } from "../common/ActionButton";
+import { FormInput } from "../common/FormInput";
+import { PassphraseInputField } from "../pin-input/PassphraseInputField";
+import { PinInputModal } from "../pin-input/PinInputModal";
+import { useModal } from "../../context/ModalContext";
+import {
+  decryptWalletBackup,
+  importWalletBackup,
+  previewWalletBackupImport,
+  type BackupImportPreview,
+  type WalletBackupContents,
+} from "../../util/wallet-backup";
+
+const STATUS_LABELS = {
+  new: "new profile",
+  merge: "merge into existing profile",
+  conflict: "skipped",
+};
+
+interface BackupImportSectionProps {
+  onComplete?: () => void;
+}
+
+/**
+ * Restores a wallet backup: decrypts the pasted file, previews what will be
+ * added or skipped, then imports it under the device PIN
+ */
+export const BackupImportSection: React.FC<BackupImportSectionProps> = ({
+  onComplete,
+}) => {
+  const [backupText, setBackupText] = useState("");
+  const [passphrase, setPassphrase] = useState("");
+  const [contents, setContents] = useState<WalletBackupContents | null>(null);
+  const [preview, setPreview] = useState<BackupImportPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [pinModalVisible, setPinModalVisible] = useState(false);
+  const { showAlert } = useModal();
+
+  const resetImport = useCallback(() => {
+    setContents(null);
+    setPreview(null);
+    setError(null);
+  }, []);
+
+  const handleDecrypt = useCallback(async () => {
+    setIsDecrypting(true);
+    resetImport();
+    try {
+      const result = await decryptWalletBackup(backupText, passphrase);
+      if (!result.success || !result.contents) {
+        setError(result.error ?? "Could not read the backup");
+        return;
+      }
+
+      setContents(result.contents);
+      setPreview(previewWalletBackupImport(result.contents));
+    } finally {
+      setIsDecrypting(false);
+    }
+  }, [backupText, passphrase, resetImport]);
+
+  const handlePinAction = useCallback(
+    async (pin: string): Promise<boolean> => {
+      if (!contents) {
+        return true;
+      }
+
+      const result = await importWalletBackup(contents, pin);
+      if (!result.success) {
+        if (result.error === "Incorrect PIN") {
+          return false;
+        }
+        setPinModalVisible(false);
+        showAlert("Import Failed", result.error ?? "Unknown error");
+        return true;
+      }
+
+      setPinModalVisible(false);
+      setBackupText("");
+      setPassphrase("");
+      resetImport();
+
+      const summary = `Imported ${result.importedAccounts} account(s).`;
+      showAlert(
+        "Backup Imported",
+        result.conflicts.length > 0
+          ? `${summary}\n\nSkipped:\n${result.conflicts.join("\n")}`
+          : summary,
+      );
+      onComplete?.();
+      return true;
+    },
+    [contents, resetImport, showAlert, onComplete],
+  );
+
+  return (
+    <SectionContainer title="Import Backup">
+      <Text style={styles.description}>
+        Paste the contents of a wallet backup file and enter its backup
+        passphrase. Existing profiles and accounts are kept. Addresses that
+        already exist are skipped.
+      </Text>
+
+      <FormInput
+        label="Backup file:"
+        value={backupText}
+        onChangeText={(text) => {
+          setBackupText(text);
+          resetImport();
+        }}
+        placeholder="Paste backup file contents"
+        multiline={true}
+        numberOfLines={4}
+        autoCapitalize="none"
+        autoCorrect={false}
+      />
+
+      <PassphraseInputField
+        label="Backup passphrase:"
+        value={passphrase}
+        onChangeText={(text) => {
+          setPassphrase(text);
+          resetImport();
+        }}
+      />
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      {!preview && (
+        <ActionButton
+          text="Open Backup"
+          onPress={handleDecrypt}
+          isLoading={isDecrypting}
+          disabled={isDecrypting || !backupText || !passphrase}
+          accessibilityHint="Decrypt the backup and preview its contents"
+        />
+      )}
+
+      {preview && contents && (
+        <View>
+          <Text style={styles.resultLabel}>
+            Backup from {new Date(contents.createdAt).toLocaleString()}
+          </Text>
+          {preview.profiles.map((profile) => (
+            <View key={profile.name} style={styles.listItem}>
+              <Text style={styles.resultLabel}>
+                {profile.name} ({profile.networkName}) –{" "}
+                {STATUS_LABELS[profile.status]}
+              </Text>
+              {profile.conflict && (
+                <Text style={styles.errorText}>{profile.conflict}</Text>
+              )}
+              {profile.accounts.map((account) => (
+                <Text key={account.id} style={styles.resultValue}>
+                  {account.nickname || account.address}
+                  {account.hasSecret ? " (signing)" : " (view-only)"}
+                  {!profile.conflict && account.conflict
+                    ? ` – skipped: ${account.conflict}`
+                    : ""}
+                </Text>
+              ))}
+            </View>
+          ))}
+
+          <ActionButton
+            text={`Import ${preview.newAccountCount} Account(s)`}
+            onPress={() => setPinModalVisible(true)}
+            disabled={preview.newAccountCount === 0}
+            accessibilityHint="Import the backup into this wallet"
+          />
+        </View>
+      )}
+
+      <PinInputModal
+        visible={pinModalVisible}
+        onClose={() => setPinModalVisible(false)}
+        purpose="save"
+        onPinAction={handlePinAction}
+        actionTitle="Import Backup"
+        actionSubtitle="Enter your PIN to encrypt the imported secrets on this device."
+      />
+    </SectionContainer>
+  );
+};
@@ -0,0 +1,29 @@
+import React from "react";
+import { ScrollView } from "react-native";
+import { observer } from "@legendapp/state/react";
+import { styles } from "../../styles/styles";
+import { BackupExportSection } from "./BackupExportSection";
+import { BackupImportSection } from "./BackupImportSection";
+import { isDuressModeActive } from "../../util/duress";
+
+/**
+ * Backup & restore screen: export an encrypted wallet backup or import one
+ */
+export const WalletBackupView: React.FC = observer(() => {
+  // Imported secrets would end up encrypted with the duress PIN outside the
+  // decoy profile, so import is unavailable in duress mode
+  const duressActive = isDuressModeActive();
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.scrollContent}
+      keyboardShouldPersistTaps="handled"
+    >
+      <BackupExportSection />
+      {!duressActive && <BackupImportSection />}
+    </ScrollView>
+  );
+});
+
+WalletBackupView.displayName = "WalletBackupView";
@@ -1,12 +1,20 @@
 import React, { memo, useState } from "react";
 import { TouchableOpacity, Text, Alert } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
-import * as Clipboard from "expo-clipboard";
 import { styles, colors } from "../../styles/styles";
+import {
+  copyToClipboard,
+  getClipboardClearSeconds,
+  type CopySensitivity,
+} from "../../util/clipboard";
 
 interface CopyButtonProps {
   text: string;
   label?: string;
+  // "secret" warns before copying and clears the clipboard afterwards
+  sensitivity?: CopySensitivity;
+  // What a secret is, for the warning and the log (e.g. "recovery phrase")
+  secretDescription?: string;
   variant?: "primary" | "secondary" | "icon";
   size?: "small" | "medium";
   disabled?: boolean;
@@ -20,6 +28,8 @@ export const CopyButton = memo(
   ({
     text,
     label = "Copy",
+    sensitivity = "public",
+    secretDescription = "secret",
     variant = "secondary",
     size = "medium",
     disabled = false,
@@ -29,12 +39,10 @@ export const CopyButton = memo(
     accessibilityHint,
   }: CopyButtonProps) => {
     const [isCopying, setIsCopying] = useState(false);
-    const handleCopy = async () => {
-      if (disabled || isCopying) return;
-
+    const copy = async () => {
       setIsCopying(true);
       try {
-        await Clipboard.setStringAsync(text);
+        await copyToClipboard(text, sensitivity, secretDescription);
 
         if (onCopySuccess) {
           onCopySuccess();
@@ -53,6 +61,24 @@ export const CopyButton = memo(
       }
     };
 
+    const handleCopy = () => {
+      if (disabled || isCopying) return;
+
+      if (sensitivity !== "secret") {
+        copy();
+        return;
+      }
+
+      Alert.alert(
+        "Copy Secret?",
+        `Anyone with your ${secretDescription} can take your funds. Other apps can read the clipboard, and it may sync to your other devices. It will be cleared after ${getClipboardClearSeconds()} seconds.`,
+        [
+          { text: "Cancel", style: "cancel" },
+          { text: "Copy Anyway", style: "destructive", onPress: copy },
+        ],
+      );
+    };
+
     const getButtonStyle = () => {
       switch (variant) {
         case "primary":
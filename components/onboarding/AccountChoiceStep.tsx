@@ -6,7 +6,7 @@ import { SectionContainer } from "../common/SectionContainer";
 import { ActionButton } from "../common/ActionButton";
 
 interface AccountChoiceStepProps {
-  onAccountChoice: (choice: "create" | "recover") => void;
+  onAccountChoice: (choice: "create" | "recover" | "restore") => void;
   onResetApp: () => void;
 }
 
@@ -15,11 +15,11 @@ export const AccountChoiceStep: React.FC<AccountChoiceStepProps> = ({
   onResetApp,
 }) => {
   const [selectedChoice, setSelectedChoice] = useState<
-    "create" | "recover" | null
+    "create" | "recover" | "restore" | null
   >(null);
 
   const renderChoiceOption = (
-    choice: "create" | "recover",
+    choice: "create" | "recover" | "restore",
     title: string,
     description: string,
     icon: string,
@@ -110,6 +110,13 @@ export const AccountChoiceStep: React.FC<AccountChoiceStepProps> = ({
         "eye-outline",
       )}
 
+      {renderChoiceOption(
+        "restore",
+        "Restore From Backup",
+        "Import profiles and accounts from an encrypted wallet backup",
+        "cloud-download-outline",
+      )}
+
       <Text
         style={[
           styles.resultValue,
@@ -4,9 +4,10 @@ import { Ionicons } from "@expo/vector-icons";
 import { colors } from "../../styles/styles";
 import AddAccountForm from "../profile/AddAccountForm";
 import RecoverAccountForm from "../account-recovery/RecoverAccountForm";
+import { BackupImportSection } from "../backup/BackupImportSection";
 
 interface AccountSetupStepProps {
-  accountChoice: "create" | "recover" | null;
+  accountChoice: "create" | "recover" | "restore" | null;
   onBackToChoice: () => void;
   onComplete: () => void;
 }
@@ -50,6 +51,10 @@ export const AccountSetupStep: React.FC<AccountSetupStepProps> = ({
           onComplete={onComplete}
         />
       )}
+
+      {accountChoice === "restore" && (
+        <BackupImportSection onComplete={onComplete} />
+      )}
     </View>
   );
 };
@@ -20,7 +20,7 @@ import { AccountSetupStep } from "./AccountSetupStep";
 export const OnboardingWizard: React.FC = observer(() => {
   const [pinCreationVisible, setPinCreationVisible] = useState(false);
   const [accountChoice, setAccountChoice] = useState<
-    "create" | "recover" | null
+    "create" | "recover" | "restore" | null
   >(null);
   const [isLoading, setIsLoading] = useState(true);
   const [hasPin, setHasPin] = useState(false);
@@ -0,0 +1,53 @@
+import React, { memo, forwardRef } from "react";
+import { TextInputProps, TextInput } from "react-native";
+import { PinInputField } from "./PinInputField";
+import { PassphraseInputField } from "./PassphraseInputField";
+import type { CredentialType } from "../../util/pin-security";
+
+interface CredentialInputFieldProps extends Omit<
+  TextInputProps,
+  "onChangeText"
+> {
+  credentialType: CredentialType;
+  label: string;
+  value: string;
+  onChangeText: (text: string) => void;
+  placeholder?: string;
+  error?: string;
+  autoFocus?: boolean;
+  onSubmit?: () => void;
+  clearOnSubmit?: boolean;
+  showStrength?: boolean;
+}
+
+/**
+ * Renders a PIN or passphrase input depending on the credential type in use
+ */
+export const CredentialInputField = memo(
+  forwardRef<TextInput, CredentialInputFieldProps>(
+    ({ credentialType, placeholder, showStrength, ...rest }, ref) => {
+      // PIN placeholders ("******") don't fit a passphrase, so the
+      // passphrase field always uses its own placeholder
+      if (credentialType === "passphrase") {
+        return (
+          <PassphraseInputField
+            showStrength={showStrength}
+            ref={ref}
+            {...rest}
+          />
+        );
+      }
+
+      return (
+        <PinInputField
+          placeholder={placeholder}
+          maxLength={6}
+          ref={ref}
+          {...rest}
+        />
+      );
+    },
+  ),
+);
+
+CredentialInputField.displayName = "CredentialInputField";
@@ -0,0 +1,113 @@
+import React, { memo, forwardRef } from "react";
+import { TextInputProps, TextInput, View, Text } from "react-native";
+import { FormInput } from "../common/FormInput";
+import { styles, namedColors } from "../../styles/styles";
+import { estimatePassphraseStrength } from "../../util/passphrase-strength";
+
+interface PassphraseInputFieldProps extends Omit<
+  TextInputProps,
+  "onChangeText"
+> {
+  label: string;
+  value: string;
+  onChangeText: (text: string) => void;
+  placeholder?: string;
+  error?: string;
+  autoFocus?: boolean;
+  onSubmit?: () => void;
+  clearOnSubmit?: boolean;
+  showStrength?: boolean;
+}
+
+const STRENGTH_COLORS = [
+  namedColors.red,
+  namedColors.red,
+  namedColors.lightGray,
+  namedColors.green,
+  namedColors.green,
+];
+
+/**
+ * An input field for alphanumeric passphrase entry, with an optional
+ * strength meter for use when the passphrase is being created
+ */
+export const PassphraseInputField = memo(
+  forwardRef<TextInput, PassphraseInputFieldProps>(
+    (
+      {
+        label,
+        value,
+        onChangeText,
+        placeholder = "Enter passphrase",
+        error,
+        autoFocus = false,
+        onSubmit,
+        clearOnSubmit = false,
+        showStrength = false,
+        ...rest
+      },
+      ref,
+    ) => {
+      const handleSubmitEditing = () => {
+        if (onSubmit) {
+          onSubmit();
+
+          // Clear passphrase after submission if requested
+          if (clearOnSubmit) {
+            onChangeText("");
+          }
+        }
+      };
+
+      const strength =
+        showStrength && value ? estimatePassphraseStrength(value) : null;
+
+      return (
+        <View>
+          <FormInput
+            label={label}
+            value={value}
+            onChangeText={onChangeText}
+            placeholder={placeholder}
+            error={error}
+            secureTextEntry={true}
+            autoCapitalize="none"
+            autoCorrect={false}
+            maxLength={128}
+            autoFocus={autoFocus}
+            onSubmitEditing={handleSubmitEditing}
+            ref={ref}
+            {...rest}
+          />
+          {strength && (
+            <View style={{ marginTop: -8, marginBottom: 12 }}>
+              <View style={{ flexDirection: "row", marginBottom: 4 }}>
+                {[0, 1, 2, 3].map((segment) => (
+                  <View
+                    key={segment}
+                    style={{
+                      flex: 1,
+                      height: 4,
+                      marginRight: segment < 3 ? 4 : 0,
+                      borderRadius: 2,
+                      backgroundColor:
+                        segment < strength.score
+                          ? STRENGTH_COLORS[strength.score]
+                          : namedColors.mediumGray,
+                    }}
+                  />
+                ))}
+              </View>
+              <Text style={[styles.description, { fontSize: 12 }]}>
+                Strength: {strength.label}
+                {strength.feedback ? ` — ${strength.feedback}` : ""}
+              </Text>
+            </View>
+          )}
+        </View>
+      );
+    },
+  ),
+);
+
+PassphraseInputField.displayName = "PassphraseInputField";
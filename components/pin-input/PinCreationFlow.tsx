@@ -3,11 +3,23 @@ import React, { memo, useState, useCallback } from "react";
 import { Modal, View, Text } from "react-native";
 import { styles } from "../../styles/styles";
 import { ActionButton } from "../common/ActionButton";
-import { PinInputField } from "./PinInputField";
-import { hashPin, validatePin } from "../../util/pin-security";
+import { CredentialInputField } from "./CredentialInputField";
+import {
+  hashPin,
+  validateCredential,
+  getCredentialLabel,
+  MIN_PASSPHRASE_LENGTH,
+  type CredentialType,
+} from "../../util/pin-security";
+import {
+  estimatePassphraseStrength,
+  MIN_ACCEPTABLE_STRENGTH,
+} from "../../util/passphrase-strength";
 import { saveValue } from "../../util/secure-store";
+import { ensureKdfCalibrated } from "../../util/kdf";
 import { useModal } from "../../context/ModalContext";
 import { refreshSetupStatus } from "../../util/setup-state";
+import { recordAuditEvent } from "../../util/security-audit";
 
 interface PinCreationFlowProps {
   visible: boolean;
@@ -19,6 +31,7 @@ interface PinCreationFlowProps {
 export const PinCreationFlow: React.FC<PinCreationFlowProps> = memo(
   ({ visible, onComplete, onCancel, showSuccessAlert = true }) => {
     const [step, setStep] = useState<"create" | "confirm">("create");
+    const [credentialType, setCredentialType] = useState<CredentialType>("pin");
     const [pin, setPin] = useState("");
     const [confirmPin, setConfirmPin] = useState("");
     const [error, setError] = useState<string | null>(null);
@@ -29,6 +42,7 @@ export const PinCreationFlow: React.FC<PinCreationFlowProps> = memo(
     // Reset state when modal closes
     const resetState = useCallback(() => {
       setStep("create");
+      setCredentialType("pin");
       setPin("");
       setConfirmPin("");
       setError(null);
@@ -50,18 +64,53 @@ export const PinCreationFlow: React.FC<PinCreationFlowProps> = memo(
       setError(null);
     }, []);
 
+    const handleToggleCredentialType = useCallback(() => {
+      setCredentialType((current) =>
+        current === "pin" ? "passphrase" : "pin",
+      );
+      setPin("");
+      setConfirmPin("");
+      setError(null);
+    }, []);
+
     const validateAndProceed = useCallback(() => {
-      if (!validatePin(pin)) {
-        setError("PIN must be exactly 6 digits");
+      if (!validateCredential(pin, credentialType)) {
+        setError(
+          credentialType === "passphrase"
+            ? `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`
+            : "PIN must be exactly 6 digits",
+        );
+        return;
+      }
+
+      if (
+        credentialType === "passphrase" &&
+        estimatePassphraseStrength(pin).score < MIN_ACCEPTABLE_STRENGTH
+      ) {
+        setError("Passphrase is too weak. Please choose a stronger one.");
         return;
       }
 
       setStep("confirm");
-    }, [pin]);
+    }, [pin, credentialType]);
+
+    const label = getCredentialLabel(credentialType);
+    const isPinComplete =
+      credentialType === "passphrase"
+        ? pin.length >= MIN_PASSPHRASE_LENGTH
+        : pin.length === 6;
+    const isConfirmComplete =
+      credentialType === "passphrase"
+        ? confirmPin.length >= MIN_PASSPHRASE_LENGTH
+        : confirmPin.length === 6;
 
     const createPin = useCallback(async () => {
       if (pin !== confirmPin) {
-        setError("PINs do not match. Please try again.");
+        setError(
+          credentialType === "passphrase"
+            ? "Passphrases do not match. Please try again."
+            : "PINs do not match. Please try again.",
+        );
         return;
       }
 
@@ -69,9 +118,13 @@ export const PinCreationFlow: React.FC<PinCreationFlowProps> = memo(
         setIsCreating(true);
         setError(null);
 
+        // Pick KDF costs for this device before the first PIN hash
+        await ensureKdfCalibrated();
+
         // Hash the PIN and store it
-        const hashedPin = await hashPin(pin);
+        const hashedPin = await hashPin(pin, credentialType);
         await saveValue("user_pin", JSON.stringify(hashedPin));
+        recordAuditEvent("pin_created", { credentialType });
 
         // Clear PIN from memory
         setPin("");
@@ -81,7 +134,12 @@ export const PinCreationFlow: React.FC<PinCreationFlowProps> = memo(
         refreshSetupStatus();
 
         if (showSuccessAlert) {
-          showAlert("PIN Created", "Your PIN has been created successfully.");
+          showAlert(
+            credentialType === "passphrase"
+              ? "Passphrase Created"
+              : "PIN Created",
+            `Your ${label} has been created successfully.`,
+          );
         }
 
         resetState();
@@ -91,7 +149,16 @@ export const PinCreationFlow: React.FC<PinCreationFlowProps> = memo(
         setError("Failed to create PIN. Please try again.");
         setIsCreating(false);
       }
-    }, [pin, confirmPin, showSuccessAlert, showAlert, resetState, onComplete]);
+    }, [
+      pin,
+      confirmPin,
+      credentialType,
+      label,
+      showSuccessAlert,
+      showAlert,
+      resetState,
+      onComplete,
+    ]);
 
     const handleBackToCreate = useCallback(() => {
       setStep("create");
@@ -101,20 +168,43 @@ export const PinCreationFlow: React.FC<PinCreationFlowProps> = memo(
 
     const renderCreateStep = () => (
       <>
-        <Text style={styles.modalTitle}>Create Your PIN</Text>
+        <Text style={styles.modalTitle}>
+          {credentialType === "passphrase"
+            ? "Create Your Passphrase"
+            : "Create Your PIN"}
+        </Text>
         <Text style={styles.modalSubtitle}>
-          Choose a 6-digit PIN to secure your wallet. You&apos;ll need this PIN
-          to access your accounts and sensitive operations.
+          {credentialType === "passphrase"
+            ? `Choose a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters to secure your wallet. You'll need it to access your accounts and sensitive operations.`
+            : "Choose a 6-digit PIN to secure your wallet. You'll need this PIN to access your accounts and sensitive operations."}
         </Text>
 
-        <PinInputField
-          label="Enter 6-digit PIN:"
+        <CredentialInputField
+          credentialType={credentialType}
+          label={
+            credentialType === "passphrase"
+              ? "Enter passphrase:"
+              : "Enter 6-digit PIN:"
+          }
           value={pin}
           onChangeText={handlePinChange}
           placeholder="******"
           error={error || undefined}
           autoFocus={true}
-          maxLength={6}
+          showStrength={true}
+        />
+
+        <ActionButton
+          text={
+            credentialType === "passphrase"
+              ? "Use a 6-digit PIN instead"
+              : "Use a passphrase instead"
+          }
+          variant="secondary"
+          size="small"
+          onPress={handleToggleCredentialType}
+          accessibilityLabel="Switch between PIN and passphrase"
+          style={{ marginBottom: 12 }}
         />
 
         <View style={styles.modalButtons}>
@@ -122,14 +212,14 @@ export const PinCreationFlow: React.FC<PinCreationFlowProps> = memo(
             text="Cancel"
             variant="secondary"
             onPress={handleCancel}
-            accessibilityLabel="Cancel PIN creation"
+            accessibilityLabel={`Cancel ${label} creation`}
           />
 
           <ActionButton
             text="Next"
             onPress={validateAndProceed}
-            disabled={pin.length !== 6}
-            accessibilityLabel="Proceed to confirm PIN"
+            disabled={!isPinComplete}
+            accessibilityLabel={`Proceed to confirm ${label}`}
           />
         </View>
       </>
@@ -137,19 +227,27 @@ export const PinCreationFlow: React.FC<PinCreationFlowProps> = memo(
 
     const renderConfirmStep = () => (
       <>
-        <Text style={styles.modalTitle}>Confirm Your PIN</Text>
+        <Text style={styles.modalTitle}>
+          {credentialType === "passphrase"
+            ? "Confirm Your Passphrase"
+            : "Confirm Your PIN"}
+        </Text>
         <Text style={styles.modalSubtitle}>
-          Please enter your PIN again to confirm it.
+          Please enter your {label} again to confirm it.
         </Text>
 
-        <PinInputField
-          label="Confirm 6-digit PIN:"
+        <CredentialInputField
+          credentialType={credentialType}
+          label={
+            credentialType === "passphrase"
+              ? "Confirm passphrase:"
+              : "Confirm 6-digit PIN:"
+          }
           value={confirmPin}
           onChangeText={handleConfirmPinChange}
           placeholder="******"
           error={error || undefined}
           autoFocus={true}
-          maxLength={6}
         />
 
         <View style={styles.modalButtons}>
@@ -158,15 +256,19 @@ export const PinCreationFlow: React.FC<PinCreationFlowProps> = memo(
             variant="secondary"
             onPress={handleBackToCreate}
             disabled={isCreating}
-            accessibilityLabel="Go back to PIN entry"
+            accessibilityLabel={`Go back to ${label} entry`}
           />
 
           <ActionButton
-            text="Create PIN"
+            text={
+              credentialType === "passphrase"
+                ? "Create Passphrase"
+                : "Create PIN"
+            }
             onPress={createPin}
-            disabled={confirmPin.length !== 6}
+            disabled={!isConfirmComplete}
             isLoading={isCreating}
-            accessibilityLabel="Create PIN"
+            accessibilityLabel={`Create ${label}`}
           />
         </View>
       </>
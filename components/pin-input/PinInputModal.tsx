@@ -2,8 +2,13 @@ import React, { memo, useState, useCallback, useEffect, useRef } from "react";
 import { Modal, View, Text, TextInput } from "react-native";
 import { styles } from "../../styles/styles";
 import { ActionButton } from "../common/ActionButton";
-import { PinInputField } from "./PinInputField";
+import { CredentialInputField } from "./CredentialInputField";
+import { PinLockoutNotice } from "./PinLockoutNotice";
 import { formatWaitingPeriod } from "../../util/reveal-controller";
+import { getCredentialLabel } from "../../util/pin-security";
+import { useCredentialType } from "../../hooks/use-credential-type";
+import { usePinLockout } from "../../hooks/use-pin-lockout";
+import { getPinFailureMessage } from "../../util/pin-attempts";
 
 // Define callback types for PIN operations
 type PinActionCallback = (pin: string) => Promise<boolean>;
@@ -17,11 +22,13 @@ interface PinInputModalProps {
     | "delete"
     | "schedule_reveal"
     | "execute_reveal"
-    | "clear_all";
+    | "clear_all"
+    | "unlock_app";
   // Callbacks for different PIN operations - only one will be called based on purpose
   onPinAction: PinActionCallback;
   actionTitle?: string;
   actionSubtitle?: string;
+  accountId?: string; // Account of a reveal, for its waiting period
   autoCloseOnSuccess?: boolean; // New prop to control auto-close behavior
 }
 
@@ -33,6 +40,7 @@ export const PinInputModal = memo(
     onPinAction,
     actionTitle,
     actionSubtitle,
+    accountId,
     autoCloseOnSuccess = true, // Default to true for backward compatibility
   }: PinInputModalProps) => {
     // Ensure onPinAction is always a function even if undefined is passed
@@ -99,6 +107,10 @@ export const PinInputModal = memo(
     const [error, setError] = useState<string | null>(null);
     const [isVerifying, setIsVerifying] = useState(false);
     const pinInputRef = useRef<TextInput>(null);
+    const credentialType = useCredentialType(visible);
+    const label = getCredentialLabel(credentialType);
+    const { isLockedOut, remainingMs, attemptsBeforeWipe, refresh } =
+      usePinLockout(visible);
 
     useEffect(() => {
       if (!visible) {
@@ -110,7 +122,15 @@ export const PinInputModal = memo(
 
     const processPinSecurely = useCallback(async () => {
       if (!pinValue || !pinValue.trim()) {
-        setError("PIN is required");
+        setError(
+          credentialType === "passphrase"
+            ? "Passphrase is required"
+            : "PIN is required",
+        );
+        return;
+      }
+
+      if (isLockedOut) {
         return;
       }
 
@@ -131,15 +151,24 @@ export const PinInputModal = memo(
             onClose();
           }
         } else {
-          setError("Incorrect PIN. Please try again.");
+          setError(await getPinFailureMessage(label));
         }
       } catch (error) {
         console.error("Error processing PIN:", error);
         setError("Error processing your request");
       } finally {
         setIsVerifying(false);
+        refresh();
       }
-    }, [pinValue, safeOnPinAction, onClose]);
+    }, [
+      pinValue,
+      isLockedOut,
+      safeOnPinAction,
+      onClose,
+      label,
+      credentialType,
+      refresh,
+    ]);
 
     const handleCancel = useCallback(() => {
       setPinValue("");
@@ -180,25 +209,31 @@ export const PinInputModal = memo(
           return "Reveal Secured Data";
         case "clear_all":
           return "Clear Account Data";
+        case "unlock_app":
+          return "Unlock Wallet";
         default:
-          return "Enter PIN";
+          return credentialType === "passphrase"
+            ? "Enter Passphrase"
+            : "Enter PIN";
       }
-    }, [purpose, actionTitle]);
+    }, [purpose, actionTitle, credentialType]);
 
     const getSubtitle = useCallback(() => {
       if (actionSubtitle) return actionSubtitle;
 
       switch (purpose) {
         case "schedule_reveal":
-          return `Enter your PIN to schedule a reveal of the secured data. You'll need to wait ${formatWaitingPeriod()} before you can reveal it.`;
+          return `Enter your ${label} to schedule a reveal of the secured data. You'll need to wait ${formatWaitingPeriod(accountId)} before you can reveal it.`;
         case "execute_reveal":
-          return "Enter your PIN again to reveal the secured data. This data will be visible on screen.";
+          return `Enter your ${label} again to reveal the secured data. This data will be visible on screen.`;
         case "clear_all":
-          return "Enter your PIN to permanently delete all secure data for this account. This action cannot be undone.";
+          return `Enter your ${label} to permanently delete all secure data for this account. This action cannot be undone.`;
+        case "unlock_app":
+          return `Enter your ${label} to unlock the wallet.`;
         default:
-          return `Please enter your PIN to ${getActionText()} this secure data.`;
+          return `Please enter your ${label} to ${getActionText()} this secure data.`;
       }
-    }, [purpose, actionSubtitle, getActionText]);
+    }, [purpose, actionSubtitle, accountId, getActionText, label]);
 
     return (
       <Modal
@@ -215,25 +250,33 @@ export const PinInputModal = memo(
             <Text style={styles.modalTitle}>{getTitle()}</Text>
             <Text style={styles.modalSubtitle}>{getSubtitle()}</Text>
 
-            <PinInputField
+            <CredentialInputField
+              credentialType={credentialType}
               value={pinValue}
               onChangeText={handlePinChange}
               placeholder="******"
               label=""
-              error={error ? error : undefined}
+              error={error && !isLockedOut ? error : undefined}
               autoFocus={true}
               onSubmit={processPinSecurely}
               clearOnSubmit={true}
+              editable={!isLockedOut}
               ref={pinInputRef}
             />
 
+            <PinLockoutNotice
+              isLockedOut={isLockedOut}
+              remainingMs={remainingMs}
+              attemptsBeforeWipe={attemptsBeforeWipe}
+            />
+
             <View style={styles.modalButtons}>
               <ActionButton
                 text="Cancel"
                 variant="secondary"
                 onPress={handleCancel}
                 disabled={isVerifying}
-                accessibilityLabel="Cancel PIN entry"
+                accessibilityLabel={`Cancel ${label} entry`}
                 style={{ flex: 1, marginRight: 8 }}
               />
 
@@ -241,7 +284,8 @@ export const PinInputModal = memo(
                 text="Verify"
                 onPress={processPinSecurely}
                 isLoading={isVerifying}
-                accessibilityLabel="Verify PIN"
+                disabled={isLockedOut}
+                accessibilityLabel={`Verify ${label}`}
                 style={{ flex: 1, marginLeft: 8 }}
               />
             </View>
@@ -0,0 +1,44 @@
+import React, { memo } from "react";
+import { Text } from "react-native";
+import { styles } from "../../styles/styles";
+import { formatLockoutRemaining } from "../../util/pin-attempts";
+
+interface PinLockoutNoticeProps {
+  isLockedOut: boolean;
+  remainingMs: number;
+  attemptsBeforeWipe: number | null;
+}
+
+/**
+ * Shows the lockout countdown after too many failed PIN attempts, and how
+ * many attempts are left when the wipe policy is on
+ */
+export const PinLockoutNotice = memo(
+  ({ isLockedOut, remainingMs, attemptsBeforeWipe }: PinLockoutNoticeProps) => {
+    if (isLockedOut) {
+      return (
+        <Text
+          style={styles.errorText}
+          accessibilityRole="alert"
+          accessibilityLiveRegion="polite"
+        >
+          Too many failed attempts. Try again in{" "}
+          {formatLockoutRemaining(remainingMs)}
+        </Text>
+      );
+    }
+
+    if (attemptsBeforeWipe !== null && attemptsBeforeWipe <= 5) {
+      return (
+        <Text style={styles.errorText} accessibilityRole="alert">
+          {attemptsBeforeWipe} attempt{attemptsBeforeWipe === 1 ? "" : "s"} left
+          before all wallet data is erased
+        </Text>
+      );
+    }
+
+    return null;
+  },
+);
+
+PinLockoutNotice.displayName = "PinLockoutNotice";
@@ -1,15 +1,27 @@
 import React, { useState, useCallback, useEffect } from "react";
 import { View, Text, Modal } from "react-native";
-import { PinInputField } from "./PinInputField";
+import { CredentialInputField } from "./CredentialInputField";
 import { ActionButton } from "../common/ActionButton";
 import { styles } from "../../styles/styles";
-import { validatePin, hashPin } from "../../util/pin-security";
-import { saveValue } from "../../util/secure-store";
-import { refreshSetupStatus } from "../../util/setup-state";
+import {
+  validateCredential,
+  getCredentialLabel,
+  MIN_PASSPHRASE_LENGTH,
+  type CredentialType,
+} from "../../util/pin-security";
+import {
+  estimatePassphraseStrength,
+  MIN_ACCEPTABLE_STRENGTH,
+} from "../../util/passphrase-strength";
+import { useCredentialType } from "../../hooks/use-credential-type";
 
 interface PinRotationFlowProps {
   visible: boolean;
-  onComplete: (success: boolean, newPin?: string) => void;
+  onComplete: (
+    success: boolean,
+    newPin?: string,
+    credentialType?: CredentialType,
+  ) => void;
   onCancel: () => void;
 }
 
@@ -19,11 +31,20 @@ export const PinRotationFlow: React.FC<PinRotationFlowProps> = ({
   onCancel,
 }) => {
   const [step, setStep] = useState<"create" | "confirm">("create");
+  const currentCredentialType = useCredentialType(visible);
+  const [credentialType, setCredentialType] = useState<CredentialType>(
+    currentCredentialType,
+  );
   const [pin, setPin] = useState("");
   const [confirmPin, setConfirmPin] = useState("");
   const [error, setError] = useState<string | null>(null);
   const [isCreating, setIsCreating] = useState(false);
 
+  // Default the new credential to the type currently in use
+  useEffect(() => {
+    setCredentialType(currentCredentialType);
+  }, [currentCredentialType]);
+
   // Reset state when modal visibility changes
   useEffect(() => {
     if (!visible) {
@@ -68,52 +89,85 @@ export const PinRotationFlow: React.FC<PinRotationFlowProps> = ({
     [error],
   );
 
+  const label = getCredentialLabel(credentialType);
+  const formatError =
+    credentialType === "passphrase"
+      ? `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`
+      : "PIN must be exactly 6 digits";
+  const minLength = credentialType === "passphrase" ? MIN_PASSPHRASE_LENGTH : 6;
+
+  const handleToggleCredentialType = useCallback(() => {
+    setCredentialType((current) => (current === "pin" ? "passphrase" : "pin"));
+    setPin("");
+    setConfirmPin("");
+    setError(null);
+  }, []);
+
   const validateAndProceed = useCallback(() => {
-    if (!validatePin(pin)) {
-      setError("PIN must be exactly 6 digits");
+    if (!validateCredential(pin, credentialType)) {
+      setError(formatError);
+      return;
+    }
+
+    if (
+      credentialType === "passphrase" &&
+      estimatePassphraseStrength(pin).score < MIN_ACCEPTABLE_STRENGTH
+    ) {
+      setError("Passphrase is too weak. Please choose a stronger one.");
       return;
     }
 
     setError(null);
     setStep("confirm");
-  }, [pin]);
+  }, [pin, credentialType, formatError]);
 
   const createPin = useCallback(async () => {
-    if (!validatePin(pin) || !validatePin(confirmPin)) {
-      setError("PIN must be exactly 6 digits");
+    if (
+      !validateCredential(pin, credentialType) ||
+      !validateCredential(confirmPin, credentialType)
+    ) {
+      setError(formatError);
       setIsCreating(false);
       return;
     }
 
     if (pin !== confirmPin) {
-      setError("PINs do not match");
+      setError(
+        credentialType === "passphrase"
+          ? "Passphrases do not match"
+          : "PINs do not match",
+      );
       setIsCreating(false);
       return;
     }
 
     try {
-      // Hash the PIN and store it
-      const hashedPin = await hashPin(pin);
-      await saveValue("user_pin", JSON.stringify(hashedPin));
-
-      // Refresh setup status to trigger UI updates
-      refreshSetupStatus();
-
-      // Provide the raw PIN to the parent for re-encryption
+      // Provide the raw PIN to the parent, which stores its hash once the
+      // data has been re-encrypted
       const rawPin = pin;
 
       // Clear PIN from memory
       setPin("");
       setConfirmPin("");
 
+      const newCredentialType = credentialType;
+
       resetState();
-      onComplete(true, rawPin);
+      onComplete(true, rawPin, newCredentialType);
     } catch (error) {
       console.error("Error creating PIN:", error);
-      setError("Failed to create PIN. Please try again.");
+      setError(`Failed to create ${label}. Please try again.`);
       setIsCreating(false);
     }
-  }, [pin, confirmPin, resetState, onComplete]);
+  }, [
+    pin,
+    confirmPin,
+    credentialType,
+    formatError,
+    label,
+    resetState,
+    onComplete,
+  ]);
 
   const handleBackToCreate = useCallback(() => {
     setStep("create");
@@ -131,20 +185,44 @@ export const PinRotationFlow: React.FC<PinRotationFlowProps> = ({
 
   const renderCreateStep = () => (
     <>
-      <Text style={styles.modalTitle}>Create Your New PIN</Text>
+      <Text style={styles.modalTitle}>
+        {credentialType === "passphrase"
+          ? "Create Your New Passphrase"
+          : "Create Your New PIN"}
+      </Text>
       <Text style={styles.modalSubtitle}>
-        Choose a new 6-digit PIN to secure your wallet. All your encrypted data
-        will be re-encrypted with this new PIN.
+        {credentialType === "passphrase"
+          ? `Choose a new passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters to secure your wallet.`
+          : "Choose a new 6-digit PIN to secure your wallet."}{" "}
+        All your encrypted data will be re-encrypted with this new {label}.
       </Text>
 
-      <PinInputField
-        label="Enter new 6-digit PIN:"
+      <CredentialInputField
+        credentialType={credentialType}
+        label={
+          credentialType === "passphrase"
+            ? "Enter new passphrase:"
+            : "Enter new 6-digit PIN:"
+        }
         value={pin}
         onChangeText={handlePinChange}
         placeholder="******"
         error={error || undefined}
         autoFocus={true}
-        maxLength={6}
+        showStrength={true}
+      />
+
+      <ActionButton
+        text={
+          credentialType === "passphrase"
+            ? "Use a 6-digit PIN instead"
+            : "Use a passphrase instead"
+        }
+        variant="secondary"
+        size="small"
+        onPress={handleToggleCredentialType}
+        accessibilityLabel="Switch between PIN and passphrase"
+        style={{ marginBottom: 12 }}
       />
 
       <View style={styles.modalButtons}>
@@ -158,8 +236,8 @@ export const PinRotationFlow: React.FC<PinRotationFlowProps> = ({
         <ActionButton
           text="Next"
           onPress={validateAndProceed}
-          disabled={pin.length !== 6}
-          accessibilityLabel="Proceed to confirm new PIN"
+          disabled={pin.length < minLength}
+          accessibilityLabel={`Proceed to confirm new ${label}`}
         />
       </View>
     </>
@@ -167,19 +245,23 @@ export const PinRotationFlow: React.FC<PinRotationFlowProps> = ({
 
   const renderConfirmStep = () => (
     <>
-      <Text style={styles.modalTitle}>Confirm Your New PIN</Text>
+      <Text style={styles.modalTitle}>
+        {credentialType === "passphrase"
+          ? "Confirm Your New Passphrase"
+          : "Confirm Your New PIN"}
+      </Text>
       <Text style={styles.modalSubtitle}>
-        Please enter your new PIN again to confirm it.
+        Please enter your new {label} again to confirm it.
       </Text>
 
-      <PinInputField
-        label="Confirm new PIN:"
+      <CredentialInputField
+        credentialType={credentialType}
+        label={`Confirm new ${label}:`}
         value={confirmPin}
         onChangeText={handleConfirmPinChange}
         placeholder="******"
         error={error || undefined}
         autoFocus={true}
-        maxLength={6}
       />
 
       <View style={styles.modalButtons}>
@@ -195,7 +277,7 @@ export const PinRotationFlow: React.FC<PinRotationFlowProps> = ({
           text="Rotate PIN"
           onPress={handleCreatePin}
           isLoading={isCreating}
-          disabled={isCreating || confirmPin.length !== 6}
+          disabled={isCreating || confirmPin.length < minLength}
           accessibilityLabel="Confirm PIN rotation"
         />
       </View>
@@ -0,0 +1,201 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { Text } from "react-native";
+import { observer } from "@legendapp/state/react";
+import { styles } from "../../styles/styles";
+import { SectionContainer } from "../common/SectionContainer";
+import { ActionButton } from "../common/ActionButton";
+import Dropdown from "../common/Dropdown";
+import { CredentialInputField } from "../pin-input/CredentialInputField";
+import { useModal } from "../../context/ModalContext";
+import { useCredentialType } from "../../hooks/use-credential-type";
+import { appConfig } from "../../util/app-config-store";
+import { getDuressRecord, isDuressModeActive } from "../../util/duress";
+import {
+  getCredentialLabel,
+  removeDuressPin,
+  setupDuressPin,
+  validateCredential,
+} from "../../util/pin-security";
+
+interface DuressPinSectionProps {
+  disabled?: boolean;
+}
+
+/**
+ * Sets up or removes the duress PIN, which unlocks only a decoy profile.
+ * Hidden while duress mode is active so nothing hints at the real profiles.
+ */
+export const DuressPinSection: React.FC<DuressPinSectionProps> = observer(
+  ({ disabled = false }) => {
+    const [duressDecoyProfile, setDuressDecoyProfile] = useState<string | null>(
+      null,
+    );
+    const [decoyProfile, setDecoyProfile] = useState<string>("");
+    const [currentPin, setCurrentPin] = useState("");
+    const [duressPin, setDuressPin] = useState("");
+    const [confirmDuressPin, setConfirmDuressPin] = useState("");
+    const [error, setError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const { showAlert } = useModal();
+    const credentialType = useCredentialType();
+    const label = getCredentialLabel(credentialType);
+
+    const duressActive = isDuressModeActive();
+    const profileNames = Object.keys(appConfig.profiles.get());
+
+    const loadDuressRecord = useCallback(async () => {
+      const record = await getDuressRecord();
+      setDuressDecoyProfile(record?.decoyProfile ?? null);
+    }, []);
+
+    useEffect(() => {
+      loadDuressRecord();
+    }, [loadDuressRecord]);
+
+    const resetForm = useCallback(() => {
+      setCurrentPin("");
+      setDuressPin("");
+      setConfirmDuressPin("");
+      setError(null);
+    }, []);
+
+    const handleSetup = useCallback(async () => {
+      if (!decoyProfile) {
+        setError("Choose a decoy profile");
+        return;
+      }
+
+      if (
+        !validateCredential(currentPin, credentialType) ||
+        !validateCredential(duressPin, credentialType)
+      ) {
+        setError(`Enter a valid ${label}`);
+        return;
+      }
+
+      if (duressPin !== confirmDuressPin) {
+        setError(`Duress ${label}s do not match`);
+        return;
+      }
+
+      setIsSaving(true);
+      const setupError = await setupDuressPin(
+        currentPin,
+        duressPin,
+        decoyProfile,
+      );
+      setIsSaving(false);
+
+      if (setupError) {
+        setError(setupError);
+        return;
+      }
+
+      resetForm();
+      await loadDuressRecord();
+      showAlert(
+        "Duress PIN Set",
+        `Entering the duress ${label} will show only the "${decoyProfile}" profile. Enter your real ${label} to see everything again.`,
+      );
+    }, [
+      decoyProfile,
+      currentPin,
+      duressPin,
+      confirmDuressPin,
+      credentialType,
+      label,
+      resetForm,
+      loadDuressRecord,
+      showAlert,
+    ]);
+
+    const handleRemove = useCallback(async () => {
+      if (!currentPin || !duressPin) {
+        setError(`Enter your ${label} and the duress ${label}`);
+        return;
+      }
+
+      setIsSaving(true);
+      const removeError = await removeDuressPin(currentPin, duressPin);
+      setIsSaving(false);
+
+      if (removeError) {
+        setError(removeError);
+        return;
+      }
+
+      resetForm();
+      await loadDuressRecord();
+      showAlert("Duress PIN Removed", `The duress ${label} has been removed.`);
+    }, [currentPin, duressPin, label, resetForm, loadDuressRecord, showAlert]);
+
+    if (duressActive) {
+      return null;
+    }
+
+    return (
+      <SectionContainer title="Duress PIN">
+        <Text style={styles.description}>
+          {duressDecoyProfile
+            ? `A duress ${label} is set up. It unlocks only the "${duressDecoyProfile}" profile.`
+            : `A duress ${label} unlocks only a decoy profile and hides all other profiles and their secrets. Use it if you are ever forced to open your wallet.`}
+        </Text>
+
+        {!duressDecoyProfile && (
+          <Dropdown
+            label="Decoy profile"
+            value={decoyProfile}
+            options={profileNames}
+            onSelect={setDecoyProfile}
+            placeholder="Select a profile"
+          />
+        )}
+
+        <CredentialInputField
+          credentialType={credentialType}
+          label={`Current ${label}:`}
+          value={currentPin}
+          onChangeText={setCurrentPin}
+          placeholder="******"
+        />
+
+        <CredentialInputField
+          credentialType={credentialType}
+          label={`Duress ${label}:`}
+          value={duressPin}
+          onChangeText={setDuressPin}
+          placeholder="******"
+        />
+
+        {!duressDecoyProfile && (
+          <CredentialInputField
+            credentialType={credentialType}
+            label={`Confirm duress ${label}:`}
+            value={confirmDuressPin}
+            onChangeText={setConfirmDuressPin}
+            placeholder="******"
+          />
+        )}
+
+        {error && <Text style={styles.errorText}>{error}</Text>}
+
+        <ActionButton
+          text={
+            duressDecoyProfile
+              ? `Remove Duress ${label}`
+              : `Set Duress ${label}`
+          }
+          variant={duressDecoyProfile ? "danger" : "primary"}
+          onPress={duressDecoyProfile ? handleRemove : handleSetup}
+          isLoading={isSaving}
+          disabled={disabled || isSaving}
+          accessibilityHint={
+            duressDecoyProfile
+              ? "Remove the duress PIN and move decoy secrets back under your PIN"
+              : "Save a duress PIN that unlocks only the decoy profile"
+          }
+        />
+      </SectionContainer>
+    );
+  },
+);
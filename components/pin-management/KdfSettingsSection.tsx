@@ -0,0 +1,89 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { Text } from "react-native";
+import { styles } from "../../styles/styles";
+import { SectionContainer } from "../common/SectionContainer";
+import { ActionButton } from "../common/ActionButton";
+import Dropdown from "../common/Dropdown";
+import { useModal } from "../../context/ModalContext";
+import {
+  KdfId,
+  calibrateKdf,
+  describeKdfParams,
+  getPreferredKdfParams,
+  savePreferredKdfParams,
+  type KdfParams,
+} from "../../util/kdf";
+
+const KDF_LABELS: Record<KdfId, string> = {
+  [KdfId.SCRYPT]: "scrypt (recommended)",
+  [KdfId.ARGON2ID]: "Argon2id",
+  [KdfId.PBKDF2_SHA256]: "PBKDF2-SHA256 (legacy)",
+};
+
+interface KdfSettingsSectionProps {
+  disabled?: boolean;
+}
+
+/**
+ * Lets the user choose the PIN key derivation function and re-calibrate its
+ * cost for the current device. Existing records are upgraded on the next
+ * successful PIN entry.
+ */
+export const KdfSettingsSection: React.FC<KdfSettingsSectionProps> = ({
+  disabled = false,
+}) => {
+  const [currentParams, setCurrentParams] = useState<KdfParams | null>(null);
+  const [selectedKdf, setSelectedKdf] = useState<KdfId>(KdfId.SCRYPT);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const { showAlert } = useModal();
+
+  useEffect(() => {
+    getPreferredKdfParams().then((params) => {
+      setCurrentParams(params);
+      setSelectedKdf(params.kdf);
+    });
+  }, []);
+
+  const handleCalibrate = useCallback(async () => {
+    setIsCalibrating(true);
+    try {
+      const params = await calibrateKdf(selectedKdf);
+      await savePreferredKdfParams(params);
+      setCurrentParams(params);
+      showAlert(
+        "Key Derivation Updated",
+        `Now using ${describeKdfParams(params)}. Your PIN and stored data will be upgraded the next time you enter your PIN.`,
+      );
+    } catch (error) {
+      console.error("Error calibrating KDF:", error);
+      showAlert("Error", "Failed to calibrate key derivation");
+    } finally {
+      setIsCalibrating(false);
+    }
+  }, [selectedKdf, showAlert]);
+
+  return (
+    <SectionContainer title="PIN Key Derivation">
+      <Text style={styles.description}>
+        Current:{" "}
+        {currentParams ? describeKdfParams(currentParams) : "Loading..."}
+      </Text>
+
+      <Dropdown
+        label="Algorithm"
+        value={selectedKdf}
+        options={[KdfId.SCRYPT, KdfId.ARGON2ID, KdfId.PBKDF2_SHA256]}
+        onSelect={setSelectedKdf}
+        renderLabel={(kdf) => KDF_LABELS[kdf]}
+      />
+
+      <ActionButton
+        text="Calibrate & Apply"
+        onPress={handleCalibrate}
+        isLoading={isCalibrating}
+        disabled={disabled || isCalibrating}
+        accessibilityHint="Measure this device and pick key derivation costs for about one second of unlock time"
+      />
+    </SectionContainer>
+  );
+};
@@ -0,0 +1,106 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { Text } from "react-native";
+import { styles } from "../../styles/styles";
+import { SectionContainer } from "../common/SectionContainer";
+import { ActionButton } from "../common/ActionButton";
+import Dropdown from "../common/Dropdown";
+import ConfirmationModal from "../modal/ConfirmationModal";
+import { useModal } from "../../context/ModalContext";
+import {
+  WIPE_AFTER_FAILURES_OPTIONS,
+  getWipeAfterFailures,
+  setWipeAfterFailures,
+} from "../../util/pin-attempts";
+
+const OFF = "off";
+
+const POLICY_OPTIONS = [OFF, ...WIPE_AFTER_FAILURES_OPTIONS.map(String)];
+
+const renderPolicyLabel = (option: string) =>
+  option === OFF ? "Off" : `Erase after ${option} failed attempts`;
+
+interface PinAttemptPolicySectionProps {
+  disabled?: boolean;
+}
+
+/**
+ * Lets the user opt into erasing all wallet data after too many consecutive
+ * failed PIN attempts. Lockout delays apply regardless of this setting.
+ */
+export const PinAttemptPolicySection: React.FC<
+  PinAttemptPolicySectionProps
+> = ({ disabled = false }) => {
+  const [currentOption, setCurrentOption] = useState(OFF);
+  const [selectedOption, setSelectedOption] = useState(OFF);
+  const [confirmVisible, setConfirmVisible] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const { showAlert } = useModal();
+
+  useEffect(() => {
+    getWipeAfterFailures().then((count) => {
+      const option = count === null ? OFF : String(count);
+      setCurrentOption(option);
+      setSelectedOption(option);
+    });
+  }, []);
+
+  const applyPolicy = useCallback(async () => {
+    setConfirmVisible(false);
+    setIsSaving(true);
+    try {
+      await setWipeAfterFailures(
+        selectedOption === OFF ? null : Number(selectedOption),
+      );
+      setCurrentOption(selectedOption);
+    } catch (error) {
+      console.error("Error saving PIN wipe policy:", error);
+      showAlert("Error", "Failed to save the failed attempt policy");
+    } finally {
+      setIsSaving(false);
+    }
+  }, [selectedOption, showAlert]);
+
+  const handleApply = useCallback(() => {
+    if (selectedOption === OFF) {
+      applyPolicy();
+    } else {
+      setConfirmVisible(true);
+    }
+  }, [selectedOption, applyPolicy]);
+
+  return (
+    <SectionContainer title="Failed PIN Attempts">
+      <Text style={styles.description}>
+        After a few failed attempts, PIN entry is locked for an increasing
+        amount of time. You can also choose to erase all wallet data after too
+        many failures. Make sure your recovery phrases are backed up first.
+      </Text>
+
+      <Dropdown
+        label="Erase wallet data"
+        value={selectedOption}
+        options={POLICY_OPTIONS}
+        onSelect={setSelectedOption}
+        renderLabel={renderPolicyLabel}
+      />
+
+      <ActionButton
+        text="Apply"
+        onPress={handleApply}
+        isLoading={isSaving}
+        disabled={disabled || isSaving || selectedOption === currentOption}
+        accessibilityHint="Save the failed PIN attempt policy"
+      />
+
+      <ConfirmationModal
+        visible={confirmVisible}
+        title="Erase Data After Failed Attempts?"
+        message={`All accounts, keys and settings will be permanently erased after ${selectedOption} consecutive failed PIN attempts. This cannot be undone. Only enable this if your recovery phrases are backed up.`}
+        confirmText="Enable"
+        onConfirm={applyPolicy}
+        onCancel={() => setConfirmVisible(false)}
+        isDestructive={true}
+      />
+    </SectionContainer>
+  );
+};
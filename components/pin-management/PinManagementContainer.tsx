@@ -1,4 +1,4 @@
-import React, { memo, useCallback } from "react";
+import React, { memo, useCallback, useEffect } from "react";
 import { View } from "react-native";
 import { styles } from "../../styles/styles";
 import { useModal } from "../../context/ModalContext";
@@ -8,8 +8,13 @@ import { PinCreationFlow } from "../pin-input/PinCreationFlow";
 import { PinRotationFlow } from "../pin-input/PinRotationFlow";
 import { PinOperationsSection } from "./PinOperationsSection";
 import { PinRotationProgressDisplay } from "./PinRotationProgress";
+import { KdfSettingsSection } from "./KdfSettingsSection";
+import { PinAttemptPolicySection } from "./PinAttemptPolicySection";
+import { DuressPinSection } from "./DuressPinSection";
+import { UnlockSessionSection } from "./UnlockSessionSection";
 import { usePinManagement } from "./hooks/usePinManagement";
 import { usePinRotation } from "./hooks/usePinRotation";
+import type { CredentialType } from "../../util/pin-security";
 
 /**
  * Main PIN management container component
@@ -42,11 +47,19 @@ const PinManagementContainer = memo(() => {
     handleVerifyPin,
     validateOldPin,
     executeRotation,
+    loadRecoveredRotation,
     getRotationMessage,
   } = usePinRotation();
 
   const { showAlert } = useModal();
 
+  // Show how an interrupted rotation was settled on launch
+  useEffect(() => {
+    if (loadRecoveredRotation()) {
+      updateModalState({ showRotationProgress: true });
+    }
+  }, [loadRecoveredRotation, updateModalState]);
+
   /**
    * Handles PIN verification for the verify operation
    */
@@ -93,12 +106,20 @@ const PinManagementContainer = memo(() => {
    * Handles completion of PIN rotation flow
    */
   const handlePinRotationComplete = useCallback(
-    async (success: boolean, newPin?: string) => {
+    async (
+      success: boolean,
+      newPin?: string,
+      credentialType: CredentialType = "pin",
+    ) => {
       updateModalState({ pinRotationFlowVisible: false });
 
       if (success && oldPin && newPin) {
-        const result = await executeRotation(oldPin, newPin, (showProgress) =>
-          updateModalState({ showRotationProgress: showProgress }),
+        const result = await executeRotation(
+          oldPin,
+          newPin,
+          credentialType,
+          (showProgress) =>
+            updateModalState({ showRotationProgress: showProgress }),
         );
 
         if (result.success) {
@@ -223,6 +244,26 @@ const PinManagementContainer = memo(() => {
         onCreatePin={startCreatePin}
       />
 
+      {/* Key derivation settings */}
+      {pinExists && (
+        <KdfSettingsSection disabled={isLoading || showRotationProgress} />
+      )}
+
+      {/* Failed attempt policy */}
+      {pinExists && (
+        <PinAttemptPolicySection disabled={isLoading || showRotationProgress} />
+      )}
+
+      {/* Unlock session */}
+      {pinExists && (
+        <UnlockSessionSection disabled={isLoading || showRotationProgress} />
+      )}
+
+      {/* Duress PIN */}
+      {pinExists && (
+        <DuressPinSection disabled={isLoading || showRotationProgress} />
+      )}
+
       {/* PIN Input Modals */}
       <PinInputModal
         visible={pinModalVisible}
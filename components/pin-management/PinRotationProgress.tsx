@@ -17,9 +17,7 @@ interface PinRotationProgressDisplayProps {
 export const PinRotationProgressDisplay: React.FC<
   PinRotationProgressDisplayProps
 > = ({ progress, onDismiss }) => {
-  const isComplete =
-    progress.total === 0 ||
-    progress.completed + progress.failed.length >= progress.total;
+  const isComplete = isRotationSettled(progress);
 
   return (
     <View style={{ position: "relative" }}>
@@ -45,17 +43,52 @@ export const PinRotationProgressDisplay: React.FC<
         </TouchableOpacity>
       )}
 
-      <SectionContainer
-        title={
-          isComplete ? "PIN Rotation Complete" : "PIN Rotation in Progress"
-        }
-      >
+      <SectionContainer title={getProgressTitle(progress)}>
         <InlineProgressContent progress={progress} />
       </SectionContainer>
     </View>
   );
 };
 
+/**
+ * Whether the rotation has finished, either way
+ */
+function isRotationSettled(progress: PinRotationProgress): boolean {
+  return progress.phase === "complete" || progress.phase === "rolled_back";
+}
+
+function getProgressTitle(progress: PinRotationProgress): string {
+  switch (progress.phase) {
+    case "complete":
+      return progress.recovered
+        ? "Interrupted PIN Change Completed"
+        : "PIN Rotation Complete";
+    case "rolled_back":
+      return progress.recovered
+        ? "Interrupted PIN Change Rolled Back"
+        : "PIN Not Changed";
+    default:
+      return "PIN Rotation in Progress";
+  }
+}
+
+function getProgressMessage(progress: PinRotationProgress): string {
+  switch (progress.phase) {
+    case "staging":
+      return "Please wait while we re-encrypt your account data with the new PIN. Your current PIN stays active until every account is done.";
+    case "committing":
+      return "Saving the re-encrypted data and activating the new PIN.";
+    case "complete":
+      return progress.recovered
+        ? "A PIN change was interrupted after all data was re-encrypted. It has now been completed and your new PIN is active."
+        : "Your PIN has been updated and data re-encrypted.";
+    case "rolled_back":
+      return progress.recovered
+        ? "A PIN change was interrupted before all data was re-encrypted. It has been undone and your previous PIN is still active."
+        : "Not every account could be re-encrypted, so your PIN was not changed. All data stays encrypted with your current PIN.";
+  }
+}
+
 /**
  * Internal component for the progress content
  */
@@ -67,18 +100,14 @@ const InlineProgressContent: React.FC<{
       ? Math.round((progress.completed / progress.total) * 100)
       : 100;
 
-  const isComplete =
-    progress.total === 0 ||
-    progress.completed + progress.failed.length >= progress.total;
+  const isComplete = isRotationSettled(progress);
 
   return (
     <View style={{ paddingVertical: 16, paddingHorizontal: 4 }}>
       <Text
         style={[styles.description, { marginBottom: 16, textAlign: "center" }]}
       >
-        {isComplete
-          ? "Your PIN has been updated and data re-encrypted."
-          : "Please wait while we re-encrypt your account data with the new PIN."}
+        {getProgressMessage(progress)}
       </Text>
 
       {!isComplete && (
@@ -134,10 +163,14 @@ const InlineProgressContent: React.FC<{
       )}
 
       {/* Summary when complete */}
-      {isComplete && <CompletionSummary progress={progress} />}
+      {progress.phase === "complete" && (
+        <CompletionSummary progress={progress} />
+      )}
 
       {/* Warning about failed accounts */}
-      {isComplete && progress.failed.length > 0 && <FailureWarning />}
+      {progress.phase === "rolled_back" && progress.failed.length > 0 && (
+        <FailureWarning count={progress.failed.length} />
+      )}
     </View>
   );
 };
@@ -167,41 +200,13 @@ const CompletionSummary: React.FC<{
         {progress.completed !== 1 ? "s" : ""}
       </Text>
     </View>
-
-    {progress.failed.length > 0 && (
-      <View
-        style={{
-          flexDirection: "row",
-          alignItems: "center",
-          marginTop: 8,
-        }}
-      >
-        <Ionicons
-          name="warning"
-          size={20}
-          color={namedColors.red}
-          style={{ marginRight: 8, marginTop: -1 }}
-        />
-        <Text
-          style={[
-            styles.description,
-            {
-              color: namedColors.red,
-            },
-          ]}
-        >
-          Failed to re-encrypt: {progress.failed.length} account
-          {progress.failed.length !== 1 ? "s" : ""}
-        </Text>
-      </View>
-    )}
   </View>
 );
 
 /**
  * Component for displaying failure warning
  */
-const FailureWarning: React.FC = () => (
+const FailureWarning: React.FC<{ count: number }> = ({ count }) => (
   <View
     style={{
       backgroundColor: namedColors.redOverlay,
@@ -222,8 +227,9 @@ const FailureWarning: React.FC = () => (
       <Text
         style={[styles.description, { fontSize: 12, lineHeight: 18, flex: 1 }]}
       >
-        Some accounts could not be re-encrypted automatically. You may need to
-        re-enter and save their recovery phrases manually.
+        {count} account{count !== 1 ? "s" : ""} could not be re-encrypted. Check
+        that their stored recovery phrases still open with your current PIN,
+        then try again.
       </Text>
     </View>
   </View>
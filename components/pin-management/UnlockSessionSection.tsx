@@ -0,0 +1,73 @@
+import React, { useCallback } from "react";
+import { Text } from "react-native";
+import { observer } from "@legendapp/state/react";
+import { styles } from "../../styles/styles";
+import { SectionContainer } from "../common/SectionContainer";
+import { ActionButton } from "../common/ActionButton";
+import Dropdown from "../common/Dropdown";
+import { appConfig } from "../../util/app-config-store";
+import {
+  UNLOCK_SESSION_MINUTE_OPTIONS,
+  lockUnlockSession,
+  setUnlockSessionMinutes,
+  unlockSession,
+} from "../../util/unlock-session";
+
+const renderMinutesLabel = (option: string) =>
+  option === "0"
+    ? "Off"
+    : `${option} minute${option === "1" ? "" : "s"} after PIN entry`;
+
+interface UnlockSessionSectionProps {
+  disabled?: boolean;
+}
+
+/**
+ * Lets the user keep signing unlocked for a few minutes after a PIN entry,
+ * and end the session early
+ */
+export const UnlockSessionSection: React.FC<UnlockSessionSectionProps> =
+  observer(({ disabled = false }) => {
+    const minutes = appConfig.app_settings.unlock_session_minutes.get() ?? 0;
+    const { active, expiresAt } = unlockSession.get();
+
+    const handleSelect = useCallback((option: string) => {
+      setUnlockSessionMinutes(Number(option));
+    }, []);
+
+    return (
+      <SectionContainer title="Unlock Session">
+        <Text style={styles.description}>
+          Sign several transactions with one PIN entry. The session ends when
+          the time runs out, when the app goes to the background, or when you
+          lock it. Revealing a recovery phrase always asks for your PIN. The
+          first time you sign with another account in a session, your PIN is
+          asked once more; after that, one PIN entry covers both accounts.
+        </Text>
+
+        <Dropdown
+          label="Keep unlocked"
+          value={String(minutes)}
+          options={UNLOCK_SESSION_MINUTE_OPTIONS.map(String)}
+          onSelect={handleSelect}
+          renderLabel={renderMinutesLabel}
+        />
+
+        {active && expiresAt !== null && (
+          <Text style={[styles.description, { marginTop: 8 }]}>
+            Unlocked until {new Date(expiresAt).toLocaleTimeString()}.
+          </Text>
+        )}
+
+        <ActionButton
+          text="Lock Now"
+          onPress={lockUnlockSession}
+          disabled={disabled || !active}
+          variant="secondary"
+          accessibilityHint="End the unlock session so the next operation asks for your PIN"
+        />
+      </SectionContainer>
+    );
+  });
+
+UnlockSessionSection.displayName = "UnlockSessionSection";
@@ -1,11 +1,16 @@
 import { useState, useCallback } from "react";
-import { verifyStoredPin } from "../../../util/pin-security";
+import {
+  verifyStoredPin,
+  type CredentialType,
+} from "../../../util/pin-security";
 import {
   rotatePinAndReencryptData,
+  takeRecoveredPinRotation,
   validateOldPinCanDecryptData,
   type PinRotationProgress,
 } from "../../../util/pin-rotation";
 import { useModal } from "../../../context/ModalContext";
+import { getPinFailureMessage } from "../../../util/pin-attempts";
 
 /**
  * Custom hook for handling PIN rotation logic
@@ -16,6 +21,7 @@ export const usePinRotation = () => {
       total: 0,
       completed: 0,
       failed: [],
+      phase: "staging",
     },
   );
 
@@ -32,7 +38,7 @@ export const usePinRotation = () => {
           showAlert("Success", "PIN verified successfully");
           return true;
         } else {
-          showAlert("Incorrect PIN", "The PIN you entered is incorrect");
+          showAlert("Incorrect PIN", await getPinFailureMessage("PIN"));
           return false;
         }
       } catch (error) {
@@ -52,7 +58,7 @@ export const usePinRotation = () => {
       try {
         const isValid = await verifyStoredPin(oldPin);
         if (!isValid) {
-          showAlert("Incorrect PIN", "The PIN you entered is incorrect");
+          showAlert("Incorrect PIN", await getPinFailureMessage("PIN"));
           return false;
         }
 
@@ -85,6 +91,7 @@ export const usePinRotation = () => {
     async (
       oldPin: string,
       newPin: string,
+      newCredentialType: CredentialType,
       onProgressUpdate: (showProgress: boolean) => void,
     ): Promise<{ success: boolean; error?: string }> => {
       try {
@@ -93,11 +100,13 @@ export const usePinRotation = () => {
           total: 0,
           completed: 0,
           failed: [],
+          phase: "staging",
         });
 
         const result = await rotatePinAndReencryptData(
           oldPin,
           newPin,
+          newCredentialType,
           (progress) => {
             setRotationProgress(progress);
             // Show progress when we have accounts to process
@@ -116,11 +125,11 @@ export const usePinRotation = () => {
         if (!result.success) {
           const failedMessage =
             result.failedAccounts.length > 0
-              ? ` ${result.failedAccounts.length} accounts failed to re-encrypt.`
+              ? ` ${result.failedAccounts.length} accounts could not be re-encrypted.`
               : "";
           showAlert(
-            "Warning",
-            `PIN updated but there were issues with data re-encryption.${failedMessage} ${result.error || ""}`,
+            "PIN Not Changed",
+            `Your data stays encrypted with your current PIN.${failedMessage} ${result.error || ""}`,
           );
         }
 
@@ -137,6 +146,18 @@ export const usePinRotation = () => {
     [showAlert],
   );
 
+  /**
+   * Loads the outcome of a rotation that was interrupted and settled on
+   * launch. Returns true if there is one to show.
+   */
+  const loadRecoveredRotation = useCallback((): boolean => {
+    const recovered = takeRecoveredPinRotation();
+    if (recovered) {
+      setRotationProgress(recovered);
+    }
+    return recovered !== null;
+  }, []);
+
   /**
    * Gets the rotation warning message based on accounts with data
    */
@@ -153,6 +174,7 @@ export const usePinRotation = () => {
     handleVerifyPin,
     validateOldPin,
     executeRotation,
+    loadRecoveredRotation,
     getRotationMessage,
   };
 };
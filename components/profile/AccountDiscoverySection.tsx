@@ -0,0 +1,258 @@
+import React, { useState, useCallback } from "react";
+import { View, Text, TouchableOpacity } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { observer } from "@legendapp/state/react";
+import { AccountAddress } from "open-libra-sdk";
+import { styles, colors } from "../../styles/styles";
+import { SectionContainer } from "../common/SectionContainer";
+import { ActionButton } from "../common/ActionButton";
+import Dropdown from "../common/Dropdown";
+import { PinInputModal } from "../pin-input/PinInputModal";
+import { useModal } from "../../context/ModalContext";
+import {
+  getSecretAccountId,
+  setAccountSecretSource,
+  updateAccountKeyStoredStatus,
+} from "../../util/app-config-store";
+import { createAccount } from "../../util/account-utils";
+import { decodeAccountSecret } from "../../util/account-secret";
+import {
+  discoverAccounts,
+  type DiscoveredAccount,
+} from "../../util/account-discovery";
+import { getVisibleProfiles, isAccountHidden } from "../../util/duress";
+import { getLibraClientForAccount } from "../../util/libra-client";
+import { getValue } from "../../util/secure-store";
+import { verifyStoredPin, secureDecryptWithPin } from "../../util/pin-security";
+import { formatLibraAmount, shortenAddress } from "../../util/format-utils";
+import { reportErrorAuto } from "../../util/error-utils";
+
+interface AccountDiscoverySectionProps {
+  accountId: string;
+  profileName: string;
+  accountNickname?: string;
+}
+
+/**
+ * Scans further derivation indexes of an account's recovery phrase for
+ * accounts on chain, and adds the selected ones to a profile. Added accounts
+ * share the stored secret instead of storing another copy.
+ */
+export const AccountDiscoverySection: React.FC<AccountDiscoverySectionProps> =
+  observer(({ accountId, profileName, accountNickname }) => {
+    const [pinModalVisible, setPinModalVisible] = useState(false);
+    const [isScanning, setIsScanning] = useState(false);
+    const [scanIndex, setScanIndex] = useState<number | null>(null);
+    const [discovered, setDiscovered] = useState<DiscoveredAccount[] | null>(
+      null,
+    );
+    const [selected, setSelected] = useState<number[]>([]);
+    const [targetProfile, setTargetProfile] = useState(profileName);
+    const [isAdding, setIsAdding] = useState(false);
+    const { showAlert } = useModal();
+
+    const profiles = getVisibleProfiles();
+    const existingAddresses = new Set(
+      (profiles[targetProfile]?.accounts ?? []).map((acc) =>
+        acc.account_address.toLowerCase(),
+      ),
+    );
+
+    const handlePinAction = useCallback(
+      async (pin: string): Promise<boolean> => {
+        if (!(await verifyStoredPin(pin))) {
+          return false;
+        }
+
+        const secretAccountId = getSecretAccountId(accountId);
+        const encrypted = isAccountHidden(secretAccountId)
+          ? null
+          : await getValue(`account_${secretAccountId}`);
+        const decrypted = encrypted
+          ? await secureDecryptWithPin(encrypted, pin)
+          : null;
+
+        setPinModalVisible(false);
+        if (!decrypted || !decrypted.verified) {
+          showAlert("Error", "Failed to decrypt the recovery phrase");
+          return true;
+        }
+
+        setIsScanning(true);
+        setDiscovered(null);
+        setSelected([]);
+        try {
+          const accounts = await discoverAccounts(
+            decodeAccountSecret(decrypted.value),
+            getLibraClientForAccount(accountId),
+            setScanIndex,
+          );
+          setDiscovered(accounts);
+        } catch (error) {
+          reportErrorAuto("AccountDiscoverySection.scan", error, {
+            accountId,
+          });
+          showAlert("Scan Failed", "Could not scan for accounts on chain");
+        } finally {
+          setIsScanning(false);
+          setScanIndex(null);
+        }
+        return true;
+      },
+      [accountId, showAlert],
+    );
+
+    const toggleSelected = useCallback((index: number) => {
+      setSelected((prev) =>
+        prev.includes(index)
+          ? prev.filter((item) => item !== index)
+          : [...prev, index],
+      );
+    }, []);
+
+    const handleAdd = useCallback(async () => {
+      if (!discovered) return;
+
+      setIsAdding(true);
+      const secretAccountId = getSecretAccountId(accountId);
+      const failures: string[] = [];
+
+      for (const account of discovered) {
+        if (!selected.includes(account.index)) continue;
+
+        const result = await createAccount(
+          targetProfile,
+          AccountAddress.fromString(account.address),
+          accountNickname
+            ? `${accountNickname} #${account.index}`
+            : `Account #${account.index}`,
+        );
+
+        if (result.success && result.account) {
+          setAccountSecretSource(
+            result.account.id,
+            secretAccountId,
+            account.index,
+          );
+          updateAccountKeyStoredStatus(result.account.id, true);
+        } else {
+          failures.push(
+            `#${account.index}: ${result.error ?? "Unknown error"}`,
+          );
+        }
+      }
+
+      setIsAdding(false);
+      setSelected([]);
+      showAlert(
+        failures.length > 0 ? "Some Accounts Not Added" : "Accounts Added",
+        failures.length > 0
+          ? failures.join("\n")
+          : `The selected accounts were added to "${targetProfile}".`,
+      );
+    }, [
+      discovered,
+      selected,
+      accountId,
+      targetProfile,
+      accountNickname,
+      showAlert,
+    ]);
+
+    return (
+      <SectionContainer title="Discover Accounts">
+        <Text style={styles.description}>
+          Your recovery phrase can hold more accounts than this one. Scan the
+          chain for further accounts derived from it and add them to a profile.
+          They use the same stored recovery phrase.
+        </Text>
+
+        <ActionButton
+          text={isScanning ? `Checking account #${scanIndex ?? 0}...` : "Scan"}
+          onPress={() => setPinModalVisible(true)}
+          isLoading={isScanning}
+          disabled={isScanning || isAdding}
+          accessibilityHint="Scan the chain for accounts derived from this recovery phrase"
+        />
+
+        {discovered && discovered.length === 0 && (
+          <Text style={[styles.description, { marginTop: 12 }]}>
+            No accounts found on chain.
+          </Text>
+        )}
+
+        {discovered && discovered.length > 0 && (
+          <View style={{ marginTop: 12 }}>
+            <Dropdown
+              label="Add to profile"
+              value={targetProfile}
+              options={Object.keys(profiles)}
+              onSelect={setTargetProfile}
+            />
+
+            {discovered.map((account) => {
+              const alreadyAdded = existingAddresses.has(
+                account.address.toLowerCase(),
+              );
+              const isSelected = selected.includes(account.index);
+
+              return (
+                <TouchableOpacity
+                  key={account.index}
+                  style={[
+                    styles.listItem,
+                    { flexDirection: "row", alignItems: "center" },
+                  ]}
+                  onPress={() => toggleSelected(account.index)}
+                  disabled={alreadyAdded}
+                  accessibilityRole="checkbox"
+                  accessibilityState={{
+                    checked: isSelected,
+                    disabled: alreadyAdded,
+                  }}
+                >
+                  <Ionicons
+                    name={
+                      alreadyAdded || isSelected ? "checkbox" : "square-outline"
+                    }
+                    size={20}
+                    color={alreadyAdded ? colors.textSecondary : colors.primary}
+                    style={{ marginRight: 12 }}
+                  />
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.resultLabel}>
+                      #{account.index} {shortenAddress(account.address, 6, 4)}
+                    </Text>
+                    <Text style={styles.resultValue}>
+                      {formatLibraAmount(account.balanceTotal)}
+                      {alreadyAdded ? " • already in profile" : ""}
+                    </Text>
+                  </View>
+                </TouchableOpacity>
+              );
+            })}
+
+            <ActionButton
+              text={`Add ${selected.length} Account(s)`}
+              onPress={handleAdd}
+              isLoading={isAdding}
+              disabled={isAdding || selected.length === 0}
+              style={{ marginTop: 10 }}
+              accessibilityHint="Add the selected accounts to the profile"
+            />
+          </View>
+        )}
+
+        <PinInputModal
+          visible={pinModalVisible}
+          onClose={() => setPinModalVisible(false)}
+          purpose="retrieve"
+          onPinAction={handlePinAction}
+          actionTitle="Discover Accounts"
+          actionSubtitle="Enter your PIN to scan for accounts derived from this recovery phrase."
+        />
+      </SectionContainer>
+    );
+  });
+
+AccountDiscoverySection.displayName = "AccountDiscoverySection";
@@ -9,6 +9,7 @@ import { router } from "expo-router";
 import { retryAccountBalance } from "../../util/balance-polling-service";
 import { reportErrorAuto } from "../../util/error-utils";
 import { Identicon } from "../common/Identicon";
+import { isBackupUnverified } from "../../util/backup-verification";
 
 // Helper component for account status icons
 const AccountStatusIcons = ({
@@ -55,6 +56,14 @@ const AccountStatusIcons = ({
           accessibilityLabel="Account not migrated"
         />
       )}
+      {isBackupUnverified(account) && (
+        <Ionicons
+          name="document-text-outline"
+          size={iconSize}
+          color={colors.danger}
+          accessibilityLabel="Recovery phrase backup not verified"
+        />
+      )}
     </>
   );
 };
@@ -306,6 +315,7 @@ export const AccountItem = memo(
         parts.push("(data may be outdated - long press to retry)");
       if (account.is_v8_authorized === false) parts.push("(not v8 authorized)");
       if (account.v8_migrated === false) parts.push("(not migrated)");
+      if (isBackupUnverified(account)) parts.push("(backup not verified)");
       return parts.join(" ");
     };
 
@@ -9,8 +9,11 @@ import { appConfig } from "../../util/app-config-store";
 import { observer } from "@legendapp/state/react";
 import { AccountNicknameForm } from "./AccountNicknameForm";
 import { DeleteAccountSection } from "./DeleteAccountSection";
+import { AccountDiscoverySection } from "./AccountDiscoverySection";
 import { shortenAddress } from "@/util/format-utils";
 import { CopyButton } from "../common/CopyButton";
+import { isBackupUnverified } from "../../util/backup-verification";
+import { RevealPolicySection } from "../reveal/RevealPolicySection";
 
 // Define the component props
 interface AccountSettingsProps {
@@ -146,6 +149,20 @@ export const AccountSettings = memo(
           <Text style={[styles.description, { marginTop: 8, marginBottom: 0 }]}>
             This is your account&apos;s full address on the blockchain.
           </Text>
+          {account.secret_account_id && (
+            <Text
+              style={[styles.description, { marginTop: 8, marginBottom: 0 }]}
+            >
+              Derived account #{account.derivation_index ?? 0}. It shares its
+              recovery phrase with another stored account.
+            </Text>
+          )}
+          {isBackupUnverified(account) && (
+            <Text style={[styles.errorText, { marginTop: 8 }]}>
+              The recovery phrase backup of this account has not been verified.
+              Reveal the phrase below and verify your written copy.
+            </Text>
+          )}
         </View>
 
         <AccountNicknameForm
@@ -168,6 +185,18 @@ export const AccountSettings = memo(
           />
         </View>
 
+        {account.is_key_stored && (
+          <RevealPolicySection accountId={account.id} />
+        )}
+
+        {account.is_key_stored && (
+          <AccountDiscoverySection
+            accountId={account.id}
+            profileName={profileName}
+            accountNickname={account.nickname}
+          />
+        )}
+
         <PinInputModal
           visible={pinModalVisible}
           onClose={handlePinModalClose}
@@ -7,6 +7,7 @@ import { FormInput } from "../common/FormInput";
 import { SectionContainer } from "../common/SectionContainer";
 import { ActionButton } from "../common/ActionButton";
 import { appConfig } from "../../util/app-config-store";
+import { getVisibleProfiles } from "../../util/duress";
 import Dropdown from "../common/Dropdown";
 import { createAccount } from "../../util/account-utils";
 import { addressFromString } from "open-libra-sdk";
@@ -21,7 +22,7 @@ const AddAccountForm: React.FC<AddAccountFormProps> = ({
   onComplete,
 }) => {
   // Get all available profiles
-  const profileNames = Object.keys(appConfig.profiles.get());
+  const profileNames = Object.keys(getVisibleProfiles());
   const activeAccountId = appConfig.activeAccountId.get();
 
   // Get profile associated with active account, if any
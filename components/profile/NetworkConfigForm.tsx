@@ -0,0 +1,175 @@
+import React, { useState, memo } from "react";
+import { Text } from "react-native";
+import { styles } from "../../styles/styles";
+import { NetworkType, NetworkTypeEnum } from "../../util/app-config-store";
+import { getNetworkRpcUrls, validateNetwork } from "../../util/network-config";
+import { FormInput } from "../common/FormInput";
+import { ActionButton } from "../common/ActionButton";
+import Dropdown from "../common/Dropdown";
+
+interface NetworkConfigFormProps {
+  initialNetwork?: NetworkType;
+  submitText: string;
+  // Saves the validated network, returning an error message if it could not
+  onSave: (network: NetworkType) => string | null;
+  onCancel?: () => void;
+}
+
+/**
+ * Fields of a profile's network: its type, and optionally its REST
+ * endpoints, chain ID, faucet and explorer. The network is validated against
+ * its endpoints before it is saved.
+ */
+export const NetworkConfigForm = memo(
+  ({
+    initialNetwork,
+    submitText,
+    onSave,
+    onCancel,
+  }: NetworkConfigFormProps) => {
+    const [networkType, setNetworkType] = useState<NetworkTypeEnum>(
+      initialNetwork?.network_type ?? NetworkTypeEnum.MAINNET,
+    );
+    const [networkName, setNetworkName] = useState(
+      initialNetwork?.network_type === NetworkTypeEnum.CUSTOM
+        ? initialNetwork.network_name
+        : "",
+    );
+    const [rpcUrls, setRpcUrls] = useState(
+      initialNetwork?.rpc_urls?.join("\n") ?? "",
+    );
+    const [chainId, setChainId] = useState(
+      initialNetwork?.chain_id !== undefined
+        ? String(initialNetwork.chain_id)
+        : "",
+    );
+    const [faucetUrl, setFaucetUrl] = useState(
+      initialNetwork?.faucet_url ?? "",
+    );
+    const [explorerUrl, setExplorerUrl] = useState(
+      initialNetwork?.explorer_url ?? "",
+    );
+    const [error, setError] = useState<string | null>(null);
+    const [isValidating, setIsValidating] = useState(false);
+
+    const isCustom = networkType === NetworkTypeEnum.CUSTOM;
+    const [defaultUrl] = getNetworkRpcUrls({
+      network_name: networkType,
+      network_type: networkType,
+    });
+
+    const handleSave = async () => {
+      const urls = rpcUrls
+        .split(/[\s,]+/)
+        .map((url) => url.trim())
+        .filter(Boolean);
+
+      const network: NetworkType = {
+        network_name: isCustom ? networkName.trim() : networkType,
+        network_type: networkType,
+        rpc_urls: urls.length > 0 ? urls : undefined,
+        chain_id: chainId.trim() ? Number(chainId.trim()) : undefined,
+        faucet_url: faucetUrl.trim() || undefined,
+        explorer_url: explorerUrl.trim() || undefined,
+      };
+
+      setIsValidating(true);
+      setError(null);
+      try {
+        const result = await validateNetwork(network);
+        if (!result.success || !result.network) {
+          setError(result.error ?? "The network could not be validated");
+          return;
+        }
+        setError(onSave(result.network));
+      } finally {
+        setIsValidating(false);
+      }
+    };
+
+    return (
+      <>
+        {error && <Text style={styles.errorText}>{error}</Text>}
+
+        <Dropdown
+          label="Network Type"
+          value={networkType}
+          options={Object.values(NetworkTypeEnum)}
+          onSelect={setNetworkType}
+        />
+
+        {isCustom && (
+          <FormInput
+            label="Custom Network Name:"
+            value={networkName}
+            onChangeText={setNetworkName}
+            placeholder="Enter custom network name"
+          />
+        )}
+
+        <FormInput
+          label={isCustom ? "RPC URLs:" : "RPC URLs (optional):"}
+          value={rpcUrls}
+          onChangeText={setRpcUrls}
+          placeholder={
+            defaultUrl ? `Default: ${defaultUrl}` : "One REST endpoint per line"
+          }
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+          multiline
+        />
+
+        <FormInput
+          label="Expected Chain ID (optional):"
+          value={chainId}
+          onChangeText={setChainId}
+          placeholder="Taken from the network if empty"
+          keyboardType="number-pad"
+        />
+
+        <FormInput
+          label="Faucet URL (optional):"
+          value={faucetUrl}
+          onChangeText={setFaucetUrl}
+          placeholder="https://"
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+        />
+
+        <FormInput
+          label="Explorer URL (optional):"
+          value={explorerUrl}
+          onChangeText={setExplorerUrl}
+          placeholder="https://"
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+        />
+
+        <ActionButton
+          text={isValidating ? "Checking Network..." : submitText}
+          onPress={handleSave}
+          isLoading={isValidating}
+          disabled={isValidating}
+          accessibilityLabel={submitText}
+          accessibilityHint="Checks the network's RPC URLs before saving"
+        />
+
+        {onCancel && (
+          <ActionButton
+            text="Cancel"
+            onPress={onCancel}
+            variant="secondary"
+            disabled={isValidating}
+            style={{ marginTop: 8 }}
+            accessibilityLabel="Cancel editing the network"
+          />
+        )}
+      </>
+    );
+  },
+);
+
+NetworkConfigForm.displayName = "NetworkConfigForm";
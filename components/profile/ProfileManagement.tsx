@@ -6,22 +6,28 @@ import {
   appConfig,
   getProfileForAccount,
   setActiveAccount,
+  setProfileNetwork,
 } from "../../util/app-config-store";
 import CreateProfileForm from "./CreateProfileForm";
+import { NetworkConfigForm } from "./NetworkConfigForm";
 import ConfirmationModal from "../modal/ConfirmationModal";
 import { SectionContainer } from "../common/SectionContainer";
 import { ActionButton } from "../common/ActionButton";
 import { shortenAddress } from "../../util/format-utils";
+import { getVisibleProfiles, isDuressModeActive } from "../../util/duress";
 
 const ProfileManagement: React.FC = observer(() => {
   const [selectedProfileName, setSelectedProfileName] = useState<string | null>(
     null,
   );
   const [showCreateForm, setShowCreateForm] = useState(false);
+  const [editingNetworkProfile, setEditingNetworkProfile] = useState<
+    string | null
+  >(null);
   const [deleteAllModalVisible, setDeleteAllModalVisible] = useState(false);
 
-  // Get all profiles from the store
-  const profiles = appConfig.profiles.get();
+  // Get all profiles that can be shown (only the decoy one in duress mode)
+  const profiles = getVisibleProfiles();
   const activeAccountId = appConfig.activeAccountId.get();
 
   // Find which profile contains the active account
@@ -43,11 +49,18 @@ const ProfileManagement: React.FC = observer(() => {
   }, []);
 
   const confirmDeleteAllProfiles = useCallback(() => {
-    appConfig.profiles.set({});
+    if (isDuressModeActive()) {
+      // Only the visible profiles can be deleted in duress mode
+      Object.keys(profiles).forEach((profileName) =>
+        appConfig.profiles[profileName].delete(),
+      );
+    } else {
+      appConfig.profiles.set({});
+    }
     appConfig.activeAccountId.set(null);
     setSelectedProfileName(null);
     setDeleteAllModalVisible(false);
-  }, []);
+  }, [profiles]);
 
   const toggleCreateForm = useCallback(() => {
     setShowCreateForm((prev) => !prev);
@@ -75,6 +88,26 @@ const ProfileManagement: React.FC = observer(() => {
           Network: {profile.network.network_name} (
           {profile.network.network_type})
         </Text>
+        {profile.network.rpc_urls && (
+          <Text style={styles.resultValue}>
+            RPC: {profile.network.rpc_urls.join(", ")}
+          </Text>
+        )}
+        {profile.network.chain_id !== undefined && (
+          <Text style={styles.resultValue}>
+            Chain ID: {profile.network.chain_id}
+          </Text>
+        )}
+        {profile.network.faucet_url && (
+          <Text style={styles.resultValue}>
+            Faucet: {profile.network.faucet_url}
+          </Text>
+        )}
+        {profile.network.explorer_url && (
+          <Text style={styles.resultValue}>
+            Explorer: {profile.network.explorer_url}
+          </Text>
+        )}
         {/* List accounts for this profile */}
         {profile.accounts.length > 0 && (
           <View style={{ marginTop: 8 }}>
@@ -95,9 +128,34 @@ const ProfileManagement: React.FC = observer(() => {
             accessibilityLabel={`Make ${profileName} the active profile`}
           />
         )}
+        {editingNetworkProfile === profileName ? (
+          <View style={{ marginTop: 8 }}>
+            <NetworkConfigForm
+              initialNetwork={profile.network}
+              submitText="Save Network"
+              onSave={(network) => {
+                if (!setProfileNetwork(profileName, network)) {
+                  return `Profile "${profileName}" no longer exists.`;
+                }
+                setEditingNetworkProfile(null);
+                return null;
+              }}
+              onCancel={() => setEditingNetworkProfile(null)}
+            />
+          </View>
+        ) : (
+          <ActionButton
+            text="Edit Network"
+            onPress={() => setEditingNetworkProfile(profileName)}
+            variant="secondary"
+            size="small"
+            style={{ marginTop: 8, alignSelf: "flex-start" }}
+            accessibilityLabel={`Edit the network of ${profileName}`}
+          />
+        )}
       </View>
     ));
-  }, [profiles, activeProfileName]);
+  }, [profiles, activeProfileName, editingNetworkProfile]);
 
   const renderEmptyState = useCallback(() => {
     if (selectedProfile || Object.keys(profiles).length > 0) return null;
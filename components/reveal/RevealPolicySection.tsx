@@ -0,0 +1,174 @@
+import React, { useCallback } from "react";
+import { View, Text } from "react-native";
+import { observer } from "@legendapp/state/react";
+import { styles } from "../../styles/styles";
+import { ActionButton } from "../common/ActionButton";
+import Dropdown from "../common/Dropdown";
+import { useModal } from "../../context/ModalContext";
+import {
+  REVEAL_WAITING_PERIOD_OPTIONS_MS,
+  REVEAL_WINDOW_OPTIONS_MS,
+  authenticateForReveal,
+  cancelPendingRevealPolicy,
+  formatRevealDuration,
+  getAccountOwnRevealPolicy,
+  getPendingRevealPolicy,
+  getRevealPolicy,
+  setRevealPolicy,
+} from "../../util/reveal-controller";
+import { formatTimestamp } from "../../util/format-utils";
+import type { RevealPolicy } from "../../util/app-config-store";
+
+interface RevealPolicySectionProps {
+  accountId: string;
+}
+
+const renderWaitingPeriodLabel = (option: string) =>
+  Number(option) === 0
+    ? "No waiting period"
+    : formatRevealDuration(Number(option));
+
+const renderWindowLabel = (option: string) =>
+  formatRevealDuration(Number(option));
+
+const renderDeviceAuthLabel = (option: string) =>
+  option === "required" ? "Required" : "Not required";
+
+const describePolicy = (policy: RevealPolicy) =>
+  [
+    renderWaitingPeriodLabel(String(policy.waiting_period_ms)),
+    `${formatRevealDuration(policy.reveal_window_ms)} to reveal`,
+    policy.require_device_auth
+      ? "device authentication required"
+      : "no device authentication",
+  ].join(", ");
+
+/**
+ * Per-account settings for revealing the recovery phrase: the waiting period,
+ * how long the reveal stays available and whether device authentication is
+ * asked for on top of the PIN
+ */
+export const RevealPolicySection: React.FC<RevealPolicySectionProps> = observer(
+  ({ accountId }) => {
+    const { showAlert } = useModal();
+
+    const policy = getAccountOwnRevealPolicy(accountId);
+    const effectivePolicy = getRevealPolicy(accountId);
+    const pending = getPendingRevealPolicy(accountId);
+    const isSharedPolicyStricter =
+      effectivePolicy.waiting_period_ms !== policy.waiting_period_ms ||
+      effectivePolicy.reveal_window_ms !== policy.reveal_window_ms ||
+      effectivePolicy.require_device_auth !== policy.require_device_auth;
+
+    const applyPolicy = useCallback(
+      (next: RevealPolicy) => {
+        const result = setRevealPolicy(accountId, next);
+        if (!result) {
+          showAlert(
+            "Policy Not Changed",
+            "The reveal policy could not be saved. Restart the app and try again.",
+          );
+        } else if (result.pending) {
+          showAlert(
+            "Change Scheduled",
+            `A weaker reveal policy takes effect after the current waiting period, on ${formatTimestamp(result.effectiveAt)}.`,
+          );
+        }
+      },
+      [accountId, showAlert],
+    );
+
+    const handleWaitingPeriodSelect = useCallback(
+      (option: string) => {
+        applyPolicy({ ...policy, waiting_period_ms: Number(option) });
+      },
+      [applyPolicy, policy],
+    );
+
+    const handleWindowSelect = useCallback(
+      (option: string) => {
+        applyPolicy({ ...policy, reveal_window_ms: Number(option) });
+      },
+      [applyPolicy, policy],
+    );
+
+    const handleDeviceAuthSelect = useCallback(
+      async (option: string) => {
+        const required = option === "required";
+        // Make sure the device can authenticate before relying on it
+        if (required && !policy.require_device_auth) {
+          if (!(await authenticateForReveal())) {
+            showAlert(
+              "Authentication Failed",
+              "Device authentication must succeed before it can be required for reveals.",
+            );
+            return;
+          }
+        }
+        applyPolicy({ ...policy, require_device_auth: required });
+      },
+      [applyPolicy, policy, showAlert],
+    );
+
+    return (
+      <View style={styles.inputContainer}>
+        <Text style={styles.label}>Reveal Policy</Text>
+        <Text style={styles.description}>
+          How long a reveal of the recovery phrase must wait, and how long it
+          stays available afterwards. Weakening the policy only takes effect
+          after the current waiting period.
+        </Text>
+
+        <Dropdown
+          label="Waiting period"
+          value={String(policy.waiting_period_ms)}
+          options={REVEAL_WAITING_PERIOD_OPTIONS_MS.map(String)}
+          onSelect={handleWaitingPeriodSelect}
+          renderLabel={renderWaitingPeriodLabel}
+        />
+
+        <Dropdown
+          label="Reveal window"
+          value={String(policy.reveal_window_ms)}
+          options={REVEAL_WINDOW_OPTIONS_MS.map(String)}
+          onSelect={handleWindowSelect}
+          renderLabel={renderWindowLabel}
+        />
+
+        <Dropdown
+          label="Device authentication"
+          value={policy.require_device_auth ? "required" : "not_required"}
+          options={["not_required", "required"]}
+          onSelect={handleDeviceAuthSelect}
+          renderLabel={renderDeviceAuthLabel}
+        />
+
+        {isSharedPolicyStricter && (
+          <Text style={[styles.description, { marginTop: 8 }]}>
+            Accounts sharing this recovery phrase reveal it with the strictest
+            of their policies: {describePolicy(effectivePolicy)}.
+          </Text>
+        )}
+
+        {pending && (
+          <View style={{ marginTop: 8 }}>
+            <Text style={styles.errorText}>
+              Weaker policy ({describePolicy(pending.policy)}) takes effect on{" "}
+              {formatTimestamp(pending.effective_at)}.
+            </Text>
+            <ActionButton
+              text="Cancel Change"
+              onPress={() => cancelPendingRevealPolicy(accountId)}
+              variant="secondary"
+              size="small"
+              style={{ marginTop: 8 }}
+              accessibilityLabel="Cancel the scheduled reveal policy change"
+            />
+          </View>
+        )}
+      </View>
+    );
+  },
+);
+
+RevealPolicySection.displayName = "RevealPolicySection";
@@ -2,6 +2,7 @@ import React, { memo, useState, useEffect, useRef, useCallback } from "react";
 import { Text, View, ActivityIndicator } from "react-native";
 import { styles, colors, namedColors } from "../../styles/styles";
 import { ActionButton } from "../common/ActionButton";
+import { CopyButton } from "../common/CopyButton";
 
 // Configuration for auto-hiding revealed values
 const AUTO_HIDE_DELAY_MS = 30 * 1000; // 30 seconds
@@ -215,18 +216,27 @@ export const RevealStatusUI = memo(
               Successfully Revealed Value{" "}
               {accountName ? `for ${accountName}` : ""}:
             </Text>
-            <ActionButton
-              text="Hide"
-              onPress={handleClearRevealedValue}
-              size="small"
-              style={{ backgroundColor: "transparent", borderWidth: 0 }}
-              textStyle={{ color: styles.dangerButtonText.color }}
-              accessibilityLabel="Hide revealed value"
-            />
+            <View style={{ flexDirection: "row", alignItems: "center" }}>
+              <CopyButton
+                text={storedValue}
+                variant="icon"
+                size="small"
+                sensitivity="secret"
+                secretDescription="recovery phrase"
+                accessibilityLabel="Copy recovery phrase"
+              />
+              <ActionButton
+                text="Hide"
+                onPress={handleClearRevealedValue}
+                size="small"
+                style={{ backgroundColor: "transparent", borderWidth: 0 }}
+                textStyle={{ color: styles.dangerButtonText.color }}
+                accessibilityLabel="Hide revealed value"
+              />
+            </View>
           </View>
-          <Text style={styles.resultValue} selectable={true}>
-            {storedValue}
-          </Text>
+          {/* Not selectable: copies go through CopyButton, which clears them */}
+          <Text style={styles.resultValue}>{storedValue}</Text>
           <Text
             style={{
               color: colors.textSecondary,
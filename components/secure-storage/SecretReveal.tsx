@@ -1,11 +1,22 @@
-import React, { memo, useCallback } from "react";
+import React, { memo, useCallback, useState } from "react";
 import { View, Text } from "react-native";
 import { styles } from "../../styles/styles";
 import { useSecureStorage } from "../../hooks/use-secure-storage";
 import { RevealStatusUI } from "../reveal/RevealStatusUI";
+import { MnemonicSharesDisplay } from "../account-creation/MnemonicSharesDisplay";
 import { PinInputModal } from "../pin-input/PinInputModal";
+import { BackupVerificationQuiz } from "../account-creation/BackupVerificationQuiz";
+import { ActionButton } from "../common/ActionButton";
+import { CopyButton } from "../common/CopyButton";
 import { observer } from "@legendapp/state/react";
 import { formatWaitingPeriod } from "../../util/reveal-controller";
+import { decodeAccountSecret } from "../../util/account-secret";
+import { isBackupUnverified } from "../../util/backup-verification";
+import {
+  appConfig,
+  getSecretAccountId,
+  setAccountBackupVerified,
+} from "../../util/app-config-store";
 
 interface SecretRevealProps {
   accountId: string;
@@ -28,6 +39,22 @@ export const SecretReveal = memo(
       revealStatus,
     } = useSecureStorage(accountId);
 
+    const secret = storedValue ? decodeAccountSecret(storedValue) : null;
+    const [isQuizVisible, setIsQuizVisible] = useState(false);
+
+    // Derived accounts reveal, and verify, the phrase of their secret account
+    const secretAccountId = getSecretAccountId(accountId);
+    const secretAccount = Object.values(appConfig.profiles.get())
+      .flatMap((profile) => profile.accounts)
+      .find((acc) => acc.id === secretAccountId);
+    const needsBackupVerification =
+      !!secretAccount && isBackupUnverified(secretAccount);
+
+    const handleBackupVerified = useCallback(() => {
+      setAccountBackupVerified(secretAccountId, true);
+      setIsQuizVisible(false);
+    }, [secretAccountId]);
+
     // Get purpose for pin modal
     const getPinPurpose = useCallback(() => {
       switch (currentAction) {
@@ -45,16 +72,16 @@ export const SecretReveal = memo(
         <Text style={styles.label}>Reveal Secure Data</Text>
         <Text style={styles.description}>
           This screen allows you to securely reveal your recovery mnemonic. You
-          must first schedule a reveal and wait {formatWaitingPeriod()} before
-          you can access the data. Once revealed, the data will automatically
-          hide after 30 seconds.
+          must first schedule a reveal and wait {formatWaitingPeriod(accountId)}{" "}
+          before you can access the data. Once revealed, the data will
+          automatically hide after 30 seconds.
         </Text>
 
         <RevealStatusUI
           accountId={accountId}
           accountName={accountName}
           revealStatus={revealStatus}
-          storedValue={storedValue}
+          storedValue={secret?.mnemonic ?? null}
           isLoading={isLoading}
           onScheduleReveal={handleScheduleReveal}
           onExecuteReveal={handleExecuteReveal}
@@ -62,12 +89,62 @@ export const SecretReveal = memo(
           onClearRevealedValue={clearRevealedValue}
         />
 
+        {secret?.passphrase && (
+          <View style={styles.listItem}>
+            <View
+              style={{
+                flexDirection: "row",
+                justifyContent: "space-between",
+                alignItems: "center",
+              }}
+            >
+              <Text style={styles.resultLabel}>Passphrase:</Text>
+              <CopyButton
+                text={secret.passphrase}
+                variant="icon"
+                size="small"
+                sensitivity="secret"
+                secretDescription="passphrase"
+                accessibilityLabel="Copy passphrase"
+              />
+            </View>
+            <Text style={styles.resultValue}>{secret.passphrase}</Text>
+            <Text style={styles.description}>
+              The passphrase is not part of the recovery phrase or its shares.
+              Keep it separately.
+            </Text>
+          </View>
+        )}
+
+        {secret && needsBackupVerification && (
+          <View style={styles.listItem}>
+            {isQuizVisible ? (
+              <BackupVerificationQuiz
+                mnemonic={secret.mnemonic}
+                onVerified={handleBackupVerified}
+                onCancel={() => setIsQuizVisible(false)}
+              />
+            ) : (
+              <ActionButton
+                text="Verify Written Backup"
+                onPress={() => setIsQuizVisible(true)}
+                variant="secondary"
+                accessibilityLabel="Verify your written recovery phrase"
+                accessibilityHint="Asks for a few words of the phrase to confirm your backup"
+              />
+            )}
+          </View>
+        )}
+
+        {secret && <MnemonicSharesDisplay mnemonic={secret.mnemonic} />}
+
         {/* PIN Input Modal */}
         <PinInputModal
           visible={pinModalVisible}
           onClose={handlePinModalClose}
           onPinAction={handlePinAction}
           purpose={getPinPurpose()}
+          accountId={accountId}
         />
       </View>
     );
@@ -0,0 +1,115 @@
+import React, { useCallback } from "react";
+import { Text, View } from "react-native";
+import { observer } from "@legendapp/state/react";
+import { styles } from "../../styles/styles";
+import { SectionContainer } from "../common/SectionContainer";
+import { ActionButton } from "../common/ActionButton";
+import Dropdown from "../common/Dropdown";
+import { useModal } from "../../context/ModalContext";
+import {
+  AUTO_LOCK_BACKGROUND_SECOND_OPTIONS,
+  AUTO_LOCK_MINUTE_OPTIONS,
+  getAutoLockBackgroundSeconds,
+  getAutoLockMinutes,
+  isAppPinOnly,
+  lockApp,
+  setAppPinOnly,
+  setAutoLockBackgroundSeconds,
+  setAutoLockMinutes,
+} from "../../util/app-lock";
+import { hasPINSetup } from "../../util/user-state";
+
+const UNLOCK_OPTIONS = ["device", "app_pin"];
+
+const renderMinutesLabel = (option: string) =>
+  option === "0"
+    ? "Never"
+    : `After ${option} minute${option === "1" ? "" : "s"}`;
+
+const renderSecondsLabel = (option: string) => {
+  const seconds = Number(option);
+  if (seconds === 0) return "Immediately";
+  return seconds < 60
+    ? `After ${seconds} seconds`
+    : `After ${seconds / 60} minute${seconds === 60 ? "" : "s"}`;
+};
+
+const renderUnlockLabel = (option: string) =>
+  option === "app_pin" ? "App PIN only" : "Biometrics or device passcode";
+
+/**
+ * Settings for how the app unlocks, and for locking it after inactivity or
+ * time in the background
+ */
+export const AppLockSection: React.FC = observer(() => {
+  const { showAlert } = useModal();
+  const minutes = getAutoLockMinutes();
+  const backgroundSeconds = getAutoLockBackgroundSeconds();
+  const appPinOnly = isAppPinOnly();
+
+  const handleUnlockSelect = useCallback(
+    async (option: string) => {
+      if (option === "app_pin" && !(await hasPINSetup())) {
+        showAlert("No PIN Set", "Create a PIN before unlocking with it.");
+        return;
+      }
+      setAppPinOnly(option === "app_pin");
+    },
+    [showAlert],
+  );
+
+  const handleMinutesSelect = useCallback((option: string) => {
+    setAutoLockMinutes(Number(option));
+  }, []);
+
+  const handleBackgroundSelect = useCallback((option: string) => {
+    setAutoLockBackgroundSeconds(Number(option));
+  }, []);
+
+  return (
+    <SectionContainer title="App Lock" style={styles.listItem}>
+      <Text style={styles.description}>
+        Locked screens close, including revealed recovery phrases. After
+        unlocking you return to where you were. Devices without biometrics
+        always unlock with the app PIN.
+      </Text>
+
+      <Dropdown
+        label="Unlock with"
+        value={appPinOnly ? "app_pin" : "device"}
+        options={UNLOCK_OPTIONS}
+        onSelect={handleUnlockSelect}
+        renderLabel={renderUnlockLabel}
+      />
+
+      <View style={{ marginTop: 10 }}>
+        <Dropdown
+          label="Lock without interaction"
+          value={String(minutes)}
+          options={AUTO_LOCK_MINUTE_OPTIONS.map(String)}
+          onSelect={handleMinutesSelect}
+          renderLabel={renderMinutesLabel}
+        />
+      </View>
+
+      <View style={{ marginTop: 10 }}>
+        <Dropdown
+          label="Lock in the background"
+          value={String(backgroundSeconds)}
+          options={AUTO_LOCK_BACKGROUND_SECOND_OPTIONS.map(String)}
+          onSelect={handleBackgroundSelect}
+          renderLabel={renderSecondsLabel}
+        />
+      </View>
+
+      <ActionButton
+        text="Lock Now"
+        onPress={() => lockApp("manual")}
+        style={{ marginTop: 10 }}
+        accessibilityLabel="Lock the app now"
+      />
+    </SectionContainer>
+  );
+});
+
+AppLockSection.displayName = "AppLockSection";
@@ -0,0 +1,43 @@
+import React, { useCallback } from "react";
+import { Text } from "react-native";
+import { observer } from "@legendapp/state/react";
+import { styles } from "../../styles/styles";
+import { SectionContainer } from "../common/SectionContainer";
+import Dropdown from "../common/Dropdown";
+import {
+  CLIPBOARD_CLEAR_SECOND_OPTIONS,
+  getClipboardClearSeconds,
+  setClipboardClearSeconds,
+} from "../../util/clipboard";
+
+const renderSecondsLabel = (option: string) => `After ${option} seconds`;
+
+/**
+ * Setting for how long copied secrets stay on the clipboard
+ */
+export const ClipboardSection: React.FC = observer(() => {
+  const clearSeconds = getClipboardClearSeconds();
+
+  const handleSelect = useCallback((option: string) => {
+    setClipboardClearSeconds(Number(option));
+  }, []);
+
+  return (
+    <SectionContainer title="Clipboard" style={styles.listItem}>
+      <Text style={styles.description}>
+        Copied recovery phrases, shares and passphrases are removed from the
+        clipboard unless you copied something else since. Addresses stay.
+      </Text>
+
+      <Dropdown
+        label="Clear copied secrets"
+        value={String(clearSeconds)}
+        options={CLIPBOARD_CLEAR_SECOND_OPTIONS.map(String)}
+        onSelect={handleSelect}
+        renderLabel={renderSecondsLabel}
+      />
+    </SectionContainer>
+  );
+});
+
+ClipboardSection.displayName = "ClipboardSection";
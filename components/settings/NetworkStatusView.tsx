@@ -0,0 +1,260 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+} from "react-native";
+import { observer } from "@legendapp/state/react";
+import { Ionicons } from "@expo/vector-icons";
+import { styles, colors } from "../../styles/styles";
+import { SectionContainer } from "../common/SectionContainer";
+import { ActionButton } from "../common/ActionButton";
+import { FormInput } from "../common/FormInput";
+import { appConfig, setProfileNetwork } from "../../util/app-config-store";
+import { getLibraClientConfig } from "../../util/libra-client";
+import { addNetworkEndpoint } from "../../util/network-config";
+import {
+  checkEndpoints,
+  getActiveEndpoint,
+  getActiveEndpointReason,
+  getEndpointHealth,
+  type EndpointHealth,
+} from "../../util/rpc-endpoints";
+import { formatTimestamp } from "../../util/format-utils";
+
+interface NetworkStatusViewProps {
+  onClose?: () => void;
+}
+
+const scoreColor = (score: number | null) =>
+  score === null
+    ? colors.textSecondary
+    : score >= 50
+      ? colors.success
+      : colors.danger;
+
+/**
+ * Shows the RPC endpoints of the active network, their health scores, and
+ * which one is active and why. Endpoints can be added for requests to fail
+ * over to.
+ */
+export const NetworkStatusView: React.FC<NetworkStatusViewProps> = observer(
+  ({ onClose }) => {
+    const [checking, setChecking] = useState(false);
+    const [newUrl, setNewUrl] = useState("");
+    const [adding, setAdding] = useState(false);
+    const [addError, setAddError] = useState<string | null>(null);
+
+    const config = getLibraClientConfig();
+    const client = config.client;
+    const activeUrl = client ? getActiveEndpoint(client.urls) : null;
+    const activeReason = client ? getActiveEndpointReason(client.urls) : null;
+    const endpoints = client ? getEndpointHealth(client.urls) : [];
+
+    const runCheck = useCallback(async () => {
+      const current = getLibraClientConfig().client;
+      if (!current) return;
+      setChecking(true);
+      try {
+        await checkEndpoints(current.network, current.urls);
+      } catch (error) {
+        console.error("Failed to check RPC endpoints:", error);
+      } finally {
+        setChecking(false);
+      }
+    }, []);
+
+    useEffect(() => {
+      runCheck();
+    }, [runCheck]);
+
+    const handleAddEndpoint = useCallback(async () => {
+      const { profileName } = getLibraClientConfig();
+      const network = profileName
+        ? appConfig.profiles[profileName].network.peek()
+        : undefined;
+      if (!profileName || !network) {
+        setAddError("Select an account first to add endpoints to its network.");
+        return;
+      }
+
+      setAdding(true);
+      setAddError(null);
+      try {
+        const result = await addNetworkEndpoint(network, newUrl);
+        if (!result.success || !result.network) {
+          setAddError(result.error ?? "The endpoint could not be added");
+          return;
+        }
+        if (!setProfileNetwork(profileName, result.network)) {
+          setAddError(`Profile "${profileName}" no longer exists.`);
+          return;
+        }
+        setNewUrl("");
+      } finally {
+        setAdding(false);
+      }
+      runCheck();
+    }, [newUrl, runCheck]);
+
+    const renderEndpoint = (endpoint: EndpointHealth, index: number) => {
+      const isActive = endpoint.url === activeUrl;
+
+      return (
+        <View
+          key={endpoint.url}
+          style={[styles.resultContainer, { marginBottom: 8 }]}
+          accessible={true}
+          accessibilityLabel={`Endpoint ${index + 1}${isActive ? ", active" : ""}: ${endpoint.url}`}
+        >
+          <View
+            style={{
+              flexDirection: "row",
+              alignItems: "center",
+              marginBottom: 4,
+            }}
+          >
+            <Ionicons
+              name={isActive ? "radio-button-on" : "radio-button-off"}
+              size={16}
+              color={isActive ? colors.success : colors.textSecondary}
+              style={{ marginRight: 8 }}
+            />
+            <Text style={[styles.resultValue, { flex: 1 }]}>
+              {endpoint.url}
+            </Text>
+            <Text
+              style={[
+                styles.resultValue,
+                { color: scoreColor(endpoint.score), marginLeft: 8 },
+              ]}
+            >
+              {endpoint.score === null ? "—" : endpoint.score}
+            </Text>
+          </View>
+
+          <Text style={[styles.resultValue, { fontSize: 12 }]}>
+            {endpoint.requests === 0
+              ? "No requests yet"
+              : `${endpoint.latencyMs ?? "?"} ms average, ${Math.round(
+                  endpoint.errorRate * 100,
+                )}% errors over ${endpoint.requests} requests`}
+            {endpoint.coolingDown && ", skipped after a failure"}
+          </Text>
+
+          {endpoint.lastError && endpoint.lastErrorAt && (
+            <Text style={[styles.errorText, { fontSize: 12, marginTop: 4 }]}>
+              Last error {formatTimestamp(endpoint.lastErrorAt)}:{" "}
+              {endpoint.lastError}
+            </Text>
+          )}
+        </View>
+      );
+    };
+
+    return (
+      <View style={{ flex: 1, backgroundColor: colors.background }}>
+        {/* Header */}
+        <View
+          style={{
+            flexDirection: "row",
+            alignItems: "center",
+            justifyContent: "space-between",
+            padding: 16,
+            borderBottomWidth: 1,
+            borderBottomColor: colors.border,
+          }}
+        >
+          <Text style={[styles.title, { flex: 1 }]}>Network Status</Text>
+          {onClose && (
+            <TouchableOpacity onPress={onClose} style={{ padding: 8 }}>
+              <Ionicons name="close" size={24} color="#fff" />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <ScrollView
+          style={{ flex: 1 }}
+          refreshControl={
+            <RefreshControl refreshing={checking} onRefresh={runCheck} />
+          }
+        >
+          {/* Active endpoint */}
+          <SectionContainer
+            title={`${config.networkName} (${config.networkType})`}
+          >
+            <View style={styles.resultContainer}>
+              {client ? (
+                <>
+                  <Text style={styles.resultValue}>Active: {activeUrl}</Text>
+                  {activeReason && (
+                    <Text style={[styles.resultValue, { marginTop: 4 }]}>
+                      {activeReason.reason} (
+                      {formatTimestamp(activeReason.changedAt)})
+                    </Text>
+                  )}
+                </>
+              ) : (
+                <Text style={styles.errorText}>
+                  This network has no RPC URL configured. Add one in profile
+                  settings.
+                </Text>
+              )}
+            </View>
+          </SectionContainer>
+
+          {/* Endpoints */}
+          {client && (
+            <SectionContainer title={`Endpoints (${endpoints.length})`}>
+              {endpoints.map(renderEndpoint)}
+              <Text style={[styles.description, { marginBottom: 8 }]}>
+                Scores run from 0 to 100 and combine the error rate of recent
+                requests with their latency. Failed endpoints are skipped for a
+                minute while requests go to the next one.
+              </Text>
+              <ActionButton
+                text={checking ? "Checking..." : "Check Endpoints"}
+                onPress={runCheck}
+                isLoading={checking}
+                disabled={checking}
+                accessibilityLabel="Check all endpoints and use the healthiest"
+              />
+            </SectionContainer>
+          )}
+
+          {/* Add endpoint */}
+          {client && (
+            <SectionContainer title="Add Endpoint">
+              {addError && <Text style={styles.errorText}>{addError}</Text>}
+              <FormInput
+                label="RPC URL:"
+                value={newUrl}
+                onChangeText={setNewUrl}
+                placeholder="https://"
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="url"
+                disabled={adding}
+              />
+              <Text style={[styles.description, { marginBottom: 8 }]}>
+                The endpoint is added after the others and must report the same
+                chain ID as the network.
+              </Text>
+              <ActionButton
+                text={adding ? "Checking Endpoint..." : "Add Endpoint"}
+                onPress={handleAddEndpoint}
+                isLoading={adding}
+                disabled={adding || !newUrl.trim()}
+                accessibilityLabel="Add the endpoint to the active network"
+              />
+            </SectionContainer>
+          )}
+        </ScrollView>
+      </View>
+    );
+  },
+);
+
+NetworkStatusView.displayName = "NetworkStatusView";
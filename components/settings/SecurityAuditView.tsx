@@ -0,0 +1,238 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+} from "react-native";
+import { observer } from "@legendapp/state/react";
+import { Ionicons } from "@expo/vector-icons";
+import { styles, colors } from "../../styles/styles";
+import { SectionContainer } from "../common/SectionContainer";
+import {
+  getAuditEntries,
+  verifyAuditLog,
+  type AuditEventType,
+  type AuditVerification,
+} from "../../util/security-audit";
+import { getVisibleProfiles, isDuressModeActive } from "../../util/duress";
+import { formatTimestamp } from "../../util/format-utils";
+
+interface SecurityAuditViewProps {
+  onClose?: () => void;
+}
+
+const EVENT_LABELS: Record<AuditEventType, string> = {
+  pin_created: "PIN created",
+  pin_changed: "PIN changed",
+  pin_failed: "Wrong PIN entered",
+  reveal_scheduled: "Reveal scheduled",
+  reveal_policy_changed: "Reveal policy changed",
+  reveal_executed: "Secret revealed",
+  reveal_invalidated: "Reveal cancelled after clock change",
+  reveal_schedule_rejected: "Forged reveal schedule rejected",
+  reveal_policy_rejected: "Forged reveal policy rejected",
+  secret_copied: "Secret copied",
+  backup_exported: "Backup exported",
+  account_deleted: "Account deleted",
+  transaction_signed: "Transaction signed",
+  transaction_blocked: "Transaction blocked",
+};
+
+/**
+ * Shows the security audit log and whether its hash chain is intact
+ */
+export const SecurityAuditView: React.FC<SecurityAuditViewProps> = observer(
+  ({ onClose }) => {
+    const [verification, setVerification] = useState<AuditVerification | null>(
+      null,
+    );
+    const [expandedEntries, setExpandedEntries] = useState<Set<number>>(
+      new Set(),
+    );
+    const [refreshing, setRefreshing] = useState(false);
+
+    // Entries of accounts outside the visible profiles are left out in
+    // duress mode
+    const visibleAccountIds = new Set(
+      Object.values(getVisibleProfiles()).flatMap((profile) =>
+        profile.accounts.map((account) => account.id),
+      ),
+    );
+    const entries = getAuditEntries().filter((entry) => {
+      const accountId = entry.details?.accountId;
+      return (
+        typeof accountId !== "string" ||
+        !isDuressModeActive() ||
+        visibleAccountIds.has(accountId)
+      );
+    });
+
+    const runVerification = useCallback(async () => {
+      try {
+        setVerification(await verifyAuditLog());
+      } catch (error) {
+        console.error("Failed to verify security audit log:", error);
+        setVerification({
+          status: "broken",
+          seq: null,
+          reason: "The log could not be read",
+        });
+      }
+    }, []);
+
+    useEffect(() => {
+      runVerification();
+    }, [runVerification]);
+
+    const handleRefresh = async () => {
+      setRefreshing(true);
+      await runVerification();
+      setRefreshing(false);
+    };
+
+    const toggleEntryExpansion = (seq: number) => {
+      const newExpanded = new Set(expandedEntries);
+      if (newExpanded.has(seq)) {
+        newExpanded.delete(seq);
+      } else {
+        newExpanded.add(seq);
+      }
+      setExpandedEntries(newExpanded);
+    };
+
+    const renderVerification = () => {
+      if (!verification) {
+        return (
+          <Text style={styles.resultValue}>Checking the hash chain...</Text>
+        );
+      }
+
+      const isBroken = verification.status === "broken";
+      const color = isBroken ? colors.danger : colors.success;
+
+      return (
+        <View>
+          <View style={{ flexDirection: "row", alignItems: "center" }}>
+            <Ionicons
+              name={isBroken ? "alert-circle" : "shield-checkmark"}
+              size={20}
+              color={color}
+              style={{ marginRight: 8 }}
+            />
+            <Text style={[styles.resultValue, { color, flex: 1 }]}>
+              {verification.status === "broken"
+                ? "Tampering detected"
+                : verification.status === "empty"
+                  ? "No entries yet"
+                  : `Intact (${verification.count} entries)`}
+            </Text>
+          </View>
+          {verification.status === "broken" && (
+            <Text style={[styles.resultValue, { marginTop: 8 }]}>
+              {verification.reason}
+              {verification.seq !== null && ` (entry #${verification.seq})`}
+            </Text>
+          )}
+        </View>
+      );
+    };
+
+    return (
+      <View style={{ flex: 1, backgroundColor: colors.background }}>
+        {/* Header */}
+        <View
+          style={{
+            flexDirection: "row",
+            alignItems: "center",
+            justifyContent: "space-between",
+            padding: 16,
+            borderBottomWidth: 1,
+            borderBottomColor: colors.border,
+          }}
+        >
+          <Text style={[styles.title, { flex: 1 }]}>Security Audit Log</Text>
+          {onClose && (
+            <TouchableOpacity onPress={onClose} style={{ padding: 8 }}>
+              <Ionicons name="close" size={24} color="#fff" />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <ScrollView
+          style={{ flex: 1 }}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
+          }
+        >
+          {/* Verification */}
+          <SectionContainer title="Integrity">
+            <View style={styles.resultContainer}>{renderVerification()}</View>
+          </SectionContainer>
+
+          {/* Entries */}
+          <SectionContainer title={`Entries (${entries.length})`}>
+            {entries.length === 0 ? (
+              <View style={styles.resultContainer}>
+                <Text style={styles.resultValue}>No entries recorded</Text>
+              </View>
+            ) : (
+              entries.map((entry) => (
+                <TouchableOpacity
+                  key={entry.seq}
+                  style={[styles.resultContainer, { marginBottom: 8 }]}
+                  onPress={() => toggleEntryExpansion(entry.seq)}
+                  accessibilityLabel={`${EVENT_LABELS[entry.event]} at ${formatTimestamp(entry.timestamp)}`}
+                  accessibilityHint="Shows the entry details"
+                >
+                  <View
+                    style={{
+                      flexDirection: "row",
+                      alignItems: "center",
+                      marginBottom: 4,
+                    }}
+                  >
+                    <Text style={[styles.resultValue, { flex: 1 }]}>
+                      {EVENT_LABELS[entry.event]}
+                    </Text>
+                    <Text style={[styles.resultValue, { fontSize: 12 }]}>
+                      {formatTimestamp(entry.timestamp)}
+                    </Text>
+                  </View>
+
+                  {expandedEntries.has(entry.seq) && (
+                    <Text
+                      style={[
+                        styles.resultValue,
+                        {
+                          fontSize: 10,
+                          fontFamily: "monospace",
+                          backgroundColor: colors.inputBg,
+                          padding: 8,
+                          marginTop: 4,
+                        },
+                      ]}
+                    >
+                      {JSON.stringify(
+                        {
+                          seq: entry.seq,
+                          ...entry.details,
+                          hash: entry.hash,
+                        },
+                        null,
+                        2,
+                      )}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+              ))
+            )}
+          </SectionContainer>
+        </ScrollView>
+      </View>
+    );
+  },
+);
+
+SecurityAuditView.displayName = "SecurityAuditView";
@@ -8,8 +8,11 @@ import { SectionContainer } from "../common/SectionContainer";
 import { ActionButton } from "../common/ActionButton";
 import { appConfig, getProfileForAccount } from "../../util/app-config-store";
 import { hasMultipleProfiles } from "../../util/user-state";
+import { getVisibleProfiles } from "../../util/duress";
 import Dropdown from "../common/Dropdown";
 import { useModal } from "../../context/ModalContext";
+import { AppLockSection } from "./AppLockSection";
+import { ClipboardSection } from "./ClipboardSection";
 import {
   getLibraClientConfig,
   isLibraClientInitialized,
@@ -26,7 +29,7 @@ export const Settings: React.FC<SettingsProps> = observer(
     const { showAlert, showConfirmation } = useModal();
 
     // Get current app state
-    const profiles = appConfig.profiles.get();
+    const profiles = getVisibleProfiles();
     const activeAccountId = appConfig.activeAccountId.get();
 
     // Get current profile info
@@ -49,7 +52,10 @@ export const Settings: React.FC<SettingsProps> = observer(
             | `/profiles`
             | `/create-account`
             | `/recover-account`
-            | `/pin`,
+            | `/pin`
+            | `/backup`
+            | `/security-audit`
+            | `/network-status`,
         );
       },
       [router],
@@ -153,29 +159,57 @@ export const Settings: React.FC<SettingsProps> = observer(
               onPress={() => navigateToScreen("/pin")}
               accessibilityLabel="Change your transaction PIN"
             />
+            <ActionButton
+              text="Backup & Restore"
+              onPress={() => navigateToScreen("/backup")}
+              style={{ marginTop: 10 }}
+              accessibilityLabel="Export or import an encrypted wallet backup"
+            />
+            <ActionButton
+              text="Security Audit Log"
+              onPress={() => navigateToScreen("/security-audit")}
+              style={{ marginTop: 10 }}
+              accessibilityLabel="View the log of sensitive operations"
+            />
           </SectionContainer>
 
+          <AppLockSection />
+
+          <ClipboardSection />
+
           {/* Developer Options */}
           <SectionContainer title="Developer Options" style={styles.listItem}>
             <ActionButton
               text="Client Config"
               onPress={() => {
-                if (isLibraClientInitialized()) {
-                  const config = getLibraClientConfig();
+                const config = getLibraClientConfig();
+                const profileNetwork = `Profile network: ${config.networkName} (${config.networkType})`;
+                if (!config.client) {
                   showAlert(
                     "LibraClient Configuration",
-                    `Network: ${config.network}\nURL: ${config.url}\nStatus: Initialized`,
+                    `${profileNetwork}\nStatus: No RPC URL configured`,
+                  );
+                } else if (isLibraClientInitialized()) {
+                  showAlert(
+                    "LibraClient Configuration",
+                    `${profileNetwork}\nNetwork: ${config.client.network}\nURL: ${config.client.url}\nStatus: Initialized`,
                   );
                 } else {
                   showAlert(
                     "LibraClient Configuration",
-                    "Status: Not initialized\nNote: Will be auto-initialized on first use",
+                    `${profileNetwork}\nStatus: Not initialized\nNote: Will be auto-initialized on first use`,
                   );
                 }
               }}
               style={{ marginTop: 10 }}
               accessibilityLabel="Show current LibraClient configuration"
             />
+            <ActionButton
+              text="Network Status"
+              onPress={() => navigateToScreen("/network-status")}
+              style={{ marginTop: 10 }}
+              accessibilityLabel="View the health of the network's RPC endpoints"
+            />
             <ActionButton
               text="View Debug Logs"
               onPress={() => navigateToScreen("/error-logs")}
@@ -194,9 +228,8 @@ export const Settings: React.FC<SettingsProps> = observer(
                   "This will permanently delete all profiles, accounts, and PINs. This action cannot be undone.",
                   async () => {
                     try {
-                      const { resetAppToFirstTimeUser } = await import(
-                        "../../util/dev-utils"
-                      );
+                      const { resetAppToFirstTimeUser } =
+                        await import("../../util/dev-utils");
                       await resetAppToFirstTimeUser();
                       showAlert(
                         "Data Cleared",
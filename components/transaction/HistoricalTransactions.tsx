@@ -8,12 +8,13 @@ import {
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import { styles, colors, namedColors } from "../../styles/styles";
-import { getLibraClient } from "../../util/libra-client";
+import { getLibraClientForAccount } from "../../util/libra-client";
 import { LIBRA_SCALE_FACTOR } from "../../util/constants";
 import { formatTimestamp, formatCurrency } from "../../util/format-utils";
 import type { TransactionResponse } from "@aptos-labs/ts-sdk";
 
 export interface HistoricalTransactionsProps {
+  accountId: string; // Selects the network of the account's profile
   accountAddress: string;
   showTitle?: boolean; // Optional prop to show/hide the title
   headerComponent?: () => React.ReactElement; // Optional header component
@@ -37,6 +38,7 @@ interface TransactionItem {
 }
 
 export const HistoricalTransactions: React.FC<HistoricalTransactionsProps> = ({
+  accountId,
   accountAddress,
   showTitle = true,
   headerComponent,
@@ -54,7 +56,7 @@ export const HistoricalTransactions: React.FC<HistoricalTransactionsProps> = ({
       setError(null);
 
       console.log("Fetching transactions for account:", accountAddress);
-      const client = getLibraClient();
+      const client = getLibraClientForAccount(accountId);
 
       // Query the last 10 transactions for this account
       // Since LibraClient extends Aptos, we can call getAccountTransactions directly
@@ -209,7 +211,7 @@ export const HistoricalTransactions: React.FC<HistoricalTransactionsProps> = ({
     if (accountAddress) {
       fetchTransactions();
     }
-  }, [accountAddress]);
+  }, [accountId, accountAddress]);
 
   const onRefresh = async () => {
     if (externalOnRefresh) {
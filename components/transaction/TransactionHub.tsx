@@ -8,6 +8,7 @@ import { useTransactionPin } from "../../hooks/use-transaction-pin";
 import { appConfig, type AccountState } from "../../util/app-config-store";
 import { type AccountAddress } from "open-libra-sdk";
 import { shortenAddress } from "../../util/format-utils";
+import { type AccountSecret } from "../../util/account-secret";
 import { TransferForm } from "./components/TransferForm";
 import { VouchForm } from "./components/VouchForm";
 import { V8Migration } from "./components/V8Migration";
@@ -75,20 +76,20 @@ export const TransactionHub = memo(
         }, []),
       });
 
-    // Handle mnemonic retrieval for transactions
-    const handleMnemonicRetrieved = useCallback(
-      (mnemonic: string) => {
+    // Handle secret retrieval for transactions
+    const handleSecretRetrieved = useCallback(
+      (secret: AccountSecret) => {
         if (currentOperation === "transfer" && pendingTransferData) {
           executeTransfer(
-            mnemonic,
+            secret,
             pendingTransferData,
             setIsTransferLoading,
             () => {},
           );
         } else if (currentOperation === "v8_rejoin") {
-          executeV8Rejoin(mnemonic, setIsMigrationLoading, () => {});
+          executeV8Rejoin(secret, setIsMigrationLoading, () => {});
         } else if (currentOperation === "vouch" && pendingVouchData) {
-          executeVouch(mnemonic, pendingVouchData, setIsVouchLoading, () => {});
+          executeVouch(secret, pendingVouchData, setIsVouchLoading, () => {});
         }
       },
       [
@@ -109,7 +110,7 @@ export const TransactionHub = memo(
       closePinModal,
     } = useTransactionPin({
       accountId,
-      onMnemonicRetrieved: handleMnemonicRetrieved,
+      onSecretRetrieved: handleSecretRetrieved,
     });
 
     // Load account data
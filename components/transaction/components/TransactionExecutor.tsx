@@ -1,9 +1,25 @@
 import "buffer"; // Ensure Buffer is available globally
 import { useCallback } from "react";
-import { LibraWallet, Network, type AccountAddress } from "open-libra-sdk";
-import { getLibraClientUrl } from "../../../util/libra-client";
+import type {
+  AccountAddress,
+  AnyRawTransaction,
+  LibraWallet,
+} from "open-libra-sdk";
+import {
+  getExpectedChainIdForAccount,
+  getNetworkConfigForAccount,
+} from "../../../util/libra-client";
+import {
+  verifyNodeChainId,
+  verifyTransactionChainId,
+} from "../../../util/network-config";
+import {
+  createWalletFromSecret,
+  type AccountSecret,
+} from "../../../util/account-secret";
 import { formatLibraAmount, shortenAddress } from "../../../util/format-utils";
 import { reportErrorAuto } from "../../../util/error-utils";
+import { recordAuditEvent } from "../../../util/security-audit";
 import type { AccountState } from "../../../util/app-config-store";
 
 interface TransferData {
@@ -24,6 +40,63 @@ interface TransactionExecutorProps {
   onVouchComplete?: () => void;
 }
 
+type TransactionKind = "transfer" | "v8_rejoin" | "vouch";
+
+function recordBlockedTransaction(
+  accountId: string,
+  kind: TransactionKind,
+  error: unknown,
+): void {
+  recordAuditEvent("transaction_blocked", {
+    accountId,
+    kind,
+    reason: error instanceof Error ? error.message : String(error),
+  });
+}
+
+/**
+ * Confirms that the wallet's node is on the chain of the account's profile.
+ * A mismatch is recorded in the audit log and blocks the transaction.
+ *
+ * @returns The verified chain ID
+ */
+async function verifyChainBeforeSigning(
+  wallet: LibraWallet,
+  accountId: string,
+  kind: TransactionKind,
+): Promise<number> {
+  try {
+    if (!wallet.client) {
+      throw new Error("The wallet is not connected to a node");
+    }
+    return await verifyNodeChainId(
+      wallet.client,
+      getExpectedChainIdForAccount(accountId),
+    );
+  } catch (error) {
+    recordBlockedTransaction(accountId, kind, error);
+    throw error;
+  }
+}
+
+/**
+ * Confirms that a built transaction is for the verified chain, recording a
+ * mismatch in the audit log
+ */
+function verifyTransactionBeforeSigning(
+  transaction: AnyRawTransaction,
+  chainId: number,
+  accountId: string,
+  kind: TransactionKind,
+): void {
+  try {
+    verifyTransactionChainId(transaction, chainId);
+  } catch (error) {
+    recordBlockedTransaction(accountId, kind, error);
+    throw error;
+  }
+}
+
 export const useTransactionExecutor = ({
   account,
   accountId,
@@ -35,7 +108,7 @@ export const useTransactionExecutor = ({
   // Execute transfer transaction
   const executeTransfer = useCallback(
     async (
-      mnemonic: string,
+      secret: AccountSecret,
       transferData: TransferData,
       setIsLoading: (loading: boolean) => void,
       setError: (error: string | null) => void,
@@ -48,12 +121,21 @@ export const useTransactionExecutor = ({
       setError(null);
 
       try {
-        // Create wallet from mnemonic
-        const clientUrl = getLibraClientUrl();
-        const wallet = LibraWallet.fromMnemonic(
-          mnemonic.trim(),
-          Network.MAINNET,
-          clientUrl,
+        // Create wallet from mnemonic, applying the passphrase and the
+        // account's derivation index
+        const { network, url } = getNetworkConfigForAccount(accountId);
+        const wallet = createWalletFromSecret(
+          secret,
+          network,
+          url,
+          account.derivation_index,
+        );
+
+        // Confirm the node is on the profile's chain before anything is built
+        const chainId = await verifyChainBeforeSigning(
+          wallet,
+          accountId,
+          "transfer",
         );
 
         // Sync wallet state with blockchain
@@ -64,9 +146,20 @@ export const useTransactionExecutor = ({
 
         // Build transfer transaction
         const tx = await wallet.buildTransferTx(transferData.to, scaledAmount);
+        verifyTransactionBeforeSigning(tx, chainId, accountId, "transfer");
 
         // Sign and submit transaction
         const result = await wallet.signSubmitWait(tx);
+        recordAuditEvent("transaction_signed", {
+          accountId,
+          kind: "transfer",
+          recipient: transferData.to.toStringLong(),
+          amount: transferData.amount,
+          chainId,
+          chainIdVerified: true,
+          hash: result.hash ?? "unknown",
+          success: result.success,
+        });
 
         if (result.success) {
           showAlert(
@@ -100,7 +193,7 @@ export const useTransactionExecutor = ({
   // Execute V8 RE-JOIN transaction
   const executeV8Rejoin = useCallback(
     async (
-      mnemonic: string,
+      secret: AccountSecret,
       setIsLoading: (loading: boolean) => void,
       setError: (error: string | null) => void,
     ) => {
@@ -112,12 +205,21 @@ export const useTransactionExecutor = ({
       setError(null);
 
       try {
-        // Create wallet from mnemonic
-        const clientUrl = getLibraClientUrl();
-        const wallet = LibraWallet.fromMnemonic(
-          mnemonic.trim(),
-          Network.MAINNET,
-          clientUrl,
+        // Create wallet from mnemonic, applying the passphrase and the
+        // account's derivation index
+        const { network, url } = getNetworkConfigForAccount(accountId);
+        const wallet = createWalletFromSecret(
+          secret,
+          network,
+          url,
+          account.derivation_index,
+        );
+
+        // Confirm the node is on the profile's chain before anything is built
+        const chainId = await verifyChainBeforeSigning(
+          wallet,
+          accountId,
+          "v8_rejoin",
         );
 
         // Sync wallet state with blockchain
@@ -129,9 +231,18 @@ export const useTransactionExecutor = ({
           "0x1::filo_migration::maybe_migrate",
           [], // No arguments required for this function
         );
+        verifyTransactionBeforeSigning(tx, chainId, accountId, "v8_rejoin");
 
         // Sign and submit transaction
         const result = await wallet.signSubmitWait(tx);
+        recordAuditEvent("transaction_signed", {
+          accountId,
+          kind: "v8_rejoin",
+          chainId,
+          chainIdVerified: true,
+          hash: result.hash ?? "unknown",
+          success: result.success,
+        });
 
         if (result.success) {
           showAlert(
@@ -163,7 +274,7 @@ export const useTransactionExecutor = ({
   // Execute vouch transaction
   const executeVouch = useCallback(
     async (
-      mnemonic: string,
+      secret: AccountSecret,
       vouchData: VouchData,
       setIsLoading: (loading: boolean) => void,
       setError: (error: string | null) => void,
@@ -176,12 +287,21 @@ export const useTransactionExecutor = ({
       setError(null);
 
       try {
-        // Create wallet from mnemonic
-        const clientUrl = getLibraClientUrl();
-        const wallet = LibraWallet.fromMnemonic(
-          mnemonic.trim(),
-          Network.MAINNET,
-          clientUrl,
+        // Create wallet from mnemonic, applying the passphrase and the
+        // account's derivation index
+        const { network, url } = getNetworkConfigForAccount(accountId);
+        const wallet = createWalletFromSecret(
+          secret,
+          network,
+          url,
+          account.derivation_index,
+        );
+
+        // Confirm the node is on the profile's chain before anything is built
+        const chainId = await verifyChainBeforeSigning(
+          wallet,
+          accountId,
+          "vouch",
         );
 
         // Sync wallet state with blockchain
@@ -193,9 +313,19 @@ export const useTransactionExecutor = ({
           "0x1::vouch::vouch_for",
           [vouchData.recipient.toStringLong()], // Recipient address as argument
         );
+        verifyTransactionBeforeSigning(tx, chainId, accountId, "vouch");
 
         // Sign and submit transaction
         const result = await wallet.signSubmitWait(tx);
+        recordAuditEvent("transaction_signed", {
+          accountId,
+          kind: "vouch",
+          recipient: vouchData.recipient.toStringLong(),
+          chainId,
+          chainIdVerified: true,
+          hash: result.hash ?? "unknown",
+          success: result.success,
+        });
 
         if (result.success) {
           showAlert(
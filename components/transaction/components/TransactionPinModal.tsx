@@ -2,7 +2,11 @@ import React, { memo, useState, useCallback } from "react";
 import { Modal, View, Text } from "react-native";
 import { styles } from "../../../styles/styles";
 import { ActionButton } from "../../common/ActionButton";
-import { PinInputField } from "../../pin-input/PinInputField";
+import { CredentialInputField } from "../../pin-input/CredentialInputField";
+import { PinLockoutNotice } from "../../pin-input/PinLockoutNotice";
+import { getCredentialLabel } from "../../../util/pin-security";
+import { useCredentialType } from "../../../hooks/use-credential-type";
+import { usePinLockout } from "../../../hooks/use-pin-lockout";
 
 interface TransactionPinModalProps {
   visible: boolean;
@@ -22,6 +26,10 @@ export const TransactionPinModal = memo(
   }: TransactionPinModalProps) => {
     const [pin, setPin] = useState("");
     const [pinError, setPinError] = useState<string | null>(null);
+    const credentialType = useCredentialType(visible);
+    const label = getCredentialLabel(credentialType);
+    const { isLockedOut, remainingMs, attemptsBeforeWipe, refresh } =
+      usePinLockout(visible);
 
     const getModalTitle = () => {
       switch (operationType) {
@@ -32,26 +40,30 @@ export const TransactionPinModal = memo(
         case "vouch":
           return "Authorize Vouch";
         default:
-          return "Verify PIN";
+          return `Verify ${label}`;
       }
     };
 
     const getModalSubtitle = () => {
       switch (operationType) {
         case "transfer":
-          return "Enter your PIN to access private key for transfer signing";
+          return `Enter your ${label} to access private key for transfer signing`;
         case "v8_rejoin":
-          return "Enter your PIN to access private key for V8 migration transaction";
+          return `Enter your ${label} to access private key for V8 migration transaction`;
         case "vouch":
-          return "Enter your PIN to access private key for vouching transaction";
+          return `Enter your ${label} to access private key for vouching transaction`;
         default:
-          return "Enter your PIN to access private key for transaction signing";
+          return `Enter your ${label} to access private key for transaction signing`;
       }
     };
 
     const handleSubmit = useCallback(async () => {
       if (!pin.trim()) {
-        setPinError("Please enter your PIN");
+        setPinError(`Please enter your ${label}`);
+        return;
+      }
+
+      if (isLockedOut) {
         return;
       }
 
@@ -62,9 +74,11 @@ export const TransactionPinModal = memo(
         setPin(""); // Clear PIN on success
       } catch (error) {
         console.error("PIN submission error:", error);
-        setPinError("Failed to verify PIN. Please try again.");
+        setPinError(`Failed to verify ${label}. Please try again.`);
+      } finally {
+        refresh();
       }
-    }, [pin, onPinSubmit]);
+    }, [pin, onPinSubmit, label, isLockedOut, refresh]);
 
     const handleClose = useCallback(() => {
       setPin("");
@@ -96,15 +110,22 @@ export const TransactionPinModal = memo(
             <Text style={styles.modalSubtitle}>{getModalSubtitle()}</Text>
 
             <View style={{ marginVertical: 20 }}>
-              <PinInputField
-                label="PIN"
+              <CredentialInputField
+                credentialType={credentialType}
+                label={credentialType === "passphrase" ? "Passphrase" : "PIN"}
                 value={pin}
                 onChangeText={handlePinChange}
-                editable={!isLoading}
+                editable={!isLoading && !isLockedOut}
                 autoFocus={true}
                 error={pinError || undefined}
                 onSubmit={handleSubmit}
               />
+
+              <PinLockoutNotice
+                isLockedOut={isLockedOut}
+                remainingMs={remainingMs}
+                attemptsBeforeWipe={attemptsBeforeWipe}
+              />
             </View>
 
             <View style={styles.buttonContainer}>
@@ -112,8 +133,8 @@ export const TransactionPinModal = memo(
                 text="Verify"
                 onPress={handleSubmit}
                 isLoading={isLoading}
-                disabled={isLoading || !pin.trim()}
-                accessibilityLabel="Verify PIN for transaction"
+                disabled={isLoading || isLockedOut || !pin.trim()}
+                accessibilityLabel={`Verify ${label} for transaction`}
               />
 
               <ActionButton
@@ -121,7 +142,7 @@ export const TransactionPinModal = memo(
                 onPress={handleClose}
                 variant="secondary"
                 disabled={isLoading}
-                accessibilityLabel="Cancel PIN verification"
+                accessibilityLabel={`Cancel ${label} verification`}
               />
             </View>
           </View>
@@ -7,7 +7,7 @@ import { FormInput } from "../../common/FormInput";
 import { ActionButton } from "../../common/ActionButton";
 import { addressFromString, type AccountAddress } from "open-libra-sdk";
 import { shortenAddress } from "../../../util/format-utils";
-import { getLibraClient } from "../../../util/libra-client";
+import { getLibraClientForAccount } from "../../../util/libra-client";
 import {
   fetchAccountVouchData,
   type VouchData as VouchInfo,
@@ -51,7 +51,7 @@ export const VouchForm = memo(
 
       setLoadingVouchInfo(true);
       try {
-        const client = getLibraClient();
+        const client = getLibraClientForAccount(account.id);
         const data = await fetchAccountVouchData(
           client,
           account.account_address,
@@ -67,7 +67,7 @@ export const VouchForm = memo(
       } finally {
         setLoadingVouchInfo(false);
       }
-    }, [account.account_address]);
+    }, [account.id, account.account_address]);
 
     // Load vouch information when component mounts and after transactions
     useEffect(() => {
@@ -0,0 +1,27 @@
+import { useState, useEffect } from "react";
+import { getCredentialType, type CredentialType } from "../util/pin-security";
+
+/**
+ * Loads which credential type (PIN or passphrase) protects the wallet.
+ * The type is re-read whenever `refreshKey` changes, e.g. each time a PIN
+ * modal becomes visible, so it stays current after a rotation.
+ */
+export function useCredentialType(refreshKey?: unknown): CredentialType {
+  const [credentialType, setCredentialType] = useState<CredentialType>("pin");
+
+  useEffect(() => {
+    let isMounted = true;
+
+    getCredentialType().then((type) => {
+      if (isMounted) {
+        setCredentialType(type);
+      }
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [refreshKey]);
+
+  return credentialType;
+}
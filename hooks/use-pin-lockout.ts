@@ -0,0 +1,56 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  getPinLockoutStatus,
+  type PinLockoutStatus,
+} from "../util/pin-attempts";
+
+/**
+ * Tracks the PIN attempt throttle for a PIN entry screen. The status is
+ * loaded whenever `active` becomes true and can be reloaded with `refresh`
+ * after a failed attempt. While a lockout runs, `remainingMs` counts down
+ * once per second.
+ */
+export function usePinLockout(active: boolean) {
+  const [status, setStatus] = useState<PinLockoutStatus | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const refresh = useCallback(async () => {
+    const latest = await getPinLockoutStatus();
+    setStatus(latest);
+    setNow(Date.now());
+  }, []);
+
+  useEffect(() => {
+    if (active) {
+      refresh();
+    }
+  }, [active, refresh]);
+
+  const lockedUntil = status?.lockedUntil ?? null;
+
+  useEffect(() => {
+    if (!active || lockedUntil === null) {
+      return;
+    }
+
+    const interval = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= lockedUntil) {
+        clearInterval(interval);
+        refresh();
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [active, lockedUntil, refresh]);
+
+  const remainingMs = lockedUntil !== null ? Math.max(0, lockedUntil - now) : 0;
+
+  return {
+    isLockedOut: remainingMs > 0,
+    remainingMs,
+    attemptsBeforeWipe: status?.attemptsBeforeWipe ?? null,
+    refresh,
+  };
+}
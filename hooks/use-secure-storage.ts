@@ -1,38 +1,51 @@
 import { useState, useRef, useEffect, useCallback } from "react";
-import { saveValue, getValue, deleteValue } from "../util/secure-store";
+import { saveValue, getValue } from "../util/secure-store";
 import {
   scheduleReveal,
   checkRevealStatus,
   cancelReveal,
-  REVEAL_CONFIG,
+  getRevealPolicy,
+  authenticateForReveal,
 } from "../util/reveal-controller";
 import { useModal } from "../context/ModalContext";
 // Import from pin-security.ts instead of PinProcessor
+import { verifyStoredPin, secureDecryptWithPin } from "../util/pin-security";
 import {
-  verifyStoredPin,
-  secureEncryptWithPin,
-  secureDecryptWithPin,
-} from "../util/pin-security";
-import { updateAccountKeyStoredStatus } from "../util/app-config-store";
+  encryptWithPinAndUnlock,
+  encryptWithSession,
+  isUnlockSessionActive,
+} from "../util/unlock-session";
+import {
+  getSecretAccountId,
+  setAccountSecretSource,
+  updateAccountKeyStoredStatus,
+} from "../util/app-config-store";
+import { detachAccountSecret } from "../util/account-deletion";
 import { reportErrorAuto } from "../util/error-utils";
+import { isAccountHidden, setSecretOwner } from "../util/duress";
+import { recordAuditEvent } from "../util/security-audit";
+import { syncTrustedTime } from "../util/trusted-time";
 
 // Configuration for auto-hiding revealed values
 const AUTO_HIDE_DELAY_MS = 30 * 1000; // 30 seconds
 
+type SecureStorageAction =
+  "save" | "schedule_reveal" | "execute_reveal" | "delete" | "clear_all";
+
+// Actions an active unlock session may run without a PIN. Reveals and
+// clearing all of an account's data always require a fresh PIN.
+const SESSION_ACTIONS: SecureStorageAction[] = ["save", "delete"];
+
 export function useSecureStorage(initialAccountId?: string) {
   const { showAlert } = useModal();
   const [value, setValue] = useState("");
   const [storedValue, setStoredValue] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [pinModalVisible, setPinModalVisible] = useState(false);
-  const [currentAction, setCurrentAction] = useState<
-    | "save"
-    | "schedule_reveal"
-    | "execute_reveal"
-    | "delete"
-    | "clear_all"
-    | null
-  >(null);
+  const [currentAction, setCurrentAction] =
+    useState<SecureStorageAction | null>(null);
+  // Set when the current action runs with the unlock session instead of a PIN
+  const [sessionActionPending, setSessionActionPending] = useState(false);
   const [currentAccountId, setCurrentAccountId] = useState<string | null>(
     initialAccountId || null,
   );
@@ -55,15 +68,21 @@ export function useSecureStorage(initialAccountId?: string) {
     expiresIn: number;
   } | null>(null);
 
-  // Function to get storage key from account ID
+  // Function to get storage key from account ID. Accounts derived from the
+  // same seed share the secret stored for one of them.
   const getStorageKey = useCallback((accountId: string) => {
-    return `account_${accountId}`;
+    return `account_${getSecretAccountId(accountId)}`;
   }, []);
 
   // Function to check if an account has stored data
   const checkHasStoredData = useCallback(
     async (accountId: string): Promise<boolean> => {
       try {
+        // Secrets outside the decoy profile do not exist in duress mode
+        if (isAccountHidden(accountId)) {
+          return false;
+        }
+
         const key = getStorageKey(accountId);
         const storedData = await getValue(key);
         return storedData !== null;
@@ -110,8 +129,9 @@ export function useSecureStorage(initialAccountId?: string) {
       }
     };
 
-    // Initial check
+    // Initial check, and again once the clock is synced with the ledger
     checkStatus();
+    syncTrustedTime().then(checkStatus);
 
     // Setup interval
     const intervalId = setInterval(checkStatus, 1000);
@@ -143,12 +163,7 @@ export function useSecureStorage(initialAccountId?: string) {
   }, [storedValue]);
 
   const requestPinForAction = (
-    action:
-      | "save"
-      | "schedule_reveal"
-      | "execute_reveal"
-      | "delete"
-      | "clear_all",
+    action: SecureStorageAction,
     accountId: string,
   ) => {
     console.log(
@@ -157,7 +172,33 @@ export function useSecureStorage(initialAccountId?: string) {
     setCurrentAction(action);
     setCurrentAccountId(accountId);
     setLastPinOperationSuccess(null); // Reset previous operation result
-    setPinModalVisible(true);
+
+    if (SESSION_ACTIONS.includes(action) && isUnlockSessionActive()) {
+      setSessionActionPending(true);
+    } else {
+      setPinModalVisible(true);
+    }
+  };
+
+  // Stores an encrypted secret as the current account's own secret
+  const storeEncryptedValue = async (
+    accountId: string,
+    encryptedBase64: string,
+  ) => {
+    // A saved secret belongs to this account alone, at index 0
+    await detachAccountSecret(accountId);
+    setAccountSecretSource(accountId, null, 0);
+    await saveValue(`account_${accountId}`, encryptedBase64);
+    await setSecretOwner(accountId);
+
+    // Update the account's is_key_stored status
+    updateAccountKeyStoredStatus(accountId, true);
+
+    setValue("");
+
+    // Cancel any active reveals when saving a new value
+    cancelReveal(accountId);
+    setRevealStatus(null);
   };
 
   const saveSecurelyWithPin = async (pin: string): Promise<boolean> => {
@@ -193,24 +234,14 @@ export function useSecureStorage(initialAccountId?: string) {
         return false;
       }
 
-      // Use the pin-security utilities to encrypt data
-      const encryptedBase64 = await secureEncryptWithPin(value, pin);
+      // Encrypt the data, keeping the key in the unlock session if enabled
+      const encryptedBase64 = await encryptWithPinAndUnlock(value, pin);
 
       if (!encryptedBase64) {
         throw new Error("Encryption failed");
       }
 
-      const key = getStorageKey(currentAccountId);
-      await saveValue(key, encryptedBase64);
-
-      // Update the account's is_key_stored status
-      updateAccountKeyStoredStatus(currentAccountId, true);
-
-      setValue("");
-
-      // Cancel any active reveals when saving a new value
-      cancelReveal(currentAccountId);
-      setRevealStatus(null);
+      await storeEncryptedValue(currentAccountId, encryptedBase64);
 
       // Success! The PIN modal will auto-close due to autoCloseOnSuccess=true
       return true;
@@ -243,20 +274,20 @@ export function useSecureStorage(initialAccountId?: string) {
       }
 
       // Schedule a reveal for the current account
-      const result = scheduleReveal(currentAccountId);
-
-      // Update the reveal status
-      setRevealStatus({
-        isScheduled: true,
-        isAvailable: false,
-        isExpired: false,
-        waitTimeRemaining: REVEAL_CONFIG.waitingPeriodMs,
-        expiresIn: REVEAL_CONFIG.waitingPeriodMs + REVEAL_CONFIG.revealWindowMs,
-      });
+      const result = await scheduleReveal(currentAccountId);
 
       // Success! The PIN modal will auto-close due to autoCloseOnSuccess=true
 
       if (result) {
+        // Update the reveal status
+        setRevealStatus({
+          isScheduled: true,
+          isAvailable: result.availableAt <= result.scheduledAt,
+          isExpired: false,
+          waitTimeRemaining: result.availableAt - result.scheduledAt,
+          expiresIn: result.expiresAt - result.scheduledAt,
+        });
+
         showAlert(
           "Success",
           `Reveal scheduled. You can reveal the data after the waiting period.`,
@@ -286,7 +317,8 @@ export function useSecureStorage(initialAccountId?: string) {
         throw new Error("No account selected");
       }
 
-      // Check if reveal is available
+      // Check if reveal is available, on the ledger clock when online
+      await syncTrustedTime();
       const status = checkRevealStatus(currentAccountId);
       if (!status || !status.available || status.expired) {
         const errorMessage =
@@ -301,8 +333,37 @@ export function useSecureStorage(initialAccountId?: string) {
         return false;
       }
 
+      // Verify the PIN first so reveal attempts are throttled like every other PIN entry
+      const isValid = await verifyStoredPin(pin);
+      if (!isValid) {
+        reportErrorAuto(
+          "useSecureStorage.executeRevealWithPin",
+          new Error("Invalid PIN"),
+        );
+        // Don't close the modal here - let PinInputModal handle the error display
+        return false;
+      }
+
+      if (
+        getRevealPolicy(currentAccountId).require_device_auth &&
+        !(await authenticateForReveal())
+      ) {
+        reportErrorAuto(
+          "useSecureStorage.executeRevealWithPin",
+          new Error("Device authentication failed"),
+        );
+        setPinModalVisible(false);
+        showAlert(
+          "Reveal Cancelled",
+          "This account's reveal policy requires device authentication.",
+        );
+        return false;
+      }
+
       const key = getStorageKey(currentAccountId);
-      const encryptedBase64 = await getValue(key);
+      const encryptedBase64 = isAccountHidden(currentAccountId)
+        ? null
+        : await getValue(key);
 
       if (encryptedBase64 === null) {
         setStoredValue(null);
@@ -340,6 +401,7 @@ export function useSecureStorage(initialAccountId?: string) {
 
       // Set the revealed value - the useEffect will handle setting up auto-hide
       setStoredValue(decryptResult.value);
+      recordAuditEvent("reveal_executed", { accountId: currentAccountId });
 
       // After successful reveal, cancel the scheduling (it's been used)
       cancelReveal(currentAccountId);
@@ -368,13 +430,11 @@ export function useSecureStorage(initialAccountId?: string) {
         throw new Error("No account selected");
       }
 
-      const key = getStorageKey(currentAccountId);
-      await deleteValue(key);
+      // Keeps the secret for other accounts derived from the same seed, and
+      // updates the account's is_key_stored status
+      await detachAccountSecret(currentAccountId);
       setStoredValue(null);
 
-      // Update the account's is_key_stored status
-      updateAccountKeyStoredStatus(currentAccountId, false);
-
       // Also cancel any scheduled reveals
       cancelReveal(currentAccountId);
       setRevealStatus(null);
@@ -410,22 +470,8 @@ export function useSecureStorage(initialAccountId?: string) {
         return false;
       }
 
-      // Clear the specific account's data
-      const key = getStorageKey(currentAccountId);
-      await deleteValue(key);
-
-      // Update the account's is_key_stored status
-      updateAccountKeyStoredStatus(currentAccountId, false);
-
-      // Also cancel any scheduled reveals for this account
-      cancelReveal(currentAccountId);
-
-      // Clear UI state
-      setStoredValue(null);
-      setValue("");
-      setRevealStatus(null);
+      await clearAccountData(currentAccountId);
 
-      showAlert("Success", "Account data cleared successfully");
       // Success! The PIN modal will auto-close due to autoCloseOnSuccess=true
       return true;
     } catch (error) {
@@ -437,6 +483,73 @@ export function useSecureStorage(initialAccountId?: string) {
     }
   };
 
+  const clearAccountData = async (accountId: string) => {
+    // Clear the specific account's data, keeping the secret for other
+    // accounts derived from the same seed
+    await detachAccountSecret(accountId);
+
+    // Also cancel any scheduled reveals for this account
+    cancelReveal(accountId);
+
+    // Clear UI state
+    setStoredValue(null);
+    setValue("");
+    setRevealStatus(null);
+
+    showAlert("Success", "Account data cleared successfully");
+  };
+
+  // Runs an action with the unlock session instead of a PIN. Falls back to
+  // the PIN prompt when the session cannot do it.
+  const runActionWithSession = async (): Promise<boolean | null> => {
+    if (!currentAccountId || !isUnlockSessionActive()) {
+      return null;
+    }
+
+    if (currentAction === "save") {
+      if (!value.trim()) {
+        return false;
+      }
+      const encryptedBase64 = await encryptWithSession(value);
+      if (!encryptedBase64) {
+        return null;
+      }
+      await storeEncryptedValue(currentAccountId, encryptedBase64);
+      return true;
+    }
+
+    if (currentAction === "delete") {
+      return deleteSecurely();
+    }
+
+    return null;
+  };
+
+  // Resolved in an effect so the action sees the state set with the request
+  useEffect(() => {
+    if (!sessionActionPending) return;
+    setSessionActionPending(false);
+
+    setIsLoading(true);
+    runActionWithSession()
+      .then((result) => {
+        if (result === null) {
+          setPinModalVisible(true);
+          return;
+        }
+        setLastPinOperationSuccess(result);
+        if (result) {
+          setCurrentAction(null);
+        }
+      })
+      .catch((error) => {
+        reportErrorAuto("useSecureStorage.runActionWithSession", error);
+        setLastPinOperationSuccess(false);
+        setCurrentAction(null);
+      })
+      .finally(() => setIsLoading(false));
+  }, [sessionActionPending]);
+
   const handlePinAction = useCallback(
     async (pin: string): Promise<boolean> => {
       console.log(`Processing pin action: ${currentAction}`);
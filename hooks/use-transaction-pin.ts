@@ -1,28 +1,83 @@
-import { useState, useCallback } from "react";
-import { getValue } from "../util/secure-store";
-import { secureDecryptWithPin, verifyStoredPin } from "../util/pin-security";
+import { useState, useCallback, useEffect } from "react";
+import { getValue, saveValue } from "../util/secure-store";
+import {
+  getCredentialLabel,
+  getCredentialType,
+  verifyStoredPin,
+} from "../util/pin-security";
+import {
+  decryptWithPinAndUnlock,
+  decryptWithSession,
+  isUnlockSessionActive,
+} from "../util/unlock-session";
 import { useModal } from "../context/ModalContext";
 import { reportErrorAuto } from "../util/error-utils";
+import { getPinFailureMessage } from "../util/pin-attempts";
+import { isAccountHidden } from "../util/duress";
+import { getSecretAccountId } from "../util/app-config-store";
+import {
+  decodeAccountSecret,
+  type AccountSecret,
+} from "../util/account-secret";
 
 interface UseTransactionPinProps {
   accountId: string;
-  onMnemonicRetrieved: (mnemonic: string) => void;
+  onSecretRetrieved: (secret: AccountSecret) => void;
 }
 
 export function useTransactionPin({
   accountId,
-  onMnemonicRetrieved,
+  onSecretRetrieved,
 }: UseTransactionPinProps) {
   const { showAlert } = useModal();
   const [pinModalVisible, setPinModalVisible] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  // Set when a request should first try the unlock session
+  const [sessionRequested, setSessionRequested] = useState(false);
 
-  const getStorageKey = useCallback((id: string) => `account_${id}`, []);
+  const getStorageKey = useCallback(
+    (id: string) => `account_${getSecretAccountId(id)}`,
+    [],
+  );
 
   const requestMnemonicWithPin = useCallback(() => {
-    setPinModalVisible(true);
+    if (isUnlockSessionActive()) {
+      setSessionRequested(true);
+    } else {
+      setPinModalVisible(true);
+    }
   }, []);
 
+  // Resolved in an effect so the callback sees the state set with the request
+  useEffect(() => {
+    if (!sessionRequested) return;
+    setSessionRequested(false);
+
+    const retrieveWithSession = async () => {
+      const encryptedMnemonic =
+        accountId && !isAccountHidden(accountId)
+          ? await getValue(getStorageKey(accountId))
+          : null;
+      const decrypted = encryptedMnemonic
+        ? decryptWithSession(encryptedMnemonic)
+        : null;
+
+      if (decrypted) {
+        onSecretRetrieved(decodeAccountSecret(decrypted));
+      } else {
+        // The session does not cover this account, ask for the PIN
+        setPinModalVisible(true);
+      }
+    };
+
+    retrieveWithSession().catch((error) => {
+      reportErrorAuto("useTransactionPin.retrieveWithSession", error, {
+        accountId,
+      });
+      setPinModalVisible(true);
+    });
+  }, [sessionRequested, accountId, getStorageKey, onSecretRetrieved]);
+
   const handlePinSubmit = useCallback(
     async (pin: string) => {
       if (!pin.trim() || !accountId) {
@@ -36,14 +91,17 @@ export function useTransactionPin({
         // Verify the PIN first
         const isPinValid = await verifyStoredPin(pin);
         if (!isPinValid) {
-          showAlert("Error", "Invalid PIN. Please try again.");
+          const label = getCredentialLabel(await getCredentialType());
+          showAlert("Error", await getPinFailureMessage(label));
           setIsLoading(false);
           return;
         }
 
         // Get the encrypted mnemonic from storage
         const key = getStorageKey(accountId);
-        const encryptedMnemonic = await getValue(key);
+        const encryptedMnemonic = isAccountHidden(accountId)
+          ? null
+          : await getValue(key);
 
         if (!encryptedMnemonic) {
           showAlert(
@@ -55,8 +113,9 @@ export function useTransactionPin({
           return;
         }
 
-        // Decrypt the mnemonic using the PIN
-        const decryptResult = await secureDecryptWithPin(
+        // Decrypt the mnemonic using the PIN, keeping the key in the unlock
+        // session if sessions are enabled
+        const decryptResult = await decryptWithPinAndUnlock(
           encryptedMnemonic,
           pin,
         );
@@ -70,10 +129,22 @@ export function useTransactionPin({
           return;
         }
 
-        // Successfully retrieved mnemonic
+        // Let the unlock session open this record from now on
+        if (decryptResult.rekeyed) {
+          try {
+            await saveValue(key, decryptResult.rekeyed);
+          } catch (error) {
+            console.warn(
+              "Failed to re-encrypt the secret for the session:",
+              error,
+            );
+          }
+        }
+
+        // Successfully retrieved mnemonic and passphrase
         setPinModalVisible(false);
         setIsLoading(false);
-        onMnemonicRetrieved(decryptResult.value);
+        onSecretRetrieved(decodeAccountSecret(decryptResult.value));
       } catch (error) {
         console.error("Error retrieving mnemonic with PIN:", error);
         const errorMessage =
@@ -85,7 +156,7 @@ export function useTransactionPin({
         setIsLoading(false);
       }
     },
-    [accountId, getStorageKey, showAlert, onMnemonicRetrieved],
+    [accountId, getStorageKey, showAlert, onSecretRetrieved],
   );
 
   const closePinModal = useCallback(() => {
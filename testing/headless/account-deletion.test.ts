@@ -0,0 +1,54 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { deleteAccountCompletely } from "../../util/account-deletion";
+import {
+  appConfig,
+  getProfileForAccount,
+  getSecretAccountId,
+} from "../../util/app-config-store";
+import { getValue } from "../../util/secure-store";
+import {
+  TEST_PIN,
+  TEST_PROFILE,
+  addTestAccount,
+  readTestSecret,
+  resetWallet,
+} from "./wallet-fixtures";
+
+describe("deleteAccountCompletely", () => {
+  beforeEach(resetWallet);
+
+  test("removes the account and its stored secret", async () => {
+    await addTestAccount("alpha", { secret: "alpha secret" });
+    await addTestAccount("beta", { secret: "beta secret" });
+
+    expect(await deleteAccountCompletely("alpha")).toBe(true);
+
+    expect(getProfileForAccount("alpha")).toBeNull();
+    expect(await getValue("account_alpha")).toBeNull();
+    expect(await readTestSecret("beta", TEST_PIN)).toBe("beta secret");
+  });
+
+  test("hands a shared secret over to the accounts deriving from it", async () => {
+    await addTestAccount("seed", { secret: "shared seed" });
+    await addTestAccount("first", { secretAccountId: "seed" });
+    await addTestAccount("second", { secretAccountId: "seed" });
+
+    expect(await deleteAccountCompletely("seed")).toBe(true);
+
+    expect(await getValue("account_seed")).toBeNull();
+    expect(await readTestSecret("first", TEST_PIN)).toBe("shared seed");
+    expect(getSecretAccountId("first")).toBe("first");
+    expect(getSecretAccountId("second")).toBe("first");
+  });
+
+  test("only unlinks an account that uses another account's secret", async () => {
+    await addTestAccount("seed", { secret: "shared seed" });
+    await addTestAccount("derived", { secretAccountId: "seed" });
+
+    expect(await deleteAccountCompletely("derived")).toBe(true);
+
+    expect(await readTestSecret("seed", TEST_PIN)).toBe("shared seed");
+    const accounts = appConfig.profiles[TEST_PROFILE].accounts.peek();
+    expect(accounts.map((account) => account.id)).toEqual(["seed"]);
+  });
+});
@@ -0,0 +1,53 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import {
+  decodeAccountSecret,
+  encodeAccountSecret,
+} from "../../util/account-secret";
+import { rotatePinAndReencryptData } from "../../util/pin-rotation";
+import {
+  TEST_PIN,
+  addTestAccount,
+  readTestSecret,
+  resetWallet,
+} from "./wallet-fixtures";
+
+const MNEMONIC =
+  "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about";
+
+describe("account secrets", () => {
+  beforeEach(resetWallet);
+
+  test("keep a passphrase containing the payload separator", async () => {
+    const encoded = encodeAccountSecret({
+      mnemonic: MNEMONIC,
+      passphrase: "my|pass",
+    });
+    await addTestAccount("alpha", { secret: encoded });
+
+    const stored = await readTestSecret("alpha", TEST_PIN);
+
+    expect(stored).not.toBeNull();
+    expect(decodeAccountSecret(stored as string)).toEqual({
+      mnemonic: MNEMONIC,
+      passphrase: "my|pass",
+    });
+  });
+
+  test("survive a PIN rotation with such a passphrase", async () => {
+    const encoded = encodeAccountSecret({
+      mnemonic: MNEMONIC,
+      passphrase: "a|b|c",
+    });
+    await addTestAccount("alpha", { secret: encoded });
+
+    const result = await rotatePinAndReencryptData(TEST_PIN, "246802", "pin");
+
+    expect(result.success).toBe(true);
+    expect(await readTestSecret("alpha", "246802")).toBe(encoded);
+  });
+
+  test("store a secret without a passphrase as the plain phrase", () => {
+    expect(encodeAccountSecret({ mnemonic: ` ${MNEMONIC} ` })).toBe(MNEMONIC);
+    expect(decodeAccountSecret(MNEMONIC)).toEqual({ mnemonic: MNEMONIC });
+  });
+});
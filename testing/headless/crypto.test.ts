@@ -0,0 +1,93 @@
+import { describe, expect, test } from "bun:test";
+import { gcm } from "@noble/ciphers/aes";
+import {
+  decryptWithPin,
+  encryptWithPin,
+  isCurrentEnvelope,
+  stringToUint8Array,
+} from "../../util/crypto";
+import { KdfId, deriveKey, type KdfParams } from "../../util/kdf";
+import { TEST_PIN } from "./wallet-fixtures";
+
+const PARAMS: KdfParams = { kdf: KdfId.PBKDF2_SHA256, iterations: 1000 };
+
+const pin = stringToUint8Array(TEST_PIN);
+
+function decodeText(bytes: Uint8Array): string {
+  return new TextDecoder().decode(bytes);
+}
+
+async function encryptText(value: string): Promise<Uint8Array> {
+  return encryptWithPin(stringToUint8Array(value), pin, PARAMS);
+}
+
+describe("encryption envelope", () => {
+  test("writes version 2 records that decrypt with the PIN", async () => {
+    const record = await encryptText("secret value");
+
+    expect(decodeText(record.slice(0, 2))).toBe("LW");
+    expect(record[2]).toBe(2);
+    expect(isCurrentEnvelope(record, PARAMS)).toBe(true);
+    expect(isCurrentEnvelope(record, { ...PARAMS, iterations: 2000 })).toBe(
+      false,
+    );
+
+    const decrypted = await decryptWithPin(record, pin);
+    expect(decrypted?.verified).toBe(true);
+    expect(decodeText(decrypted?.value as Uint8Array)).toBe("secret value");
+  });
+
+  test("rejects a wrong PIN", async () => {
+    const record = await encryptText("secret value");
+
+    const decrypted = await decryptWithPin(
+      record,
+      stringToUint8Array("000000"),
+    );
+
+    expect(decrypted?.verified).toBe(false);
+  });
+
+  test("rejects a modified header", async () => {
+    const record = await encryptText("secret value");
+    // Salt length sits after the single PBKDF2 parameter; flip a salt byte
+    const tampered = record.slice();
+    tampered[10] ^= 1;
+
+    expect((await decryptWithPin(tampered, pin))?.verified).toBe(false);
+  });
+
+  test("binds the envelope version, so a record cannot be relabelled", async () => {
+    const record = await encryptText("secret value");
+    // Same KDF, iterations, salt and key, rewritten in the version 1 layout:
+    // only the authenticated header tells the two apart
+    const downgraded = new Uint8Array([
+      ...record.slice(0, 2),
+      1,
+      record[3],
+      ...record.slice(5),
+    ]);
+
+    expect((await decryptWithPin(downgraded, pin))?.verified).toBe(false);
+  });
+
+  test("still reads legacy records without a header", async () => {
+    const key = await deriveKey(
+      pin,
+      stringToUint8Array("WalletAppSalt123456"),
+      { kdf: KdfId.PBKDF2_SHA256, iterations: 10000 },
+      32,
+    );
+    const nonce = new Uint8Array(12).fill(7);
+    const ciphertext = gcm(key, nonce).encrypt(
+      stringToUint8Array("legacy value|VALID_DECRYPTION_TOKEN_123"),
+    );
+    const legacy = new Uint8Array([...nonce, ...ciphertext]);
+
+    const decrypted = await decryptWithPin(legacy, pin);
+
+    expect(decrypted?.verified).toBe(true);
+    expect(decodeText(decrypted?.value as Uint8Array)).toBe("legacy value");
+    expect(isCurrentEnvelope(legacy, PARAMS)).toBe(false);
+  });
+});
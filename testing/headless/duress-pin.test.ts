@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { createProfile } from "../../util/app-config-store";
+import { NetworkTypeEnum } from "../../util/app-config-types";
+import { getDuressRecord } from "../../util/duress";
+import {
+  removeDuressPin,
+  secureEncryptWithPin,
+  setupDuressPin,
+} from "../../util/pin-security";
+import { saveValue } from "../../util/secure-store";
+import {
+  TEST_PIN,
+  addTestAccount,
+  readTestSecret,
+  resetWallet,
+} from "./wallet-fixtures";
+
+const DURESS_PIN = "112233";
+const DECOY_PROFILE = "Decoy";
+
+async function addDecoyAccounts(): Promise<void> {
+  createProfile(DECOY_PROFILE, {
+    network_name: NetworkTypeEnum.TESTNET,
+    network_type: NetworkTypeEnum.TESTNET,
+  });
+  await addTestAccount("decoy-a", {
+    profile: DECOY_PROFILE,
+    secret: "decoy a secret",
+  });
+  await addTestAccount("decoy-b", {
+    profile: DECOY_PROFILE,
+    secret: "decoy b secret",
+  });
+}
+
+describe("duress PIN", () => {
+  beforeEach(resetWallet);
+
+  test("moves the decoy secrets to the duress PIN and back", async () => {
+    await addDecoyAccounts();
+
+    expect(await setupDuressPin(TEST_PIN, DURESS_PIN, DECOY_PROFILE)).toBe(
+      null,
+    );
+    expect((await getDuressRecord())?.ownedAccounts).toEqual([
+      "decoy-a",
+      "decoy-b",
+    ]);
+    expect(await readTestSecret("decoy-a", DURESS_PIN)).toBe("decoy a secret");
+
+    expect(await removeDuressPin(TEST_PIN, DURESS_PIN)).toBeNull();
+    expect(await getDuressRecord()).toBeNull();
+    expect(await readTestSecret("decoy-a", TEST_PIN)).toBe("decoy a secret");
+    expect(await readTestSecret("decoy-b", TEST_PIN)).toBe("decoy b secret");
+  });
+
+  test("moves nothing when setup fails on a later secret", async () => {
+    await addDecoyAccounts();
+    await saveValue(
+      "account_decoy-b",
+      await secureEncryptWithPin("decoy b secret", "999999"),
+    );
+
+    expect(
+      await setupDuressPin(TEST_PIN, DURESS_PIN, DECOY_PROFILE),
+    ).not.toBeNull();
+    expect(await getDuressRecord()).toBeNull();
+    expect(await readTestSecret("decoy-a", TEST_PIN)).toBe("decoy a secret");
+  });
+
+  test("keeps the duress PIN when removal fails on a later secret", async () => {
+    await addDecoyAccounts();
+    await setupDuressPin(TEST_PIN, DURESS_PIN, DECOY_PROFILE);
+    await saveValue(
+      "account_decoy-b",
+      await secureEncryptWithPin("decoy b secret", "999999"),
+    );
+
+    expect(await removeDuressPin(TEST_PIN, DURESS_PIN)).not.toBeNull();
+    expect((await getDuressRecord())?.ownedAccounts).toEqual([
+      "decoy-a",
+      "decoy-b",
+    ]);
+    expect(await readTestSecret("decoy-a", DURESS_PIN)).toBe("decoy a secret");
+  });
+});
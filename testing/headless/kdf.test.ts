@@ -0,0 +1,46 @@
+import { describe, expect, test } from "bun:test";
+import {
+  KdfId,
+  calibrateKdf,
+  decodeKdfParams,
+  deriveKey,
+  encodeKdfParams,
+  type KdfParams,
+} from "../../util/kdf";
+
+const SECRET = new Uint8Array([1, 2, 3, 4, 5, 6]);
+const SALT = new Uint8Array(16);
+
+describe("KDF limits", () => {
+  test("rejects costs a crafted header could use to exhaust a phone", async () => {
+    // 1 GiB of scrypt memory
+    expect(decodeKdfParams(KdfId.SCRYPT, [2 ** 20, 8, 1])).toBeNull();
+    expect(decodeKdfParams(KdfId.PBKDF2_SHA256, [10_000_000])).toBeNull();
+    expect(decodeKdfParams(KdfId.ARGON2ID, [1, 256 * 1024, 1])).toBeNull();
+    expect(decodeKdfParams(KdfId.ARGON2ID, [11, 19 * 1024, 1])).toBeNull();
+
+    await expect(
+      deriveKey(
+        SECRET,
+        SALT,
+        { kdf: KdfId.SCRYPT, N: 2 ** 20, r: 8, p: 1 },
+        32,
+      ),
+    ).rejects.toThrow("KDF parameters exceed the supported limits");
+  });
+
+  test("rejects malformed parameters", () => {
+    expect(decodeKdfParams(KdfId.SCRYPT, [3000, 8, 1])).toBeNull();
+    expect(decodeKdfParams(KdfId.SCRYPT, [2 ** 14, 8])).toBeNull();
+    expect(decodeKdfParams(KdfId.PBKDF2_SHA256, [0])).toBeNull();
+    expect(decodeKdfParams(99, [1])).toBeNull();
+  });
+
+  test("accepts what calibration produces on a very fast device", async () => {
+    for (const kdf of [KdfId.PBKDF2_SHA256, KdfId.SCRYPT, KdfId.ARGON2ID]) {
+      // A target far beyond any device forces the calibration caps
+      const params: KdfParams = await calibrateKdf(kdf, 10_000_000);
+      expect(decodeKdfParams(kdf, encodeKdfParams(params))).toEqual(params);
+    }
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, test } from "bun:test";
+import { generateMnemonic } from "@scure/bip39";
+import { wordlist } from "@scure/bip39/wordlists/english";
+import {
+  combineMnemonicShares,
+  describeMnemonicShare,
+  splitMnemonic,
+} from "../../util/mnemonic-shares";
+
+const MNEMONIC_24 = generateMnemonic(wordlist, 256);
+
+function subsets<T>(items: T[], size: number): T[][] {
+  if (size === 0) return [[]];
+  return items.flatMap((item, i) =>
+    subsets(items.slice(i + 1), size - 1).map((rest) => [item, ...rest]),
+  );
+}
+
+describe("mnemonic shares", () => {
+  test("rebuilds the mnemonic from every set of threshold shares", () => {
+    const shares = splitMnemonic(MNEMONIC_24, 3, 5);
+
+    expect(shares[0].split(" ")).toHaveLength(30);
+    expect(describeMnemonicShare(shares[4])).toEqual({
+      threshold: 3,
+      index: 5,
+    });
+    for (const set of subsets(shares, 3)) {
+      expect(combineMnemonicShares(set).mnemonic).toBe(MNEMONIC_24);
+    }
+  });
+
+  test("rebuilds 12-word mnemonics", () => {
+    const mnemonic = generateMnemonic(wordlist, 128);
+    const shares = splitMnemonic(mnemonic, 2, 3);
+
+    expect(combineMnemonicShares([shares[2], shares[0]]).mnemonic).toBe(
+      mnemonic,
+    );
+  });
+
+  test("needs threshold different shares", () => {
+    const shares = splitMnemonic(MNEMONIC_24, 3, 5);
+
+    const tooFew = combineMnemonicShares(shares.slice(0, 2));
+    expect(tooFew.success).toBe(false);
+    expect(tooFew.mnemonic).toBeUndefined();
+
+    const repeated = combineMnemonicShares([shares[0], shares[0], shares[1]]);
+    expect(repeated.success).toBe(false);
+  });
+
+  test("rejects mistyped shares and shares of another split", () => {
+    const shares = splitMnemonic(MNEMONIC_24, 2, 3);
+    const words = shares[1].split(" ");
+    words[3] = words[3] === "abandon" ? "ability" : "abandon";
+
+    expect(describeMnemonicShare(words.join(" "))).toBeNull();
+    expect(combineMnemonicShares([shares[0], words.join(" ")]).error).toBe(
+      "Share 2 is invalid. Check for typos or missing words.",
+    );
+
+    // A different threshold keeps the sets apart even if the random set
+    // identifiers collide
+    const other = splitMnemonic(MNEMONIC_24, 3, 3);
+    expect(combineMnemonicShares([shares[0], other[1]]).error).toBe(
+      "The shares do not belong to the same split",
+    );
+  });
+
+  test("refuses out-of-range parameters", () => {
+    expect(() => splitMnemonic(MNEMONIC_24, 1, 3)).toThrow();
+    expect(() => splitMnemonic(MNEMONIC_24, 4, 3)).toThrow();
+    expect(() => splitMnemonic(MNEMONIC_24, 2, 17)).toThrow();
+  });
+});
@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { appConfig } from "../../util/app-config-store";
+import {
+  getPinLockoutStatus,
+  recordFailedPinAttempt,
+  setWipeAfterFailures,
+} from "../../util/pin-attempts";
+import { verifyStoredPin } from "../../util/pin-security";
+import { getValue } from "../../util/secure-store";
+import {
+  TEST_PIN,
+  TEST_PROFILE,
+  addTestAccount,
+  resetWallet,
+} from "./wallet-fixtures";
+
+const WRONG_PIN = "000000";
+
+async function failTimes(count: number): Promise<void> {
+  for (let attempt = 0; attempt < count; attempt++) {
+    expect(await verifyStoredPin(WRONG_PIN)).toBe(false);
+  }
+}
+
+describe("PIN attempt throttle", () => {
+  beforeEach(resetWallet);
+
+  test("allows four free failures, then locks out even the right PIN", async () => {
+    await failTimes(4);
+    expect((await getPinLockoutStatus()).lockedUntil).toBeNull();
+
+    await failTimes(1);
+    const status = await getPinLockoutStatus();
+    expect(status.failedAttempts).toBe(5);
+    expect(status.lockedUntil).not.toBeNull();
+    const remainingMs = (status.lockedUntil as number) - Date.now();
+    expect(remainingMs).toBeGreaterThan(25 * 1000);
+    expect(remainingMs).toBeLessThanOrEqual(30 * 1000);
+
+    expect(await verifyStoredPin(TEST_PIN)).toBe(false);
+  });
+
+  test("resets the count after the right PIN", async () => {
+    await failTimes(3);
+    expect(await verifyStoredPin(TEST_PIN)).toBe(true);
+
+    expect((await getPinLockoutStatus()).failedAttempts).toBe(0);
+  });
+
+  test("counts concurrent failures", async () => {
+    await Promise.all(
+      Array.from({ length: 3 }, () => recordFailedPinAttempt()),
+    );
+
+    expect((await getPinLockoutStatus()).failedAttempts).toBe(3);
+  });
+
+  test("erases the wallet once the wipe limit is reached", async () => {
+    await addTestAccount("alpha", { secret: "alpha secret" });
+    await setWipeAfterFailures(10);
+    await failTimes(4);
+    expect((await getPinLockoutStatus()).attemptsBeforeWipe).toBe(6);
+
+    // Lockouts would block further entries; count the rest directly
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await recordFailedPinAttempt();
+    }
+    expect(await getValue("account_alpha")).not.toBeNull();
+
+    await recordFailedPinAttempt();
+    expect(await getValue("account_alpha")).toBeNull();
+    expect(await getValue("user_pin")).toBeNull();
+    expect(appConfig.profiles[TEST_PROFILE].peek()).toBeUndefined();
+  });
+});
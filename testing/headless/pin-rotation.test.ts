@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { createProfile } from "../../util/app-config-store";
+import { NetworkTypeEnum } from "../../util/app-config-types";
+import { rotatePinAndReencryptData } from "../../util/pin-rotation";
+import { setupDuressPin, verifyStoredPin } from "../../util/pin-security";
+import { getAllKeys } from "../../util/secure-store";
+import {
+  TEST_PIN,
+  addTestAccount,
+  readTestSecret,
+  resetWallet,
+} from "./wallet-fixtures";
+
+const NEW_PIN = "246802";
+
+describe("rotatePinAndReencryptData", () => {
+  beforeEach(resetWallet);
+
+  test("re-encrypts every stored secret with the new PIN", async () => {
+    await addTestAccount("alpha", { secret: "alpha secret" });
+    await addTestAccount("beta", { secret: "beta secret" });
+    await addTestAccount("view-only");
+
+    const result = await rotatePinAndReencryptData(TEST_PIN, NEW_PIN, "pin");
+
+    expect(result.success).toBe(true);
+    expect(result.rotatedCount).toBe(2);
+    expect(await verifyStoredPin(NEW_PIN)).toBe(true);
+    expect(await readTestSecret("alpha", NEW_PIN)).toBe("alpha secret");
+    expect(await readTestSecret("beta", NEW_PIN)).toBe("beta secret");
+    expect(await readTestSecret("alpha", TEST_PIN)).toBeNull();
+    // No staged copies or journal are left behind
+    expect(await getAllKeys("pin")).toEqual([]);
+  });
+
+  test("changes nothing when a secret cannot be re-encrypted", async () => {
+    await addTestAccount("alpha", { secret: "alpha secret" });
+    await addTestAccount("beta", { secret: "beta secret", pin: "999999" });
+
+    const result = await rotatePinAndReencryptData(TEST_PIN, NEW_PIN, "pin");
+
+    expect(result.success).toBe(false);
+    expect(result.failedAccounts).toEqual(["beta"]);
+    expect(await verifyStoredPin(TEST_PIN)).toBe(true);
+    expect(await readTestSecret("alpha", TEST_PIN)).toBe("alpha secret");
+    expect(await readTestSecret("beta", "999999")).toBe("beta secret");
+  });
+
+  test("leaves secrets of the duress PIN alone", async () => {
+    const duressPin = "112233";
+    await addTestAccount("alpha", { secret: "alpha secret" });
+    createProfile("Decoy", {
+      network_name: NetworkTypeEnum.TESTNET,
+      network_type: NetworkTypeEnum.TESTNET,
+    });
+    await addTestAccount("decoy", { profile: "Decoy", secret: "decoy secret" });
+    expect(await setupDuressPin(TEST_PIN, duressPin, "Decoy")).toBeNull();
+
+    const result = await rotatePinAndReencryptData(TEST_PIN, NEW_PIN, "pin");
+
+    expect(result.success).toBe(true);
+    expect(result.rotatedCount).toBe(1);
+    expect(await readTestSecret("alpha", NEW_PIN)).toBe("alpha secret");
+    expect(await readTestSecret("decoy", duressPin)).toBe("decoy secret");
+  });
+});
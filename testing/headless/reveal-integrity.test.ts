@@ -0,0 +1,125 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import {
+  getAccountRevealSchedule,
+  setAccountRevealPolicy,
+  setAccountRevealSchedule,
+  type RevealPolicy,
+} from "../../util/app-config-store";
+import {
+  REVEAL_WAITING_PERIOD_OPTIONS_MS,
+  REVEAL_WINDOW_OPTIONS_MS,
+  checkRevealStatus,
+  getAccountOwnRevealPolicy,
+  restoreRevealPolicy,
+} from "../../util/reveal-controller";
+import {
+  forgetRevealScheduleKey,
+  isRevealPolicyAuthentic,
+  isRevealScheduleAuthentic,
+  loadRevealScheduleKey,
+  signRevealPolicy,
+  signRevealSchedule,
+} from "../../util/reveal-integrity";
+import { addTestAccount, resetWallet } from "./wallet-fixtures";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const RELAXED_POLICY: RevealPolicy = {
+  waiting_period_ms: 0,
+  reveal_window_ms: 10 * 60 * 1000,
+  require_device_auth: false,
+};
+
+function scheduleFrom(now: number) {
+  return {
+    scheduledAt: now,
+    availableAt: now + HOUR_MS,
+    expiresAt: now + 2 * HOUR_MS,
+  };
+}
+
+describe("reveal integrity", () => {
+  beforeEach(async () => {
+    await resetWallet();
+    forgetRevealScheduleKey();
+    await loadRevealScheduleKey();
+    await addTestAccount("alpha");
+  });
+
+  test("accepts a signed schedule only for its account and times", () => {
+    const schedule = signRevealSchedule("alpha", scheduleFrom(Date.now()));
+
+    expect(isRevealScheduleAuthentic("alpha", schedule)).toBe(true);
+    expect(isRevealScheduleAuthentic("beta", schedule)).toBe(false);
+    expect(
+      isRevealScheduleAuthentic("alpha", {
+        ...schedule,
+        availableAt: schedule.scheduledAt,
+      }),
+    ).toBe(false);
+    expect(
+      isRevealScheduleAuthentic("alpha", { ...schedule, mac: undefined }),
+    ).toBe(false);
+  });
+
+  test("removes a forged schedule when its status is checked", () => {
+    const signed = signRevealSchedule("alpha", scheduleFrom(Date.now()));
+    setAccountRevealSchedule("alpha", { ...signed, availableAt: 0 });
+
+    expect(checkRevealStatus("alpha")).toBeNull();
+    expect(getAccountRevealSchedule("alpha")).toBeNull();
+  });
+
+  test("accepts a signed policy only as it was signed", () => {
+    const pending = { policy: RELAXED_POLICY, effective_at: Date.now() };
+    const mac = signRevealPolicy("alpha", undefined, pending);
+
+    expect(isRevealPolicyAuthentic("alpha", undefined, pending, mac)).toBe(
+      true,
+    );
+    expect(
+      isRevealPolicyAuthentic(
+        "alpha",
+        undefined,
+        { ...pending, effective_at: 0 },
+        mac,
+      ),
+    ).toBe(false);
+    expect(
+      isRevealPolicyAuthentic("alpha", RELAXED_POLICY, undefined, mac),
+    ).toBe(false);
+    // Only an account with no policy at all needs no HMAC
+    expect(
+      isRevealPolicyAuthentic("alpha", undefined, undefined, undefined),
+    ).toBe(true);
+    expect(
+      isRevealPolicyAuthentic("alpha", RELAXED_POLICY, undefined, undefined),
+    ).toBe(false);
+  });
+
+  test("does not take a schedule HMAC for a policy HMAC", () => {
+    const schedule = signRevealSchedule("alpha", scheduleFrom(Date.now()));
+
+    expect(
+      isRevealPolicyAuthentic("alpha", RELAXED_POLICY, undefined, schedule.mac),
+    ).toBe(false);
+  });
+
+  test("treats a forged policy as the strictest one offered", () => {
+    expect(restoreRevealPolicy("alpha", RELAXED_POLICY, undefined)).toBe(true);
+    expect(getAccountOwnRevealPolicy("alpha")).toEqual(RELAXED_POLICY);
+
+    setAccountRevealPolicy(
+      "alpha",
+      { ...RELAXED_POLICY, reveal_window_ms: HOUR_MS },
+      undefined,
+      signRevealPolicy("alpha", RELAXED_POLICY, undefined),
+    );
+
+    expect(getAccountOwnRevealPolicy("alpha")).toEqual({
+      waiting_period_ms: Math.max(...REVEAL_WAITING_PERIOD_OPTIONS_MS),
+      reveal_window_ms: Math.min(...REVEAL_WINDOW_OPTIONS_MS),
+      require_device_auth: false,
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import type { RevealPolicy } from "../../util/app-config-store";
+import {
+  cancelPendingRevealPolicy,
+  getAccountOwnRevealPolicy,
+  getPendingRevealPolicy,
+  getRevealPolicy,
+  restoreRevealPolicy,
+  setRevealPolicy,
+} from "../../util/reveal-controller";
+import {
+  forgetRevealScheduleKey,
+  loadRevealScheduleKey,
+} from "../../util/reveal-integrity";
+import { addTestAccount, resetWallet } from "./wallet-fixtures";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+const STRICT_POLICY: RevealPolicy = {
+  waiting_period_ms: 72 * HOUR_MS,
+  reveal_window_ms: MINUTE_MS,
+  require_device_auth: true,
+};
+
+const RELAXED_POLICY: RevealPolicy = {
+  waiting_period_ms: 0,
+  reveal_window_ms: 10 * MINUTE_MS,
+  require_device_auth: false,
+};
+
+describe("reveal policies", () => {
+  beforeEach(async () => {
+    await resetWallet();
+    forgetRevealScheduleKey();
+    await loadRevealScheduleKey();
+    await addTestAccount("alpha", { secret: "alpha secret" });
+  });
+
+  test("applies a stricter policy at once", () => {
+    const result = setRevealPolicy("alpha", STRICT_POLICY);
+
+    expect(result?.pending).toBe(false);
+    expect(getAccountOwnRevealPolicy("alpha")).toEqual(STRICT_POLICY);
+    expect(getPendingRevealPolicy("alpha")).toBeNull();
+  });
+
+  test("delays a weaker policy by the current waiting period", () => {
+    setRevealPolicy("alpha", STRICT_POLICY);
+    const before = Date.now();
+
+    const result = setRevealPolicy("alpha", RELAXED_POLICY);
+
+    expect(result?.pending).toBe(true);
+    expect(result?.effectiveAt).toBeGreaterThanOrEqual(
+      before + STRICT_POLICY.waiting_period_ms,
+    );
+    expect(getAccountOwnRevealPolicy("alpha")).toEqual(STRICT_POLICY);
+    expect(getPendingRevealPolicy("alpha")?.policy).toEqual(RELAXED_POLICY);
+
+    cancelPendingRevealPolicy("alpha");
+    expect(getPendingRevealPolicy("alpha")).toBeNull();
+    expect(getAccountOwnRevealPolicy("alpha")).toEqual(STRICT_POLICY);
+  });
+
+  test("applies a weaker policy once its waiting period has passed", () => {
+    restoreRevealPolicy("alpha", STRICT_POLICY, {
+      policy: RELAXED_POLICY,
+      effective_at: Date.now() - MINUTE_MS,
+    });
+
+    expect(getAccountOwnRevealPolicy("alpha")).toEqual(RELAXED_POLICY);
+    expect(getPendingRevealPolicy("alpha")).toBeNull();
+  });
+
+  test("applies the strictest policy of accounts sharing a secret", async () => {
+    await addTestAccount("derived", { secretAccountId: "alpha" });
+    restoreRevealPolicy(
+      "alpha",
+      { ...RELAXED_POLICY, waiting_period_ms: 72 * HOUR_MS },
+      undefined,
+    );
+    restoreRevealPolicy(
+      "derived",
+      { ...RELAXED_POLICY, reveal_window_ms: MINUTE_MS },
+      undefined,
+    );
+
+    const expected = {
+      waiting_period_ms: 72 * HOUR_MS,
+      reveal_window_ms: MINUTE_MS,
+      require_device_auth: false,
+    };
+    expect(getRevealPolicy("alpha")).toEqual(expected);
+    expect(getRevealPolicy("derived")).toEqual(expected);
+  });
+});
@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, spyOn, test } from "bun:test";
+import { AptosApiError, LibraClient, Network } from "open-libra-sdk";
+import {
+  createFailoverClient,
+  getActiveEndpoint,
+} from "../../util/rpc-endpoints";
+
+const LEDGER_INFO = { chain_id: 2, ledger_timestamp: "0" };
+
+function apiError(url: string, status: number): AptosApiError {
+  return new AptosApiError({
+    apiType: "Fullnode",
+    aptosRequest: { url, method: "GET" },
+    aptosResponse: {
+      status,
+      statusText: "",
+      data: { message: `status ${status}` },
+      url,
+      headers: {},
+      config: {},
+      request: {},
+    },
+  } as unknown as ConstructorParameters<typeof AptosApiError>[0]);
+}
+
+/**
+ * Answers getLedgerInfo per endpoint: a thrown error, or the ledger info
+ */
+function mockEndpoints(failures: Record<string, unknown>): string[] {
+  const calls: string[] = [];
+  spyOn(LibraClient.prototype, "getLedgerInfo").mockImplementation(
+    async function (this: LibraClient) {
+      const url = this.config.fullnode as string;
+      calls.push(url);
+      if (url in failures) throw failures[url];
+      return LEDGER_INFO as never;
+    },
+  );
+  return calls;
+}
+
+describe("RPC endpoint failover", () => {
+  afterEach(() => {
+    (
+      LibraClient.prototype.getLedgerInfo as { mockRestore?: () => void }
+    ).mockRestore?.();
+  });
+
+  test("moves on after a server error", async () => {
+    const urls = ["http://a.test/v1", "http://b.test/v1"];
+    const calls = mockEndpoints({ [urls[0]]: apiError(urls[0], 503) });
+
+    const info = await createFailoverClient(
+      Network.TESTNET,
+      urls,
+    ).getLedgerInfo();
+
+    expect(info.chain_id).toBe(2);
+    expect(calls).toEqual(urls);
+    expect(getActiveEndpoint(urls)).toBe(urls[1]);
+  });
+
+  test("moves on when no response arrived", async () => {
+    const urls = ["http://c.test/v1", "http://d.test/v1"];
+    const calls = mockEndpoints({
+      [urls[0]]: Object.assign(new Error("Network Error"), {
+        code: "ERR_NETWORK",
+      }),
+    });
+
+    await createFailoverClient(Network.TESTNET, urls).getLedgerInfo();
+
+    expect(calls).toEqual(urls);
+    expect(getActiveEndpoint(urls)).toBe(urls[1]);
+  });
+
+  test("keeps the endpoint when the request itself was rejected", async () => {
+    const urls = ["http://e.test/v1", "http://f.test/v1"];
+    const calls = mockEndpoints({ [urls[0]]: apiError(urls[0], 404) });
+
+    await expect(
+      createFailoverClient(Network.TESTNET, urls).getLedgerInfo(),
+    ).rejects.toBeInstanceOf(AptosApiError);
+    expect(calls).toEqual([urls[0]]);
+    expect(getActiveEndpoint(urls)).toBe(urls[0]);
+  });
+
+  test("does not treat other errors as endpoint failures", async () => {
+    const urls = ["http://g.test/v1", "http://h.test/v1"];
+    const calls = mockEndpoints({ [urls[0]]: new TypeError("bad input") });
+
+    await expect(
+      createFailoverClient(Network.TESTNET, urls).getLedgerInfo(),
+    ).rejects.toThrow("bad input");
+    expect(calls).toEqual([urls[0]]);
+  });
+
+  test("binds other methods to the active client instead of wrapping them", () => {
+    const urls = ["http://i.test/v1"];
+    const client = createFailoverClient(Network.TESTNET, urls);
+
+    expect(client.config.fullnode).toBe(urls[0]);
+    expect(client.submitAndWait.name).toBe("bound submitAndWait");
+    expect(client.getLedgerInfo.name).not.toBe("bound getLedgerInfo");
+  });
+});
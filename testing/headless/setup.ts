@@ -0,0 +1,53 @@
+/**
+ * Headless Test Setup
+ *
+ * Preloaded by `bun test` (see bunfig.toml). Storage modules run without the
+ * native app: secure storage uses the in-memory backend, and the native
+ * modules they import are replaced with in-memory fakes.
+ */
+import { mock } from "bun:test";
+
+process.env.EXPO_PUBLIC_SECURE_STORAGE = "memory";
+(globalThis as { __DEV__?: boolean }).__DEV__ = true;
+
+// The app never leaves the foreground
+mock.module("react-native", () => ({
+  AppState: {
+    currentState: "active",
+    addEventListener: () => ({ remove: () => undefined }),
+  },
+}));
+
+// crypto.getRandomValues is built into Bun
+mock.module("react-native-get-random-values", () => ({}));
+
+const asyncStorageValues = new Map<string, string>();
+
+mock.module("@react-native-async-storage/async-storage", () => ({
+  default: {
+    getItem: async (key: string) => asyncStorageValues.get(key) ?? null,
+    setItem: async (key: string, value: string) => {
+      asyncStorageValues.set(key, value);
+    },
+    removeItem: async (key: string) => {
+      asyncStorageValues.delete(key);
+    },
+    getAllKeys: async () => [...asyncStorageValues.keys()],
+    multiGet: async (keys: string[]) =>
+      keys.map((key) => [key, asyncStorageValues.get(key) ?? null]),
+    multiSet: async (pairs: [string, string][]) => {
+      for (const [key, value] of pairs) asyncStorageValues.set(key, value);
+    },
+    multiRemove: async (keys: string[]) => {
+      for (const key of keys) asyncStorageValues.delete(key);
+    },
+    clear: async () => asyncStorageValues.clear(),
+  },
+}));
+
+// No biometrics on the test machine
+mock.module("expo-local-authentication", () => ({
+  authenticateAsync: async () => ({ success: false, error: "not_available" }),
+  hasHardwareAsync: async () => false,
+  isEnrolledAsync: async () => false,
+}));
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { LibraClient } from "open-libra-sdk";
+import { appConfig } from "../../util/app-config-store";
+import { getTrustedNow, syncTrustedTime } from "../../util/trusted-time";
+import { TEST_PROFILE, addTestAccount, resetWallet } from "./wallet-fixtures";
+
+const CHAIN_ID = 4;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Ledger time and chain ID the mocked nodes report
+let ledger = { ms: 0, chainId: CHAIN_ID };
+
+function useEndpoint(url: string, chainId = CHAIN_ID): void {
+  appConfig.profiles[TEST_PROFILE].network.set({
+    ...appConfig.profiles[TEST_PROFILE].network.peek(),
+    rpc_urls: [url],
+    chain_id: chainId,
+  });
+}
+
+function expectTrustedNear(expectedMs: number): void {
+  expect(Math.abs(getTrustedNow().now - expectedMs)).toBeLessThan(5000);
+}
+
+describe("trusted time", () => {
+  beforeEach(async () => {
+    await resetWallet();
+    await addTestAccount("alpha");
+    useEndpoint("https://a.example");
+    spyOn(LibraClient.prototype, "getLedgerInfo").mockImplementation(
+      async () =>
+        ({
+          chain_id: ledger.chainId,
+          ledger_timestamp: String(ledger.ms * 1000),
+        }) as never,
+    );
+
+    // Start each test from a sync with the first endpoint, at the trusted
+    // time earlier tests left behind
+    ledger = { ms: getTrustedNow().now, chainId: CHAIN_ID };
+    expect(await syncTrustedTime()).toBe(true);
+  });
+
+  afterEach(() => {
+    (
+      LibraClient.prototype.getLedgerInfo as unknown as {
+        mockRestore: () => void;
+      }
+    ).mockRestore();
+  });
+
+  test("follows the ledger of the network it synced with", async () => {
+    const before = getTrustedNow().now;
+    ledger.ms += 10 * MINUTE_MS;
+
+    expect(await syncTrustedTime()).toBe(true);
+
+    expect(getTrustedNow().source).toBe("ledger");
+    expectTrustedNear(before + 10 * MINUTE_MS);
+  });
+
+  test("does not let another endpoint move the time forwards", async () => {
+    const before = getTrustedNow().now;
+    useEndpoint("https://b.example");
+    ledger.ms += 30 * DAY_MS;
+
+    expect(await syncTrustedTime()).toBe(true);
+    expectTrustedNear(before);
+
+    // The new endpoint is measured from here on
+    ledger.ms += MINUTE_MS;
+    expect(await syncTrustedTime()).toBe(true);
+    expectTrustedNear(before + MINUTE_MS);
+  });
+
+  test("does not let another chain ID move the time forwards", async () => {
+    const before = getTrustedNow().now;
+    useEndpoint("https://a.example", CHAIN_ID + 1);
+    ledger = { ms: ledger.ms + 30 * DAY_MS, chainId: CHAIN_ID + 1 };
+
+    expect(await syncTrustedTime()).toBe(true);
+    expectTrustedNear(before);
+  });
+
+  test("ignores nodes on an unexpected chain", async () => {
+    const before = getTrustedNow().now;
+    ledger = { ms: ledger.ms + 30 * DAY_MS, chainId: CHAIN_ID + 1 };
+
+    expect(await syncTrustedTime()).toBe(false);
+    expectTrustedNear(before);
+  });
+});
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { appConfig } from "../../util/app-config-store";
+import { getValue, saveValue } from "../../util/secure-store";
+import {
+  decryptWithPinAndUnlock,
+  decryptWithSession,
+  lockUnlockSession,
+} from "../../util/unlock-session";
+import { TEST_PIN, addTestAccount, resetWallet } from "./wallet-fixtures";
+
+async function storedSecret(id: string): Promise<string> {
+  return (await getValue(`account_${id}`)) as string;
+}
+
+describe("unlock session", () => {
+  beforeEach(async () => {
+    await resetWallet();
+    appConfig.app_settings.unlock_session_minutes.set(5);
+    await addTestAccount("alpha", { secret: "alpha secret" });
+    await addTestAccount("beta", { secret: "beta secret" });
+  });
+
+  afterEach(() => {
+    lockUnlockSession();
+    appConfig.app_settings.unlock_session_minutes.set(undefined);
+  });
+
+  test("opens the unlocked record without the PIN", async () => {
+    const unlocked = await decryptWithPinAndUnlock(
+      await storedSecret("alpha"),
+      TEST_PIN,
+    );
+
+    expect(unlocked?.value).toBe("alpha secret");
+    expect(unlocked?.rekeyed).toBeUndefined();
+    expect(decryptWithSession(await storedSecret("alpha"))).toBe(
+      "alpha secret",
+    );
+    // Records with another salt still need the PIN once
+    expect(decryptWithSession(await storedSecret("beta"))).toBeNull();
+  });
+
+  test("re-keys another account's record so one PIN entry opens both", async () => {
+    await decryptWithPinAndUnlock(await storedSecret("alpha"), TEST_PIN);
+    const second = await decryptWithPinAndUnlock(
+      await storedSecret("beta"),
+      TEST_PIN,
+    );
+
+    expect(second?.value).toBe("beta secret");
+    expect(second?.rekeyed).toBeDefined();
+    await saveValue("account_beta", second?.rekeyed as string);
+
+    lockUnlockSession();
+    await decryptWithPinAndUnlock(await storedSecret("alpha"), TEST_PIN);
+    expect(decryptWithSession(await storedSecret("beta"))).toBe("beta secret");
+  });
+
+  test("never re-keys a record of another PIN", async () => {
+    await addTestAccount("gamma", { secret: "gamma secret", pin: "999999" });
+    await decryptWithPinAndUnlock(await storedSecret("alpha"), TEST_PIN);
+
+    const other = await decryptWithPinAndUnlock(
+      await storedSecret("gamma"),
+      "999999",
+    );
+
+    expect(other?.value).toBe("gamma secret");
+    expect(other?.rekeyed).toBeUndefined();
+  });
+
+  test("keeps nothing when sessions are off", async () => {
+    appConfig.app_settings.unlock_session_minutes.set(undefined);
+    await decryptWithPinAndUnlock(await storedSecret("alpha"), TEST_PIN);
+
+    expect(decryptWithSession(await storedSecret("alpha"))).toBeNull();
+  });
+});
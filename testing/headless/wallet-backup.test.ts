@@ -0,0 +1,134 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { appConfig, updateAccountNickname } from "../../util/app-config-store";
+import {
+  createWalletBackup,
+  decryptWalletBackup,
+  importWalletBackup,
+} from "../../util/wallet-backup";
+import {
+  TEST_PIN,
+  TEST_PROFILE,
+  addTestAccount,
+  readTestSecret,
+  resetWallet,
+} from "./wallet-fixtures";
+
+const PASSPHRASE = "correct horse | battery staple";
+
+async function exportBackup(): Promise<string> {
+  const result = await createWalletBackup(TEST_PIN, PASSPHRASE);
+  expect(result.error).toBeUndefined();
+  return result.backup as string;
+}
+
+describe("wallet backup", () => {
+  beforeEach(resetWallet);
+
+  test("round-trips values containing the payload separator", async () => {
+    await addTestAccount("alpha", { secret: "alpha|secret" });
+    updateAccountNickname("alpha", "Savings | cold");
+    const backup = await exportBackup();
+
+    const decrypted = await decryptWalletBackup(backup, PASSPHRASE);
+
+    expect(decrypted.error).toBeUndefined();
+    expect(decrypted.contents?.secrets.alpha).toBe("alpha|secret");
+    expect(
+      decrypted.contents?.config.profiles[TEST_PROFILE].accounts[0].nickname,
+    ).toBe("Savings | cold");
+  });
+
+  test("restores accounts and secrets into an empty wallet", async () => {
+    await addTestAccount("alpha", { secret: "alpha secret" });
+    await addTestAccount("view-only");
+    const backup = await exportBackup();
+    const decrypted = await decryptWalletBackup(backup, PASSPHRASE);
+
+    await resetWallet();
+    const result = await importWalletBackup(
+      decrypted.contents as NonNullable<typeof decrypted.contents>,
+      TEST_PIN,
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.importedAccounts).toBe(2);
+    expect(
+      appConfig.profiles[TEST_PROFILE].accounts.peek().map((a) => a.id),
+    ).toEqual(["alpha", "view-only"]);
+    expect(await readTestSecret("alpha", TEST_PIN)).toBe("alpha secret");
+  });
+
+  test("rejects a wrong passphrase and a modified payload", async () => {
+    await addTestAccount("alpha", { secret: "alpha secret" });
+    const backup = await exportBackup();
+
+    const wrongPassphrase = await decryptWalletBackup(backup, "wrong");
+    expect(wrongPassphrase.success).toBe(false);
+
+    const file = JSON.parse(backup);
+    const payload = atob(file.payload);
+    file.payload = btoa(
+      payload.slice(0, -1) +
+        String.fromCharCode(payload.charCodeAt(payload.length - 1) ^ 1),
+    );
+    const modified = await decryptWalletBackup(
+      JSON.stringify(file),
+      PASSPHRASE,
+    );
+    expect(modified.success).toBe(false);
+  });
+
+  test("restores app settings only on a fresh install", async () => {
+    await addTestAccount("alpha", { secret: "alpha secret" });
+    appConfig.app_settings.set({
+      theme: "light",
+      auto_lock_minutes: 15,
+      clipboard_clear_seconds: 30,
+    });
+    const decrypted = await decryptWalletBackup(
+      await exportBackup(),
+      PASSPHRASE,
+    );
+    const contents = decrypted.contents as NonNullable<
+      typeof decrypted.contents
+    >;
+
+    await resetWallet();
+    await addTestAccount("existing", { secret: "existing secret" });
+    await importWalletBackup(contents, TEST_PIN);
+    expect(appConfig.app_settings.peek()).toEqual({ theme: "dark" });
+
+    await resetWallet();
+    await importWalletBackup(contents, TEST_PIN);
+    expect(appConfig.app_settings.peek()).toEqual({
+      theme: "light",
+      auto_lock_minutes: 15,
+      clipboard_clear_seconds: 30,
+    });
+  });
+
+  test("ignores unknown settings and values of the wrong type", async () => {
+    await addTestAccount("alpha", { secret: "alpha secret" });
+    const decrypted = await decryptWalletBackup(
+      await exportBackup(),
+      PASSPHRASE,
+    );
+    const contents = decrypted.contents as NonNullable<
+      typeof decrypted.contents
+    >;
+    contents.config.app_settings = {
+      theme: "neon",
+      auto_lock_minutes: -1,
+      app_pin_only: true,
+      unknown_setting: 1,
+    } as unknown as typeof contents.config.app_settings;
+
+    await resetWallet();
+    await importWalletBackup(contents, TEST_PIN);
+
+    expect(appConfig.app_settings.peek()).toEqual({
+      theme: "dark",
+      app_pin_only: true,
+    });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Wallet state for headless tests: a stored PIN, one profile, and accounts
+ * with secrets encrypted the way the app stores them
+ */
+import {
+  addAccountToProfile,
+  appConfig,
+  createProfile,
+} from "../../util/app-config-store";
+import {
+  NetworkTypeEnum,
+  type AccountState,
+} from "../../util/app-config-types";
+import { KdfId, savePreferredKdfParams } from "../../util/kdf";
+import {
+  hashPin,
+  secureDecryptWithPin,
+  secureEncryptWithPin,
+} from "../../util/pin-security";
+import {
+  clearAllSecureStorage,
+  getValue,
+  saveValue,
+} from "../../util/secure-store";
+
+export const TEST_PIN = "135790";
+
+export const TEST_PROFILE = "Test";
+
+/**
+ * Starts from an empty wallet with default settings, TEST_PIN set and an
+ * empty TEST_PROFILE.
+ * Keys are derived with cheap parameters to keep the tests fast.
+ */
+export async function resetWallet(): Promise<void> {
+  await clearAllSecureStorage();
+  appConfig.app_settings.set({ theme: "dark" });
+  appConfig.profiles.set({});
+  appConfig.activeAccountId.set(null);
+
+  await savePreferredKdfParams({ kdf: KdfId.PBKDF2_SHA256, iterations: 1000 });
+  await saveValue("user_pin", JSON.stringify(await hashPin(TEST_PIN)));
+  createProfile(TEST_PROFILE, {
+    network_name: NetworkTypeEnum.TESTNET,
+    network_type: NetworkTypeEnum.TESTNET,
+  });
+}
+
+/**
+ * Adds an account to a profile, with its secret encrypted with a PIN if given
+ */
+export async function addTestAccount(
+  id: string,
+  options: {
+    profile?: string;
+    secret?: string;
+    pin?: string;
+    secretAccountId?: string;
+  } = {},
+): Promise<void> {
+  const account: AccountState = {
+    id,
+    account_address: `0x${id.padStart(64, "0")}`,
+    is_key_stored: Boolean(options.secret || options.secretAccountId),
+    balance_unlocked: 0,
+    balance_total: 0,
+    last_update: 0,
+    secret_account_id: options.secretAccountId,
+  };
+  addAccountToProfile(options.profile ?? TEST_PROFILE, account);
+
+  if (options.secret) {
+    await saveValue(
+      `account_${id}`,
+      await secureEncryptWithPin(options.secret, options.pin ?? TEST_PIN),
+    );
+  }
+}
+
+/**
+ * Reads an account's stored secret with a PIN
+ *
+ * @returns The secret, or null if there is none or the PIN does not open it
+ */
+export async function readTestSecret(
+  id: string,
+  pin: string,
+): Promise<string | null> {
+  const encrypted = await getValue(`account_${id}`);
+  const decrypted = encrypted
+    ? await secureDecryptWithPin(encrypted, pin)
+    : null;
+  return decrypted?.verified ? decrypted.value : null;
+}
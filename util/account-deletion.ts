@@ -1,5 +1,50 @@
-import { deleteValue } from "./secure-store";
-import { deleteAccount } from "./app-config-store";
+import { deleteValue, getValue, saveValue } from "./secure-store";
+import { recordAuditEvent } from "./security-audit";
+import { isSecretOwnedByDuressPin, setSecretOwner } from "./duress";
+import {
+  deleteAccount,
+  getAccountsSharingSecret,
+  getSecretAccountId,
+  setAccountSecretSource,
+  updateAccountKeyStoredStatus,
+} from "./app-config-store";
+
+/**
+ * Removes an account's stored secret without affecting other accounts derived
+ * from the same seed:
+ * - An account using another account's secret is only unlinked from it.
+ * - An account holding a secret that others use hands the encrypted secret
+ *   over to the first of them before its own copy is deleted.
+ *
+ * @param accountId ID of the account
+ */
+export async function detachAccountSecret(accountId: string): Promise<void> {
+  if (getSecretAccountId(accountId) !== accountId) {
+    setAccountSecretSource(accountId, null);
+    updateAccountKeyStoredStatus(accountId, false);
+    return;
+  }
+
+  const key = `account_${accountId}`;
+  const [heir, ...others] = getAccountsSharingSecret(accountId);
+
+  if (heir) {
+    const encrypted = await getValue(key);
+    if (encrypted) {
+      await saveValue(`account_${heir.id}`, encrypted);
+      // Still encrypted with the same PIN
+      await setSecretOwner(heir.id, await isSecretOwnedByDuressPin(accountId));
+    }
+    setAccountSecretSource(heir.id, null);
+    for (const other of others) {
+      setAccountSecretSource(other.id, heir.id);
+    }
+  }
+
+  await deleteValue(key);
+  await setSecretOwner(accountId, false);
+  updateAccountKeyStoredStatus(accountId, false);
+}
 
 /**
  * Completely deletes an account, including:
@@ -15,11 +60,10 @@ export async function deleteAccountCompletely(
 ): Promise<boolean> {
   try {
     // Step 1: Remove mnemonic from secure storage
-    // The mnemonic is stored with the key pattern `account_${accountId}`
-    const mnemonicKey = `account_${accountId}`;
-
+    // The mnemonic is stored with the key pattern `account_${accountId}`,
+    // and handed over if other accounts derive their keys from it
     try {
-      await deleteValue(mnemonicKey);
+      await detachAccountSecret(accountId);
       console.log(`Deleted mnemonic for account ${accountId}`);
     } catch (error) {
       console.warn(
@@ -39,6 +83,7 @@ export async function deleteAccountCompletely(
     }
 
     console.log(`Successfully deleted account ${accountId} completely`);
+    recordAuditEvent("account_deleted", { accountId });
     return true;
   } catch (error) {
     console.error(
@@ -0,0 +1,66 @@
+/**
+ * HD Account Discovery
+ *
+ * Walks the derivation indexes of a recovery phrase and checks on chain which
+ * derived accounts exist. The scan stops after DISCOVERY_GAP_LIMIT indexes in
+ * a row whose accounts do not exist, like the BIP44 account discovery.
+ */
+import { type LibraClient } from "open-libra-sdk";
+import { deriveAccountAddress, type AccountSecret } from "./account-secret";
+import { fetchAccountPollingData } from "./account-polling";
+
+// Consecutive missing accounts after which the scan stops
+const DISCOVERY_GAP_LIMIT = 5;
+
+// Upper bound on scanned indexes, in case the chain never reports a gap
+const MAX_DISCOVERY_INDEX = 100;
+
+/**
+ * An account found on chain during discovery
+ */
+export type DiscoveredAccount = {
+  index: number;
+  address: string;
+  balanceTotal: number;
+};
+
+/**
+ * Scans derivation indexes for accounts that exist on chain
+ *
+ * @param secret - Recovery phrase and optional passphrase
+ * @param client - Client of the network to scan
+ * @param onProgress - Called with each index before it is checked
+ * @returns The accounts that exist on chain, in index order
+ */
+export async function discoverAccounts(
+  secret: AccountSecret,
+  client: LibraClient,
+  onProgress?: (index: number) => void,
+): Promise<DiscoveredAccount[]> {
+  const discovered: DiscoveredAccount[] = [];
+  let gap = 0;
+
+  for (
+    let index = 0;
+    index < MAX_DISCOVERY_INDEX && gap < DISCOVERY_GAP_LIMIT;
+    index++
+  ) {
+    onProgress?.(index);
+
+    const address = deriveAccountAddress(secret, index).toStringLong();
+    const pollingData = await fetchAccountPollingData(client, address);
+
+    if (pollingData.balance.exists_on_chain) {
+      discovered.push({
+        index,
+        address,
+        balanceTotal: pollingData.balance.balance_total,
+      });
+      gap = 0;
+    } else {
+      gap++;
+    }
+  }
+
+  return discovered;
+}
@@ -0,0 +1,176 @@
+/**
+ * Account Secrets
+ *
+ * An account's secret is its recovery phrase plus an optional BIP39-style
+ * passphrase (the "25th word"). Both are stored together, encrypted with the
+ * PIN, under the `account_${id}` key.
+ *
+ * Stored format:
+ * - Without a passphrase: the plain recovery phrase, as before passphrases
+ *   were supported, so existing records stay valid.
+ * - With a passphrase: JSON `{ "mnemonic": string, "passphrase": string }`.
+ *
+ * Derivation follows the 0L wallet key factory used by open-libra-sdk. The
+ * passphrase is appended to its fixed mnemonic salt, the same way BIP39 appends
+ * the passphrase to "mnemonic". Further accounts use the key factory's child
+ * index (little-endian, appended to the derived key info). An empty passphrase
+ * at index 0 derives the same key as `LibraWallet.fromMnemonic`.
+ */
+import { pbkdf2 } from "@noble/hashes/pbkdf2";
+import { sha3_256 } from "@noble/hashes/sha3";
+import { extract, expand } from "@noble/hashes/hkdf";
+import {
+  Ed25519PrivateKey,
+  LibraClient,
+  LibraWallet,
+  type AccountAddress,
+  type Network,
+} from "open-libra-sdk";
+
+// Key derivation constants of the 0L wallet key factory
+const MNEMONIC_SALT =
+  "0L WALLET: UNREST, FIRES, AND VIOLENCE AS PROTESTS RAGE ACROSS US: mnemonic salt prefix$0L";
+const MASTER_KEY_SALT =
+  "0L WALLET: 30 MILLION AMERICANS HAVE FILED INITIAL UNEMPLOYMENT CLAIMS: master key salt$";
+const DERIVED_KEY_INFO =
+  "0L WALLET: US DEATHS NEAR 100,000, AN INCALCULABLE LOSS: derived key$";
+const PBKDF2_ITERATIONS = 2048;
+
+// Child key index appended to the derived key info
+const CHILD_INDEX_BYTES = 8;
+
+/**
+ * Recovery phrase and optional passphrase of an account
+ */
+export type AccountSecret = {
+  mnemonic: string;
+  passphrase?: string;
+};
+
+/**
+ * Serializes an account secret for encrypted storage
+ */
+export function encodeAccountSecret(secret: AccountSecret): string {
+  const mnemonic = secret.mnemonic.trim();
+  if (!secret.passphrase) {
+    return mnemonic;
+  }
+  return JSON.stringify({ mnemonic, passphrase: secret.passphrase });
+}
+
+/**
+ * Parses a stored account secret. Accepts both the plain recovery phrase and
+ * the JSON form with a passphrase.
+ */
+export function decodeAccountSecret(value: string): AccountSecret {
+  const trimmed = value.trim();
+  if (trimmed.startsWith("{")) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (typeof parsed.mnemonic === "string") {
+        return {
+          mnemonic: parsed.mnemonic,
+          passphrase:
+            typeof parsed.passphrase === "string" && parsed.passphrase
+              ? parsed.passphrase
+              : undefined,
+        };
+      }
+    } catch {
+      // Not JSON, treat it as a plain recovery phrase
+    }
+  }
+  return { mnemonic: trimmed };
+}
+
+/**
+ * Derives the private key for a recovery phrase, passphrase and child index
+ */
+function derivePrivateKey(
+  mnemonic: string,
+  passphrase: string,
+  index: number,
+): Uint8Array {
+  const encoder = new TextEncoder();
+  const seed = pbkdf2(
+    sha3_256,
+    mnemonic.normalize("NFKD"),
+    encoder.encode(MNEMONIC_SALT + passphrase.normalize("NFKD")),
+    { c: PBKDF2_ITERATIONS, dkLen: 32 },
+  );
+  const masterKey = extract(sha3_256, seed, encoder.encode(MASTER_KEY_SALT));
+
+  const info = new Uint8Array(DERIVED_KEY_INFO.length + CHILD_INDEX_BYTES);
+  info.set(encoder.encode(DERIVED_KEY_INFO));
+  new DataView(info.buffer).setBigUint64(
+    DERIVED_KEY_INFO.length,
+    BigInt(index),
+    true,
+  );
+  return expand(sha3_256, masterKey.slice(0, 32), info, 32);
+}
+
+/**
+ * Derives the private key of an account from its secret
+ *
+ * @throws If the recovery phrase is invalid
+ */
+function deriveAccountKey(
+  secret: AccountSecret,
+  index: number,
+): Ed25519PrivateKey {
+  const mnemonic = secret.mnemonic.trim();
+
+  // Validates the recovery phrase the same way the SDK does
+  LibraWallet.fromMnemonic(mnemonic);
+
+  return new Ed25519PrivateKey(
+    derivePrivateKey(mnemonic, secret.passphrase ?? "", index),
+  );
+}
+
+/**
+ * Derives the address of the account at a derivation index. This is the
+ * address before any key rotation.
+ *
+ * @param secret - Recovery phrase and optional passphrase
+ * @param index - Derivation index
+ * @returns The derived address
+ * @throws If the recovery phrase is invalid
+ */
+export function deriveAccountAddress(
+  secret: AccountSecret,
+  index: number,
+): AccountAddress {
+  return deriveAccountKey(secret, index).publicKey().authKey().derivedAddress();
+}
+
+/**
+ * Builds a wallet from an account secret, applying the passphrase if set
+ *
+ * @param secret - Recovery phrase and optional passphrase
+ * @param network - Network of the wallet client
+ * @param url - Fullnode URL of the wallet client
+ * @param index - Derivation index of the account's key
+ * @returns The wallet
+ * @throws If the recovery phrase is invalid
+ */
+export function createWalletFromSecret(
+  secret: AccountSecret,
+  network: Network,
+  url: string,
+  index = 0,
+): LibraWallet {
+  if (!secret.passphrase && index === 0) {
+    return LibraWallet.fromMnemonic(secret.mnemonic.trim(), network, url);
+  }
+
+  const privateKey = deriveAccountKey(secret, index);
+  const address = privateKey.publicKey().authKey().derivedAddress();
+
+  return LibraWallet.fromPrivateKey(
+    address,
+    privateKey,
+    new LibraClient(network, url),
+  );
+}
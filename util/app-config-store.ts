@@ -1,8 +1,7 @@
-import { observable } from "@legendapp/state";
+import { observable, when } from "@legendapp/state";
 import { persistObservable } from "@legendapp/state/persist";
 
 import { configureObservablePersistence } from "@legendapp/state/persist";
-import { ObservablePersistAsyncStorage } from "@legendapp/state/persist-plugins/async-storage";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 
 import {
@@ -12,13 +11,19 @@ import {
   AccountState,
   Profile,
   RevealSchedule,
+  RevealPolicy,
+  PendingRevealPolicy,
   defaultConfig,
 } from "./app-config-types";
+import {
+  ObservablePersistEncryptedAsyncStorage,
+  getPersistenceLoadError,
+} from "./encrypted-persistence";
 
 // Global configuration
 configureObservablePersistence({
-  // Use AsyncStorage in React Native
-  pluginLocal: ObservablePersistAsyncStorage,
+  // Use AsyncStorage in React Native, encrypted at rest
+  pluginLocal: ObservablePersistEncryptedAsyncStorage,
   localOptions: {
     asyncStorage: {
       // The AsyncStorage plugin needs to be given the implementation of AsyncStorage
@@ -38,10 +43,28 @@ export const appConfig = observable<AppConfig>(defaultConfig);
  * This enables config to survive app restarts.
  */
 // Configure persistence with the correct interface for Legend State 2.x
-persistObservable(appConfig, {
+const persistedAppConfig = persistObservable(appConfig, {
   local: "app-config",
 });
 
+/**
+ * Waits until the persisted configuration has loaded
+ *
+ * @throws Error if it could not be loaded; the stored configuration is then
+ * left as it is and nothing is saved over it
+ */
+export async function waitForAppConfigLoaded(): Promise<void> {
+  const isLoaded = () =>
+    persistedAppConfig._state?.isLoadedLocal.get() === true;
+
+  await when(() => isLoaded() || getPersistenceLoadError() !== null);
+  if (!isLoaded()) {
+    throw new Error(
+      getPersistenceLoadError() ?? "The app data could not be loaded",
+    );
+  }
+}
+
 /**
  * Creates a new user profile
  *
@@ -71,6 +94,22 @@ export function createProfile(name: string, network: NetworkType): boolean {
   return true;
 }
 
+/**
+ * Replaces the network configuration of a profile
+ *
+ * @param name Name of the profile
+ * @param network Validated network configuration
+ * @returns boolean indicating success or failure
+ */
+export function setProfileNetwork(name: string, network: NetworkType): boolean {
+  if (!appConfig.profiles[name].get()) {
+    return false; // Profile doesn't exist
+  }
+
+  appConfig.profiles[name].network.set(network);
+  return true;
+}
+
 /**
  * Adds an account to a profile
  *
@@ -412,25 +451,81 @@ export function clearAccountRevealSchedule(accountId: string): boolean {
   return false; // Account not found
 }
 
+/**
+ * Sets the reveal policy of an account and the weaker policy waiting to
+ * replace it
+ *
+ * @param accountId ID of the account to update
+ * @param policy The policy in effect, or undefined for the default
+ * @param pending The weaker policy waiting to take effect, or undefined
+ * @param mac HMAC over both policies, or undefined if neither is set
+ * @returns boolean indicating success or failure
+ */
+export function setAccountRevealPolicy(
+  accountId: string,
+  policy: RevealPolicy | undefined,
+  pending: PendingRevealPolicy | undefined,
+  mac: string | undefined,
+): boolean {
+  const profiles = appConfig.profiles.get();
+
+  for (const profileName in profiles) {
+    const profile = profiles[profileName];
+    const accountIndex = profile.accounts.findIndex(
+      (acc) => acc.id === accountId,
+    );
+
+    if (accountIndex !== -1) {
+      const account = appConfig.profiles[profileName].accounts[accountIndex];
+      account.reveal_policy.set(policy);
+      account.pending_reveal_policy.set(pending);
+      account.reveal_policy_mac.set(mac);
+      return true;
+    }
+  }
+
+  return false; // Account not found
+}
+
 /**
  * Cleans up expired reveal schedules across all accounts
  * This should be called periodically or on app startup
+ *
+ * @param now The current time to compare expiry against
+ * @param isAuthentic Check of a schedule's integrity; schedules failing it
+ * are removed too
+ * @returns IDs of the accounts whose schedule failed the integrity check
  */
-export function cleanupExpiredRevealSchedules(): void {
+export function cleanupExpiredRevealSchedules(
+  now: number = Date.now(),
+  isAuthentic?: (accountId: string, schedule: RevealSchedule) => boolean,
+): string[] {
   const profiles = appConfig.profiles.get();
-  const now = Date.now();
+  const rejected: string[] = [];
 
   for (const profileName in profiles) {
     const profile = profiles[profileName];
     profile.accounts.forEach((account, accountIndex) => {
-      if (account.reveal_schedule && account.reveal_schedule.expiresAt <= now) {
-        // Clear expired schedule
+      const schedule = account.reveal_schedule;
+      if (!schedule) {
+        return;
+      }
+
+      const forged = isAuthentic ? !isAuthentic(account.id, schedule) : false;
+      if (forged) {
+        rejected.push(account.id);
+      }
+
+      if (forged || schedule.expiresAt <= now) {
+        // Clear expired or forged schedule
         appConfig.profiles[profileName].accounts[
           accountIndex
         ].reveal_schedule.set(undefined);
       }
     });
   }
+
+  return rejected;
 }
 
 // Export types from the types file for backward compatibility
@@ -442,6 +537,8 @@ export {
   type AppSettings,
   type AppConfig,
   type RevealSchedule,
+  type RevealPolicy,
+  type PendingRevealPolicy,
 } from "./app-config-types";
 
 /**
@@ -528,3 +625,103 @@ export function deleteAccount(accountId: string): boolean {
 
   return false; // Account not found
 }
+
+/**
+ * Records whether the user proved they hold an account's recovery phrase
+ *
+ * @param accountId ID of the account to update
+ * @param verified Whether the backup was verified
+ * @returns boolean indicating success or failure
+ */
+export function setAccountBackupVerified(
+  accountId: string,
+  verified: boolean,
+): boolean {
+  const profiles = appConfig.profiles.get();
+
+  for (const profileName in profiles) {
+    const profile = profiles[profileName];
+    const accountIndex = profile.accounts.findIndex(
+      (acc) => acc.id === accountId,
+    );
+
+    if (accountIndex !== -1) {
+      appConfig.profiles[profileName].accounts[
+        accountIndex
+      ].backup_verified.set(verified);
+      return true;
+    }
+  }
+
+  return false; // Account not found
+}
+
+/**
+ * Links an account to the stored secret it derives its key from
+ *
+ * @param accountId ID of the account to update
+ * @param secretAccountId ID of the account holding the shared secret, or null
+ * if the account holds its own secret
+ * @param derivationIndex Index of the account's key derived from the secret,
+ * or undefined to keep the current index
+ * @returns boolean indicating success or failure
+ */
+export function setAccountSecretSource(
+  accountId: string,
+  secretAccountId: string | null,
+  derivationIndex?: number,
+): boolean {
+  const profiles = appConfig.profiles.get();
+
+  for (const profileName in profiles) {
+    const profile = profiles[profileName];
+    const accountIndex = profile.accounts.findIndex(
+      (acc) => acc.id === accountId,
+    );
+
+    if (accountIndex !== -1) {
+      const account = appConfig.profiles[profileName].accounts[accountIndex];
+      account.secret_account_id.set(secretAccountId ?? undefined);
+      if (derivationIndex !== undefined) {
+        account.derivation_index.set(derivationIndex || undefined);
+      }
+      return true;
+    }
+  }
+
+  return false; // Account not found
+}
+
+/**
+ * Gets the ID of the account whose stored secret an account uses. Accounts
+ * derived from the same seed share one stored secret.
+ *
+ * @param accountId ID of the account
+ * @returns ID of the account holding the secret
+ */
+export function getSecretAccountId(accountId: string): string {
+  const profiles = appConfig.profiles.peek();
+
+  for (const profileName in profiles) {
+    const account = profiles[profileName].accounts.find(
+      (acc) => acc.id === accountId,
+    );
+    if (account) {
+      return account.secret_account_id ?? accountId;
+    }
+  }
+
+  return accountId;
+}
+
+/**
+ * Gets the accounts that derive their key from another account's secret
+ *
+ * @param accountId ID of the account holding the secret
+ * @returns The accounts sharing the secret
+ */
+export function getAccountsSharingSecret(accountId: string): AccountState[] {
+  return Object.values(appConfig.profiles.peek()).flatMap((profile) =>
+    profile.accounts.filter((acc) => acc.secret_account_id === accountId),
+  );
+}
@@ -5,6 +5,7 @@ export enum NetworkTypeEnum {
   MAINNET = "Mainnet",
   TESTING = "Testing",
   TESTNET = "Testnet",
+  LOCAL_DEVNET = "Local Devnet",
   CUSTOM = "Custom",
 }
 
@@ -14,7 +15,10 @@ export enum NetworkTypeEnum {
 export type NetworkType = {
   network_name: string;
   network_type: NetworkTypeEnum;
-  // Additional network properties can be added here
+  rpc_urls?: string[]; // REST endpoints; the defaults of the type if unset, required for Custom
+  chain_id?: number; // Chain ID the endpoints must report
+  faucet_url?: string;
+  explorer_url?: string;
 };
 
 /**
@@ -24,6 +28,24 @@ export type RevealSchedule = {
   scheduledAt: number;
   availableAt: number;
   expiresAt: number;
+  mac?: string; // HMAC over the account ID and times, see util/reveal-integrity.ts
+};
+
+/**
+ * How an account's secret may be revealed
+ */
+export type RevealPolicy = {
+  waiting_period_ms: number; // Time between scheduling a reveal and it becoming available
+  reveal_window_ms: number; // Time the reveal stays available once the wait is over
+  require_device_auth: boolean; // Whether device authentication is asked for on top of the PIN
+};
+
+/**
+ * A weaker reveal policy waiting to take effect
+ */
+export type PendingRevealPolicy = {
+  policy: RevealPolicy;
+  effective_at: number; // timestamp
 };
 
 /**
@@ -42,9 +64,15 @@ export type AccountState = {
   last_error?: string; // Last error encountered when fetching balance
   error_count?: number; // Number of consecutive errors (for exponential backoff)
   reveal_schedule?: RevealSchedule; // Optional reveal schedule for this account's secure data
+  reveal_policy?: RevealPolicy; // Reveal policy for this account's secure data (build default when absent)
+  pending_reveal_policy?: PendingRevealPolicy; // Weaker reveal policy that applies once its waiting period passed
+  reveal_policy_mac?: string; // HMAC over the reveal policy and pending policy, see util/reveal-integrity.ts
   is_v8_authorized?: boolean; // Whether the account is v8 authorized
   v8_migrated?: boolean; // Whether the account has been migrated successfully
   exists_on_chain?: boolean; // Whether the account exists on chain (false if 404 error from API)
+  derivation_index?: number; // Index of the key derived from the mnemonic (0 when absent)
+  secret_account_id?: string; // Account whose stored secret this account's key derives from, when it shares a seed
+  backup_verified?: boolean; // Whether the user proved they hold the recovery phrase (backup quiz or recovery)
 };
 
 /**
@@ -63,6 +91,11 @@ export type Profile = {
  */
 export type AppSettings = {
   theme: "dark" | "light"; // UI theme
+  unlock_session_minutes?: number; // Minutes a PIN entry keeps signing unlocked (off when 0 or absent)
+  auto_lock_minutes?: number; // Minutes without interaction before the app locks (never when 0, 5 when absent)
+  auto_lock_background_seconds?: number; // Seconds in the background before the app locks (30 when absent)
+  app_pin_only?: boolean; // Unlock the app with the app PIN even when biometrics are available
+  clipboard_clear_seconds?: number; // Seconds until a copied secret is cleared from the clipboard (60 when absent)
   // Add other app-wide settings here
 };
 
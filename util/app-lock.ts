@@ -0,0 +1,252 @@
+/**
+ * App Lock
+ *
+ * Locks the wallet again after device authentication unlocked it: after
+ * `app_settings.auto_lock_minutes` without user interaction, and when the app
+ * returns from more than `app_settings.auto_lock_background_seconds` in the
+ * background.
+ *
+ * While locked, the root layout shows AuthenticationView instead of the
+ * navigation stack. Every screen is unmounted, so SecretReveal, TransactionHub
+ * and any secret they held are gone until the user authenticates again. The
+ * route the user was on is kept and reopened after unlocking.
+ *
+ * The app unlocks with device authentication (biometrics or the device
+ * passcode). Where no biometrics are enrolled, or with
+ * `app_settings.app_pin_only`, it asks for the app PIN instead. That PIN goes
+ * through verifyStoredPin, so the attempt throttle applies and the duress PIN
+ * opens the decoy profile.
+ */
+import { AppState, type AppStateStatus } from "react-native";
+import { observable } from "@legendapp/state";
+import { hasHardwareAsync, isEnrolledAsync } from "expo-local-authentication";
+import { appConfig } from "./app-config-store";
+import { lockUnlockSession } from "./unlock-session";
+import { verifyStoredPin } from "./pin-security";
+import { hasPINSetup } from "./user-state";
+
+const DEFAULT_AUTO_LOCK_MINUTES = 5;
+const DEFAULT_AUTO_LOCK_BACKGROUND_SECONDS = 30;
+
+// 0 means never for inactivity, and immediately for the background
+export const AUTO_LOCK_MINUTE_OPTIONS = [0, 1, 2, 5, 10, 30];
+export const AUTO_LOCK_BACKGROUND_SECOND_OPTIONS = [0, 30, 60, 300];
+
+/**
+ * A route to reopen after unlocking
+ */
+type LockedRoute = {
+  pathname: string;
+  params: Record<string, string>;
+};
+
+/**
+ * How the app unlocks: device authentication, the app PIN, or nothing before
+ * a PIN was created during onboarding
+ */
+export type UnlockMethod = "device" | "app_pin" | "none";
+
+/**
+ * Reactive lock state. The app starts locked until the first authentication.
+ */
+export const appLock = observable({ locked: true });
+
+let currentRoute: LockedRoute | null = null;
+let lockedRoute: LockedRoute | null = null;
+let lastActivityAt = Date.now();
+let backgroundedAt: number | null = null;
+let inactivityTimer: ReturnType<typeof setTimeout> | null = null;
+let appStateSubscription: { remove: () => void } | null = null;
+
+export function getAutoLockMinutes(): number {
+  return (
+    appConfig.app_settings.auto_lock_minutes.get() ?? DEFAULT_AUTO_LOCK_MINUTES
+  );
+}
+
+export function getAutoLockBackgroundSeconds(): number {
+  return (
+    appConfig.app_settings.auto_lock_background_seconds.get() ??
+    DEFAULT_AUTO_LOCK_BACKGROUND_SECONDS
+  );
+}
+
+/**
+ * Sets how long the app may go without interaction before it locks
+ *
+ * @param minutes - Inactivity timeout, 0 for never
+ */
+export function setAutoLockMinutes(minutes: number): void {
+  appConfig.app_settings.auto_lock_minutes.set(minutes);
+  scheduleInactivityCheck();
+}
+
+/**
+ * Sets how long the app may stay in the background before it locks
+ *
+ * @param seconds - Background timeout, 0 for immediately
+ */
+export function setAutoLockBackgroundSeconds(seconds: number): void {
+  appConfig.app_settings.auto_lock_background_seconds.set(seconds);
+}
+
+export function isAppPinOnly(): boolean {
+  return appConfig.app_settings.app_pin_only.get() ?? false;
+}
+
+/**
+ * Sets whether the app unlocks with the app PIN even when biometrics are
+ * available
+ *
+ * @param enabled - True to always ask for the app PIN
+ */
+export function setAppPinOnly(enabled: boolean): void {
+  appConfig.app_settings.app_pin_only.set(enabled || undefined);
+}
+
+/**
+ * Works out how the app unlocks on this device right now
+ */
+export async function resolveUnlockMethod(): Promise<UnlockMethod> {
+  const hasPin = await hasPINSetup();
+  if (hasPin && isAppPinOnly()) {
+    return "app_pin";
+  }
+
+  if ((await hasHardwareAsync()) && (await isEnrolledAsync())) {
+    return "device";
+  }
+
+  return hasPin ? "app_pin" : "none";
+}
+
+/**
+ * Unlocks the app with the app PIN
+ *
+ * @param pin - The PIN entered on the lock screen
+ * @returns True if the PIN was accepted and the app unlocked
+ */
+export async function unlockWithAppPin(pin: string): Promise<boolean> {
+  if (!(await verifyStoredPin(pin))) {
+    return false;
+  }
+  unlockApp();
+  return true;
+}
+
+/**
+ * Watches the app going to and returning from the background. Called once
+ * during app initialization.
+ */
+export function initializeAppLock(): void {
+  if (appStateSubscription) return;
+
+  appStateSubscription = AppState.addEventListener(
+    "change",
+    handleAppStateChange,
+  );
+}
+
+function handleAppStateChange(state: AppStateStatus): void {
+  if (state === "background") {
+    if (getAutoLockBackgroundSeconds() === 0) {
+      lockApp("background");
+    } else {
+      backgroundedAt = Date.now();
+    }
+    return;
+  }
+
+  if (state === "active" && backgroundedAt !== null) {
+    const elapsedMs = Date.now() - backgroundedAt;
+    backgroundedAt = null;
+
+    if (elapsedMs >= getAutoLockBackgroundSeconds() * 1000) {
+      lockApp("background");
+      return;
+    }
+
+    // Timers may not have run while in the background
+    checkInactivity();
+  }
+}
+
+/**
+ * Locks the app if the inactivity timeout ran out, otherwise checks again
+ * when it would
+ */
+function checkInactivity(): void {
+  const minutes = getAutoLockMinutes();
+  if (appLock.locked.peek() || minutes <= 0) return;
+
+  const remainingMs = lastActivityAt + minutes * 60 * 1000 - Date.now();
+  if (remainingMs <= 0) {
+    lockApp("inactivity");
+  } else {
+    scheduleInactivityCheck(remainingMs);
+  }
+}
+
+function scheduleInactivityCheck(delayMs?: number): void {
+  if (inactivityTimer) {
+    clearTimeout(inactivityTimer);
+    inactivityTimer = null;
+  }
+
+  const minutes = getAutoLockMinutes();
+  if (appLock.locked.peek() || minutes <= 0) return;
+
+  inactivityTimer = setTimeout(checkInactivity, delayMs ?? minutes * 60 * 1000);
+}
+
+/**
+ * Records a user interaction. Cheap enough to call on every touch: the
+ * inactivity timer only re-checks when it fires.
+ */
+export function recordUserActivity(): void {
+  lastActivityAt = Date.now();
+}
+
+/**
+ * Records the route on screen, to be reopened if the app locks
+ */
+export function setCurrentRoute(route: LockedRoute): void {
+  currentRoute = route;
+}
+
+/**
+ * Locks the app, ending the unlock session and keeping the current route
+ *
+ * @param reason - What triggered the lock, for logging
+ */
+export function lockApp(reason: "background" | "inactivity" | "manual"): void {
+  if (appLock.locked.peek()) return;
+
+  if (inactivityTimer) {
+    clearTimeout(inactivityTimer);
+    inactivityTimer = null;
+  }
+  lockUnlockSession();
+
+  console.log(`App locked after ${reason}`);
+  lockedRoute = currentRoute;
+  appLock.locked.set(true);
+}
+
+/**
+ * Unlocks the app after a successful authentication
+ */
+export function unlockApp(): void {
+  lastActivityAt = Date.now();
+  appLock.locked.set(false);
+  scheduleInactivityCheck();
+}
+
+/**
+ * Returns the route the app was on when it locked, once
+ */
+export function takeLockedRoute(): LockedRoute | null {
+  const route = lockedRoute;
+  lockedRoute = null;
+  return route;
+}
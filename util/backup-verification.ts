@@ -0,0 +1,70 @@
+/**
+ * Backup Verification
+ *
+ * After generating a recovery phrase the user proves they wrote it down by
+ * typing the words at a few randomly chosen positions. Only then can the
+ * account be saved, and it is marked `backup_verified`.
+ *
+ * Signing accounts holding their own secret without that mark (created
+ * before the quiz existed) are flagged in the UI until the user verifies the
+ * phrase from the reveal screen.
+ */
+import { getRandomBytes } from "./random";
+import type { AccountState } from "./app-config-types";
+
+// Number of word positions asked in one quiz
+const QUIZ_POSITION_COUNT = 3;
+
+/**
+ * Picks distinct word positions to ask for, in ascending order
+ *
+ * @param wordCount - Number of words in the recovery phrase
+ * @returns Zero-based word positions
+ */
+export function pickQuizPositions(wordCount: number): number[] {
+  const count = Math.min(QUIZ_POSITION_COUNT, wordCount);
+  const positions = new Set<number>();
+
+  while (positions.size < count) {
+    // Rejection sampling keeps every position equally likely
+    const [value] = getRandomBytes(1);
+    if (value < 256 - (256 % wordCount)) {
+      positions.add(value % wordCount);
+    }
+  }
+
+  return [...positions].sort((a, b) => a - b);
+}
+
+/**
+ * Checks the words typed for the quiz positions
+ *
+ * @param mnemonic - The recovery phrase
+ * @param positions - The asked positions
+ * @param answers - The typed words, in the order of `positions`
+ * @returns True if every typed word matches
+ */
+export function checkQuizAnswers(
+  mnemonic: string,
+  positions: number[],
+  answers: string[],
+): boolean {
+  const words = mnemonic.trim().split(/\s+/);
+  return positions.every(
+    (position, index) =>
+      (answers[index] ?? "").trim().toLowerCase() === words[position],
+  );
+}
+
+/**
+ * Whether an account should be flagged for an unverified recovery phrase
+ * backup. Derived accounts share the phrase of their secret account, which
+ * carries the flag.
+ */
+export function isBackupUnverified(account: AccountState): boolean {
+  return (
+    account.is_key_stored &&
+    !account.secret_account_id &&
+    account.backup_verified !== true
+  );
+}
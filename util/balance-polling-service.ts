@@ -3,7 +3,10 @@ import {
   getProfileForAccount,
   type AccountState,
 } from "./app-config-store";
-import { getLibraClient } from "./libra-client";
+import {
+  getLibraClientForAccount,
+  getLibraClientForProfile,
+} from "./libra-client";
 import { fetchAndUpdateProfilePollingData } from "./account-polling";
 import { clearAccountErrors } from "./account-balance";
 import { BALANCE_POLLING } from "./constants";
@@ -90,12 +93,6 @@ class BalancePollingService {
    */
   private async pollBalances(): Promise<void> {
     try {
-      const client = getLibraClient();
-      if (!client) {
-        console.log("No Libra client available, skipping balance poll");
-        return;
-      }
-
       // Get the active account and its profile
       const activeAccountId = appConfig.activeAccountId.get();
       if (!activeAccountId) {
@@ -126,6 +123,8 @@ class BalancePollingService {
         `Polling account data for ${activeProfile.accounts.length} accounts in profile: ${activeProfileName}`,
       );
 
+      const client = getLibraClientForProfile(activeProfileName);
+
       // Fetch and update polling data for all accounts in the active profile
       await fetchAndUpdateProfilePollingData(
         client,
@@ -194,11 +193,10 @@ class BalancePollingService {
       await clearAccountErrors(accountId);
 
       // Fetch polling data
-      const client = getLibraClient();
+      const client = getLibraClientForProfile(targetProfileName);
       if (client) {
-        const { fetchAndUpdateAccountPollingData } = await import(
-          "./account-polling"
-        );
+        const { fetchAndUpdateAccountPollingData } =
+          await import("./account-polling");
         await fetchAndUpdateAccountPollingData(client, targetAccount);
       }
     } catch (error) {
@@ -235,11 +233,10 @@ class BalancePollingService {
         `Immediately refreshing account data for newly added account: ${targetAccount.nickname || targetAccount.id}`,
       );
 
-      const client = getLibraClient();
+      const client = getLibraClientForAccount(accountId);
       if (client) {
-        const { fetchAndUpdateAccountPollingData } = await import(
-          "./account-polling"
-        );
+        const { fetchAndUpdateAccountPollingData } =
+          await import("./account-polling");
         await fetchAndUpdateAccountPollingData(client, targetAccount);
         console.log(
           `Account data refresh completed for ${targetAccount.nickname || targetAccount.id}`,
@@ -1,7 +1,10 @@
-import { clearAllSecureStorage, getAllKeys } from "./secure-store";
+import { clearAllSecureStorage } from "./secure-store";
+import { forgetPersistenceKey } from "./encrypted-persistence";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 // Remove unused imports
 import { clearAllScheduledReveals } from "./reveal-controller";
+import { resetSecurityAuditLog } from "./security-audit";
+import { forgetRevealScheduleKey } from "./reveal-integrity";
 
 /**
  * Clears all storage without PIN verification
@@ -12,21 +15,19 @@ import { clearAllScheduledReveals } from "./reveal-controller";
  */
 async function clearAllStorage(): Promise<void> {
   try {
-    // Find all account-specific keys
-    const allKeys = await getAllKeys();
-    const accountKeys = allKeys.filter((key) => key.startsWith("account_"));
-
-    // Clear all account data
-    if (accountKeys.length > 0) {
-      console.log(`Clearing ${accountKeys.length} account keys`);
-    }
-
-    // Clear all secure storage
+    // Clear all secure storage, account data included
     await clearAllSecureStorage();
 
+    // The config encryption key was deleted with it
+    forgetPersistenceKey();
+    forgetRevealScheduleKey();
+
     // Clear all scheduled reveals
     clearAllScheduledReveals();
 
+    // Start a new audit log; its anchor went with the secure storage
+    await resetSecurityAuditLog();
+
     console.log("All secure data cleared successfully");
   } catch (error) {
     console.error(
@@ -0,0 +1,141 @@
+/**
+ * Clipboard
+ *
+ * Copy actions have a sensitivity level. Public values (addresses) are copied
+ * as they are. Secrets (recovery phrases and their shares) are copied only
+ * after a warning, and the clipboard is cleared after
+ * `app_settings.clipboard_clear_seconds` if it still holds the copied value.
+ * Every secret copy is recorded in the security audit log; the value itself
+ * is never logged.
+ *
+ * Only a hash of the copied secret is kept to recognise it on the clipboard.
+ * Reading the clipboard may show the system paste notice on iOS.
+ *
+ * Timers do not run while the app is in the background, so the clear time is
+ * also checked whenever the app goes to the background or comes back.
+ */
+import { AppState } from "react-native";
+import * as Clipboard from "expo-clipboard";
+import { sha256 } from "@noble/hashes/sha2";
+import { bytesToHex } from "@noble/hashes/utils";
+import { appConfig } from "./app-config-store";
+import { stringToUint8Array } from "./crypto";
+import { recordAuditEvent } from "./security-audit";
+
+/**
+ * How sensitive a copied value is
+ */
+export type CopySensitivity = "public" | "secret";
+
+const DEFAULT_CLEAR_SECONDS = 60;
+
+export const CLIPBOARD_CLEAR_SECOND_OPTIONS = [15, 30, 60, 120];
+
+let pendingClear: ReturnType<typeof setTimeout> | null = null;
+
+// The secret waiting to be cleared: its hash and when it is due
+let pendingCopy: { hash: string; clearAt: number } | null = null;
+
+let appStateSubscription: { remove: () => void } | null = null;
+
+export function getClipboardClearSeconds(): number {
+  return (
+    appConfig.app_settings.clipboard_clear_seconds.get() ??
+    DEFAULT_CLEAR_SECONDS
+  );
+}
+
+/**
+ * Sets how long a copied secret stays on the clipboard
+ *
+ * @param seconds - Seconds until the clipboard is cleared
+ */
+export function setClipboardClearSeconds(seconds: number): void {
+  appConfig.app_settings.clipboard_clear_seconds.set(seconds);
+}
+
+function hashValue(value: string): string {
+  return bytesToHex(sha256(stringToUint8Array(value)));
+}
+
+/**
+ * Clears the clipboard if it still holds the pending secret
+ */
+async function clearPendingCopy(): Promise<void> {
+  const copy = pendingCopy;
+  if (!copy) {
+    return;
+  }
+
+  pendingCopy = null;
+  if (pendingClear) {
+    clearTimeout(pendingClear);
+    pendingClear = null;
+  }
+
+  try {
+    const current = await Clipboard.getStringAsync();
+    if (current && hashValue(current) === copy.hash) {
+      await Clipboard.setStringAsync("");
+      console.log("Cleared copied secret from the clipboard");
+    }
+  } catch (error) {
+    console.error("Failed to clear the clipboard:", error);
+  }
+}
+
+/**
+ * Clears the pending secret if its time is up, for when the timer could not
+ * run
+ */
+function clearIfDue(): void {
+  if (pendingCopy && Date.now() >= pendingCopy.clearAt) {
+    clearPendingCopy();
+  }
+}
+
+/**
+ * Clears the clipboard after the configured timeout, unless something else
+ * was copied in the meantime
+ */
+function scheduleClear(copiedHash: string): void {
+  if (pendingClear) {
+    clearTimeout(pendingClear);
+  }
+
+  const delayMs = getClipboardClearSeconds() * 1000;
+  pendingCopy = { hash: copiedHash, clearAt: Date.now() + delayMs };
+  pendingClear = setTimeout(clearPendingCopy, delayMs);
+
+  if (!appStateSubscription) {
+    appStateSubscription = AppState.addEventListener("change", (state) => {
+      if (state === "active" || state === "background") {
+        clearIfDue();
+      }
+    });
+  }
+}
+
+/**
+ * Copies a value to the clipboard. Secrets are recorded in the security
+ * audit log and cleared from the clipboard after the configured timeout.
+ *
+ * @param text - The value to copy
+ * @param sensitivity - How sensitive the value is
+ * @param description - What was copied, for the log (e.g. "recovery phrase")
+ */
+export async function copyToClipboard(
+  text: string,
+  sensitivity: CopySensitivity,
+  description?: string,
+): Promise<void> {
+  await Clipboard.setStringAsync(text);
+
+  if (sensitivity === "secret") {
+    recordAuditEvent("secret_copied", {
+      description: description ?? "secret",
+      clearAfterSeconds: getClipboardClearSeconds(),
+    });
+    scheduleClear(hashValue(text));
+  }
+}
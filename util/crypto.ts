@@ -3,71 +3,177 @@
  * This implementation uses Uint8Array for all binary data handling.
  */
 import { gcm } from "@noble/ciphers/aes";
-import { pbkdf2 } from "@noble/hashes/pbkdf2";
-import { sha256 } from "@noble/hashes/sha2";
 import { getRandomBytes } from "./random";
+import {
+  KdfId,
+  decodeKdfParams,
+  deriveKey,
+  encodeKdfParams,
+  kdfParamsEqual,
+  type KdfParams,
+} from "./kdf";
 
 // Add a verification token to check if decryption was successful
 const INTEGRITY_CHECK = stringToUint8Array("VALID_DECRYPTION_TOKEN_123");
-// Salt for key derivation
-const SALT = stringToUint8Array("WalletAppSalt123456");
-// Number of iterations for PBKDF2
-const PBKDF2_ITERATIONS = 10000;
+// Salt used by legacy (pre-envelope) records only
+const LEGACY_SALT = stringToUint8Array("WalletAppSalt123456");
+// Number of PBKDF2 iterations used by legacy records
+const LEGACY_PBKDF2_ITERATIONS = 10000;
 // AES key length in bytes
 const AES_KEY_LENGTH = 32; // 256 bits
+// GCM nonce length in bytes
+const NONCE_LENGTH = 12;
+// Random salt length for newly encrypted records
+const SALT_LENGTH = 16;
 
 /**
- * Generates a secure key from a PIN using PBKDF2 with SHA-256
+ * Encryption envelope layout (version 2):
  *
- * @param pinData - The PIN as Uint8Array
- * @returns Promise resolving to a key suitable for AES encryption
- */
-async function generateKeyFromPin(pinData: Uint8Array): Promise<Uint8Array> {
-  // Use PBKDF2 for secure key derivation
-  return pbkdf2(sha256, pinData, SALT, {
-    c: PBKDF2_ITERATIONS,
-    dkLen: AES_KEY_LENGTH,
-  });
+ *   offset  size  field
+ *   0       2     magic bytes "LW"
+ *   2       1     envelope version
+ *   3       1     KDF identifier (see KdfId)
+ *   4       1     number of KDF cost parameters (k)
+ *   5       4k    KDF cost parameters (uint32 each, big-endian)
+ *   5+4k    1     salt length (n)
+ *   6+4k    n     random salt
+ *   6+4k+n  12    GCM nonce
+ *   18+4k+n ...   AES-GCM ciphertext
+ *
+ * Version 1 envelopes are PBKDF2-only and store a single uint32 iteration
+ * count at offset 4, followed by the salt length at offset 8.
+ *
+ * The header (everything before the nonce) is bound to the ciphertext as
+ * additional authenticated data, so any modification of the parameters makes
+ * decryption fail.
+ *
+ * The salt is random for each record written with the PIN. Records written
+ * with an unlock session key reuse that key's salt (see unlock-session.ts);
+ * the nonce is always fresh.
+ *
+ * Legacy records have no header: they are a 12-byte nonce followed by the
+ * ciphertext, with the key derived from the fixed LEGACY_SALT.
+ */
+const ENVELOPE_MAGIC = stringToUint8Array("LW");
+const ENVELOPE_VERSION = 2;
+
+/**
+ * A parsed encryption envelope
+ */
+type Envelope = {
+  header: Uint8Array;
+  params: KdfParams;
+  salt: Uint8Array;
+  nonce: Uint8Array;
+  ciphertext: Uint8Array;
+};
+
+/**
+ * Serializes the envelope header for the given KDF parameters and salt
+ */
+function encodeEnvelopeHeader(params: KdfParams, salt: Uint8Array): Uint8Array {
+  const values = encodeKdfParams(params);
+  const saltOffset = 6 + 4 * values.length;
+  const header = new Uint8Array(saltOffset + salt.length);
+  const view = new DataView(header.buffer);
+
+  header.set(ENVELOPE_MAGIC, 0);
+  header[2] = ENVELOPE_VERSION;
+  header[3] = params.kdf;
+  header[4] = values.length;
+  values.forEach((value, index) => view.setUint32(5 + 4 * index, value, false));
+  header[saltOffset - 1] = salt.length;
+  header.set(salt, saltOffset);
+  return header;
+}
+
+/**
+ * Parses an envelope from encrypted bytes.
+ * Returns null if the bytes do not carry a recognizable envelope header,
+ * which is the case for legacy records.
+ */
+function parseEnvelope(bytes: Uint8Array): Envelope | null {
+  if (bytes.length < 9 + NONCE_LENGTH) return null;
+  if (!compareUint8Arrays(bytes.slice(0, 2), ENVELOPE_MAGIC)) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let values: number[];
+  let saltLengthOffset: number;
+
+  if (bytes[2] === 1) {
+    values = [view.getUint32(4, false)];
+    saltLengthOffset = 8;
+  } else if (bytes[2] === ENVELOPE_VERSION) {
+    const count = bytes[4];
+    saltLengthOffset = 5 + 4 * count;
+    if (bytes.length <= saltLengthOffset) return null;
+    values = Array.from({ length: count }, (_, index) =>
+      view.getUint32(5 + 4 * index, false),
+    );
+  } else {
+    return null;
+  }
+
+  const params = decodeKdfParams(bytes[3], values);
+  if (!params) return null;
+
+  const headerLength = saltLengthOffset + 1 + bytes[saltLengthOffset];
+  if (bytes.length < headerLength + NONCE_LENGTH) return null;
+
+  return {
+    header: bytes.slice(0, headerLength),
+    params,
+    salt: bytes.slice(saltLengthOffset + 1, headerLength),
+    nonce: bytes.slice(headerLength, headerLength + NONCE_LENGTH),
+    ciphertext: bytes.slice(headerLength + NONCE_LENGTH),
+  };
+}
+
+/**
+ * Checks whether encrypted bytes already use the current envelope format and
+ * the given KDF parameters. Records that fail this check should be re-encrypted.
+ *
+ * @param encryptedValue - The encrypted data as Uint8Array
+ * @param params - The KDF parameters new records are written with
+ * @returns true if the record does not need to be upgraded
+ */
+export function isCurrentEnvelope(
+  encryptedValue: Uint8Array,
+  params: KdfParams,
+): boolean {
+  const envelope = parseEnvelope(encryptedValue);
+  return (
+    envelope !== null &&
+    encryptedValue[2] === ENVELOPE_VERSION &&
+    kdfParamsEqual(envelope.params, params)
+  );
 }
 
 /**
  * Encrypts a string value using a PIN.
- * Uses AES-GCM from @noble/ciphers for secure encryption.
+ * Uses AES-GCM from @noble/ciphers for secure encryption, with a key derived
+ * from the PIN and a random per-record salt.
  *
  * @param value - The data to encrypt as Uint8Array
  * @param pin - The PIN as Uint8Array
- * @returns Promise resolving to the encrypted data as Uint8Array
+ * @param params - KDF cost parameters to derive the key with
+ * @returns Promise resolving to the encrypted envelope as Uint8Array
  */
 export async function encryptWithPin(
   value: Uint8Array,
   pin: Uint8Array,
+  params: KdfParams,
 ): Promise<Uint8Array> {
   if (!value || value.length === 0) return new Uint8Array(0);
 
   try {
-    // Add integrity check to the value before encryption
-    const valueWithCheck = concatUint8Arrays(
-      value,
-      stringToUint8Array("|"),
-      INTEGRITY_CHECK,
-    );
+    // Every record gets its own salt, so equal PINs never share a key
+    const salt = getRandomBytes(SALT_LENGTH);
 
     // Generate a key from the PIN
-    const keyBytes = await generateKeyFromPin(pin);
-
-    // Generate a random nonce/IV using our random utility
-    const nonce = getRandomBytes(12); // 12-byte nonce is standard for GCM
-
-    // Use AES-GCM for authenticated encryption
-    const cipher = gcm(keyBytes, nonce);
-    const ciphertext = cipher.encrypt(valueWithCheck);
-
-    // Prepend the nonce to the ciphertext for decryption later
-    const result = new Uint8Array(nonce.length + ciphertext.length);
-    result.set(nonce, 0);
-    result.set(ciphertext, nonce.length);
+    const keyBytes = await deriveKey(pin, salt, params, AES_KEY_LENGTH);
 
-    return result;
+    return encryptWithEnvelopeKey(value, { params, salt, key: keyBytes });
   } catch (e) {
     console.error(
       "Encryption error:",
@@ -78,6 +184,116 @@ export async function encryptWithPin(
   }
 }
 
+/**
+ * Key derived from a PIN for one envelope salt and set of KDF parameters.
+ * Lets several records be processed with a single key derivation.
+ */
+export type EnvelopeKey = {
+  params: KdfParams;
+  salt: Uint8Array;
+  key: Uint8Array;
+};
+
+/**
+ * Encrypts a value into an envelope with an already derived key
+ *
+ * @param value - The data to encrypt as Uint8Array
+ * @param envelopeKey - Key from deriveNewEnvelopeKey or deriveEnvelopeKey
+ * @returns The encrypted envelope as Uint8Array
+ */
+export function encryptWithEnvelopeKey(
+  value: Uint8Array,
+  envelopeKey: EnvelopeKey,
+): Uint8Array {
+  // Add integrity check to the value before encryption
+  const valueWithCheck = concatUint8Arrays(
+    value,
+    stringToUint8Array("|"),
+    INTEGRITY_CHECK,
+  );
+
+  const header = encodeEnvelopeHeader(envelopeKey.params, envelopeKey.salt);
+
+  // Generate a random nonce/IV using our random utility
+  const nonce = getRandomBytes(NONCE_LENGTH); // 12-byte nonce is standard for GCM
+
+  // Use AES-GCM for authenticated encryption, authenticating the header too
+  const cipher = gcm(envelopeKey.key, nonce, header);
+  const ciphertext = cipher.encrypt(valueWithCheck);
+
+  // Prepend the header and nonce to the ciphertext for decryption later
+  return concatUint8Arrays(header, nonce, ciphertext);
+}
+
+/**
+ * Derives a key for new records from a PIN, with a fresh salt
+ *
+ * @param pin - The PIN as Uint8Array
+ * @param params - KDF cost parameters to derive the key with
+ * @returns The key with its salt and parameters
+ */
+export async function deriveNewEnvelopeKey(
+  pin: Uint8Array,
+  params: KdfParams,
+): Promise<EnvelopeKey> {
+  const salt = getRandomBytes(SALT_LENGTH);
+  return {
+    params,
+    salt,
+    key: await deriveKey(pin, salt, params, AES_KEY_LENGTH),
+  };
+}
+
+/**
+ * Derives the key an encrypted record was written with, without decrypting
+ *
+ * @param encryptedValue - The encrypted data as Uint8Array
+ * @param pin - The PIN as Uint8Array
+ * @returns The key, or null for legacy records without an envelope
+ */
+export async function deriveEnvelopeKey(
+  encryptedValue: Uint8Array,
+  pin: Uint8Array,
+): Promise<EnvelopeKey | null> {
+  const envelope = parseEnvelope(encryptedValue);
+  if (!envelope) return null;
+
+  return {
+    params: envelope.params,
+    salt: envelope.salt,
+    key: await deriveKey(pin, envelope.salt, envelope.params, AES_KEY_LENGTH),
+  };
+}
+
+/**
+ * Decrypts a record with an already derived key
+ *
+ * @param encryptedValue - The encrypted data as Uint8Array
+ * @param envelopeKey - A derived key
+ * @returns The decrypted data and verification status, or null if the record
+ *          was not written with this key's salt and parameters
+ */
+export function decryptWithEnvelopeKey(
+  encryptedValue: Uint8Array,
+  envelopeKey: EnvelopeKey,
+): { value: Uint8Array; verified: boolean } | null {
+  const envelope = parseEnvelope(encryptedValue);
+  if (
+    !envelope ||
+    !compareUint8Arrays(envelope.salt, envelopeKey.salt) ||
+    !kdfParamsEqual(envelope.params, envelopeKey.params)
+  ) {
+    return null;
+  }
+
+  return decryptPayload(
+    envelope.ciphertext,
+    envelope.nonce,
+    envelopeKey.key,
+    envelope.header,
+  );
+}
+
 /**
  * Concatenates multiple Uint8Arrays
  */
@@ -101,6 +317,7 @@ function concatUint8Arrays(...arrays: Uint8Array[]): Uint8Array {
 /**
  * Decrypts a value that was encrypted with a PIN.
  * Includes integrity verification to confirm correct PIN was used.
+ * Accepts both the versioned envelope format and legacy records.
  *
  * @param encryptedValue - The encrypted data as Uint8Array
  * @param pin - The PIN as Uint8Array
@@ -114,50 +331,31 @@ export async function decryptWithPin(
   if (!encryptedValue || encryptedValue.length === 0) return null;
 
   try {
-    // Extract nonce (first 12 bytes)
-    const nonce = encryptedValue.slice(0, 12);
-    const ciphertext = encryptedValue.slice(12);
-
-    // Generate key from PIN
-    const keyBytes = await generateKeyFromPin(pin);
-
-    // Create AES-GCM decipher
-    const decipher = gcm(keyBytes, nonce);
-
-    // Decrypt data - this will throw an error if authentication fails
-    let decryptedBytes;
-    try {
-      // Use decrypt instead of open
-      decryptedBytes = decipher.decrypt(ciphertext);
-    } catch (e) {
-      console.error("PIN decryption error", e);
-      // Silently handle decryption failure without stack trace
-      return { value: new Uint8Array(0), verified: false };
-    }
-
-    // Find the separator byte ("|" character)
-    const separatorIndex = findSequence(
-      decryptedBytes,
-      stringToUint8Array("|"),
-    );
-
-    if (separatorIndex !== -1) {
-      const potentialCheck = decryptedBytes.slice(separatorIndex + 1);
-      const dataWithoutCheck = decryptedBytes.slice(0, separatorIndex);
-
-      // Check if the potential check matches our integrity check
-      const integrityCheckMatches = compareUint8Arrays(
-        potentialCheck,
-        INTEGRITY_CHECK,
+    const envelope = parseEnvelope(encryptedValue);
+
+    if (envelope) {
+      // Only records without a valid envelope header are read as legacy ones
+      // (a random legacy nonce forming one is negligible), so a wrong PIN
+      // costs one KDF run, not two
+      return decryptPayload(
+        envelope.ciphertext,
+        envelope.nonce,
+        await deriveKey(pin, envelope.salt, envelope.params, AES_KEY_LENGTH),
+        envelope.header,
       );
-
-      if (integrityCheckMatches) {
-        return { value: dataWithoutCheck, verified: true };
-      }
     }
 
-    // Integrity check failed - wrong PIN used
-    return { value: new Uint8Array(0), verified: false };
+    // Legacy layout: nonce (first 12 bytes) followed by the ciphertext
+    return decryptPayload(
+      encryptedValue.slice(NONCE_LENGTH),
+      encryptedValue.slice(0, NONCE_LENGTH),
+      await deriveKey(
+        pin,
+        LEGACY_SALT,
+        { kdf: KdfId.PBKDF2_SHA256, iterations: LEGACY_PBKDF2_ITERATIONS },
+        AES_KEY_LENGTH,
+      ),
+    );
   } catch (error) {
     console.error(
       "Decryption error:",
@@ -169,25 +367,46 @@ export async function decryptWithPin(
 }
 
 /**
- * Finds a sequence within a Uint8Array
- * Returns the index of the first element of the sequence, or -1 if not found
+ * Decrypts AES-GCM ciphertext and strips the integrity check
+ *
+ * @param ciphertext - The ciphertext including the GCM tag
+ * @param nonce - The GCM nonce
+ * @param keyBytes - The derived AES key
+ * @param aad - Additional authenticated data, if any
+ * @returns The decrypted data and whether the integrity check passed
  */
-function findSequence(haystack: Uint8Array, needle: Uint8Array): number {
-  if (needle.length === 0) return 0;
-  if (needle.length > haystack.length) return -1;
+function decryptPayload(
+  ciphertext: Uint8Array,
+  nonce: Uint8Array,
+  keyBytes: Uint8Array,
+  aad?: Uint8Array,
+): { value: Uint8Array; verified: boolean } {
+  // Create AES-GCM decipher
+  const decipher = gcm(keyBytes, nonce, aad);
+
+  // Decrypt data - this will throw an error if authentication fails
+  let decryptedBytes;
+  try {
+    decryptedBytes = decipher.decrypt(ciphertext);
+  } catch {
+    // Silently handle decryption failure without stack trace
+    return { value: new Uint8Array(0), verified: false };
+  }
 
-  for (let i = 0; i <= haystack.length - needle.length; i++) {
-    let found = true;
-    for (let j = 0; j < needle.length; j++) {
-      if (haystack[i + j] !== needle[j]) {
-        found = false;
-        break;
-      }
-    }
-    if (found) return i;
+  // The check is always the last part of the payload; the value before it
+  // may itself contain the separator
+  const suffix = concatUint8Arrays(stringToUint8Array("|"), INTEGRITY_CHECK);
+  const separatorIndex = decryptedBytes.length - suffix.length;
+
+  if (
+    separatorIndex >= 0 &&
+    compareUint8Arrays(decryptedBytes.slice(separatorIndex), suffix)
+  ) {
+    return { value: decryptedBytes.slice(0, separatorIndex), verified: true };
   }
 
-  return -1;
+  // Integrity check failed - wrong PIN used
+  return { value: new Uint8Array(0), verified: false };
 }
 
 /**
@@ -217,7 +436,12 @@ export function stringToUint8Array(str: string): Uint8Array {
  * Helper functions for base64 encoding/decoding with Uint8Array
  */
 export function uint8ArrayToBase64(array: Uint8Array): string {
-  return btoa(String.fromCharCode(...array));
+  // Chunked, as spreading large arrays into arguments overflows the stack
+  let binary = "";
+  for (let i = 0; i < array.length; i += 0x8000) {
+    binary += String.fromCharCode(...array.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
 }
 
 export function base64ToUint8Array(base64: string): Uint8Array {
@@ -0,0 +1,259 @@
+/**
+ * Duress Mode
+ *
+ * A user who may be coerced into unlocking the wallet can configure a second
+ * "duress" PIN. Entering it anywhere a PIN is verified switches the app into
+ * duress mode: only the designated decoy profile is shown, and every other
+ * profile and its `account_*` secrets are hidden. Entering the real PIN
+ * leaves duress mode again.
+ *
+ * Duress mode is persisted in secure storage so it survives app restarts,
+ * and it is loaded during app initialization before any screen renders.
+ *
+ * Each stored secret is encrypted with the PIN it was saved with. The duress
+ * record lists the secrets encrypted with the duress PIN (those of the decoy
+ * profile when the duress PIN was set up, and any saved in duress mode); all
+ * other secrets belong to the real PIN. PIN rotation and record migration use
+ * this list, and in duress mode only the listed secrets can be revealed.
+ *
+ * A decoy secret that accounts outside the decoy profile also derive from
+ * stays with the real PIN, so the real profile keeps access to it.
+ */
+import { observable } from "@legendapp/state";
+import { appConfig, getSecretAccountId } from "./app-config-store";
+import { deleteValue, getValue, saveValue } from "./secure-store";
+import type { AppConfig, Profile } from "./app-config-types";
+import type { HashedPin } from "./pin-security";
+import { lockUnlockSession } from "./unlock-session";
+
+// Secure storage key holding the duress PIN record
+const DURESS_PIN_KEY = "duress_pin";
+
+// Secure storage key holding the persisted duress mode flag
+const DURESS_ACTIVE_KEY = "duress_active";
+
+/**
+ * Stored duress PIN: its hash, the profile it unlocks, and the accounts whose
+ * stored secrets it encrypts. Records saved before the account list existed
+ * cover the decoy profile's accounts.
+ */
+type DuressRecord = {
+  pin: HashedPin;
+  decoyProfile: string;
+  ownedAccounts?: string[];
+};
+
+type DuressModeState = {
+  active: boolean;
+  decoyProfile: string | null;
+  ownedAccounts: string[];
+};
+
+/**
+ * Reactive duress mode state, read by the profile and account selectors
+ */
+const duressMode = observable<DuressModeState>({
+  active: false,
+  decoyProfile: null,
+  ownedAccounts: [],
+});
+
+/**
+ * Loads the stored duress PIN record
+ *
+ * @returns Promise resolving to the record, or null if no duress PIN is set
+ */
+export async function getDuressRecord(): Promise<DuressRecord | null> {
+  try {
+    const stored = await getValue(DURESS_PIN_KEY);
+    return stored ? (JSON.parse(stored) as DuressRecord) : null;
+  } catch (error) {
+    console.error("Error loading duress PIN record:", error);
+    return null;
+  }
+}
+
+/**
+ * Stores the duress PIN record
+ */
+export async function saveDuressRecord(record: DuressRecord): Promise<void> {
+  await saveValue(DURESS_PIN_KEY, JSON.stringify(record));
+}
+
+/**
+ * Gets the accounts whose stored secrets are encrypted with the duress PIN
+ */
+export function getDuressOwnedAccounts(record: DuressRecord): string[] {
+  return (
+    record.ownedAccounts ??
+    appConfig.profiles[record.decoyProfile].accounts
+      .peek()
+      ?.map((account) => account.id) ??
+    []
+  );
+}
+
+/**
+ * Records which PIN an account's stored secret was just encrypted with: the
+ * duress PIN in duress mode, the real PIN otherwise. Called whenever a secret
+ * is stored.
+ *
+ * @param accountId - ID of the account the secret is stored under
+ * @param duressOwned - Whether the duress PIN encrypted it; defaults to the
+ * current mode
+ */
+export async function setSecretOwner(
+  accountId: string,
+  duressOwned: boolean = duressMode.active.peek(),
+): Promise<void> {
+  const record = await getDuressRecord();
+  if (!record) {
+    return;
+  }
+
+  const owned = getDuressOwnedAccounts(record).filter((id) => id !== accountId);
+  if (duressOwned) {
+    owned.push(accountId);
+  }
+  await saveDuressRecord({ ...record, ownedAccounts: owned });
+  if (duressMode.active.peek()) {
+    duressMode.ownedAccounts.set(owned);
+  }
+}
+
+/**
+ * Checks whether an account's stored secret is encrypted with the duress PIN
+ */
+export async function isSecretOwnedByDuressPin(
+  accountId: string,
+): Promise<boolean> {
+  const record = await getDuressRecord();
+  return record ? getDuressOwnedAccounts(record).includes(accountId) : false;
+}
+
+/**
+ * Deletes the duress PIN record and leaves duress mode
+ */
+export async function deleteDuressRecord(): Promise<void> {
+  await deleteValue(DURESS_PIN_KEY);
+  await deactivateDuressMode();
+}
+
+/**
+ * Restores the persisted duress mode. Called during app initialization.
+ */
+export async function loadDuressMode(): Promise<void> {
+  try {
+    const [activeFlag, record] = await Promise.all([
+      getValue(DURESS_ACTIVE_KEY),
+      getDuressRecord(),
+    ]);
+
+    if (activeFlag === "true" && record) {
+      duressMode.set({
+        active: true,
+        decoyProfile: record.decoyProfile,
+        ownedAccounts: getDuressOwnedAccounts(record),
+      });
+    }
+  } catch (error) {
+    console.error("Error loading duress mode:", error);
+  }
+}
+
+/**
+ * Switches to duress mode: only the decoy profile stays visible, and the
+ * active account moves into it
+ */
+export async function activateDuressMode(record: DuressRecord): Promise<void> {
+  const { decoyProfile } = record;
+  await saveValue(DURESS_ACTIVE_KEY, "true");
+  lockUnlockSession();
+  duressMode.set({
+    active: true,
+    decoyProfile,
+    ownedAccounts: getDuressOwnedAccounts(record),
+  });
+
+  const activeAccountId = appConfig.activeAccountId.peek();
+  const decoyAccounts = appConfig.profiles[decoyProfile].accounts.peek() ?? [];
+  if (!decoyAccounts.some((account) => account.id === activeAccountId)) {
+    appConfig.activeAccountId.set(decoyAccounts[0]?.id ?? null);
+  }
+}
+
+/**
+ * Leaves duress mode and shows every profile again
+ */
+export async function deactivateDuressMode(): Promise<void> {
+  if (!duressMode.active.peek()) {
+    return;
+  }
+
+  await deleteValue(DURESS_ACTIVE_KEY);
+  lockUnlockSession();
+  duressMode.set({ active: false, decoyProfile: null, ownedAccounts: [] });
+}
+
+/**
+ * Checks whether duress mode is active. Reactive inside observers.
+ */
+export function isDuressModeActive(): boolean {
+  return duressMode.active.get();
+}
+
+/**
+ * Checks whether a profile can be shown in the current mode
+ */
+function isProfileVisible(profileName: string): boolean {
+  const { active, decoyProfile } = duressMode.get();
+  return !active || profileName === decoyProfile;
+}
+
+/**
+ * Returns the profiles that can be shown in the current mode. Reactive
+ * inside observers, like `appConfig.profiles.get()`.
+ */
+export function getVisibleProfiles(): AppConfig["profiles"] {
+  const profiles = appConfig.profiles.get();
+  if (!duressMode.active.get()) {
+    return profiles;
+  }
+
+  return Object.fromEntries(
+    Object.entries(profiles).filter(([profileName]) =>
+      isProfileVisible(profileName),
+    ),
+  ) as Record<string, Profile>;
+}
+
+/**
+ * Checks whether a stored secret belongs to the PIN the current mode was
+ * unlocked with: the duress PIN's secrets in duress mode, all others otherwise
+ *
+ * @param accountId - ID of the account the secret is stored under
+ * @param record - The duress PIN record, or null if none is set
+ */
+export function isAccountOwnedByCurrentPin(
+  accountId: string,
+  record: DuressRecord | null,
+): boolean {
+  const duressOwned = record
+    ? getDuressOwnedAccounts(record).includes(accountId)
+    : false;
+
+  return duressMode.active.peek() ? duressOwned : !duressOwned;
+}
+
+/**
+ * Checks whether an account's secret is hidden in the current mode. Accounts
+ * that derive from another account's secret follow that secret.
+ */
+export function isAccountHidden(accountId: string): boolean {
+  const { active, ownedAccounts } = duressMode.peek();
+  if (!active) {
+    return false;
+  }
+
+  return !ownedAccounts.includes(getSecretAccountId(accountId));
+}
@@ -0,0 +1,268 @@
+/**
+ * Encrypted Persistence Plugin
+ *
+ * Legend State local persistence plugin that keeps each table in AsyncStorage
+ * encrypted with AES-GCM, so addresses, nicknames, balances and reveal
+ * schedules can neither be read nor edited from the app's files.
+ *
+ * The 256-bit data key is random and held in secure storage under
+ * DATA_KEY_STORAGE_KEY. No key derivation is involved, so cold-start
+ * hydration costs one keychain read plus one AES-GCM pass per table.
+ *
+ * Stored value: "enc1:" + base64(nonce || ciphertext). The table name is
+ * authenticated as associated data, so tables cannot be swapped.
+ *
+ * Tables written as plain JSON before encryption are read as they are and
+ * rewritten encrypted right away. A table that fails to decrypt is kept under
+ * `${table}__unreadable` and the app starts from its defaults. A data key
+ * that cannot be read from secure storage is different: loading is retried,
+ * then hydration fails (getPersistenceLoadError) and the stored tables are
+ * left untouched rather than replaced by defaults.
+ *
+ * The data key is not bound to the PIN or the unlock session. The config is
+ * needed at launch, before any PIN is entered (the app lock may only ask for
+ * biometrics), so it is protected by the keychain alone; binding it to the
+ * PIN is out of scope.
+ */
+import { gcm } from "@noble/ciphers/aes";
+import {
+  internal,
+  observable,
+  setAtPath,
+  type Change,
+  type ObservablePersistLocal,
+  type ObservablePersistenceConfigLocalGlobalOptions,
+  type PersistMetadata,
+} from "@legendapp/state";
+import { getValue, saveValue } from "./secure-store";
+import { getRandomBytes } from "./random";
+import {
+  base64ToUint8Array,
+  stringToUint8Array,
+  uint8ArrayToBase64,
+} from "./crypto";
+
+type AsyncStorageStatic = NonNullable<
+  ObservablePersistenceConfigLocalGlobalOptions["asyncStorage"]
+>["AsyncStorage"];
+
+const DATA_KEY_STORAGE_KEY = "app_config_key";
+const ENCRYPTED_PREFIX = "enc1:";
+const METADATA_SUFFIX = "__m";
+const UNREADABLE_SUFFIX = "__unreadable";
+const KEY_LENGTH = 32;
+const NONCE_LENGTH = 12;
+
+// Attempts at reading the data key before hydration fails
+const DATA_KEY_ATTEMPTS = 3;
+const DATA_KEY_RETRY_DELAY_MS = 500;
+
+const { safeParse, safeStringify } = internal;
+
+let asyncStorage: AsyncStorageStatic | null = null;
+let dataKey: Uint8Array | null = null;
+
+// Why hydration failed, null while it has not
+const loadError = observable<string | null>(null);
+
+/**
+ * Loads the data key from secure storage, creating it on first use
+ */
+async function getDataKey(): Promise<Uint8Array> {
+  if (!dataKey) {
+    const stored = await getValue(DATA_KEY_STORAGE_KEY);
+    if (stored) {
+      dataKey = base64ToUint8Array(stored);
+    } else {
+      const created = getRandomBytes(KEY_LENGTH);
+      await saveValue(DATA_KEY_STORAGE_KEY, uint8ArrayToBase64(created));
+      dataKey = created;
+    }
+  }
+  return dataKey;
+}
+
+/**
+ * Loads the data key, retrying while secure storage fails to read it
+ */
+async function loadDataKeyWithRetry(): Promise<Uint8Array> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await getDataKey();
+    } catch (error) {
+      if (attempt >= DATA_KEY_ATTEMPTS) {
+        throw error;
+      }
+      console.warn(
+        `[encrypted-persistence] Failed to load data key, attempt ${attempt}`,
+        error,
+      );
+      await new Promise((resolve) =>
+        setTimeout(resolve, DATA_KEY_RETRY_DELAY_MS * attempt),
+      );
+    }
+  }
+}
+
+/**
+ * Gets why loading the persisted tables failed. Reactive inside observers.
+ *
+ * @returns The reason, or null unless hydration failed
+ */
+export function getPersistenceLoadError(): string | null {
+  return loadError.get();
+}
+
+/**
+ * Drops the cached data key. Called after secure storage was cleared, so the
+ * next save creates a new key instead of using the deleted one.
+ */
+export function forgetPersistenceKey(): void {
+  dataKey = null;
+}
+
+async function encryptTable(table: string, json: string): Promise<string> {
+  const nonce = getRandomBytes(NONCE_LENGTH);
+  const ciphertext = gcm(
+    await getDataKey(),
+    nonce,
+    stringToUint8Array(table),
+  ).encrypt(stringToUint8Array(json));
+
+  const combined = new Uint8Array(nonce.length + ciphertext.length);
+  combined.set(nonce);
+  combined.set(ciphertext, nonce.length);
+  return ENCRYPTED_PREFIX + uint8ArrayToBase64(combined);
+}
+
+function decryptTable(key: Uint8Array, table: string, stored: string): string {
+  const combined = base64ToUint8Array(stored.slice(ENCRYPTED_PREFIX.length));
+  const plaintext = gcm(
+    key,
+    combined.slice(0, NONCE_LENGTH),
+    stringToUint8Array(table),
+  ).decrypt(combined.slice(NONCE_LENGTH));
+  return new TextDecoder().decode(plaintext);
+}
+
+/**
+ * AsyncStorage persistence with every table encrypted at rest. Configured
+ * like ObservablePersistAsyncStorage, through `localOptions.asyncStorage`.
+ */
+export class ObservablePersistEncryptedAsyncStorage implements ObservablePersistLocal {
+  private data: Record<string, unknown> = {};
+
+  async initialize(config: ObservablePersistenceConfigLocalGlobalOptions) {
+    asyncStorage = config.asyncStorage?.AsyncStorage ?? null;
+    if (!asyncStorage) {
+      console.error("[encrypted-persistence] Missing asyncStorage config");
+      return;
+    }
+
+    try {
+      // Read the key up front so loading tables needs no keychain access
+      await getDataKey();
+    } catch (error) {
+      console.error("[encrypted-persistence] Failed to load data key", error);
+    }
+  }
+
+  loadTable(table: string): Promise<void> | void {
+    if (this.data[table] === undefined) {
+      return this.readTable(table);
+    }
+  }
+
+  private async readTable(table: string): Promise<void> {
+    if (!asyncStorage) return;
+
+    const stored = await asyncStorage.getItem(table);
+    if (!stored) {
+      this.data[table] = undefined;
+      return;
+    }
+
+    if (!stored.startsWith(ENCRYPTED_PREFIX)) {
+      // Plaintext from before encryption: migrate it
+      this.data[table] = safeParse(stored);
+      await this.save(table);
+      return;
+    }
+
+    let key: Uint8Array;
+    try {
+      key = await loadDataKeyWithRetry();
+    } catch (error) {
+      // The table may be fine: fail hydration instead of starting from
+      // defaults, which would overwrite it
+      console.error(
+        `[encrypted-persistence] Data key unavailable, not loading ${table}`,
+        error,
+      );
+      loadError.set("The encryption key of the app data could not be read");
+      throw error;
+    }
+
+    try {
+      this.data[table] = safeParse(decryptTable(key, table, stored));
+    } catch (error) {
+      console.error(
+        `[encrypted-persistence] Failed to decrypt ${table}, starting from defaults`,
+        error,
+      );
+      this.data[table] = undefined;
+      await asyncStorage.setItem(table + UNREADABLE_SUFFIX, stored);
+    }
+  }
+
+  getTable<T = unknown>(table: string, _config: unknown, init: object): T {
+    return (this.data[table] ?? init ?? {}) as T;
+  }
+
+  getMetadata(table: string): PersistMetadata {
+    return this.getTable<PersistMetadata>(table + METADATA_SUFFIX, null, {});
+  }
+
+  set(table: string, changes: Change[]): Promise<void> {
+    let value = (this.data[table] ?? {}) as object;
+    for (const { path, valueAtPath, pathTypes } of changes) {
+      value = setAtPath(value, path as string[], pathTypes, valueAtPath);
+    }
+    this.data[table] = value;
+    return this.save(table);
+  }
+
+  setMetadata(table: string, metadata: PersistMetadata): Promise<void> {
+    this.data[table + METADATA_SUFFIX] = metadata;
+    return this.save(table + METADATA_SUFFIX);
+  }
+
+  async deleteTable(table: string): Promise<void> {
+    delete this.data[table];
+    await asyncStorage?.removeItem(table);
+  }
+
+  deleteMetadata(table: string): Promise<void> {
+    return this.deleteTable(table + METADATA_SUFFIX);
+  }
+
+  private async save(table: string): Promise<void> {
+    if (!asyncStorage) return;
+
+    const value = this.data[table];
+    if (value === undefined || value === null) {
+      await asyncStorage.removeItem(table);
+      return;
+    }
+
+    try {
+      await asyncStorage.setItem(
+        table,
+        await encryptTable(table, safeStringify(value)),
+      );
+    } catch (error) {
+      // Never fall back to plaintext
+      console.error(`[encrypted-persistence] Failed to save ${table}`, error);
+    }
+  }
+}
@@ -34,3 +34,11 @@ export const IS_DEVELOPMENT = !IS_PRODUCTION;
  */
 export const SHOULD_RESET_APP_DATA =
   process.env.EXPO_PUBLIC_RESET_APP_DATA === "true";
+
+/**
+ * Environment flag to keep secure storage in memory instead of the device
+ * keychain. Set EXPO_PUBLIC_SECURE_STORAGE to "memory" to run storage code
+ * headless, e.g. under Node. Nothing is persisted.
+ */
+export const USE_MEMORY_SECURE_STORAGE =
+  process.env.EXPO_PUBLIC_SECURE_STORAGE === "memory";
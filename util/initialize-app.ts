@@ -1,10 +1,18 @@
-import { appConfig, maybeInitializeDefaultProfile } from "./app-config-store";
+import {
+  appConfig,
+  maybeInitializeDefaultProfile,
+  waitForAppConfigLoaded,
+} from "./app-config-store";
 import { initializeRevealController } from "./reveal-controller";
 import { initializeLibraClient } from "./libra-client";
 import { resetAppToCleanState } from "./clear-storage-controller";
 import { startBalancePolling } from "./balance-polling-service";
 import { initializeErrorLogging } from "./error-utils";
 import { SHOULD_RESET_APP_DATA } from "./environment";
+import { loadDuressMode } from "./duress";
+import { recoverInterruptedPinRotation } from "./pin-rotation";
+import { initializeUnlockSession } from "./unlock-session";
+import { initializeAppLock } from "./app-lock";
 import {
   hasHardwareAsync,
   isEnrolledAsync,
@@ -19,8 +27,14 @@ let hasResetInThisSession = false;
 /**
  * Initializes the application by ensuring the configuration is properly loaded.
  * This function should be called once when the application starts.
+ *
+ * @throws Error if the persisted configuration could not be loaded, so no
+ * defaults are written over it
  */
 export async function initializeApp() {
+  // Everything below reads or fixes up the loaded config
+  await waitForAppConfigLoaded();
+
   try {
     // Initialize error logging system first
     initializeErrorLogging();
@@ -55,10 +69,7 @@ export async function initializeApp() {
       }
     }
 
-    // Wait for persistence to load (allow some time for hydration)
-    await new Promise((resolve) => setTimeout(resolve, 100));
-
-    // Check if we have any profiles after persistence has loaded
+    // Check if we have any profiles, now that persistence has loaded
     const profiles = appConfig.profiles.get();
     const profileCount = Object.keys(profiles).length;
 
@@ -93,13 +104,25 @@ export async function initializeApp() {
       }
     }
 
+    // Settle an interrupted PIN rotation before the PIN is used
+    await recoverInterruptedPinRotation();
+
+    // Restore duress mode before any screen can show the real profiles
+    await loadDuressMode();
+
+    // End the unlock session whenever the app goes to the background
+    initializeUnlockSession();
+
+    // Lock the app again after inactivity or time in the background
+    initializeAppLock();
+
     // Initialize reveal controller and cleanup expired schedules
-    initializeRevealController();
+    await initializeRevealController();
 
-    // Initialize global LibraClient instance
+    // Initialize the LibraClient of the active profile's network
     try {
       initializeLibraClient();
-      console.log("Global LibraClient initialized successfully");
+      console.log("LibraClient initialized successfully");
     } catch (error) {
       console.error("Failed to initialize LibraClient:", error);
       // Don't fail app initialization if LibraClient fails
@@ -0,0 +1,350 @@
+/**
+ * Key Derivation Functions
+ *
+ * Shared key derivation for the stored PIN hash (`user_pin`) and the
+ * data-encryption keys of encrypted records. Three KDFs are supported:
+ *
+ * - PBKDF2-SHA256: the original KDF, kept so existing records keep verifying
+ * - scrypt: memory-hard, the default for new records
+ * - Argon2id: memory-hard, selectable alternative
+ *
+ * Cost parameters are chosen per device by `calibrateKdf`, which targets a
+ * fixed unlock time, and persisted in secure storage so every new record
+ * uses the same preferred parameters. Records written with other parameters
+ * are upgraded on the next successful PIN entry.
+ */
+import { pbkdf2Async } from "@noble/hashes/pbkdf2";
+import { sha256 } from "@noble/hashes/sha2";
+import { scryptAsync } from "@noble/hashes/scrypt";
+import { argon2idAsync } from "@noble/hashes/argon2";
+import { getValue, saveValue } from "./secure-store";
+
+// Secure storage key holding the preferred KDF parameters
+const KDF_PARAMS_KEY = "kdf_params";
+
+// Unlock time the calibration aims for on the current device
+const DEFAULT_TARGET_UNLOCK_MS = 1000;
+
+/**
+ * Key derivation functions. The numeric values are written into encryption
+ * envelope headers, so they must never be reassigned.
+ */
+export enum KdfId {
+  PBKDF2_SHA256 = 1,
+  SCRYPT = 2,
+  ARGON2ID = 3,
+}
+
+/**
+ * Cost parameters for each supported KDF
+ */
+export type KdfParams =
+  | { kdf: KdfId.PBKDF2_SHA256; iterations: number }
+  | { kdf: KdfId.SCRYPT; N: number; r: number; p: number }
+  | { kdf: KdfId.ARGON2ID; t: number; m: number; p: number };
+
+// Bounds for calibration - never go below the minimums regardless of device
+// speed, and stay below the ceilings further down on fast devices
+const MIN_PBKDF2_ITERATIONS = 10000;
+const MAX_CALIBRATED_PBKDF2_ITERATIONS = 1_000_000;
+const MIN_SCRYPT_LOG_N = 14;
+const MAX_CALIBRATED_SCRYPT_LOG_N = 16; // 64 MiB with r = 8
+const ARGON2_MEMORY_KIB = 19 * 1024; // OWASP minimum recommendation
+const MAX_CALIBRATED_ARGON2_PASSES = 8;
+
+// Upper bounds for parameters read from records and backup files, so a
+// crafted header cannot freeze the app or run a phone out of memory. They
+// lie above everything calibration can produce.
+const MAX_PBKDF2_ITERATIONS = 2_000_000;
+const MAX_SCRYPT_MEMORY_BYTES = 128 * 1024 * 1024;
+const MAX_SCRYPT_PARALLELISM = 2;
+const MAX_ARGON2_PASSES = 10;
+const MAX_ARGON2_MEMORY_KIB = 128 * 1024;
+const MAX_ARGON2_PARALLELISM = 4;
+
+/**
+ * Parameters used when the device has not been calibrated yet
+ */
+const DEFAULT_KDF_PARAMS: KdfParams = {
+  kdf: KdfId.SCRYPT,
+  N: 2 ** MIN_SCRYPT_LOG_N,
+  r: 8,
+  p: 1,
+};
+
+/**
+ * Derives a key from a secret using the KDF described by the params.
+ * Uses the async variants so long derivations do not block the UI thread.
+ *
+ * @param secret - The PIN or passphrase as Uint8Array
+ * @param salt - Random salt stored with the record
+ * @param params - KDF cost parameters stored with the record
+ * @param dkLen - Length of the derived key in bytes
+ * @returns Promise resolving to the derived key
+ */
+export async function deriveKey(
+  secret: Uint8Array,
+  salt: Uint8Array,
+  params: KdfParams,
+  dkLen: number,
+): Promise<Uint8Array> {
+  if (!isWithinKdfLimits(params)) {
+    throw new Error("KDF parameters exceed the supported limits");
+  }
+
+  switch (params.kdf) {
+    case KdfId.PBKDF2_SHA256:
+      return pbkdf2Async(sha256, secret, salt, {
+        c: params.iterations,
+        dkLen,
+      });
+    case KdfId.SCRYPT:
+      return scryptAsync(secret, salt, {
+        N: params.N,
+        r: params.r,
+        p: params.p,
+        dkLen,
+        // scrypt needs 128 * N * r bytes, allow some headroom over that
+        maxmem: 256 * params.N * params.r,
+      });
+    case KdfId.ARGON2ID:
+      return argon2idAsync(secret, salt, {
+        t: params.t,
+        m: params.m,
+        p: params.p,
+        dkLen,
+      });
+    default:
+      throw new Error("Unsupported KDF");
+  }
+}
+
+/**
+ * Checks KDF cost parameters against the minimum valid values and the fixed
+ * ceilings above
+ */
+function isWithinKdfLimits(params: KdfParams): boolean {
+  switch (params.kdf) {
+    case KdfId.PBKDF2_SHA256:
+      return (
+        params.iterations >= 1 && params.iterations <= MAX_PBKDF2_ITERATIONS
+      );
+    case KdfId.SCRYPT:
+      return (
+        params.N >= 2 &&
+        Number.isInteger(Math.log2(params.N)) &&
+        params.r >= 1 &&
+        params.p >= 1 &&
+        params.p <= MAX_SCRYPT_PARALLELISM &&
+        128 * params.N * params.r <= MAX_SCRYPT_MEMORY_BYTES
+      );
+    case KdfId.ARGON2ID:
+      return (
+        params.t >= 1 &&
+        params.t <= MAX_ARGON2_PASSES &&
+        params.p >= 1 &&
+        params.p <= MAX_ARGON2_PARALLELISM &&
+        params.m >= 8 * params.p &&
+        params.m <= MAX_ARGON2_MEMORY_KIB
+      );
+    default:
+      return false;
+  }
+}
+
+/**
+ * Serializes KDF cost parameters to a list of unsigned 32-bit integers,
+ * in the order used by encryption envelope headers
+ */
+export function encodeKdfParams(params: KdfParams): number[] {
+  switch (params.kdf) {
+    case KdfId.PBKDF2_SHA256:
+      return [params.iterations];
+    case KdfId.SCRYPT:
+      return [params.N, params.r, params.p];
+    case KdfId.ARGON2ID:
+      return [params.t, params.m, params.p];
+  }
+}
+
+/**
+ * Rebuilds KDF cost parameters from their serialized form
+ *
+ * @returns The parameters, or null if the KDF or values are not recognized
+ * or exceed the supported limits
+ */
+export function decodeKdfParams(
+  kdf: number,
+  values: number[],
+): KdfParams | null {
+  let params: KdfParams | null;
+  switch (kdf) {
+    case KdfId.PBKDF2_SHA256:
+      params = values.length === 1 ? { kdf, iterations: values[0] } : null;
+      break;
+    case KdfId.SCRYPT:
+      params =
+        values.length === 3
+          ? { kdf, N: values[0], r: values[1], p: values[2] }
+          : null;
+      break;
+    case KdfId.ARGON2ID:
+      params =
+        values.length === 3
+          ? { kdf, t: values[0], m: values[1], p: values[2] }
+          : null;
+      break;
+    default:
+      params = null;
+  }
+  return params && isWithinKdfLimits(params) ? params : null;
+}
+
+/**
+ * Checks whether two sets of KDF parameters are identical
+ */
+export function kdfParamsEqual(a: KdfParams, b: KdfParams): boolean {
+  if (a.kdf !== b.kdf) return false;
+  const aValues = encodeKdfParams(a);
+  const bValues = encodeKdfParams(b);
+  return aValues.every((value, index) => value === bValues[index]);
+}
+
+/**
+ * Returns a short human-readable description of KDF parameters
+ */
+export function describeKdfParams(params: KdfParams): string {
+  switch (params.kdf) {
+    case KdfId.PBKDF2_SHA256:
+      return `PBKDF2-SHA256 (${params.iterations.toLocaleString()} iterations)`;
+    case KdfId.SCRYPT:
+      return `scrypt (N=2^${Math.log2(params.N)}, r=${params.r}, p=${params.p})`;
+    case KdfId.ARGON2ID:
+      return `Argon2id (${params.t} passes, ${Math.round(params.m / 1024)} MiB)`;
+  }
+}
+
+/**
+ * Gets the KDF parameters that new records should be written with
+ *
+ * @returns Promise resolving to the calibrated parameters, or the defaults
+ */
+export async function getPreferredKdfParams(): Promise<KdfParams> {
+  try {
+    const stored = await getValue(KDF_PARAMS_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as KdfParams;
+      const params = decodeKdfParams(parsed.kdf, encodeKdfParams(parsed));
+      if (params) {
+        return params;
+      }
+    }
+  } catch (error) {
+    console.error("Error loading KDF parameters:", error);
+  }
+
+  return DEFAULT_KDF_PARAMS;
+}
+
+/**
+ * Persists the KDF parameters that new records should be written with.
+ * Existing records are upgraded to these parameters on the next PIN entry.
+ */
+export async function savePreferredKdfParams(params: KdfParams): Promise<void> {
+  await saveValue(KDF_PARAMS_KEY, JSON.stringify(params));
+}
+
+/**
+ * Measures how long a single derivation takes with the given parameters
+ */
+async function measureDerivation(params: KdfParams): Promise<number> {
+  const probeSecret = new Uint8Array(6);
+  const probeSalt = new Uint8Array(16);
+  const start = Date.now();
+  await deriveKey(probeSecret, probeSalt, params, 32);
+  return Math.max(1, Date.now() - start);
+}
+
+/**
+ * Picks cost parameters for a KDF so a single derivation takes roughly the
+ * target time on the current device. Runs a cheap probe derivation and scales
+ * the cost linearly from its timing, never going below the minimum costs and
+ * staying below the ceilings records are checked against.
+ *
+ * @param kdf - The KDF to calibrate
+ * @param targetMs - Desired derivation time in milliseconds
+ * @returns Promise resolving to the calibrated parameters
+ */
+export async function calibrateKdf(
+  kdf: KdfId,
+  targetMs: number = DEFAULT_TARGET_UNLOCK_MS,
+): Promise<KdfParams> {
+  switch (kdf) {
+    case KdfId.PBKDF2_SHA256: {
+      const probe = MIN_PBKDF2_ITERATIONS;
+      const elapsed = await measureDerivation({ kdf, iterations: probe });
+      const iterations = Math.round((probe * targetMs) / elapsed);
+      return {
+        kdf,
+        iterations: Math.min(
+          MAX_CALIBRATED_PBKDF2_ITERATIONS,
+          Math.max(MIN_PBKDF2_ITERATIONS, iterations),
+        ),
+      };
+    }
+    case KdfId.SCRYPT: {
+      // scrypt cost must be a power of two, so scale in log2 steps
+      const probeLogN = 12;
+      const elapsed = await measureDerivation({
+        kdf,
+        N: 2 ** probeLogN,
+        r: 8,
+        p: 1,
+      });
+      const logN = Math.floor(probeLogN + Math.log2(targetMs / elapsed));
+      const clampedLogN = Math.min(
+        MAX_CALIBRATED_SCRYPT_LOG_N,
+        Math.max(MIN_SCRYPT_LOG_N, logN),
+      );
+      return { kdf, N: 2 ** clampedLogN, r: 8, p: 1 };
+    }
+    case KdfId.ARGON2ID: {
+      // Memory stays fixed, passes scale with the measured time
+      const elapsed = await measureDerivation({
+        kdf,
+        t: 1,
+        m: ARGON2_MEMORY_KIB,
+        p: 1,
+      });
+      const passes = Math.round(targetMs / elapsed);
+      return {
+        kdf,
+        t: Math.min(MAX_CALIBRATED_ARGON2_PASSES, Math.max(1, passes)),
+        m: ARGON2_MEMORY_KIB,
+        p: 1,
+      };
+    }
+    default:
+      throw new Error("Unsupported KDF");
+  }
+}
+
+/**
+ * Calibrates the default KDF for this device if no preference has been saved
+ * yet. Called when a PIN is first created so new wallets start out with
+ * device-appropriate costs.
+ */
+export async function ensureKdfCalibrated(): Promise<void> {
+  try {
+    if (await getValue(KDF_PARAMS_KEY)) {
+      return;
+    }
+
+    const params = await calibrateKdf(DEFAULT_KDF_PARAMS.kdf);
+    await savePreferredKdfParams(params);
+    console.log(`Calibrated KDF: ${describeKdfParams(params)}`);
+  } catch (error) {
+    // Fall back to the default parameters if calibration fails
+    console.error("Error calibrating KDF:", error);
+  }
+}
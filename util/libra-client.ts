@@ -1,114 +1,232 @@
 /**
- * Global LibraClient Instance Manager
+ * LibraClient Registry
  *
- * Provides a single instance of LibraClient that can be configured
- * and shared across the entire application to prevent multiple instances.
+ * Keeps one LibraClient per network configuration and hands out the one for
+ * a profile's network. Every chain access (polling, history, vouch lookups,
+ * discovery, signing) resolves its client through here, so a Testnet or
+ * Testing profile never talks to mainnet.
+ *
+ * `getLibraClient()` follows the active account: switching to an account in
+ * a profile on another network switches the client with it.
+ *
+ * Clients fail over between the network's RPC endpoints (see
+ * rpc-endpoints.ts); the URL handed out for wallets is the active endpoint.
  */
 
-import { LibraClient } from "open-libra-sdk";
+import type { LibraClient, Network } from "open-libra-sdk";
 import { IS_DEVELOPMENT } from "./environment";
-
-// Default URLs for different networks
-const DEFAULT_MAINNET_URL = "https://rpc.scan.openlibra.world/v1";
-// Removed unused: DEFAULT_TESTNET_URL
+import {
+  getExpectedChainId,
+  getNetworkRpcUrls,
+  getSdkNetwork,
+} from "./network-config";
+import { createFailoverClient, getActiveEndpoint } from "./rpc-endpoints";
+import {
+  appConfig,
+  getProfileForAccount,
+  NetworkTypeEnum,
+  type NetworkType,
+} from "./app-config-store";
 
 /**
- * Global LibraClient instance
+ * Network and fullnode URLs a client is created with
  */
-let globalLibraClient: LibraClient | null = null;
+type ClientNetworkConfig = {
+  network: Network;
+  url: string; // The active endpoint
+  urls: string[]; // All endpoints in order of preference
+};
+
+// Used when no account is active yet
+const DEFAULT_NETWORK: NetworkType = {
+  network_name: NetworkTypeEnum.MAINNET,
+  network_type: NetworkTypeEnum.MAINNET,
+};
 
 /**
- * Current configuration for the global client
+ * Clients by network and endpoint list
  */
-let currentConfig = {
-  url: DEFAULT_MAINNET_URL,
-  network: "mainnet" as "mainnet" | "testnet" | "custom",
-};
+const clients = new Map<string, LibraClient>();
 
 /**
- * Initialize the global LibraClient instance
- * This should be called during app initialization
+ * Resolves the SDK network and fullnode URLs of a profile network
  *
- * @param url Optional URL to use for the client. Defaults to mainnet URL
- * @param network Network type identifier for logging/debugging
+ * @param network The profile's network
+ * @throws Error for a custom network without an RPC URL
  */
-export function initializeLibraClient(
-  url: string = DEFAULT_MAINNET_URL,
-  network: "mainnet" | "testnet" | "custom" = "mainnet",
-): LibraClient {
-  try {
-    // Create new client instance - LibraClient uses default mainnet if no params
-    globalLibraClient = new LibraClient();
+function resolveNetworkConfig(network: NetworkType): ClientNetworkConfig {
+  const urls = getNetworkRpcUrls(network);
+  if (urls.length === 0) {
+    throw new Error(
+      `Network "${network.network_name}" has no RPC URL configured`,
+    );
+  }
+  return {
+    network: getSdkNetwork(network),
+    url: getActiveEndpoint(urls),
+    urls,
+  };
+}
+
+function clientKey(config: ClientNetworkConfig): string {
+  return `${config.network}|${config.urls.join(" ")}`;
+}
+
+/**
+ * Gets the client for a network configuration, creating it on first use
+ */
+function getClient(config: ClientNetworkConfig): LibraClient {
+  const key = clientKey(config);
+  let client = clients.get(key);
 
-    // Update current configuration
-    currentConfig = { url, network };
+  if (!client) {
+    client = createFailoverClient(config.network, config.urls);
+    clients.set(key, client);
 
     if (IS_DEVELOPMENT) {
-      console.log(`LibraClient initialized with ${network} network: ${url}`);
+      console.log(
+        `LibraClient created for ${config.network} network: ${config.urls.join(", ")}`,
+      );
     }
-
-    return globalLibraClient;
-  } catch (error) {
-    console.error("Failed to initialize LibraClient:", error);
-    throw error;
   }
+
+  return client;
 }
 
 /**
- * Get the global LibraClient instance
- * If not initialized, initializes with default mainnet configuration
+ * Gets the network of a profile, or mainnet if it does not exist
  *
- * @returns The global LibraClient instance
+ * @param profileName Name of the profile
  */
-export function getLibraClient(): LibraClient {
-  if (!globalLibraClient) {
-    console.warn(
-      "LibraClient not initialized, creating with default configuration",
-    );
-    return initializeLibraClient();
-  }
+function getProfileNetwork(profileName: string | null): NetworkType {
+  const profile = profileName ? appConfig.profiles[profileName].peek() : null;
+  return profile?.network ?? DEFAULT_NETWORK;
+}
 
-  return globalLibraClient;
+/**
+ * Gets the network configuration of the profile holding an account
+ *
+ * @param accountId ID of the account
+ */
+export function getNetworkConfigForAccount(
+  accountId: string,
+): ClientNetworkConfig {
+  return resolveNetworkConfig(
+    getProfileNetwork(getProfileForAccount(accountId)),
+  );
 }
 
 /**
- * Reconfigure the global LibraClient with a new URL
- * This will create a new client instance with the new configuration
+ * Gets the chain ID the network of an account's profile must be on
  *
- * @param url New URL to use for the client
- * @param network Network type identifier for logging/debugging
- * Removed unused function: setLibraClientUrl
+ * @param accountId ID of the account
+ * @returns The chain ID, or undefined if the network has none
  */
+export function getExpectedChainIdForAccount(
+  accountId: string,
+): number | undefined {
+  return getExpectedChainId(getProfileNetwork(getProfileForAccount(accountId)));
+}
 
 /**
- * Get the current configuration of the global LibraClient
+ * Gets the network configuration of a profile
  *
- * @returns Current configuration object with URL and network type
+ * @param profileName Name of the profile
  */
-export function getLibraClientConfig() {
-  return { ...currentConfig };
+export function getNetworkConfigForProfile(
+  profileName: string,
+): ClientNetworkConfig {
+  return resolveNetworkConfig(getProfileNetwork(profileName));
 }
 
-// Removed unused exports: resetToMainnet, resetToTestnet
+/**
+ * Gets the client for the network of the profile holding an account
+ *
+ * @param accountId ID of the account
+ */
+export function getLibraClientForAccount(accountId: string): LibraClient {
+  return getClient(getNetworkConfigForAccount(accountId));
+}
 
 /**
- * Check if the LibraClient is initialized
+ * Gets the client for the network of a profile
  *
- * @returns true if initialized, false otherwise
+ * @param profileName Name of the profile
  */
-export function isLibraClientInitialized(): boolean {
-  return globalLibraClient !== null;
+export function getLibraClientForProfile(profileName: string): LibraClient {
+  return getClient(getNetworkConfigForProfile(profileName));
+}
+
+/**
+ * Gets the network of the active account's profile
+ */
+function getActiveNetwork(): NetworkType {
+  const activeAccountId = appConfig.activeAccountId.peek();
+  return getProfileNetwork(
+    activeAccountId ? getProfileForAccount(activeAccountId) : null,
+  );
+}
+
+/**
+ * Initialize the client of the active profile's network
+ * This should be called during app initialization
+ */
+export function initializeLibraClient(): LibraClient {
+  try {
+    return getLibraClient();
+  } catch (error) {
+    console.error("Failed to initialize LibraClient:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get the client for the active account's profile network
+ *
+ * @returns The LibraClient of the active network
+ * @throws Error if the active network cannot be connected to
+ */
+export function getLibraClient(): LibraClient {
+  return getClient(resolveNetworkConfig(getActiveNetwork()));
 }
 
 /**
- * Get the current URL being used by the global LibraClient
- * This is useful for creating LibraWallet instances with the same configuration
+ * Get the configuration of the active network
  *
- * @returns The current URL being used by the LibraClient
+ * @returns The active profile, its network's name, type and expected chain
+ * ID, and the client's network and endpoints if it can be connected to
  */
-export function getLibraClientUrl(): string {
-  return currentConfig.url;
+export function getLibraClientConfig(): {
+  profileName: string | null;
+  networkName: string;
+  networkType: NetworkTypeEnum;
+  chainId: number | undefined;
+  client: ClientNetworkConfig | null;
+} {
+  const activeAccountId = appConfig.activeAccountId.peek();
+  const network = getActiveNetwork();
+  let client: ClientNetworkConfig | null = null;
+  try {
+    client = resolveNetworkConfig(network);
+  } catch {
+    // A network without a URL has no client
+  }
+
+  return {
+    profileName: activeAccountId ? getProfileForAccount(activeAccountId) : null,
+    networkName: network.network_name,
+    networkType: network.network_type,
+    chainId: getExpectedChainId(network),
+    client,
+  };
 }
 
-// Removed internal-only exports: DEFAULT_MAINNET_URL, DEFAULT_TESTNET_URL
-// These constants are only used within this module
+/**
+ * Check if a client exists for the active network
+ *
+ * @returns true if initialized, false otherwise
+ */
+export function isLibraClientInitialized(): boolean {
+  const { client } = getLibraClientConfig();
+  return client !== null && clients.has(clientKey(client));
+}
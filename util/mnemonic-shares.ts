@@ -0,0 +1,320 @@
+/**
+ * Mnemonic Shares
+ *
+ * Splits a BIP39 mnemonic into N shares so that any M of them rebuild it
+ * (Shamir's secret sharing over GF(256), as in SLIP-39). A single share, or
+ * any set smaller than M, reveals nothing about the mnemonic.
+ *
+ * Only the BIP39 entropy is shared; the rebuilt mnemonic is identical to the
+ * original and is recovered through the normal derivation path.
+ *
+ * Share layout, before encoding (see RECOVERY-SPEC.md):
+ *
+ *   byte 0        format version (1)
+ *   bytes 1-2     random set identifier, equal on all shares of one split
+ *   byte 3        (threshold - 1) << 4 | (index - 1)
+ *   bytes 4..n    share of the entropy (same length as the entropy)
+ *   last 4 bytes  first 4 bytes of SHA-256 over everything before
+ *
+ * The bytes are written as words from the BIP39 English wordlist, 11 bits per
+ * word, most significant bit first, with the last word padded with zero bits.
+ * A share of a 24-word mnemonic is 30 words long.
+ */
+import { entropyToMnemonic, mnemonicToEntropy } from "@scure/bip39";
+import { wordlist } from "@scure/bip39/wordlists/english";
+import { sha256 } from "@noble/hashes/sha2";
+import { getRandomBytes } from "./random";
+
+const SHARE_FORMAT_VERSION = 1;
+
+// Bytes before the shared entropy
+const HEADER_LENGTH = 4;
+
+// Bytes of checksum after the shared entropy
+const CHECKSUM_LENGTH = 4;
+
+// Valid BIP39 entropy lengths in bytes (12 to 24 words)
+const ENTROPY_LENGTHS = [16, 20, 24, 28, 32];
+
+export const MAX_SHARE_COUNT = 16;
+
+/**
+ * Decoded share
+ */
+type MnemonicShare = {
+  setId: number;
+  threshold: number;
+  index: number;
+  value: Uint8Array;
+};
+
+// GF(256) log and exp tables, using the AES polynomial x^8 + x^4 + x^3 + x + 1
+const EXP = new Uint8Array(255);
+const LOG = new Uint8Array(256);
+for (let i = 0, x = 1; i < 255; i++) {
+  EXP[i] = x;
+  LOG[x] = i;
+  // Multiply by the generator 3
+  x ^= (x << 1) ^ (x & 0x80 ? 0x11b : 0);
+}
+
+function gfMul(a: number, b: number): number {
+  if (a === 0 || b === 0) return 0;
+  return EXP[(LOG[a] + LOG[b]) % 255];
+}
+
+function gfDiv(a: number, b: number): number {
+  if (a === 0) return 0;
+  return EXP[(LOG[a] - LOG[b] + 255) % 255];
+}
+
+/**
+ * Evaluates the polynomial with the given coefficients (constant term first)
+ */
+function evaluatePolynomial(coefficients: Uint8Array, x: number): number {
+  let result = 0;
+  for (let i = coefficients.length - 1; i >= 0; i--) {
+    result = gfMul(result, x) ^ coefficients[i];
+  }
+  return result;
+}
+
+/**
+ * Lagrange interpolation at x = 0
+ */
+function interpolateAtZero(points: { x: number; y: number }[]): number {
+  let result = 0;
+  for (const point of points) {
+    let basis = 1;
+    for (const other of points) {
+      if (other.x !== point.x) {
+        basis = gfMul(basis, gfDiv(other.x, other.x ^ point.x));
+      }
+    }
+    result ^= gfMul(point.y, basis);
+  }
+  return result;
+}
+
+function checksum(bytes: Uint8Array): Uint8Array {
+  return sha256(bytes).slice(0, CHECKSUM_LENGTH);
+}
+
+function bytesToWords(bytes: Uint8Array): string {
+  const words: string[] = [];
+  let accumulator = 0;
+  let bits = 0;
+
+  for (const byte of bytes) {
+    accumulator = (accumulator << 8) | byte;
+    bits += 8;
+    while (bits >= 11) {
+      bits -= 11;
+      words.push(wordlist[(accumulator >> bits) & 0x7ff]);
+    }
+    accumulator &= (1 << bits) - 1;
+  }
+
+  if (bits > 0) {
+    words.push(wordlist[(accumulator << (11 - bits)) & 0x7ff]);
+  }
+
+  return words.join(" ");
+}
+
+function wordsToBytes(words: string[], byteLength: number): Uint8Array | null {
+  const bytes = new Uint8Array(byteLength);
+  let accumulator = 0;
+  let bits = 0;
+  let offset = 0;
+
+  for (const word of words) {
+    const value = wordlist.indexOf(word);
+    if (value < 0) return null;
+
+    accumulator = (accumulator << 11) | value;
+    bits += 11;
+    while (bits >= 8 && offset < byteLength) {
+      bits -= 8;
+      bytes[offset++] = (accumulator >> bits) & 0xff;
+    }
+    accumulator &= (1 << bits) - 1;
+  }
+
+  // Padding bits must be zero
+  return offset === byteLength && accumulator === 0 ? bytes : null;
+}
+
+/**
+ * Number of words in a share for the given entropy length
+ */
+function shareWordCount(entropyLength: number): number {
+  return Math.ceil(
+    ((HEADER_LENGTH + entropyLength + CHECKSUM_LENGTH) * 8) / 11,
+  );
+}
+
+/**
+ * Decodes and checks a single share
+ *
+ * @param share - Share words separated by whitespace
+ * @returns The decoded share, or null if it is malformed or mistyped
+ */
+function decodeShare(share: string): MnemonicShare | null {
+  const words = share.trim().toLowerCase().split(/\s+/);
+  const entropyLength = ENTROPY_LENGTHS.find(
+    (length) => shareWordCount(length) === words.length,
+  );
+  if (!entropyLength) return null;
+
+  const bytes = wordsToBytes(
+    words,
+    HEADER_LENGTH + entropyLength + CHECKSUM_LENGTH,
+  );
+  if (!bytes || bytes[0] !== SHARE_FORMAT_VERSION) return null;
+
+  const body = bytes.slice(0, bytes.length - CHECKSUM_LENGTH);
+  const expected = checksum(body);
+  if (expected.some((byte, i) => byte !== bytes[body.length + i])) {
+    return null;
+  }
+
+  return {
+    setId: (bytes[1] << 8) | bytes[2],
+    threshold: (bytes[3] >> 4) + 1,
+    index: (bytes[3] & 0x0f) + 1,
+    value: body.slice(HEADER_LENGTH),
+  };
+}
+
+/**
+ * Splits a mnemonic into shares, any `threshold` of which rebuild it
+ *
+ * @param mnemonic - A valid BIP39 mnemonic
+ * @param threshold - Number of shares needed to rebuild the mnemonic (M)
+ * @param shareCount - Total number of shares to create (N)
+ * @returns The shares, each a string of words
+ * @throws If the mnemonic is invalid or the parameters are out of range
+ */
+export function splitMnemonic(
+  mnemonic: string,
+  threshold: number,
+  shareCount: number,
+): string[] {
+  if (
+    !Number.isInteger(threshold) ||
+    !Number.isInteger(shareCount) ||
+    threshold < 2 ||
+    threshold > shareCount ||
+    shareCount > MAX_SHARE_COUNT
+  ) {
+    throw new Error(
+      `Invalid share parameters: need 2 <= threshold <= shares <= ${MAX_SHARE_COUNT}`,
+    );
+  }
+
+  const entropy = mnemonicToEntropy(mnemonic.trim(), wordlist);
+  const setId = getRandomBytes(2);
+
+  // One random polynomial per entropy byte, with the byte as constant term
+  const polynomials = Array.from(entropy, (byte) => {
+    const polynomial = getRandomBytes(threshold);
+    polynomial[0] = byte;
+    return polynomial;
+  });
+
+  return Array.from({ length: shareCount }, (_, i) => {
+    const index = i + 1;
+    const body = new Uint8Array(HEADER_LENGTH + entropy.length);
+    body[0] = SHARE_FORMAT_VERSION;
+    body.set(setId, 1);
+    body[3] = ((threshold - 1) << 4) | (index - 1);
+    polynomials.forEach((polynomial, j) => {
+      body[HEADER_LENGTH + j] = evaluatePolynomial(polynomial, index);
+    });
+
+    const bytes = new Uint8Array(body.length + CHECKSUM_LENGTH);
+    bytes.set(body);
+    bytes.set(checksum(body), body.length);
+    return bytesToWords(bytes);
+  });
+}
+
+/**
+ * Describes a share for progress display while shares are entered
+ *
+ * @param share - Share words separated by whitespace
+ * @returns Threshold and index of the share, or null if it is invalid
+ */
+export function describeMnemonicShare(
+  share: string,
+): { threshold: number; index: number } | null {
+  const decoded = decodeShare(share);
+  return decoded
+    ? { threshold: decoded.threshold, index: decoded.index }
+    : null;
+}
+
+/**
+ * Rebuilds a mnemonic from a set of shares
+ *
+ * @param shares - Shares, each a string of words
+ * @returns The mnemonic, or an error describing what is wrong with the set
+ */
+export function combineMnemonicShares(shares: string[]): {
+  success: boolean;
+  mnemonic?: string;
+  error?: string;
+} {
+  const entered = shares.filter((share) => share.trim());
+  const decoded: MnemonicShare[] = [];
+
+  for (const [i, share] of entered.entries()) {
+    const result = decodeShare(share);
+    if (!result) {
+      return {
+        success: false,
+        error: `Share ${i + 1} is invalid. Check for typos or missing words.`,
+      };
+    }
+    decoded.push(result);
+  }
+
+  if (decoded.length === 0) {
+    return { success: false, error: "Enter at least two shares" };
+  }
+
+  const [first] = decoded;
+  if (
+    decoded.some(
+      (share) =>
+        share.setId !== first.setId ||
+        share.threshold !== first.threshold ||
+        share.value.length !== first.value.length,
+    )
+  ) {
+    return {
+      success: false,
+      error: "The shares do not belong to the same split",
+    };
+  }
+
+  const unique = decoded.filter(
+    (share, i) => decoded.findIndex((s) => s.index === share.index) === i,
+  );
+  if (unique.length < first.threshold) {
+    return {
+      success: false,
+      error: `${first.threshold} different shares are needed, ${unique.length} entered`,
+    };
+  }
+
+  const used = unique.slice(0, first.threshold);
+  const entropy = first.value.map((_, j) =>
+    interpolateAtZero(
+      used.map((share) => ({ x: share.index, y: share.value[j] })),
+    ),
+  );
+
+  return { success: true, mnemonic: entropyToMnemonic(entropy, wordlist) };
+}
@@ -0,0 +1,354 @@
+/**
+ * Network Configuration
+ *
+ * Profiles name the network they use. Mainnet, Testnet and Testing connect
+ * to the SDK's built-in endpoints; a Local Devnet defaults to a node running
+ * on this machine; a Custom network brings its own REST endpoints. Any of
+ * them can list REST endpoints, an expected chain ID, and faucet and
+ * explorer URLs.
+ *
+ * Before a network is saved it is validated by fetching the ledger info from
+ * every endpoint: each must answer and report the same chain ID, which must
+ * match the expected one if set. An endpoint added later (addNetworkEndpoint)
+ * must report the network's chain ID. Before a transaction is signed, the node's
+ * chain ID is checked again against the profile's (verifyNodeChainId), and
+ * trusted time is only synced with nodes that pass the same check.
+ */
+import {
+  DOCKER_URL,
+  LibraClient,
+  MAINNET_URL,
+  Network,
+  TESTNET_URL,
+  type AnyRawTransaction,
+  type LedgerInfo,
+} from "open-libra-sdk";
+import { NetworkTypeEnum, type NetworkType } from "./app-config-types";
+
+// Default REST endpoint of a node started locally
+const LOCAL_DEVNET_URL = "http://127.0.0.1:8080/v1";
+
+const LEDGER_INFO_TIMEOUT_MS = 10 * 1000;
+
+// Chain IDs the SDK signs with for the built-in networks
+const BUILT_IN_CHAIN_IDS: Partial<Record<NetworkTypeEnum, number>> = {
+  [NetworkTypeEnum.MAINNET]: 1,
+  [NetworkTypeEnum.TESTNET]: 2,
+  [NetworkTypeEnum.TESTING]: 4,
+};
+
+/**
+ * Gets the SDK network a profile network's clients are created with.
+ * Custom and local networks use Network.CUSTOM so the SDK reads the chain ID
+ * from the node instead of assuming one.
+ */
+export function getSdkNetwork(network: NetworkType): Network {
+  switch (network.network_type) {
+    case NetworkTypeEnum.MAINNET:
+      return Network.MAINNET;
+    case NetworkTypeEnum.TESTNET:
+      return Network.TESTNET;
+    case NetworkTypeEnum.TESTING:
+      return Network.LOCAL;
+    default:
+      return Network.CUSTOM;
+  }
+}
+
+/**
+ * Gets the REST endpoints of a network: the configured ones, or the default
+ * of its type
+ *
+ * @returns The endpoints in order of preference, empty for a Custom network
+ * without any
+ */
+export function getNetworkRpcUrls(network: NetworkType): string[] {
+  if (network.rpc_urls && network.rpc_urls.length > 0) {
+    return network.rpc_urls;
+  }
+
+  switch (network.network_type) {
+    case NetworkTypeEnum.MAINNET:
+      return [MAINNET_URL];
+    case NetworkTypeEnum.TESTNET:
+      return [TESTNET_URL];
+    case NetworkTypeEnum.TESTING:
+      return [DOCKER_URL];
+    case NetworkTypeEnum.LOCAL_DEVNET:
+      return [LOCAL_DEVNET_URL];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Gets the chain ID a network's nodes must report: the configured one, or the
+ * one the SDK uses for a built-in network
+ *
+ * @returns The chain ID, or undefined for a network saved without one
+ */
+export function getExpectedChainId(network: NetworkType): number | undefined {
+  return network.chain_id ?? BUILT_IN_CHAIN_IDS[network.network_type];
+}
+
+/**
+ * Checks that a string is an http(s) URL
+ */
+function isValidHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks the fields of a network without connecting to it
+ *
+ * @returns An error message, or null if the fields are valid
+ */
+function checkNetworkFields(network: NetworkType): string | null {
+  if (!network.network_name.trim()) {
+    return "Network name is required";
+  }
+
+  if (
+    network.network_type === NetworkTypeEnum.CUSTOM &&
+    !network.rpc_urls?.length
+  ) {
+    return "A custom network needs at least one RPC URL";
+  }
+
+  const invalidUrl = network.rpc_urls?.find((url) => !isValidHttpUrl(url));
+  if (invalidUrl !== undefined) {
+    return `Invalid RPC URL: ${invalidUrl}`;
+  }
+
+  if (network.faucet_url && !isValidHttpUrl(network.faucet_url)) {
+    return "Invalid faucet URL";
+  }
+
+  if (network.explorer_url && !isValidHttpUrl(network.explorer_url)) {
+    return "Invalid explorer URL";
+  }
+
+  if (
+    network.chain_id !== undefined &&
+    (!Number.isInteger(network.chain_id) ||
+      network.chain_id < 1 ||
+      network.chain_id > 255)
+  ) {
+    return "Chain ID must be a whole number from 1 to 255";
+  }
+
+  return null;
+}
+
+/**
+ * Fetches a node's ledger info, giving up after LEDGER_INFO_TIMEOUT_MS
+ */
+export async function fetchLedgerInfo(
+  client: LibraClient,
+): Promise<LedgerInfo> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error("Ledger info request timeout")),
+      LEDGER_INFO_TIMEOUT_MS,
+    );
+  });
+
+  try {
+    return await Promise.race([client.getLedgerInfo(), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Fetches the chain ID a node reports in its ledger info
+ */
+async function fetchChainId(client: LibraClient): Promise<number> {
+  return (await fetchLedgerInfo(client)).chain_id;
+}
+
+/**
+ * Validates a network by fetching the ledger info from each of its endpoints.
+ * Mainnet, Testnet and Testing without endpoints or a chain ID of their own
+ * use the SDK defaults and are not contacted.
+ *
+ * @param network The network to validate
+ * @returns The network with the chain ID reported by its endpoints, or an
+ * error describing what is wrong
+ */
+export async function validateNetwork(network: NetworkType): Promise<{
+  success: boolean;
+  network?: NetworkType;
+  error?: string;
+}> {
+  const fieldError = checkNetworkFields(network);
+  if (fieldError) {
+    return { success: false, error: fieldError };
+  }
+
+  if (
+    !network.rpc_urls?.length &&
+    network.chain_id === undefined &&
+    network.network_type !== NetworkTypeEnum.CUSTOM &&
+    network.network_type !== NetworkTypeEnum.LOCAL_DEVNET
+  ) {
+    return { success: true, network };
+  }
+
+  const sdkNetwork = getSdkNetwork(network);
+  let chainId: number | undefined;
+
+  for (const url of getNetworkRpcUrls(network)) {
+    let reported: number;
+    try {
+      reported = await fetchChainId(new LibraClient(sdkNetwork, url));
+    } catch (error) {
+      console.warn(`Failed to fetch ledger info from ${url}:`, error);
+      return {
+        success: false,
+        error: `Could not reach ${url}. Check the URL and that the node is running.`,
+      };
+    }
+
+    if (network.chain_id !== undefined && reported !== network.chain_id) {
+      return {
+        success: false,
+        error: `${url} reports chain ID ${reported}, expected ${network.chain_id}`,
+      };
+    }
+    if (chainId !== undefined && reported !== chainId) {
+      return {
+        success: false,
+        error: `The RPC URLs belong to different chains (chain IDs ${chainId} and ${reported})`,
+      };
+    }
+    chainId = reported;
+  }
+
+  return { success: true, network: { ...network, chain_id: chainId } };
+}
+
+/**
+ * Fetches a node's ledger info and confirms that the node is on the expected
+ * chain
+ *
+ * @param client Client of the node
+ * @param expectedChainId Chain ID of the profile's network
+ * @returns The ledger info
+ * @throws Error if no chain ID is expected, the node cannot be reached, or it
+ * reports another chain ID
+ */
+export async function fetchVerifiedLedgerInfo(
+  client: LibraClient,
+  expectedChainId: number | undefined,
+): Promise<LedgerInfo> {
+  if (expectedChainId === undefined) {
+    throw new Error(
+      "The profile's network has no chain ID. Save the network again in profile settings to set it.",
+    );
+  }
+
+  let info: LedgerInfo;
+  try {
+    info = await fetchLedgerInfo(client);
+  } catch (error) {
+    console.warn("Failed to fetch the node's chain ID:", error);
+    throw new Error("Could not confirm the node's chain ID");
+  }
+
+  if (info.chain_id !== expectedChainId) {
+    throw new Error(
+      `Chain ID mismatch: the node is on chain ${info.chain_id}, but the profile expects chain ${expectedChainId}.`,
+    );
+  }
+  return info;
+}
+
+/**
+ * Adds a REST endpoint after a network's current ones, so requests can fail
+ * over to it. A built-in network without endpoints of its own keeps its
+ * default as the first one. Only the new endpoint is contacted, as the others
+ * may be down; it must report the network's chain ID.
+ *
+ * @param network The network to add the endpoint to
+ * @param url REST endpoint of the node
+ * @returns The network with the endpoint added, or an error describing what
+ * is wrong
+ */
+export async function addNetworkEndpoint(
+  network: NetworkType,
+  url: string,
+): Promise<{
+  success: boolean;
+  network?: NetworkType;
+  error?: string;
+}> {
+  const trimmed = url.trim();
+  const urls = getNetworkRpcUrls(network);
+  if (urls.includes(trimmed)) {
+    return { success: false, error: "This endpoint is already in the list" };
+  }
+
+  const updated: NetworkType = {
+    ...network,
+    rpc_urls: [...urls, trimmed],
+    chain_id: getExpectedChainId(network),
+  };
+  const fieldError = checkNetworkFields(updated);
+  if (fieldError) {
+    return { success: false, error: fieldError };
+  }
+
+  try {
+    await fetchVerifiedLedgerInfo(
+      new LibraClient(getSdkNetwork(network), trimmed),
+      updated.chain_id,
+    );
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+  return { success: true, network: updated };
+}
+
+/**
+ * Confirms that a node is on the expected chain. Called before a transaction
+ * is built, so nothing is signed for another network.
+ *
+ * @param client Client of the node the transaction goes to
+ * @param expectedChainId Chain ID of the profile's network
+ * @returns The verified chain ID
+ * @throws Error if no chain ID is expected, the node cannot be reached, or it
+ * reports another chain ID
+ */
+export async function verifyNodeChainId(
+  client: LibraClient,
+  expectedChainId: number | undefined,
+): Promise<number> {
+  return (await fetchVerifiedLedgerInfo(client, expectedChainId)).chain_id;
+}
+
+/**
+ * Confirms that a built transaction is for the verified chain
+ *
+ * @throws Error if the transaction carries another chain ID
+ */
+export function verifyTransactionChainId(
+  transaction: AnyRawTransaction,
+  chainId: number,
+): void {
+  const txChainId = transaction.rawTransaction.chain_id.chainId;
+  if (txChainId !== chainId) {
+    throw new Error(
+      `Chain ID mismatch: the transaction was built for chain ${txChainId}, but the node is on chain ${chainId}. Signing was blocked.`,
+    );
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Passphrase Strength Estimation
+ *
+ * A lightweight, dependency-free entropy estimate for user-chosen passphrases.
+ * It is intentionally conservative: repeated and sequential characters add
+ * almost nothing, and multi-word passphrases are scored per word rather than
+ * per character. It is a guide for the user, not a guarantee.
+ */
+
+/**
+ * Strength score from 0 (very weak) to 4 (very strong)
+ */
+type StrengthScore = 0 | 1 | 2 | 3 | 4;
+
+interface PassphraseStrength {
+  score: StrengthScore;
+  label: string;
+  entropyBits: number;
+  feedback: string | null;
+}
+
+// Minimum score a passphrase needs before it can be used
+export const MIN_ACCEPTABLE_STRENGTH: StrengthScore = 2;
+
+// Entropy thresholds (in bits) for each score above 0
+const SCORE_THRESHOLDS = [28, 36, 60, 80];
+
+const SCORE_LABELS = ["Very weak", "Weak", "Fair", "Strong", "Very strong"];
+
+// Rough entropy per word for words picked from a large word list
+const BITS_PER_WORD = 11;
+
+/**
+ * Estimates the size of the character pool a passphrase draws from
+ */
+function getCharacterPoolSize(passphrase: string): number {
+  let pool = 0;
+  if (/[a-z]/.test(passphrase)) pool += 26;
+  if (/[A-Z]/.test(passphrase)) pool += 26;
+  if (/\d/.test(passphrase)) pool += 10;
+  if (/[ ]/.test(passphrase)) pool += 1;
+  if (/[!-/:-@[-`{-~]/.test(passphrase)) pool += 33;
+  if (/[^\x20-\x7e]/.test(passphrase)) pool += 100;
+  return Math.max(pool, 1);
+}
+
+/**
+ * Estimates entropy character by character, giving repeated or sequential
+ * characters (e.g. "aaaa", "1234", "cba") only one bit each
+ */
+function estimateCharacterEntropy(passphrase: string): number {
+  const bitsPerChar = Math.log2(getCharacterPoolSize(passphrase));
+  let bits = 0;
+
+  for (let i = 0; i < passphrase.length; i++) {
+    if (i === 0) {
+      bits += bitsPerChar;
+      continue;
+    }
+
+    const delta = passphrase.charCodeAt(i) - passphrase.charCodeAt(i - 1);
+    bits += Math.abs(delta) <= 1 ? 1 : bitsPerChar;
+  }
+
+  return bits;
+}
+
+/**
+ * Estimates entropy of a multi-word passphrase, counting each distinct word
+ */
+function estimateWordEntropy(passphrase: string): number {
+  const words = passphrase
+    .toLowerCase()
+    .split(/[\s\-_.]+/)
+    .filter((word) => word.length >= 3);
+  return new Set(words).size * BITS_PER_WORD;
+}
+
+/**
+ * Estimates how hard a passphrase is to guess
+ *
+ * @param passphrase - The passphrase to evaluate
+ * @returns The estimated strength with a score, label and improvement hint
+ */
+export function estimatePassphraseStrength(
+  passphrase: string,
+): PassphraseStrength {
+  // Character-based estimates overrate dictionary words, so a multi-word
+  // passphrase is scored by the lower of the two estimates
+  const characterBits = estimateCharacterEntropy(passphrase);
+  const wordBits = estimateWordEntropy(passphrase);
+  const entropyBits = Math.round(
+    wordBits >= 2 * BITS_PER_WORD
+      ? Math.min(characterBits, wordBits)
+      : characterBits,
+  );
+
+  const score = SCORE_THRESHOLDS.filter((threshold) => entropyBits >= threshold)
+    .length as StrengthScore;
+
+  let feedback: string | null = null;
+  if (score < MIN_ACCEPTABLE_STRENGTH) {
+    feedback =
+      "Add more words or mix in upper case letters, digits and symbols.";
+  } else if (score < 4) {
+    feedback = "Longer passphrases are harder to guess.";
+  }
+
+  return {
+    score,
+    label: SCORE_LABELS[score],
+    entropyBits,
+    feedback,
+  };
+}
@@ -0,0 +1,310 @@
+/**
+ * PIN Attempt Throttling
+ *
+ * Counts consecutive failed PIN entries in secure storage so the count
+ * survives app restarts. Once the free attempts are used up, every further
+ * failure locks PIN entry for an escalating delay. Users can also opt into a
+ * policy that erases all wallet data after a number of consecutive failures.
+ *
+ * The throttle is enforced inside `verifyStoredPin`, so every PIN entry point
+ * (transactions, reveals, rotation, saving) goes through it.
+ *
+ * Lockout times are kept on the trusted clock (trusted-time.ts), so setting
+ * the device clock forwards or backwards does not shorten a lockout. Updates
+ * to the record are serialized, so concurrent failures are all counted.
+ */
+import { deleteValue, getValue, saveValue } from "./secure-store";
+import { appConfig } from "./app-config-store";
+import { resetAppToCleanState } from "./clear-storage-controller";
+import { refreshSetupStatus } from "./setup-state";
+import { reportErrorAuto } from "./error-utils";
+import { deactivateDuressMode } from "./duress";
+import { recordAuditEvent } from "./security-audit";
+import { getTrustedNow, saveTrustedTimeMark } from "./trusted-time";
+
+// Secure storage key holding the failed attempt counter
+const PIN_ATTEMPTS_KEY = "pin_attempts";
+
+// Secure storage key holding the opt-in wipe policy
+const PIN_WIPE_POLICY_KEY = "pin_wipe_policy";
+
+// Failures allowed before any lockout applies
+const FREE_ATTEMPTS = 4;
+
+// Lockout delays after each failure past the free attempts; the last delay
+// repeats for every further failure
+const LOCKOUT_DELAYS_MS = [
+  30 * 1000, // 30 seconds
+  60 * 1000, // 1 minute
+  5 * 60 * 1000, // 5 minutes
+  15 * 60 * 1000, // 15 minutes
+  60 * 60 * 1000, // 1 hour
+  4 * 60 * 60 * 1000, // 4 hours
+];
+
+// Failure counts the user can choose for the wipe policy
+export const WIPE_AFTER_FAILURES_OPTIONS = [10, 15, 20];
+
+// Times are on the trusted clock
+type PinAttemptRecord = {
+  failedAttempts: number;
+  lastFailedAt: number | null;
+  lockedUntil: number | null;
+};
+
+/**
+ * Current throttle state, as shown to the user
+ */
+export type PinLockoutStatus = {
+  failedAttempts: number;
+  // Lockout end on the device clock, for countdowns; null when PIN entry is
+  // not locked
+  lockedUntil: number | null;
+  attemptsBeforeWipe: number | null; // null when the wipe policy is off
+};
+
+const EMPTY_RECORD: PinAttemptRecord = {
+  failedAttempts: 0,
+  lastFailedAt: null,
+  lockedUntil: null,
+};
+
+// Serializes updates to the attempt record, which are read-modify-write
+let attemptQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Runs an update of the attempt record after the ones already queued
+ */
+function queueAttemptUpdate<T>(update: () => Promise<T>): Promise<T> {
+  const run = attemptQueue.then(update);
+  attemptQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Loads the attempt record, treating unreadable data as a fresh record
+ */
+async function loadAttemptRecord(): Promise<PinAttemptRecord> {
+  try {
+    const stored = await getValue(PIN_ATTEMPTS_KEY);
+    if (!stored) {
+      return EMPTY_RECORD;
+    }
+
+    const parsed = JSON.parse(stored) as Partial<PinAttemptRecord>;
+    return {
+      failedAttempts: Number(parsed.failedAttempts) || 0,
+      lastFailedAt: parsed.lastFailedAt ?? null,
+      lockedUntil: parsed.lockedUntil ?? null,
+    };
+  } catch (error) {
+    console.error("Error loading PIN attempt record:", error);
+    return EMPTY_RECORD;
+  }
+}
+
+/**
+ * Returns the lockout delay applied after the given number of failures
+ */
+function getLockoutDelayMs(failedAttempts: number): number {
+  if (failedAttempts <= FREE_ATTEMPTS) {
+    return 0;
+  }
+
+  const index = Math.min(
+    failedAttempts - FREE_ATTEMPTS - 1,
+    LOCKOUT_DELAYS_MS.length - 1,
+  );
+  return LOCKOUT_DELAYS_MS[index];
+}
+
+/**
+ * Returns when the lockout described by a record ends, on the trusted clock,
+ * or null if PIN entry is not locked. If the trusted time is behind the last
+ * failure (it resumed from an older mark), the full delay is counted again
+ * from now so the lockout cannot be skipped.
+ */
+function getLockedUntil(record: PinAttemptRecord, now: number): number | null {
+  if (!record.lockedUntil) {
+    return null;
+  }
+
+  if (record.lastFailedAt !== null && now < record.lastFailedAt) {
+    return now + getLockoutDelayMs(record.failedAttempts);
+  }
+
+  return record.lockedUntil > now ? record.lockedUntil : null;
+}
+
+/**
+ * Gets the failure count after which all data is erased
+ *
+ * @returns Promise resolving to the count, or null if the policy is off
+ */
+export async function getWipeAfterFailures(): Promise<number | null> {
+  try {
+    const stored = await getValue(PIN_WIPE_POLICY_KEY);
+    const count = stored ? Number(stored) : NaN;
+    return Number.isInteger(count) && count > 0 ? count : null;
+  } catch (error) {
+    console.error("Error loading PIN wipe policy:", error);
+    return null;
+  }
+}
+
+/**
+ * Sets the failure count after which all data is erased
+ *
+ * @param count - Number of consecutive failures, or null to turn the policy off
+ */
+export async function setWipeAfterFailures(
+  count: number | null,
+): Promise<void> {
+  if (count === null) {
+    await deleteValue(PIN_WIPE_POLICY_KEY);
+  } else {
+    await saveValue(PIN_WIPE_POLICY_KEY, String(count));
+  }
+}
+
+/**
+ * Gets the current lockout status
+ *
+ * @returns Promise resolving to the failure count, lockout end and wipe budget
+ */
+export async function getPinLockoutStatus(): Promise<PinLockoutStatus> {
+  const record = await loadAttemptRecord();
+  const wipeAfterFailures = await getWipeAfterFailures();
+  const trustedNow = getTrustedNow().now;
+  const lockedUntil = getLockedUntil(record, trustedNow);
+
+  return {
+    failedAttempts: record.failedAttempts,
+    lockedUntil:
+      lockedUntil === null ? null : Date.now() + (lockedUntil - trustedNow),
+    attemptsBeforeWipe:
+      wipeAfterFailures === null
+        ? null
+        : Math.max(0, wipeAfterFailures - record.failedAttempts),
+  };
+}
+
+/**
+ * Checks whether PIN entry is currently locked
+ */
+export async function isPinEntryLocked(): Promise<boolean> {
+  const status = await getPinLockoutStatus();
+  return status.lockedUntil !== null;
+}
+
+/**
+ * Records a failed PIN entry and starts the matching lockout. If the wipe
+ * policy is on and the limit has been reached, all wallet data is erased.
+ */
+export async function recordFailedPinAttempt(): Promise<void> {
+  const failedAttempts = await queueAttemptUpdate(async () => {
+    const record = await loadAttemptRecord();
+    const now = getTrustedNow().now;
+    const count = record.failedAttempts + 1;
+    const delayMs = getLockoutDelayMs(count);
+
+    await saveValue(
+      PIN_ATTEMPTS_KEY,
+      JSON.stringify({
+        failedAttempts: count,
+        lastFailedAt: now,
+        lockedUntil: delayMs > 0 ? now + delayMs : null,
+      }),
+    );
+    return count;
+  });
+
+  // Keep the trusted time from resuming before this failure after a restart
+  await saveTrustedTimeMark();
+
+  console.warn(`Failed PIN attempt ${failedAttempts}`);
+  recordAuditEvent("pin_failed", { failedAttempts });
+
+  const wipeAfterFailures = await getWipeAfterFailures();
+  if (wipeAfterFailures !== null && failedAttempts >= wipeAfterFailures) {
+    await wipeAfterTooManyFailures(failedAttempts);
+  }
+}
+
+/**
+ * Clears the failed attempt counter after a successful PIN entry
+ */
+export async function resetFailedPinAttempts(): Promise<void> {
+  await queueAttemptUpdate(async () => {
+    const record = await loadAttemptRecord();
+    if (record.failedAttempts === 0 && record.lockedUntil === null) {
+      return;
+    }
+
+    await saveValue(PIN_ATTEMPTS_KEY, JSON.stringify(EMPTY_RECORD));
+  });
+}
+
+/**
+ * Erases all wallet data and returns the app to first-run setup
+ */
+async function wipeAfterTooManyFailures(failedAttempts: number): Promise<void> {
+  console.warn(
+    `PIN entered incorrectly ${failedAttempts} times - erasing all wallet data`,
+  );
+
+  try {
+    await resetAppToCleanState();
+
+    // AsyncStorage is cleared, but the in-memory config still holds the
+    // profiles and would be persisted again
+    appConfig.profiles.set({});
+    appConfig.activeAccountId.set(null);
+    await deactivateDuressMode();
+
+    refreshSetupStatus();
+  } catch (error) {
+    reportErrorAuto("pinAttempts.wipeAfterTooManyFailures", error, {
+      failedAttempts,
+    });
+  }
+}
+
+/**
+ * Formats the time left in a lockout as m:ss (or h:mm:ss)
+ */
+export function formatLockoutRemaining(remainingMs: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(remainingMs / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
+
+/**
+ * Builds the message shown after a rejected PIN, covering lockouts and the
+ * remaining attempts before a wipe
+ *
+ * @param label - User-facing credential name ("PIN" or "passphrase")
+ * @returns Promise resolving to the message
+ */
+export async function getPinFailureMessage(label: string): Promise<string> {
+  const status = await getPinLockoutStatus();
+
+  if (status.lockedUntil !== null) {
+    return `Too many failed attempts. Try again in ${formatLockoutRemaining(
+      status.lockedUntil - Date.now(),
+    )}.`;
+  }
+
+  if (status.attemptsBeforeWipe !== null) {
+    return `Incorrect ${label}. ${status.attemptsBeforeWipe} attempt${
+      status.attemptsBeforeWipe === 1 ? "" : "s"
+    } left before all wallet data is erased.`;
+  }
+
+  return `Incorrect ${label}. Please try again.`;
+}
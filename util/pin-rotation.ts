@@ -3,16 +3,42 @@
  *
  * Handles the complete PIN rotation workflow, including re-encrypting
  * all account data with the new PIN.
+ *
+ * Rotation is journaled so an interrupted rotation never leaves data
+ * encrypted under two different PINs:
+ *
+ * 1. Staging: a journal with the new PIN hash is written, and every account
+ *    is re-encrypted into a staging key. The live data and PIN are untouched,
+ *    so any failure simply discards the staged copies.
+ * 2. Committing: once every account has been staged, the journal moves to the
+ *    commit phase. Staged copies replace the live data and the new PIN hash
+ *    is saved last. Every step can be repeated safely.
+ *
+ * On launch, `recoverInterruptedPinRotation` rolls back a journal left in the
+ * staging phase and finishes one left in the commit phase.
  */
 
 import { appConfig } from "./app-config-store";
-import { getAllKeys, getValue, saveValue } from "./secure-store";
+import { deleteValue, getAllKeys, getValue, saveValue } from "./secure-store";
 import {
   secureDecryptWithPin,
   secureEncryptWithPin,
   hashPin,
+  type CredentialType,
+  type HashedPin,
 } from "./pin-security";
 import { reportErrorAuto } from "./error-utils";
+import { recordAuditEvent } from "./security-audit";
+import {
+  getDuressRecord,
+  isAccountOwnedByCurrentPin,
+  isDuressModeActive,
+  saveDuressRecord,
+} from "./duress";
+import { lockUnlockSession } from "./unlock-session";
+
+const ROTATION_JOURNAL_KEY = "pin_rotation_journal";
+const STAGED_KEY_PREFIX = "pin_rotation_staged_";
 
 interface AccountWithStoredData {
   accountId: string;
@@ -21,11 +47,22 @@ interface AccountWithStoredData {
   accountAddress: string;
 }
 
+/**
+ * Phase of a PIN rotation:
+ * - staging: re-encrypting accounts into staging keys
+ * - committing: replacing live data with the staged copies
+ * - complete: the new PIN is active
+ * - rolled_back: the rotation was abandoned and the old PIN is still active
+ */
+type PinRotationPhase = "staging" | "committing" | "complete" | "rolled_back";
+
 export interface PinRotationProgress {
   total: number;
   completed: number;
   current?: string; // current account being processed
   failed: string[]; // list of account IDs that failed
+  phase: PinRotationPhase;
+  recovered?: boolean; // finished or rolled back on launch after an interruption
 }
 
 interface PinRotationResult {
@@ -35,6 +72,33 @@ interface PinRotationResult {
   error?: string;
 }
 
+/**
+ * Persisted record of an in-flight rotation
+ */
+type PinRotationJournal = {
+  phase: "staging" | "committing";
+  startedAt: number;
+  accountIds: string[];
+  newPinHash: HashedPin;
+  duress: boolean; // whether the duress PIN is being rotated
+};
+
+// Outcome of the launch recovery, shown once by the PIN management screen
+let recoveredRotation: PinRotationProgress | null = null;
+
+function stagedKey(accountId: string): string {
+  return `${STAGED_KEY_PREFIX}${accountId}`;
+}
+
+async function getRotationJournal(): Promise<PinRotationJournal | null> {
+  const stored = await getValue(ROTATION_JOURNAL_KEY);
+  return stored ? (JSON.parse(stored) as PinRotationJournal) : null;
+}
+
+async function saveRotationJournal(journal: PinRotationJournal): Promise<void> {
+  await saveValue(ROTATION_JOURNAL_KEY, JSON.stringify(journal));
+}
+
 /**
  * Gets all accounts that have stored encrypted data in secure storage
  */
@@ -42,23 +106,27 @@ export async function getAllAccountsWithStoredData(): Promise<
   AccountWithStoredData[]
 > {
   try {
-    // Get all keys from secure storage
-    const allKeys = await getAllKeys();
-    console.log("All storage keys:", allKeys);
-
-    // Filter for account keys (pattern: account_${accountId})
-    const accountKeys = allKeys.filter((key) => key.startsWith("account_"));
-    console.log("Filtered account keys:", accountKeys);
+    // Get account keys (pattern: account_${accountId}) from secure storage
+    const accountKeys = await getAllKeys("account");
+    console.log("Account storage keys:", accountKeys);
 
     // Extract account IDs and match with profile data
     const accountsWithData: AccountWithStoredData[] = [];
     const profiles = appConfig.profiles.get();
     console.log("Current profiles:", profiles);
 
+    // Only secrets encrypted with the PIN being rotated: the duress PIN's
+    // are listed in its record, everything else belongs to the real PIN
+    const duressRecord = await getDuressRecord();
+
     for (const key of accountKeys) {
       const accountId = key.replace("account_", "");
       console.log(`Processing account key: ${key}, extracted ID: ${accountId}`);
 
+      if (!isAccountOwnedByCurrentPin(accountId, duressRecord)) {
+        continue;
+      }
+
       // Find this account in the profiles
       for (const [profileName, profile] of Object.entries(profiles)) {
         console.log(`Checking profile ${profileName}:`, profile.accounts);
@@ -86,80 +154,110 @@ export async function getAllAccountsWithStoredData(): Promise<
 }
 
 /**
- * Rotates the PIN and re-encrypts all account data
+ * Rotates the PIN and re-encrypts all account data. The new PIN only takes
+ * effect if every account was re-encrypted; otherwise nothing changes.
  */
 export async function rotatePinAndReencryptData(
   oldPin: string,
   newPin: string,
+  newCredentialType: CredentialType,
   onProgress?: (progress: PinRotationProgress) => void,
 ): Promise<PinRotationResult> {
-  try {
-    // First, get all accounts with stored data
-    const accountsWithData = await getAllAccountsWithStoredData();
+  let journal: PinRotationJournal | null = null;
 
-    if (accountsWithData.length === 0) {
-      // No data to re-encrypt, just update the PIN
-      const hashedPin = await hashPin(newPin);
-      await saveValue("user_pin", JSON.stringify(hashedPin));
+  // Session keys belong to the old PIN
+  lockUnlockSession();
 
+  try {
+    if (await getRotationJournal()) {
       return {
-        success: true,
+        success: false,
         rotatedCount: 0,
         failedAccounts: [],
+        error: "A previous PIN change has not finished. Restart the app first.",
       };
     }
 
+    // First, get all accounts with stored data
+    const accountsWithData = await getAllAccountsWithStoredData();
+
+    journal = {
+      phase: "staging",
+      startedAt: Date.now(),
+      accountIds: accountsWithData.map((account) => account.accountId),
+      newPinHash: await hashPin(newPin, newCredentialType),
+      duress: isDuressModeActive(),
+    };
+    await saveRotationJournal(journal);
+
     const progress: PinRotationProgress = {
       total: accountsWithData.length,
       completed: 0,
       failed: [],
+      phase: "staging",
     };
 
     // Report initial progress
-    onProgress?.(progress);
+    onProgress?.({ ...progress });
 
-    // Re-encrypt each account's data
+    // Re-encrypt each account's data into its staging key
     for (const account of accountsWithData) {
-      try {
-        progress.current = account.accountAddress;
-        onProgress?.(progress);
-
-        const success = await reencryptAccountData(
-          account.accountId,
-          oldPin,
-          newPin,
-        );
-
-        if (success) {
-          progress.completed++;
-        } else {
-          progress.failed.push(account.accountId);
-        }
+      progress.current = account.accountAddress;
+      onProgress?.({ ...progress });
+
+      const success = await stageReencryptedAccountData(
+        account.accountId,
+        oldPin,
+        newPin,
+      );
 
-        onProgress?.(progress);
-      } catch (error) {
-        console.error(
-          `Failed to re-encrypt data for account ${account.accountId}:`,
-          error,
-        );
+      if (success) {
+        progress.completed++;
+      } else {
         progress.failed.push(account.accountId);
-        onProgress?.(progress);
       }
+
+      onProgress?.({ ...progress });
     }
 
-    // Update the stored PIN hash with the new PIN
-    const hashedPin = await hashPin(newPin);
-    await saveValue("user_pin", JSON.stringify(hashedPin));
+    if (progress.failed.length > 0) {
+      await rollBackRotation(journal);
+      onProgress?.({ ...progress, current: undefined, phase: "rolled_back" });
+
+      return {
+        success: false,
+        rotatedCount: 0,
+        failedAccounts: progress.failed,
+        error: "The PIN was not changed.",
+      };
+    }
+
+    journal = { ...journal, phase: "committing" };
+    await saveRotationJournal(journal);
+    onProgress?.({ ...progress, current: undefined, phase: "committing" });
+
+    await commitRotation(journal);
+    onProgress?.({ ...progress, current: undefined, phase: "complete" });
 
     return {
-      success: progress.failed.length === 0,
+      success: true,
       rotatedCount: progress.completed,
-      failedAccounts: progress.failed,
+      failedAccounts: [],
     };
   } catch (error) {
     console.error("Error during PIN rotation:", error);
     reportErrorAuto("rotatePinAndReencryptData", error);
 
+    // Abandon the rotation unless the commit was already under way, in
+    // which case the next launch finishes it
+    if (journal?.phase === "staging") {
+      try {
+        await rollBackRotation(journal);
+      } catch (rollbackError) {
+        reportErrorAuto("rotatePinAndReencryptData.rollback", rollbackError);
+      }
+    }
+
     return {
       success: false,
       rotatedCount: 0,
@@ -170,9 +268,107 @@ export async function rotatePinAndReencryptData(
 }
 
 /**
- * Re-encrypts a single account's data with the new PIN
+ * Replaces the live data with the staged copies, then saves the new PIN hash
+ * and removes the journal. Safe to repeat after an interruption.
+ */
+async function commitRotation(journal: PinRotationJournal): Promise<void> {
+  for (const accountId of journal.accountIds) {
+    const staged = await getValue(stagedKey(accountId));
+    // A missing staged copy was already committed
+    if (staged) {
+      await saveValue(`account_${accountId}`, staged);
+      await deleteValue(stagedKey(accountId));
+    }
+  }
+
+  await saveRotatedPinHash(journal.newPinHash, journal.duress);
+  await deleteValue(ROTATION_JOURNAL_KEY);
+
+  recordAuditEvent("pin_changed", {
+    reencryptedAccounts: journal.accountIds.length,
+  });
+}
+
+/**
+ * Discards the staged copies and the journal. The live data and PIN were
+ * never touched during staging.
+ */
+async function rollBackRotation(journal: PinRotationJournal): Promise<void> {
+  for (const accountId of journal.accountIds) {
+    await deleteValue(stagedKey(accountId));
+  }
+  await deleteValue(ROTATION_JOURNAL_KEY);
+}
+
+/**
+ * Resumes or rolls back a rotation interrupted by the app being closed.
+ * Called during app initialization, before the PIN is used.
+ */
+export async function recoverInterruptedPinRotation(): Promise<void> {
+  try {
+    const journal = await getRotationJournal();
+    if (!journal) {
+      return;
+    }
+
+    const total = journal.accountIds.length;
+    if (journal.phase === "committing") {
+      console.log("Finishing interrupted PIN rotation");
+      await commitRotation(journal);
+      recoveredRotation = {
+        total,
+        completed: total,
+        failed: [],
+        phase: "complete",
+        recovered: true,
+      };
+    } else {
+      console.log("Rolling back interrupted PIN rotation");
+      await rollBackRotation(journal);
+      recoveredRotation = {
+        total,
+        completed: 0,
+        failed: [],
+        phase: "rolled_back",
+        recovered: true,
+      };
+    }
+  } catch (error) {
+    console.error("Error recovering interrupted PIN rotation:", error);
+    reportErrorAuto("recoverInterruptedPinRotation", error);
+  }
+}
+
+/**
+ * Returns the outcome of the launch recovery once, or null if no rotation
+ * was interrupted
+ */
+export function takeRecoveredPinRotation(): PinRotationProgress | null {
+  const recovered = recoveredRotation;
+  recoveredRotation = null;
+  return recovered;
+}
+
+/**
+ * Stores the hash of the new PIN. When the duress PIN is being rotated, the
+ * real PIN record is left untouched.
+ */
+async function saveRotatedPinHash(
+  hashedPin: HashedPin,
+  duress: boolean,
+): Promise<void> {
+  const duressRecord = duress ? await getDuressRecord() : null;
+  if (duressRecord) {
+    await saveDuressRecord({ ...duressRecord, pin: hashedPin });
+  } else {
+    await saveValue("user_pin", JSON.stringify(hashedPin));
+  }
+}
+
+/**
+ * Re-encrypts a single account's data with the new PIN into its staging key
  */
-async function reencryptAccountData(
+async function stageReencryptedAccountData(
   accountId: string,
   oldPin: string,
   newPin: string,
@@ -208,14 +404,14 @@ async function reencryptAccountData(
       return false;
     }
 
-    // Save the re-encrypted data
-    await saveValue(storageKey, newEncryptedData);
+    // Stage the re-encrypted data until every account has succeeded
+    await saveValue(stagedKey(accountId), newEncryptedData);
 
-    console.log(`Successfully re-encrypted data for account ${accountId}`);
+    console.log(`Staged re-encrypted data for account ${accountId}`);
     return true;
   } catch (error) {
     console.error(`Error re-encrypting account ${accountId}:`, error);
-    reportErrorAuto("reencryptAccountData", error, { accountId });
+    reportErrorAuto("stageReencryptedAccountData", error, { accountId });
     return false;
   }
 }
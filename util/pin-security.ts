@@ -5,10 +5,11 @@
  * It balances security and cross-platform compatibility within the existing toolchain.
  *
  * Current approach:
- * - Uses JavaScript cryptographic libraries (@noble/hashes) for PBKDF2 implementation
- *   as Expo doesn't provide direct OS-level keychain access for cryptographic operations
+ * - Uses JavaScript cryptographic libraries (@noble/hashes) for the KDFs (scrypt,
+ *   Argon2id and legacy PBKDF2, see kdf.ts) as Expo doesn't provide direct OS-level
+ *   keychain access for cryptographic operations
  * - Implements best practices within JS constraints (constant-time comparisons,
- *   proper key derivation with salt and iterations)
+ *   memory-hard key derivation with salt and device-calibrated cost)
  *
  * Security considerations:
  * - No sensitive data is ever stored in plaintext - all secrets are encrypted
@@ -25,7 +26,7 @@
  *   bypass most client-side protections regardless of implementation details
  *
  * Known limitations:
- * - Cryptographic operations (PBKDF2, hash comparisons) happen in JavaScript
+ * - Cryptographic operations (key derivation, hash comparisons) happen in JavaScript
  *   rather than at the OS level or in native code
  * - Memory management in JavaScript is not as controllable as in lower-level languages
  * - JavaScript strings are immutable and may leave copies in memory until garbage collection
@@ -37,62 +38,161 @@
  *
  * @module pin_security
  */
-import { pbkdf2 } from "@noble/hashes/pbkdf2";
-import { sha256 } from "@noble/hashes/sha2";
 import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
 import { getRandomBytes } from "./random";
+import { appConfig, getAccountsSharingSecret } from "./app-config-store";
 import { constantTimeEqual } from "./security-utils";
-import { getValue } from "./secure-store";
+import { getAllKeys, getValue, saveValue } from "./secure-store";
+import {
+  KdfId,
+  deriveKey,
+  getPreferredKdfParams,
+  kdfParamsEqual,
+  type KdfParams,
+} from "./kdf";
 import {
   encryptWithPin as cryptoEncryptWithPin,
   decryptWithPin as cryptoDecryptWithPin,
+  isCurrentEnvelope,
   stringToUint8Array,
   uint8ArrayToBase64,
   base64ToUint8Array,
 } from "./crypto";
+import {
+  isPinEntryLocked,
+  recordFailedPinAttempt,
+  resetFailedPinAttempts,
+} from "./pin-attempts";
+import {
+  activateDuressMode,
+  deactivateDuressMode,
+  deleteDuressRecord,
+  getDuressOwnedAccounts,
+  getDuressRecord,
+  isAccountOwnedByCurrentPin,
+  saveDuressRecord,
+} from "./duress";
+
+/**
+ * The kind of credential protecting the wallet: a 6-digit PIN or a longer
+ * alphanumeric passphrase. Both are handled identically by the crypto layer.
+ */
+export type CredentialType = "pin" | "passphrase";
+
+// Passphrase length bounds
+export const MIN_PASSPHRASE_LENGTH = 12;
+const MAX_PASSPHRASE_LENGTH = 128;
 
 // Define a custom type for the hashed PIN
-type HashedPin = {
+export type HashedPin = {
   salt: string;
   hash: string;
-  iterations: number;
+  type?: CredentialType; // Records without a type are 6-digit PINs
+  kdf?: KdfParams;
+  iterations?: number; // Legacy PBKDF2-only records predate the kdf field
 };
 
+/**
+ * Resolves the KDF parameters a hashed PIN was created with
+ */
+function getHashedPinParams(hashedPin: HashedPin): KdfParams {
+  return (
+    hashedPin.kdf ?? {
+      kdf: KdfId.PBKDF2_SHA256,
+      iterations: hashedPin.iterations ?? 10000,
+    }
+  );
+}
+
 /**
  * Validates a PIN format.
  * @param pin The PIN to validate
  * @returns true if the PIN is valid (6 digits), false otherwise
  */
-export function validatePin(pin: string): boolean {
+function validatePin(pin: string): boolean {
   // PIN must be exactly 6 digits
   return /^\d{6}$/.test(pin);
 }
 
 /**
- * Hashes a PIN with PBKDF2 using salt and multiple iterations for security.
- * PBKDF2 is specifically designed for password hashing and is more resistant to
- * brute force attacks than simple hash algorithms.
+ * Validates a passphrase format.
+ * Strength is checked separately with estimatePassphraseStrength.
+ * @param passphrase The passphrase to validate
+ * @returns true if the passphrase length is within bounds, false otherwise
+ */
+function validatePassphrase(passphrase: string): boolean {
+  return (
+    passphrase.length >= MIN_PASSPHRASE_LENGTH &&
+    passphrase.length <= MAX_PASSPHRASE_LENGTH
+  );
+}
+
+/**
+ * Validates a credential according to its type
+ * @param credential The PIN or passphrase to validate
+ * @param type The credential type
+ * @returns true if the credential has a valid format, false otherwise
+ */
+export function validateCredential(
+  credential: string,
+  type: CredentialType,
+): boolean {
+  return type === "passphrase"
+    ? validatePassphrase(credential)
+    : validatePin(credential);
+}
+
+/**
+ * Returns the user-facing name of a credential type
+ */
+export function getCredentialLabel(type: CredentialType): string {
+  return type === "passphrase" ? "passphrase" : "PIN";
+}
+
+/**
+ * Reads which credential type protects the wallet
+ * @returns Promise resolving to the stored credential type ("pin" if none is stored)
+ */
+export async function getCredentialType(): Promise<CredentialType> {
+  try {
+    const savedPinJson = await getValue("user_pin");
+    if (!savedPinJson) {
+      return "pin";
+    }
+    const storedHashedPin: HashedPin = JSON.parse(savedPinJson);
+    return storedHashedPin.type ?? "pin";
+  } catch (error) {
+    console.error("Error reading credential type:", error);
+    return "pin";
+  }
+}
+
+/**
+ * Hashes a PIN with a password-hashing KDF using a random salt.
+ * By default the device's preferred (calibrated) KDF parameters are used,
+ * which are memory-hard unless the user explicitly chose PBKDF2.
  *
- * @param pin The PIN to hash
- * @param iterations Number of PBKDF2 iterations for key stretching (default: 10000)
- * @returns The hashed PIN with salt and iteration info
+ * @param pin The PIN or passphrase to hash
+ * @param type Which credential type this is (default: "pin")
+ * @param params KDF parameters to use (default: the preferred parameters)
+ * @returns The hashed PIN with salt, credential type and KDF parameters
  */
 export async function hashPin(
   pin: string,
-  iterations = 10000,
+  type: CredentialType = "pin",
+  params?: KdfParams,
 ): Promise<HashedPin> {
   try {
+    const kdfParams = params ?? (await getPreferredKdfParams());
+
     // Generate a random salt (16 bytes)
     const saltBytes = getRandomBytes(16);
     const salt = bytesToHex(saltBytes);
 
-    // Use Noble's PBKDF2 implementation to derive a key from the PIN
+    // Derive a key from the PIN
     const encoder = new TextEncoder();
     const pinBytes = encoder.encode(pin);
-    const derivedKey = pbkdf2(sha256, pinBytes, hexToBytes(salt), {
-      c: iterations,
-      dkLen: 32, // 32 bytes = 256 bits
-    });
+    const derivedKey = await deriveKey(pinBytes, saltBytes, kdfParams, 32); // 32 bytes = 256 bits
 
     // Convert to hex string
     const hash = bytesToHex(derivedKey);
@@ -100,7 +200,8 @@ export async function hashPin(
     return {
       salt,
       hash,
-      iterations,
+      type,
+      kdf: kdfParams,
     };
   } catch (error) {
     console.error("Error hashing PIN:", error);
@@ -119,17 +220,14 @@ async function comparePins(
   inputPin: string,
 ): Promise<boolean> {
   try {
-    // Generate hash from input PIN using the same salt and iterations
+    // Generate hash from input PIN using the same salt and KDF parameters
     const encoder = new TextEncoder();
     const pinBytes = encoder.encode(inputPin);
-    const derivedKey = pbkdf2(
-      sha256,
+    const derivedKey = await deriveKey(
       pinBytes,
       hexToBytes(storedHashedPin.salt),
-      {
-        c: storedHashedPin.iterations,
-        dkLen: 32, // 32 bytes = 256 bits
-      },
+      getHashedPinParams(storedHashedPin),
+      32, // 32 bytes = 256 bits
     );
 
     const hash = bytesToHex(derivedKey);
@@ -166,7 +264,9 @@ async function processWithPin<T>(
 }
 
 /**
- * Verifies a PIN against the stored hashed PIN
+ * Verifies a PIN against the stored hashed PIN.
+ * Failed attempts are counted by the attempt throttle (see pin-attempts.ts);
+ * while a lockout is running every PIN is rejected without being checked.
  * @param pin - The PIN to verify (will be cleared after use)
  * @returns Promise resolving to boolean indicating if PIN is valid
  */
@@ -179,11 +279,50 @@ export async function verifyStoredPin(pin: string): Promise<boolean> {
         return false;
       }
 
+      // Refuse to check the PIN at all while a lockout is running
+      if (await isPinEntryLocked()) {
+        console.warn("PIN entry is locked after too many failed attempts");
+        return false;
+      }
+
       // Parse the stored PIN from JSON
       const storedHashedPin: HashedPin = JSON.parse(savedPinJson);
 
       // Verify PIN
-      return await comparePins(storedHashedPin, securePin);
+      const isValid = await comparePins(storedHashedPin, securePin);
+
+      if (!isValid) {
+        // The duress PIN is accepted like the real one, but switches the
+        // app to the decoy profile
+        const duressRecord = await getDuressRecord();
+        if (duressRecord && (await comparePins(duressRecord.pin, securePin))) {
+          await resetFailedPinAttempts();
+          await activateDuressMode(duressRecord);
+          return true;
+        }
+
+        await recordFailedPinAttempt();
+        return false;
+      }
+
+      await resetFailedPinAttempts();
+      await deactivateDuressMode();
+
+      // Upgrade the PIN hash and any records still in an outdated format
+      // while we have the correct PIN at hand
+      const preferredParams = await getPreferredKdfParams();
+      if (
+        !kdfParamsEqual(getHashedPinParams(storedHashedPin), preferredParams)
+      ) {
+        await upgradeStoredPinHash(
+          securePin,
+          storedHashedPin.type ?? "pin",
+          preferredParams,
+        );
+      }
+      await migrateEncryptedRecords(securePin, preferredParams);
+
+      return true;
     } catch (error) {
       console.error(
         "PIN verification error:",
@@ -195,6 +334,93 @@ export async function verifyStoredPin(pin: string): Promise<boolean> {
   });
 }
 
+/**
+ * Re-hashes the stored PIN with the preferred KDF parameters
+ *
+ * @param pin - The verified PIN
+ * @param type - The credential type of the stored record
+ * @param params - The preferred KDF parameters
+ */
+async function upgradeStoredPinHash(
+  pin: string,
+  type: CredentialType,
+  params: KdfParams,
+): Promise<void> {
+  try {
+    const hashedPin = await hashPin(pin, type, params);
+    await saveValue("user_pin", JSON.stringify(hashedPin));
+    console.log("Upgraded stored PIN hash to the preferred KDF");
+  } catch (error) {
+    // Keep the old hash; the upgrade is retried on the next PIN entry
+    console.error("Error upgrading stored PIN hash:", error);
+  }
+}
+
+/**
+ * KDF parameters of the last migration pass that upgraded every stored
+ * record, so the storage scan is skipped until the preferred parameters change
+ */
+let migratedWithParams: KdfParams | null = null;
+
+/**
+ * Re-encrypts every stored account record that is not yet in the current
+ * envelope format (legacy fixed-salt records or outdated KDF parameters).
+ * Failures are logged and left for the next PIN entry to retry.
+ *
+ * @param pin - The verified PIN
+ * @param params - The preferred KDF parameters
+ */
+async function migrateEncryptedRecords(
+  pin: string,
+  params: KdfParams,
+): Promise<void> {
+  if (migratedWithParams && kdfParamsEqual(migratedWithParams, params)) {
+    return;
+  }
+
+  let allMigrated = true;
+  // Records encrypted with the other PIN (real or duress) are left alone
+  const duressRecord = await getDuressRecord();
+  const accountKeys = (await getAllKeys("account")).filter((key) =>
+    isAccountOwnedByCurrentPin(key.replace("account_", ""), duressRecord),
+  );
+
+  for (const key of accountKeys) {
+    try {
+      const encryptedData = await getValue(key);
+      if (
+        !encryptedData ||
+        isCurrentEnvelope(base64ToUint8Array(encryptedData), params)
+      ) {
+        continue;
+      }
+
+      const decryptResult = await secureDecryptWithPin(encryptedData, pin);
+      if (!decryptResult || !decryptResult.verified) {
+        console.warn(`Unable to migrate encrypted record ${key}`);
+        allMigrated = false;
+        continue;
+      }
+
+      const reencrypted = await secureEncryptWithPin(decryptResult.value, pin);
+      if (!reencrypted) {
+        allMigrated = false;
+        continue;
+      }
+
+      await saveValue(key, reencrypted);
+      console.log(`Migrated encrypted record ${key} to the current format`);
+    } catch (error) {
+      console.error(`Error migrating encrypted record ${key}:`, error);
+      allMigrated = false;
+    }
+  }
+
+  if (allMigrated) {
+    migratedWithParams = params;
+  }
+}
+
 /**
  * Encrypts data with PIN and returns result without storing PIN in memory
  * @param data - The data to encrypt
@@ -212,7 +438,11 @@ export async function secureEncryptWithPin(
       const pinBytes = stringToUint8Array(securePin);
 
       // Encrypt the data using the crypto module implementation
-      const encryptedBytes = await cryptoEncryptWithPin(dataBytes, pinBytes);
+      const encryptedBytes = await cryptoEncryptWithPin(
+        dataBytes,
+        pinBytes,
+        await getPreferredKdfParams(),
+      );
 
       // Convert to base64 for storage
       return uint8ArrayToBase64(encryptedBytes);
@@ -263,3 +493,183 @@ export async function secureDecryptWithPin(
     }
   });
 }
+
+/**
+ * Secrets moved from one PIN to another, with the records they replaced
+ */
+type MovedSecrets = {
+  accountIds: string[];
+  previous: Map<string, string>;
+};
+
+/**
+ * Re-encrypts the stored secrets of the given accounts from one PIN to
+ * another, all or none. Every secret is re-encrypted before any is saved, and
+ * if saving one fails the records already saved are restored.
+ *
+ * @param accountIds - Accounts whose secrets to move
+ * @param fromPin - The PIN the secrets are currently encrypted with
+ * @param toPin - The PIN to encrypt them with
+ * @returns Promise resolving to the moved secrets, or null if any could not
+ * be moved, in which case nothing changed
+ */
+async function moveAccountSecrets(
+  accountIds: string[],
+  fromPin: string,
+  toPin: string,
+): Promise<MovedSecrets | null> {
+  const previous = new Map<string, string>();
+  const reencrypted = new Map<string, string>();
+
+  for (const accountId of accountIds) {
+    const encryptedData = await getValue(`account_${accountId}`);
+    if (!encryptedData) {
+      continue;
+    }
+
+    const decryptResult = await secureDecryptWithPin(encryptedData, fromPin);
+    if (!decryptResult || !decryptResult.verified) {
+      console.warn(`Unable to move secret of account ${accountId}`);
+      return null;
+    }
+
+    const encrypted = await secureEncryptWithPin(decryptResult.value, toPin);
+    if (!encrypted) {
+      return null;
+    }
+
+    previous.set(accountId, encryptedData);
+    reencrypted.set(accountId, encrypted);
+  }
+
+  const moved = { accountIds: [...reencrypted.keys()], previous };
+  try {
+    for (const [accountId, encrypted] of reencrypted) {
+      await saveValue(`account_${accountId}`, encrypted);
+    }
+  } catch (error) {
+    console.error("Failed to save moved secrets, restoring them:", error);
+    await restoreAccountSecrets(moved);
+    return null;
+  }
+  return moved;
+}
+
+/**
+ * Puts back the records moveAccountSecrets replaced
+ */
+async function restoreAccountSecrets(moved: MovedSecrets): Promise<void> {
+  for (const [accountId, encrypted] of moved.previous) {
+    await saveValue(`account_${accountId}`, encrypted);
+  }
+}
+
+/**
+ * Sets up a duress PIN that unlocks only the given decoy profile.
+ * Secrets already stored for decoy accounts are re-encrypted with the
+ * duress PIN so they can be revealed in duress mode, except those that
+ * accounts in other profiles derive from as well.
+ *
+ * @param realPin - The current PIN, to authorize the change
+ * @param duressPin - The new duress PIN (same credential type as the real one)
+ * @param decoyProfile - Name of the profile shown in duress mode
+ * @returns Promise resolving to an error message, or null on success
+ */
+export async function setupDuressPin(
+  realPin: string,
+  duressPin: string,
+  decoyProfile: string,
+): Promise<string | null> {
+  try {
+    if (await getDuressRecord()) {
+      return "A duress PIN is already set. Remove it first.";
+    }
+
+    if (!(await verifyStoredPin(realPin))) {
+      return "Current PIN is incorrect";
+    }
+
+    if (realPin === duressPin) {
+      return "The duress PIN must be different from your PIN";
+    }
+
+    const decoyAccountIds =
+      appConfig.profiles[decoyProfile].accounts
+        .peek()
+        ?.map((account) => account.id) ?? [];
+    const movableIds = decoyAccountIds.filter((accountId) =>
+      getAccountsSharingSecret(accountId).every((account) =>
+        decoyAccountIds.includes(account.id),
+      ),
+    );
+    const moved = await moveAccountSecrets(movableIds, realPin, duressPin);
+    if (!moved) {
+      return "Failed to re-encrypt the decoy profile's secrets";
+    }
+
+    try {
+      await saveDuressRecord({
+        pin: await hashPin(duressPin, await getCredentialType()),
+        decoyProfile,
+        ownedAccounts: moved.accountIds,
+      });
+    } catch (error) {
+      // Without the record the duress PIN is unknown, so its secrets go back
+      await restoreAccountSecrets(moved);
+      throw error;
+    }
+    return null;
+  } catch (error) {
+    console.error("Error setting up duress PIN:", error);
+    return "Failed to set up the duress PIN";
+  }
+}
+
+/**
+ * Removes the duress PIN. Secrets encrypted with it are moved back under
+ * the real PIN, which is why the duress PIN is needed as well.
+ *
+ * @param realPin - The current PIN, to authorize the change
+ * @param duressPin - The duress PIN being removed
+ * @returns Promise resolving to an error message, or null on success
+ */
+export async function removeDuressPin(
+  realPin: string,
+  duressPin: string,
+): Promise<string | null> {
+  try {
+    const duressRecord = await getDuressRecord();
+    if (!duressRecord) {
+      return null;
+    }
+
+    if (!(await verifyStoredPin(realPin))) {
+      return "Current PIN is incorrect";
+    }
+
+    if (!(await comparePins(duressRecord.pin, duressPin))) {
+      return "Duress PIN is incorrect";
+    }
+
+    const moved = await moveAccountSecrets(
+      getDuressOwnedAccounts(duressRecord),
+      duressPin,
+      realPin,
+    );
+    if (!moved) {
+      return "Failed to re-encrypt the decoy profile's secrets";
+    }
+
+    try {
+      await deleteDuressRecord();
+    } catch (error) {
+      // The record still lists the secrets as the duress PIN's
+      await restoreAccountSecrets(moved);
+      throw error;
+    }
+    return null;
+  } catch (error) {
+    console.error("Error removing duress PIN:", error);
+    return "Failed to remove the duress PIN";
+  }
+}
@@ -1,65 +1,334 @@
+import { authenticateAsync } from "expo-local-authentication";
 import { IS_PRODUCTION } from "./environment";
 import {
+  appConfig,
   setAccountRevealSchedule,
   getAccountRevealSchedule,
   clearAccountRevealSchedule,
   cleanupExpiredRevealSchedules,
+  getAccountsSharingSecret,
+  getSecretAccountId,
+  setAccountRevealPolicy,
+  type AccountState,
+  type PendingRevealPolicy,
+  type RevealPolicy,
   type RevealSchedule,
 } from "./app-config-store";
+import { recordAuditEvent } from "./security-audit";
+import { getValue, saveValue } from "./secure-store";
+import {
+  isRevealPolicyAuthentic,
+  isRevealScheduleAuthentic,
+  isRevealScheduleKeyLoaded,
+  loadRevealScheduleKey,
+  signRevealPolicy,
+  signRevealSchedule,
+} from "./reveal-integrity";
+import {
+  checkDeviceClock,
+  getDelayStartTime,
+  getTrustedNow,
+  initializeTrustedTime,
+  onClockChange,
+  saveTrustedTimeMark,
+  syncTrustedTime,
+} from "./trusted-time";
 
 // Build-time constants for reveal timing based on environment
 const WAITING_PERIOD_MS = IS_PRODUCTION
   ? 24 * 60 * 60 * 1000 // 24 hours in production
   : 30 * 1000; // 30 seconds in development/preview
 
+const HOUR_MS = 60 * 60 * 1000;
+
+// Set once the policies saved before policies were signed have been signed
+const POLICIES_SIGNED_STORAGE_KEY = "reveal_policies_signed";
+
+// Policy of accounts that never set their own
+const DEFAULT_REVEAL_POLICY: RevealPolicy = {
+  waiting_period_ms: WAITING_PERIOD_MS,
+  reveal_window_ms: 2 * 60 * 1000, // 2 minutes to reveal after available
+  require_device_auth: false,
+};
+
+// Choices offered per account; the build default is always one of them
+export const REVEAL_WAITING_PERIOD_OPTIONS_MS = [
+  ...new Set([0, WAITING_PERIOD_MS, HOUR_MS, 24 * HOUR_MS, 72 * HOUR_MS]),
+].sort((a, b) => a - b);
+export const REVEAL_WINDOW_OPTIONS_MS = [1, 2, 5, 10].map(
+  (minutes) => minutes * 60 * 1000,
+);
+
+// Replaces a policy that fails its integrity check. Device authentication is
+// left off, as not every device can provide it.
+const STRICTEST_REVEAL_POLICY: RevealPolicy = {
+  waiting_period_ms: Math.max(...REVEAL_WAITING_PERIOD_OPTIONS_MS),
+  reveal_window_ms: Math.min(...REVEAL_WINDOW_OPTIONS_MS),
+  require_device_auth: false,
+};
+
 /**
- * Formats the waiting period duration for reveal feature based on current environment
- * @returns A human-readable string describing the waiting period
+ * Formats a reveal duration
+ *
+ * @param durationMs - The duration in milliseconds
+ * @returns A human-readable string such as "24 hours"
  */
-export function formatWaitingPeriod(): string {
-  const waitingPeriodMs = WAITING_PERIOD_MS;
-
-  if (waitingPeriodMs >= 24 * 60 * 60 * 1000) {
-    const hours = Math.round(waitingPeriodMs / (60 * 60 * 1000));
+export function formatRevealDuration(durationMs: number): string {
+  if (durationMs >= 24 * HOUR_MS) {
+    const hours = Math.round(durationMs / HOUR_MS);
     return `${hours} hour${hours > 1 ? "s" : ""}`;
-  } else if (waitingPeriodMs >= 60 * 1000) {
-    const minutes = Math.round(waitingPeriodMs / (60 * 1000));
+  } else if (durationMs >= 60 * 1000) {
+    const minutes = Math.round(durationMs / (60 * 1000));
     return `${minutes} minute${minutes > 1 ? "s" : ""}`;
   } else {
-    const seconds = Math.round(waitingPeriodMs / 1000);
-    return `${seconds} second${seconds > 1 ? "s" : ""}`;
+    const seconds = Math.round(durationMs / 1000);
+    return `${seconds} second${seconds !== 1 ? "s" : ""}`;
   }
 }
 
-// Configuration for the reveal timing windows
-export const REVEAL_CONFIG = {
-  waitingPeriodMs: WAITING_PERIOD_MS,
-  revealWindowMs: 2 * 60 * 1000, // 2 minutes to reveal after available
-};
+/**
+ * Formats the waiting period before a reveal of an account's secret
+ *
+ * @param accountId - The account to reveal, or undefined for the build default
+ * @returns A human-readable string describing the waiting period
+ */
+export function formatWaitingPeriod(accountId?: string): string {
+  const policy = accountId ? getRevealPolicy(accountId) : DEFAULT_REVEAL_POLICY;
+  return formatRevealDuration(policy.waiting_period_ms);
+}
+
+function findAccount(accountId: string): AccountState | undefined {
+  return Object.values(appConfig.profiles.get())
+    .flatMap((profile) => profile.accounts)
+    .find((acc) => acc.id === accountId);
+}
+
+function isAccountPolicyAuthentic(account: AccountState): boolean {
+  return isRevealPolicyAuthentic(
+    account.id,
+    account.reveal_policy,
+    account.pending_reveal_policy,
+    account.reveal_policy_mac,
+  );
+}
+
+/**
+ * Stores an account's policy and pending policy with their HMAC
+ *
+ * @returns False if the account was not found or the key is not loaded
+ */
+function saveRevealPolicy(
+  accountId: string,
+  policy: RevealPolicy | undefined,
+  pending: PendingRevealPolicy | undefined,
+): boolean {
+  if (!isRevealScheduleKeyLoaded()) {
+    return false;
+  }
+  const mac =
+    policy || pending
+      ? signRevealPolicy(accountId, policy, pending)
+      : undefined;
+  return setAccountRevealPolicy(accountId, policy, pending, mac);
+}
+
+/**
+ * Stores the policies of an account restored from a backup, signed with this
+ * device's key
+ *
+ * @param accountId - The ID of the restored account
+ * @param policy - The policy in effect, or undefined for the default
+ * @param pending - The weaker policy waiting to take effect, or undefined
+ * @returns False if the account was not found or the key is not loaded
+ */
+export function restoreRevealPolicy(
+  accountId: string,
+  policy: RevealPolicy | undefined,
+  pending: PendingRevealPolicy | undefined,
+): boolean {
+  return saveRevealPolicy(accountId, policy, pending);
+}
+
+/**
+ * Gets the policy an account set for itself, including a weaker policy whose
+ * waiting period has passed. A policy failing its integrity check counts as
+ * the strictest one offered.
+ *
+ * @param accountId - The ID of the account
+ */
+export function getAccountOwnRevealPolicy(accountId: string): RevealPolicy {
+  const account = findAccount(accountId);
+  if (account && !isAccountPolicyAuthentic(account)) {
+    return STRICTEST_REVEAL_POLICY;
+  }
+  const pending = account?.pending_reveal_policy;
+  if (pending && pending.effective_at <= getTrustedNow().now) {
+    return pending.policy;
+  }
+  return account?.reveal_policy ?? DEFAULT_REVEAL_POLICY;
+}
+
+/**
+ * Gets the weaker policy waiting to take effect for an account, if any
+ *
+ * @param accountId - The ID of the account
+ */
+export function getPendingRevealPolicy(
+  accountId: string,
+): PendingRevealPolicy | null {
+  const account = findAccount(accountId);
+  if (!account || !isAccountPolicyAuthentic(account)) {
+    return null;
+  }
+  const pending = account.pending_reveal_policy;
+  return pending && pending.effective_at > getTrustedNow().now ? pending : null;
+}
+
+/**
+ * Gets the policy that applies when revealing an account's secret. Accounts
+ * sharing one recovery phrase reveal the same secret, so the strictest of
+ * their policies applies.
+ *
+ * @param accountId - The ID of the account to reveal
+ */
+export function getRevealPolicy(accountId: string): RevealPolicy {
+  const secretAccountId = getSecretAccountId(accountId);
+  const accountIds = [
+    secretAccountId,
+    ...getAccountsSharingSecret(secretAccountId).map((acc) => acc.id),
+  ];
+
+  return accountIds
+    .map(getAccountOwnRevealPolicy)
+    .reduce((strictest, policy) => ({
+      waiting_period_ms: Math.max(
+        strictest.waiting_period_ms,
+        policy.waiting_period_ms,
+      ),
+      reveal_window_ms: Math.min(
+        strictest.reveal_window_ms,
+        policy.reveal_window_ms,
+      ),
+      require_device_auth:
+        strictest.require_device_auth || policy.require_device_auth,
+    }));
+}
+
+function isWeakerPolicy(next: RevealPolicy, current: RevealPolicy): boolean {
+  return (
+    next.waiting_period_ms < current.waiting_period_ms ||
+    next.reveal_window_ms > current.reveal_window_ms ||
+    (current.require_device_auth && !next.require_device_auth)
+  );
+}
+
+/**
+ * Changes an account's reveal policy. A stricter policy applies at once. A
+ * weaker one (shorter wait, longer window or no device authentication) only
+ * applies after the current waiting period, so it cannot be used to skip it.
+ *
+ * @param accountId - The ID of the account
+ * @param policy - The new policy
+ * @returns When the policy takes effect, or null if the account was not found
+ * or the policy could not be signed
+ */
+export function setRevealPolicy(
+  accountId: string,
+  policy: RevealPolicy,
+): { pending: boolean; effectiveAt: number } | null {
+  const now = getDelayStartTime();
+  const current = getAccountOwnRevealPolicy(accountId);
+  const waitingPeriodMs = getRevealPolicy(accountId).waiting_period_ms;
+
+  const pending = isWeakerPolicy(policy, current) && waitingPeriodMs > 0;
+  const effectiveAt = pending ? now + waitingPeriodMs : now;
+
+  const success = pending
+    ? saveRevealPolicy(accountId, current, {
+        policy,
+        effective_at: effectiveAt,
+      })
+    : saveRevealPolicy(accountId, policy, undefined);
+  if (!success) {
+    return null;
+  }
+
+  recordAuditEvent("reveal_policy_changed", {
+    accountId,
+    waitingPeriodMs: policy.waiting_period_ms,
+    revealWindowMs: policy.reveal_window_ms,
+    requireDeviceAuth: policy.require_device_auth,
+    effectiveAt,
+  });
+  return { pending, effectiveAt };
+}
+
+/**
+ * Drops a weaker policy that has not taken effect yet
+ *
+ * @param accountId - The ID of the account
+ */
+export function cancelPendingRevealPolicy(accountId: string): void {
+  const account = findAccount(accountId);
+  if (account && getPendingRevealPolicy(accountId)) {
+    saveRevealPolicy(accountId, account.reveal_policy, undefined);
+  }
+}
+
+/**
+ * Asks for device authentication (biometrics or the device passcode) before
+ * a reveal, for accounts whose policy requires it
+ *
+ * @returns True if the user authenticated
+ */
+export async function authenticateForReveal(): Promise<boolean> {
+  const result = await authenticateAsync({
+    promptMessage: "Authenticate to reveal",
+    fallbackLabel: "Use passcode",
+    cancelLabel: "Cancel",
+    disableDeviceFallback: false,
+  });
+  return result.success;
+}
 
 /**
  * Schedules a reveal for a secure value for a specific account.
  * The user must wait for the waiting period before they can reveal the value,
- * and must complete the reveal within the reveal window.
+ * and must complete the reveal within the reveal window. Times are on the
+ * trusted clock, synced with the ledger first when online.
  *
  * @param accountId - The ID of the account to schedule the reveal for
  * @returns The scheduled reveal details or null if failed
  */
-export function scheduleReveal(accountId: string): RevealSchedule | null {
-  const now = Date.now();
-  const schedule: RevealSchedule = {
+export async function scheduleReveal(
+  accountId: string,
+): Promise<RevealSchedule | null> {
+  if (!(await syncTrustedTime())) {
+    await saveTrustedTimeMark();
+  }
+
+  await loadRevealScheduleKey();
+  rejectForgedRevealPolicies();
+
+  const now = getDelayStartTime();
+  const policy = getRevealPolicy(accountId);
+  const schedule = signRevealSchedule(accountId, {
     scheduledAt: now,
-    availableAt: now + REVEAL_CONFIG.waitingPeriodMs,
-    expiresAt:
-      now + REVEAL_CONFIG.waitingPeriodMs + REVEAL_CONFIG.revealWindowMs,
-  };
+    availableAt: now + policy.waiting_period_ms,
+    expiresAt: now + policy.waiting_period_ms + policy.reveal_window_ms,
+  });
 
   const success = setAccountRevealSchedule(accountId, schedule);
+  if (success) {
+    recordAuditEvent("reveal_scheduled", { accountId });
+  }
   return success ? schedule : null;
 }
 
 /**
- * Checks the status of a scheduled reveal for an account.
+ * Checks the status of a scheduled reveal for an account against the trusted
+ * clock. A device clock change found here invalidates the schedule, and a
+ * schedule failing its integrity check is removed and reported.
  *
  * @param accountId - The ID of the account to check
  * @returns Object with status information, or null if no reveal is scheduled
@@ -71,12 +340,20 @@ export function checkRevealStatus(accountId: string): {
   waitTimeRemaining: number;
   expiresIn: number;
 } | null {
+  checkDeviceClock();
+
   const schedule = getAccountRevealSchedule(accountId);
-  if (!schedule) {
+  if (!schedule || !isRevealScheduleKeyLoaded()) {
+    return null;
+  }
+
+  if (!isRevealScheduleAuthentic(accountId, schedule)) {
+    clearAccountRevealSchedule(accountId);
+    reportForgedSchedules([accountId]);
     return null;
   }
 
-  const now = Date.now();
+  const now = getTrustedNow().now;
   const available = now >= schedule.availableAt;
   const expired = now >= schedule.expiresAt;
 
@@ -108,6 +385,14 @@ export function checkRevealStatus(accountId: string): {
  * @param accountId - The ID of the account to cancel the reveal for
  */
 export function cancelReveal(accountId: string): void {
+  const schedule = getAccountRevealSchedule(accountId);
+  if (
+    schedule &&
+    isRevealScheduleKeyLoaded() &&
+    !isRevealScheduleAuthentic(accountId, schedule)
+  ) {
+    reportForgedSchedules([accountId]);
+  }
   clearAccountRevealSchedule(accountId);
 }
 
@@ -116,13 +401,129 @@ export function cancelReveal(accountId: string): void {
  * This calls the cleanup function that removes expired schedules across all accounts.
  */
 export function clearAllScheduledReveals(): void {
-  cleanupExpiredRevealSchedules();
+  removeExpiredAndForgedSchedules();
 }
 
 /**
- * Initialize reveal controller - clean up any expired schedules
+ * Removes expired schedules, and forged ones once the key is loaded
+ */
+function removeExpiredAndForgedSchedules(): void {
+  const rejected = cleanupExpiredRevealSchedules(
+    getTrustedNow().now,
+    isRevealScheduleKeyLoaded() ? isRevealScheduleAuthentic : undefined,
+  );
+  reportForgedSchedules(rejected);
+}
+
+/**
+ * Replaces policies failing their integrity check with the strictest one
+ * offered, so an edited config cannot weaken them, and reports them
+ */
+function rejectForgedRevealPolicies(): void {
+  if (!isRevealScheduleKeyLoaded()) return;
+
+  for (const profile of Object.values(appConfig.profiles.peek())) {
+    for (const account of profile.accounts) {
+      if (!isAccountPolicyAuthentic(account)) {
+        console.warn(
+          `Rejected a forged reveal policy for account ${account.id}`,
+        );
+        saveRevealPolicy(account.id, STRICTEST_REVEAL_POLICY, undefined);
+        recordAuditEvent("reveal_policy_rejected", { accountId: account.id });
+      }
+    }
+  }
+}
+
+/**
+ * Signs the policies saved before policies were signed. Runs once, so a
+ * policy whose HMAC was removed later is rejected rather than signed.
+ */
+async function signUnsignedRevealPolicies(): Promise<void> {
+  if (await getValue(POLICIES_SIGNED_STORAGE_KEY)) return;
+
+  for (const profile of Object.values(appConfig.profiles.peek())) {
+    for (const account of profile.accounts) {
+      if (!account.reveal_policy_mac) {
+        saveRevealPolicy(
+          account.id,
+          account.reveal_policy,
+          account.pending_reveal_policy,
+        );
+      }
+    }
+  }
+  await saveValue(POLICIES_SIGNED_STORAGE_KEY, "true");
+}
+
+function reportForgedSchedules(accountIds: string[]): void {
+  for (const accountId of accountIds) {
+    console.warn(`Rejected a forged reveal schedule for account ${accountId}`);
+    recordAuditEvent("reveal_schedule_rejected", { accountId });
+  }
+}
+
+/**
+ * Drops every scheduled reveal after the device clock was changed, since the
+ * waiting period may have been skipped
+ *
+ * @param reason - How the clock change was detected
+ */
+function invalidateRevealSchedules(reason: string): void {
+  for (const profile of Object.values(appConfig.profiles.peek())) {
+    for (const account of profile.accounts) {
+      if (account.reveal_schedule) {
+        clearAccountRevealSchedule(account.id);
+        recordAuditEvent("reveal_invalidated", {
+          accountId: account.id,
+          reason,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Initialize reveal controller - load the trusted clock and clean up any
+ * expired schedules
  * This should be called when the app starts
  */
-export function initializeRevealController(): void {
-  cleanupExpiredRevealSchedules();
+export async function initializeRevealController(): Promise<void> {
+  onClockChange(invalidateRevealSchedules);
+  await initializeTrustedTime();
+
+  try {
+    await loadRevealScheduleKey();
+    await signUnsignedRevealPolicies();
+  } catch (error) {
+    // Schedules stay unverified, and unusable, and policies count as the
+    // strictest one, until the key loads
+    console.error("Failed to load the reveal schedule key:", error);
+  }
+
+  removeExpiredAndForgedSchedules();
+  rejectForgedRevealPolicies();
+  applyDueRevealPolicies();
+
+  // Anchor to the ledger in the background; the app may be offline
+  syncTrustedTime();
+}
+
+/**
+ * Makes weaker policies whose waiting period has passed the account's policy
+ */
+function applyDueRevealPolicies(): void {
+  const now = getTrustedNow().now;
+  for (const profile of Object.values(appConfig.profiles.peek())) {
+    for (const account of profile.accounts) {
+      const pending = account.pending_reveal_policy;
+      if (
+        pending &&
+        pending.effective_at <= now &&
+        isAccountPolicyAuthentic(account)
+      ) {
+        saveRevealPolicy(account.id, pending.policy, undefined);
+      }
+    }
+  }
 }
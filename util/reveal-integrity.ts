@@ -0,0 +1,185 @@
+/**
+ * Reveal Schedule Integrity
+ *
+ * Reveal schedules and policies live on AccountState in the persisted app
+ * config. To stop an edited config from moving `availableAt` into the past or
+ * weakening a policy, every schedule carries an HMAC-SHA256 over the account
+ * ID and its times, and every account with a policy an HMAC over its
+ * `reveal_policy` and `pending_reveal_policy`. Both use the same 256-bit key,
+ * random and held in secure storage under SCHEDULE_KEY_STORAGE_KEY. Policy
+ * messages start with "policy", so a schedule's HMAC cannot pass for one.
+ *
+ * An account with neither a policy nor an HMAC uses the build default, so
+ * removing all three fields can at most bring an account back to the default.
+ *
+ * The key is loaded once during initialization so schedules can be checked
+ * synchronously. Until then no schedule or policy verifies, and none is
+ * reported as forged either.
+ */
+import { hmac } from "@noble/hashes/hmac";
+import { sha256 } from "@noble/hashes/sha2";
+import { bytesToHex } from "@noble/hashes/utils";
+import { getValue, saveValue } from "./secure-store";
+import { getRandomBytes } from "./random";
+import {
+  base64ToUint8Array,
+  stringToUint8Array,
+  uint8ArrayToBase64,
+} from "./crypto";
+import { constantTimeEqual } from "./security-utils";
+import type {
+  PendingRevealPolicy,
+  RevealPolicy,
+  RevealSchedule,
+} from "./app-config-store";
+
+const SCHEDULE_KEY_STORAGE_KEY = "reveal_schedule_key";
+const KEY_LENGTH = 32;
+
+let scheduleKey: Uint8Array | null = null;
+
+/**
+ * Loads the schedule key from secure storage, creating it on first use
+ */
+export async function loadRevealScheduleKey(): Promise<void> {
+  if (scheduleKey) return;
+
+  const stored = await getValue(SCHEDULE_KEY_STORAGE_KEY);
+  if (stored) {
+    scheduleKey = base64ToUint8Array(stored);
+  } else {
+    const created = getRandomBytes(KEY_LENGTH);
+    await saveValue(SCHEDULE_KEY_STORAGE_KEY, uint8ArrayToBase64(created));
+    scheduleKey = created;
+  }
+}
+
+/**
+ * Drops the cached schedule key. Called after secure storage was cleared.
+ */
+export function forgetRevealScheduleKey(): void {
+  scheduleKey = null;
+}
+
+/**
+ * Checks whether schedules can be signed and verified yet
+ */
+export function isRevealScheduleKeyLoaded(): boolean {
+  return scheduleKey !== null;
+}
+
+function computeMac(
+  key: Uint8Array,
+  accountId: string,
+  schedule: RevealSchedule,
+): string {
+  const message = JSON.stringify([
+    accountId,
+    schedule.scheduledAt,
+    schedule.availableAt,
+    schedule.expiresAt,
+  ]);
+  return bytesToHex(hmac(sha256, key, stringToUint8Array(message)));
+}
+
+/**
+ * Adds the HMAC to a schedule for an account
+ *
+ * @throws Error if the key has not been loaded
+ */
+export function signRevealSchedule(
+  accountId: string,
+  schedule: RevealSchedule,
+): RevealSchedule {
+  if (!scheduleKey) {
+    throw new Error("Reveal schedule key not loaded");
+  }
+  return { ...schedule, mac: computeMac(scheduleKey, accountId, schedule) };
+}
+
+/**
+ * Checks a stored schedule's HMAC. Schedules without one are not authentic.
+ *
+ * @returns True if the schedule was signed for this account and not modified
+ */
+export function isRevealScheduleAuthentic(
+  accountId: string,
+  schedule: RevealSchedule,
+): boolean {
+  if (!scheduleKey || !schedule.mac) {
+    return false;
+  }
+  return constantTimeEqual(
+    schedule.mac,
+    computeMac(scheduleKey, accountId, schedule),
+  );
+}
+
+function computePolicyMac(
+  key: Uint8Array,
+  accountId: string,
+  policy: RevealPolicy | undefined,
+  pending: PendingRevealPolicy | undefined,
+): string {
+  const message = JSON.stringify([
+    "policy",
+    accountId,
+    policy
+      ? [
+          policy.waiting_period_ms,
+          policy.reveal_window_ms,
+          policy.require_device_auth,
+        ]
+      : null,
+    pending
+      ? [
+          pending.policy.waiting_period_ms,
+          pending.policy.reveal_window_ms,
+          pending.policy.require_device_auth,
+          pending.effective_at,
+        ]
+      : null,
+  ]);
+  return bytesToHex(hmac(sha256, key, stringToUint8Array(message)));
+}
+
+/**
+ * Computes the HMAC of an account's reveal policy and pending policy
+ *
+ * @throws Error if the key has not been loaded
+ */
+export function signRevealPolicy(
+  accountId: string,
+  policy: RevealPolicy | undefined,
+  pending: PendingRevealPolicy | undefined,
+): string {
+  if (!scheduleKey) {
+    throw new Error("Reveal schedule key not loaded");
+  }
+  return computePolicyMac(scheduleKey, accountId, policy, pending);
+}
+
+/**
+ * Checks the HMAC of an account's stored reveal policy and pending policy.
+ * An account without either needs no HMAC.
+ *
+ * @returns True if the policies were signed for this account and not
+ * modified, false if they were or the key has not been loaded
+ */
+export function isRevealPolicyAuthentic(
+  accountId: string,
+  policy: RevealPolicy | undefined,
+  pending: PendingRevealPolicy | undefined,
+  mac: string | undefined,
+): boolean {
+  if (!mac) {
+    return policy === undefined && pending === undefined;
+  }
+  if (!scheduleKey) {
+    return false;
+  }
+  return constantTimeEqual(
+    mac,
+    computePolicyMac(scheduleKey, accountId, policy, pending),
+  );
+}
@@ -0,0 +1,444 @@
+/**
+ * RPC Endpoint Failover
+ *
+ * A network can list several REST endpoints in order of preference. Requests
+ * go to the active endpoint; when one fails because the endpoint is down or
+ * overloaded (no response, no answer within REQUEST_TIMEOUT_MS, or an HTTP
+ * 408, 429 or 5xx status), the endpoint is put on cooldown and the request is
+ * retried on the healthiest remaining one, which becomes active. Any other
+ * HTTP error is the request's own and is not retried.
+ *
+ * Each endpoint's health score comes from its error rate over the last
+ * requests and its average latency. The active endpoint stays until it fails
+ * or the endpoints are checked again (checkEndpoints), which makes the best
+ * scoring one active.
+ *
+ * Only the read-only request methods in FAILOVER_METHODS fail over.
+ * Transactions are never retried on another endpoint, as the first one may
+ * already have received them, and every other property, including the
+ * synchronous methods, comes from the active endpoint's client unchanged.
+ * Wallets are created on the active endpoint.
+ */
+import { observable } from "@legendapp/state";
+import { AptosApiError, LibraClient, type Network } from "open-libra-sdk";
+import { fetchLedgerInfo } from "./network-config";
+
+// Number of recent requests the error rate is taken over
+const OUTCOME_WINDOW = 20;
+
+// Failed endpoints are only tried again after this long
+const FAILURE_COOLDOWN_MS = 60 * 1000;
+
+// Latency up to this counts as fast; slower endpoints score lower
+const FAST_LATENCY_MS = 500;
+
+// Weight of the latest request in the average latency
+const LATENCY_SMOOTHING = 0.3;
+
+// A request without an answer after this long counts as an endpoint failure.
+// The SDK's HTTP client has no timeout of its own.
+const REQUEST_TIMEOUT_MS = 15 * 1000;
+
+// Error codes of requests that got no response from the endpoint, as set by
+// the SDK's HTTP client (axios) and Node's networking
+const NO_RESPONSE_CODES = new Set([
+  "ERR_NETWORK",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+]);
+
+// Read-only request methods of the client, which may be sent to another
+// endpoint when one fails
+const FAILOVER_METHODS = new Set([
+  "view",
+  "viewJson",
+  "getLedgerInfo",
+  "getChainId",
+  "getAccountInfo",
+  "getAccountResource",
+  "getAccountResources",
+  "getAccountModules",
+  "getAccountTransactions",
+  "getResource",
+  "getOriginatingAddress",
+  "getTransactionByHash",
+  "getTransactionByVersion",
+  "getTransactions",
+  "getBlockByHeight",
+  "getBlockByVersion",
+  "getGasPriceEstimation",
+]);
+
+type EndpointStats = {
+  outcomes: boolean[]; // Recent requests, true for a success
+  latencyMs?: number;
+  lastError?: string;
+  lastErrorAt?: number;
+  cooldownUntil?: number;
+};
+
+type EndpointSet = {
+  activeUrl: string;
+  reason: string; // Why the active endpoint was chosen
+  changedAt: number;
+  stats: Record<string, EndpointStats>;
+};
+
+/**
+ * Health of one endpoint as shown on the network status screen
+ */
+export type EndpointHealth = {
+  url: string;
+  score: number | null; // 0 to 100, null before the first request
+  latencyMs?: number;
+  errorRate: number;
+  requests: number;
+  lastError?: string;
+  lastErrorAt?: number;
+  coolingDown: boolean;
+};
+
+/**
+ * Endpoint sets by their URL list, kept for the session
+ */
+const endpointSets = observable<Record<string, EndpointSet>>({});
+
+/**
+ * Clients by network and URL
+ */
+const endpointClients = new Map<string, LibraClient>();
+
+function endpointSetKey(urls: string[]): string {
+  return urls.join(" ");
+}
+
+function getEndpointClient(network: Network, url: string): LibraClient {
+  const key = `${network}|${url}`;
+  let client = endpointClients.get(key);
+  if (!client) {
+    client = new LibraClient(network, url);
+    endpointClients.set(key, client);
+  }
+  return client;
+}
+
+function ensureEndpointSet(urls: string[]): string {
+  const key = endpointSetKey(urls);
+  if (!endpointSets[key].peek()) {
+    endpointSets[key].set({
+      activeUrl: urls[0],
+      reason: "First endpoint in the network's list",
+      changedAt: Date.now(),
+      stats: {},
+    });
+  }
+  return key;
+}
+
+/**
+ * Checks whether an error means the endpoint could not serve the request,
+ * rather than the request itself failing
+ */
+function isEndpointFailure(error: unknown): boolean {
+  if (error instanceof AptosApiError) {
+    return error.status === 408 || error.status === 429 || error.status >= 500;
+  }
+  if (typeof error !== "object" || error === null) {
+    return false;
+  }
+
+  const { code, name } = error as { code?: unknown; name?: unknown };
+  return (
+    (typeof code === "string" && NO_RESPONSE_CODES.has(code)) ||
+    name === "AbortError" ||
+    name === "TimeoutError"
+  );
+}
+
+function scoreEndpoint(stats: EndpointStats | undefined): number | null {
+  if (!stats || stats.outcomes.length === 0) {
+    return null;
+  }
+
+  const successRate =
+    stats.outcomes.filter(Boolean).length / stats.outcomes.length;
+  const latencyFactor =
+    stats.latencyMs === undefined
+      ? 1
+      : Math.min(1, Math.max(0.25, FAST_LATENCY_MS / stats.latencyMs));
+  return Math.round(100 * successRate * latencyFactor);
+}
+
+/**
+ * Picks the best scoring endpoint that is not cooling down. Untested
+ * endpoints rank below working ones, and ties keep the list order.
+ */
+function pickEndpoint(
+  urls: string[],
+  set: EndpointSet,
+  exclude?: string,
+): string | null {
+  const now = Date.now();
+  const candidates = urls.filter(
+    (url) => url !== exclude && !((set.stats[url]?.cooldownUntil ?? 0) > now),
+  );
+  const rank = (url: string) => scoreEndpoint(set.stats[url]) ?? 50;
+
+  let best: string | null = null;
+  for (const url of candidates) {
+    if (best === null || rank(url) > rank(best)) {
+      best = url;
+    }
+  }
+  return best;
+}
+
+function recordOutcome(
+  key: string,
+  url: string,
+  success: boolean,
+  latencyMs?: number,
+): EndpointStats {
+  const previous = endpointSets[key].stats[url].peek();
+  const stats: EndpointStats = {
+    ...previous,
+    outcomes: [...(previous?.outcomes ?? []), success].slice(-OUTCOME_WINDOW),
+  };
+  if (latencyMs !== undefined) {
+    stats.latencyMs =
+      stats.latencyMs === undefined
+        ? latencyMs
+        : Math.round(
+            LATENCY_SMOOTHING * latencyMs +
+              (1 - LATENCY_SMOOTHING) * stats.latencyMs,
+          );
+  }
+  return stats;
+}
+
+function recordSuccess(key: string, url: string, latencyMs: number): void {
+  const stats = recordOutcome(key, url, true, latencyMs);
+  endpointSets[key].stats[url].set({ ...stats, cooldownUntil: undefined });
+}
+
+/**
+ * Records a failed request and switches away from the endpoint if it was
+ * the active one and another can take over
+ */
+function recordFailure(
+  urls: string[],
+  key: string,
+  url: string,
+  error: unknown,
+): void {
+  const message = error instanceof Error ? error.message : String(error);
+  const stats = recordOutcome(key, url, false);
+  endpointSets[key].stats[url].set({
+    ...stats,
+    lastError: message,
+    lastErrorAt: Date.now(),
+    cooldownUntil: Date.now() + FAILURE_COOLDOWN_MS,
+  });
+
+  const set = endpointSets[key].peek();
+  if (set.activeUrl !== url) return;
+
+  const next = pickEndpoint(urls, set, url);
+  if (next) {
+    console.warn(`RPC endpoint ${url} failed, switching to ${next}`);
+    endpointSets[key].assign({
+      activeUrl: next,
+      reason: `Switched after ${url} failed: ${message}`,
+      changedAt: Date.now(),
+    });
+  }
+}
+
+/**
+ * Runs a request, failing it with a TimeoutError after REQUEST_TIMEOUT_MS.
+ * The request itself is not cancelled; its late result is ignored.
+ */
+async function withRequestTimeout<T>(request: Promise<T>): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new Error("RPC request timeout");
+      error.name = "TimeoutError";
+      reject(error);
+    }, REQUEST_TIMEOUT_MS);
+  });
+
+  try {
+    return await Promise.race([request, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Runs a request on the active endpoint, moving on to the next one for as
+ * long as endpoints fail
+ */
+async function callWithFailover<T>(
+  network: Network,
+  urls: string[],
+  call: (client: LibraClient) => Promise<T>,
+): Promise<T> {
+  const key = ensureEndpointSet(urls);
+  const tried = new Set<string>();
+  let lastError: unknown;
+
+  for (;;) {
+    const url = endpointSets[key].activeUrl.peek();
+    if (tried.has(url)) break;
+    tried.add(url);
+
+    const startedAt = Date.now();
+    try {
+      const result = await withRequestTimeout(
+        call(getEndpointClient(network, url)),
+      );
+      recordSuccess(key, url, Date.now() - startedAt);
+      return result;
+    } catch (error) {
+      if (!isEndpointFailure(error)) {
+        // The endpoint answered, the request itself was rejected
+        recordSuccess(key, url, Date.now() - startedAt);
+        throw error;
+      }
+      recordFailure(urls, key, url, error);
+      lastError = error;
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Gets the endpoint requests currently go to
+ *
+ * @param urls The network's endpoints in order of preference
+ */
+export function getActiveEndpoint(urls: string[]): string {
+  return endpointSets[endpointSetKey(urls)].activeUrl.get() ?? urls[0];
+}
+
+/**
+ * Gets why the active endpoint was chosen and when
+ */
+export function getActiveEndpointReason(
+  urls: string[],
+): { reason: string; changedAt: number } | null {
+  const set = endpointSets[endpointSetKey(urls)].get();
+  return set ? { reason: set.reason, changedAt: set.changedAt } : null;
+}
+
+/**
+ * Gets the health of each of a network's endpoints, in list order
+ */
+export function getEndpointHealth(urls: string[]): EndpointHealth[] {
+  const set = endpointSets[endpointSetKey(urls)].get();
+  const now = Date.now();
+
+  return urls.map((url) => {
+    const stats = set?.stats[url];
+    const requests = stats?.outcomes.length ?? 0;
+    const failures = stats?.outcomes.filter((ok) => !ok).length ?? 0;
+    return {
+      url,
+      score: scoreEndpoint(stats),
+      latencyMs: stats?.latencyMs,
+      errorRate: requests > 0 ? failures / requests : 0,
+      requests,
+      lastError: stats?.lastError,
+      lastErrorAt: stats?.lastErrorAt,
+      coolingDown: (stats?.cooldownUntil ?? 0) > now,
+    };
+  });
+}
+
+/**
+ * Creates a client that sends each request to the active endpoint. The
+ * read-only requests in FAILOVER_METHODS fail over to the others; every other
+ * property is the active endpoint client's own.
+ *
+ * @param network SDK network of the endpoints
+ * @param urls The network's endpoints in order of preference
+ */
+export function createFailoverClient(
+  network: Network,
+  urls: string[],
+): LibraClient {
+  const key = ensureEndpointSet(urls);
+  const activeClient = () =>
+    getEndpointClient(network, endpointSets[key].activeUrl.peek());
+
+  return new Proxy(getEndpointClient(network, urls[0]), {
+    get(target, prop) {
+      const value = Reflect.get(target, prop);
+      if (
+        typeof value !== "function" ||
+        typeof prop !== "string" ||
+        !FAILOVER_METHODS.has(prop)
+      ) {
+        const client = activeClient();
+        const activeValue = Reflect.get(client, prop);
+        return typeof activeValue === "function"
+          ? activeValue.bind(client)
+          : activeValue;
+      }
+
+      return (...args: unknown[]) =>
+        callWithFailover(
+          network,
+          urls,
+          (client) =>
+            Reflect.apply(
+              Reflect.get(client, prop),
+              client,
+              args,
+            ) as Promise<unknown>,
+        );
+    },
+  });
+}
+
+/**
+ * Fetches the ledger info from every endpoint to refresh their health, then
+ * makes the best scoring one active
+ *
+ * @param network SDK network of the endpoints
+ * @param urls The network's endpoints in order of preference
+ */
+export async function checkEndpoints(
+  network: Network,
+  urls: string[],
+): Promise<void> {
+  const key = ensureEndpointSet(urls);
+
+  await Promise.all(
+    urls.map(async (url) => {
+      const startedAt = Date.now();
+      try {
+        await fetchLedgerInfo(getEndpointClient(network, url));
+        recordSuccess(key, url, Date.now() - startedAt);
+      } catch (error) {
+        recordFailure(urls, key, url, error);
+      }
+    }),
+  );
+
+  const set = endpointSets[key].peek();
+  const best = pickEndpoint(urls, set);
+  if (best && best !== set.activeUrl) {
+    endpointSets[key].assign({
+      activeUrl: best,
+      reason: "Best health score when the endpoints were checked",
+      changedAt: Date.now(),
+    });
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * Secure Storage Backends
+ *
+ * The storage behind `secure-store.ts`. The app uses expo-secure-store on
+ * device; the in-memory backend lets storage-dependent modules such as
+ * pin-rotation, account-deletion and clear-storage-controller run headless
+ * (select it with EXPO_PUBLIC_SECURE_STORAGE=memory).
+ *
+ * expo-secure-store cannot enumerate its keys, so its backend keeps a key
+ * registry, grouped by namespace (the key prefix before the first "_"). The
+ * registry repairs itself: a key is registered before its value is written,
+ * listing drops keys whose value is gone, and reading an unregistered key
+ * registers it.
+ */
+
+/**
+ * Key-value storage for secrets
+ */
+export interface SecureStorageBackend {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Lists every stored key */
+  list(): Promise<string[]>;
+}
+
+// Storage key of the registry, and of the flat key list it replaces
+const REGISTRY_KEY = "secure_store_registry";
+const LEGACY_KEYS_LIST_KEY = "all_storage_keys";
+
+const REGISTRY_VERSION = 1;
+
+/**
+ * Registered keys by namespace
+ */
+type KeyRegistry = {
+  version: number;
+  namespaces: Record<string, string[]>;
+};
+
+/**
+ * Namespace of a storage key: the prefix before the first "_"
+ */
+export function getKeyNamespace(key: string): string {
+  const separator = key.indexOf("_");
+  return separator > 0 ? key.slice(0, separator) : key;
+}
+
+/**
+ * Creates a backend that keeps values in memory only
+ */
+export function createMemoryBackend(): SecureStorageBackend {
+  const values = new Map<string, string>();
+
+  return {
+    async get(key) {
+      return values.get(key) ?? null;
+    },
+    async set(key, value) {
+      values.set(key, value);
+    },
+    async delete(key) {
+      values.delete(key);
+    },
+    async list() {
+      return [...values.keys()];
+    },
+  };
+}
+
+/**
+ * Creates the expo-secure-store backend. The native module is loaded on first
+ * use, so importing this file works where it is unavailable.
+ */
+export function createExpoSecureStoreBackend(): SecureStorageBackend {
+  let registry: KeyRegistry | null = null;
+  // Serializes registry updates, which are read-modify-write
+  let registryQueue: Promise<unknown> = Promise.resolve();
+
+  const loadSecureStore = () => import("expo-secure-store");
+
+  async function readRegistry(): Promise<KeyRegistry> {
+    if (registry) {
+      return registry;
+    }
+
+    const store = await loadSecureStore();
+    const stored = await store.getItemAsync(REGISTRY_KEY);
+    if (stored) {
+      try {
+        const parsed = JSON.parse(stored) as KeyRegistry;
+        if (parsed.version === REGISTRY_VERSION && parsed.namespaces) {
+          registry = parsed;
+          return registry;
+        }
+      } catch (error) {
+        console.error("Corrupt secure storage registry, rebuilding:", error);
+      }
+    }
+
+    // Start from the legacy flat key list, if any; listing drops stale keys
+    registry = { version: REGISTRY_VERSION, namespaces: {} };
+    try {
+      const legacy = await store.getItemAsync(LEGACY_KEYS_LIST_KEY);
+      for (const key of legacy ? (JSON.parse(legacy) as string[]) : []) {
+        addKey(registry, key);
+      }
+    } catch (error) {
+      console.error("Error reading legacy keys list:", error);
+    }
+    await store.setItemAsync(REGISTRY_KEY, JSON.stringify(registry));
+    await store.deleteItemAsync(LEGACY_KEYS_LIST_KEY);
+    return registry;
+  }
+
+  function addKey(target: KeyRegistry, key: string): boolean {
+    if (key === REGISTRY_KEY || key === LEGACY_KEYS_LIST_KEY) {
+      return false;
+    }
+    const namespace = getKeyNamespace(key);
+    const keys = target.namespaces[namespace] ?? [];
+    if (keys.includes(key)) {
+      return false;
+    }
+    target.namespaces[namespace] = [...keys, key];
+    return true;
+  }
+
+  function removeKey(target: KeyRegistry, key: string): boolean {
+    const namespace = getKeyNamespace(key);
+    const keys = target.namespaces[namespace] ?? [];
+    if (!keys.includes(key)) {
+      return false;
+    }
+    const remaining = keys.filter((item) => item !== key);
+    if (remaining.length > 0) {
+      target.namespaces[namespace] = remaining;
+    } else {
+      delete target.namespaces[namespace];
+    }
+    return true;
+  }
+
+  /**
+   * Runs a registry update after earlier ones and saves it if it changed
+   */
+  function updateRegistry<T>(
+    update: (target: KeyRegistry) => Promise<{ changed: boolean; result: T }>,
+  ): Promise<T> {
+    const run = registryQueue.then(async () => {
+      const target = await readRegistry();
+      const { changed, result } = await update(target);
+      if (changed) {
+        const store = await loadSecureStore();
+        await store.setItemAsync(REGISTRY_KEY, JSON.stringify(target));
+      }
+      return result;
+    });
+    registryQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  return {
+    async get(key) {
+      const store = await loadSecureStore();
+      const value = await store.getItemAsync(key);
+      if (value !== null) {
+        await updateRegistry(async (target) => ({
+          changed: addKey(target, key),
+          result: undefined,
+        }));
+      }
+      return value;
+    },
+
+    async set(key, value) {
+      // Register first: a registered key without a value is repaired on the
+      // next listing, an unregistered value would be invisible
+      await updateRegistry(async (target) => ({
+        changed: addKey(target, key),
+        result: undefined,
+      }));
+      const store = await loadSecureStore();
+      await store.setItemAsync(key, value);
+    },
+
+    async delete(key) {
+      const store = await loadSecureStore();
+      await store.deleteItemAsync(key);
+      await updateRegistry(async (target) => ({
+        changed: removeKey(target, key),
+        result: undefined,
+      }));
+    },
+
+    async list() {
+      return updateRegistry(async (target) => {
+        const store = await loadSecureStore();
+        const existing: string[] = [];
+        let changed = false;
+
+        for (const key of Object.values(target.namespaces).flat()) {
+          if ((await store.getItemAsync(key)) !== null) {
+            existing.push(key);
+          } else {
+            changed = removeKey(target, key) || changed;
+          }
+        }
+
+        return { changed, result: existing };
+      });
+    },
+  };
+}
@@ -1,42 +1,15 @@
-import { setItemAsync, getItemAsync, deleteItemAsync } from "expo-secure-store";
-
-/**
- * Updates the internal keys list maintained for getAllKeys functionality
- */
-async function updateKeysList(
-  key: string,
-  operation: "add" | "remove",
-): Promise<void> {
-  try {
-    // Don't track the keys list key itself to avoid recursion
-    if (key === "all_storage_keys") {
-      return;
-    }
-
-    // Get current keys list
-    const keysListJson = await getItemAsync("all_storage_keys");
-    const currentKeys: string[] = keysListJson ? JSON.parse(keysListJson) : [];
-
-    if (operation === "add") {
-      // Add key if not already present
-      if (!currentKeys.includes(key)) {
-        currentKeys.push(key);
-      }
-    } else if (operation === "remove") {
-      // Remove key if present
-      const index = currentKeys.indexOf(key);
-      if (index > -1) {
-        currentKeys.splice(index, 1);
-      }
-    }
-
-    // Save updated keys list
-    await setItemAsync("all_storage_keys", JSON.stringify(currentKeys));
-  } catch (error) {
-    console.error("Error updating keys list:", error);
-    // Don't throw here to avoid breaking the main operation
-  }
-}
+import {
+  createExpoSecureStoreBackend,
+  createMemoryBackend,
+  getKeyNamespace,
+  type SecureStorageBackend,
+} from "./secure-storage-backend";
+import { USE_MEMORY_SECURE_STORAGE } from "./environment";
+
+// Storage used by all functions below
+const backend: SecureStorageBackend = USE_MEMORY_SECURE_STORAGE
+  ? createMemoryBackend()
+  : createExpoSecureStoreBackend();
 
 /**
  * Saves a key-value pair to secure storage.
@@ -48,10 +21,7 @@ async function updateKeysList(
  */
 export async function saveValue(key: string, value: string): Promise<void> {
   try {
-    await setItemAsync(key, value);
-
-    // Update the keys list
-    await updateKeysList(key, "add");
+    await backend.set(key, value);
   } catch (error) {
     console.error("Error saving to secure store:", error);
     throw error;
@@ -67,8 +37,7 @@ export async function saveValue(key: string, value: string): Promise<void> {
  */
 export async function getValue(key: string): Promise<string | null> {
   try {
-    const result = await getItemAsync(key);
-    return result;
+    return await backend.get(key);
   } catch (error) {
     console.error("Error retrieving from secure store:", error);
     throw error;
@@ -84,10 +53,7 @@ export async function getValue(key: string): Promise<string | null> {
  */
 export async function deleteValue(key: string): Promise<void> {
   try {
-    await deleteItemAsync(key);
-
-    // Update the keys list
-    await updateKeysList(key, "remove");
+    await backend.delete(key);
   } catch (error) {
     console.error("Error deleting from secure store:", error);
     throw error;
@@ -95,7 +61,7 @@ export async function deleteValue(key: string): Promise<void> {
 }
 
 /**
- * Clears all application secure storage by deleting the specified keys.
+ * Clears all application secure storage by deleting every registered key.
  *
  * @returns A Promise that resolves when all delete operations complete
  * @throws Will throw an error if any delete operation fails
@@ -106,20 +72,12 @@ export async function deleteValue(key: string): Promise<void> {
  */
 export async function clearAllSecureStorage(): Promise<void> {
   try {
-    // Add all your application's secure storage keys here
-    const appKeys = [
-      "user_pin", // Added the actual PIN storage key
-      "user_pin_hash",
-      "user_pin_salt",
-      "user_token",
-      "private_key",
-      "walletData",
-      "settings",
-      // Add other keys your app uses
-    ];
+    const keys = await backend.list();
 
-    await Promise.all(appKeys.map((key) => deleteValue(key)));
-    console.log(`Cleared all ${appKeys.length} secure storage keys`);
+    for (const key of keys) {
+      await backend.delete(key);
+    }
+    console.log(`Cleared all ${keys.length} secure storage keys`);
   } catch (error) {
     console.error("Error clearing secure storage:", error);
     throw error;
@@ -127,16 +85,18 @@ export async function clearAllSecureStorage(): Promise<void> {
 }
 
 /**
- * Gets all available keys in secure storage.
+ * Gets the keys in secure storage.
  *
+ * @param namespace - Only return keys in this namespace, the key prefix before
+ *   the first "_" (e.g. "account" for `account_${id}`)
  * @returns Promise resolving to an array of keys
- * @throws Will throw an error if the operation fails
  */
-export async function getAllKeys(): Promise<string[]> {
+export async function getAllKeys(namespace?: string): Promise<string[]> {
   try {
-    // We need to maintain a list of all keys ourselves since SecureStore doesn't provide this functionality
-    const keysListJson = await getItemAsync("all_storage_keys");
-    return keysListJson ? JSON.parse(keysListJson) : [];
+    const keys = await backend.list();
+    return namespace
+      ? keys.filter((key) => getKeyNamespace(key) === namespace)
+      : keys;
   } catch (error) {
     console.error("Error getting all keys:", error);
     return [];
@@ -144,60 +104,34 @@ export async function getAllKeys(): Promise<string[]> {
 }
 
 /**
- * Development utility to rebuild the keys list from known patterns
- * This is useful if the keys list gets out of sync
+ * Development utility that registers the known keys that exist in storage.
+ * Useful when values were written without going through this module.
  */
 export async function rebuildKeysList(): Promise<void> {
   try {
     console.log("Rebuilding keys list...");
 
-    // Try to detect existing keys using known patterns
-    const knownKeys: string[] = [];
-
-    // Check for common key patterns
-    const patternsToCheck = [
-      "user_pin",
-      // Account keys - we'll need to check based on current profiles
-    ];
+    const knownKeys = ["user_pin"];
 
-    for (const key of patternsToCheck) {
-      try {
-        const value = await getItemAsync(key);
-        if (value !== null) {
-          knownKeys.push(key);
-        }
-      } catch {
-        // Key doesn't exist, ignore
-      }
-    }
-
-    // Also check for account keys based on current profiles
-    // This requires importing appConfig, but we'll do it dynamically to avoid circular imports
+    // Account keys are found through the current profiles. Imported
+    // dynamically to avoid circular imports.
     try {
       const { appConfig } = await import("./app-config-store");
-      const profiles = appConfig.profiles.get();
-
-      for (const [, profile] of Object.entries(profiles)) {
+      for (const profile of Object.values(appConfig.profiles.get())) {
         for (const account of profile.accounts) {
-          const accountKey = `account_${account.id}`;
-          try {
-            const value = await getItemAsync(accountKey);
-            if (value !== null) {
-              knownKeys.push(accountKey);
-            }
-          } catch {
-            // Key doesn't exist, ignore
-          }
+          knownKeys.push(`account_${account.id}`);
         }
       }
     } catch (error) {
       console.error("Error checking account keys:", error);
     }
 
-    // Save the rebuilt keys list
-    await setItemAsync("all_storage_keys", JSON.stringify(knownKeys));
+    // Reading a key registers it if it exists
+    for (const key of knownKeys) {
+      await backend.get(key);
+    }
 
-    console.log("Keys list rebuilt with keys:", knownKeys);
+    console.log("Keys list rebuilt with keys:", await backend.list());
   } catch (error) {
     console.error("Error rebuilding keys list:", error);
     throw error;
@@ -0,0 +1,232 @@
+/**
+ * Security Audit Log
+ *
+ * Persisted, append-only trail of sensitive operations: PIN changes, failed
+ * PIN attempts, reveals, secret copies, backup exports, account deletions and
+ * signed transactions. Entries never hold secrets, only what happened and to
+ * which account.
+ *
+ * Each entry carries the SHA-256 hash of its content and of the entry before
+ * it, so editing or removing an entry breaks the chain. The latest hash is
+ * also kept in secure storage (AUDIT_HEAD_KEY): rewriting the whole chain, or
+ * dropping its newest entries, no longer matches that anchor. The anchor is
+ * written after the entry, so after a crash it may trail the log by an entry;
+ * entries after the anchor still have to chain correctly.
+ *
+ * The log is kept in the encrypted AsyncStorage persistence like the app
+ * config. Only the newest MAX_AUDIT_ENTRIES are kept; the chain is verified
+ * from the oldest kept entry.
+ */
+import { observable, when } from "@legendapp/state";
+import { persistObservable } from "@legendapp/state/persist";
+import { sha256 } from "@noble/hashes/sha2";
+import { bytesToHex } from "@noble/hashes/utils";
+import { deleteValue, getValue, saveValue } from "./secure-store";
+import { stringToUint8Array } from "./crypto";
+
+// Secure storage key holding the sequence number and hash of the newest entry
+const AUDIT_HEAD_KEY = "audit_head";
+
+const MAX_AUDIT_ENTRIES = 1000;
+
+// prevHash of the first entry ever written
+const GENESIS_HASH = "0".repeat(64);
+
+/**
+ * Kinds of recorded operations
+ */
+export type AuditEventType =
+  | "pin_created"
+  | "pin_changed"
+  | "pin_failed"
+  | "reveal_scheduled"
+  | "reveal_policy_changed"
+  | "reveal_executed"
+  | "reveal_invalidated"
+  | "reveal_schedule_rejected"
+  | "reveal_policy_rejected"
+  | "secret_copied"
+  | "backup_exported"
+  | "account_deleted"
+  | "transaction_signed"
+  | "transaction_blocked";
+
+type AuditDetails = Record<string, string | number | boolean>;
+
+type AuditEntry = {
+  seq: number;
+  timestamp: number;
+  event: AuditEventType;
+  details?: AuditDetails;
+  prevHash: string;
+  hash: string;
+};
+
+type AuditHead = {
+  seq: number;
+  hash: string;
+};
+
+/**
+ * Result of checking the hash chain
+ */
+export type AuditVerification =
+  | { status: "valid"; count: number }
+  | { status: "empty" }
+  | { status: "broken"; seq: number | null; reason: string };
+
+const auditLog = observable<{ entries: AuditEntry[] }>({ entries: [] });
+
+// Resolves once the persisted log has loaded; null until first used
+let auditLogLoaded: Promise<unknown> | null = null;
+
+/**
+ * Starts persisting the log on first use, so importing this module does not
+ * touch storage before the persistence plugin is configured
+ *
+ * @returns Promise resolving once the persisted entries have loaded
+ */
+function loadAuditLog(): Promise<unknown> {
+  if (!auditLogLoaded) {
+    const persistedAuditLog = persistObservable(auditLog, {
+      local: "security-audit-log",
+    });
+    auditLogLoaded = when(
+      () => persistedAuditLog._state?.isLoadedLocal.get() === true,
+    );
+  }
+  return auditLogLoaded;
+}
+
+// Appends run one after another, after the log has loaded
+let appendQueue: Promise<unknown> = Promise.resolve();
+
+function hashEntry(entry: Omit<AuditEntry, "hash">): string {
+  const content = JSON.stringify([
+    entry.seq,
+    entry.timestamp,
+    entry.event,
+    entry.details ?? null,
+    entry.prevHash,
+  ]);
+  return bytesToHex(sha256(stringToUint8Array(content)));
+}
+
+/**
+ * Records a sensitive operation. Never throws and never delays the caller:
+ * a failure to record is logged to the console.
+ *
+ * @param event - What happened
+ * @param details - Non-secret context, such as the account ID
+ */
+export function recordAuditEvent(
+  event: AuditEventType,
+  details?: AuditDetails,
+): void {
+  const timestamp = Date.now();
+
+  const run = appendQueue.then(loadAuditLog).then(async () => {
+    const entries = auditLog.entries.peek();
+    const previous = entries[entries.length - 1];
+
+    const unhashed = {
+      seq: previous ? previous.seq + 1 : 1,
+      timestamp,
+      event,
+      details,
+      prevHash: previous ? previous.hash : GENESIS_HASH,
+    };
+    const entry: AuditEntry = { ...unhashed, hash: hashEntry(unhashed) };
+
+    auditLog.entries.set([...entries, entry].slice(-MAX_AUDIT_ENTRIES));
+
+    const head: AuditHead = { seq: entry.seq, hash: entry.hash };
+    await saveValue(AUDIT_HEAD_KEY, JSON.stringify(head));
+  });
+
+  appendQueue = run.catch((error) => {
+    console.error(`Failed to record audit event ${event}:`, error);
+  });
+}
+
+/**
+ * Gets the recorded entries, newest first
+ */
+export function getAuditEntries(): AuditEntry[] {
+  loadAuditLog();
+  return [...auditLog.entries.get()].reverse();
+}
+
+/**
+ * Checks every entry's hash, the links between entries and the anchor in
+ * secure storage
+ */
+export async function verifyAuditLog(): Promise<AuditVerification> {
+  await loadAuditLog();
+  await appendQueue;
+
+  const entries = auditLog.entries.peek();
+  const storedHead = await getValue(AUDIT_HEAD_KEY);
+  const head = storedHead ? (JSON.parse(storedHead) as AuditHead) : null;
+
+  if (entries.length === 0) {
+    return head
+      ? { status: "broken", seq: null, reason: "All entries were removed" }
+      : { status: "empty" };
+  }
+
+  for (let i = 0; i < entries.length; i++) {
+    const { hash, ...unhashed } = entries[i];
+
+    if (hashEntry(unhashed) !== hash) {
+      return {
+        status: "broken",
+        seq: unhashed.seq,
+        reason: "Entry content does not match its hash",
+      };
+    }
+
+    const previous = entries[i - 1];
+    if (previous) {
+      if (
+        unhashed.seq !== previous.seq + 1 ||
+        unhashed.prevHash !== previous.hash
+      ) {
+        return {
+          status: "broken",
+          seq: unhashed.seq,
+          reason: "Entry does not follow the one before it",
+        };
+      }
+    } else if (unhashed.seq === 1 && unhashed.prevHash !== GENESIS_HASH) {
+      return {
+        status: "broken",
+        seq: unhashed.seq,
+        reason: "First entry does not start the chain",
+      };
+    }
+  }
+
+  const anchored = head
+    ? entries.find((entry) => entry.seq === head.seq)
+    : undefined;
+  if (!anchored || anchored.hash !== head?.hash) {
+    return {
+      status: "broken",
+      seq: head?.seq ?? null,
+      reason: "The log does not match its anchor in secure storage",
+    };
+  }
+
+  return { status: "valid", count: entries.length };
+}
+
+/**
+ * Starts a new, empty log. Only used when all app data is erased.
+ */
+export async function resetSecurityAuditLog(): Promise<void> {
+  await loadAuditLog();
+  await appendQueue;
+  auditLog.entries.set([]);
+  await deleteValue(AUDIT_HEAD_KEY);
+}
@@ -0,0 +1,256 @@
+/**
+ * Trusted Time
+ *
+ * A clock for reveal delays that changing the device clock does not move.
+ *
+ * The time starts from the device clock on first launch and is advanced with
+ * the monotonic clock (`performance.now()`). Whenever the network is
+ * reachable it is re-anchored to the chain's ledger timestamp, fetched
+ * through LibraClient. Without the network it continues from the last
+ * trusted time seen, saved in secure storage (TRUSTED_TIME_MARK_KEY), so time
+ * while the app was closed only counts once the ledger confirms it.
+ *
+ * The ledger time is only taken from nodes that report the chain ID the
+ * active profile's network expects. A network only measures time from when
+ * it was first synced with: its ledger time is kept at a fixed skew from the
+ * trusted time at that sync. Switching to another network, or editing the
+ * endpoints or chain ID of the current one, therefore cannot move the trusted
+ * time past the monotonic estimate.
+ *
+ * The monotonic clock may pause while the device sleeps, so the trusted time
+ * can lag behind but never runs ahead. Delays therefore never end early.
+ *
+ * The device clock is watched for changes:
+ * - backwards, against the monotonic clock or the last wall time saved
+ * - forwards, when its offset from the ledger time changed since the last
+ *   ledger sync (sleep alone cannot tell a forward change apart offline)
+ */
+import { AppState } from "react-native";
+import { getValue, saveValue } from "./secure-store";
+import { getLibraClient, getLibraClientConfig } from "./libra-client";
+import { fetchVerifiedLedgerInfo } from "./network-config";
+
+// Secure storage key holding the latest trusted time and device clock seen
+const TRUSTED_TIME_MARK_KEY = "trusted_time_mark";
+
+// Device clock changes up to this are treated as ordinary corrections
+const MAX_CLOCK_CHANGE_MS = 5 * 60 * 1000;
+
+/**
+ * Where the trusted time comes from: the ledger, the last trusted time seen
+ * plus the monotonic clock, or the device clock before either was available
+ */
+type TimeSource = "ledger" | "monotonic" | "device";
+
+type TrustedTimeMark = {
+  trustedMs: number;
+  wallMs: number;
+  ledgerOffsetMs?: number; // Device clock minus ledger time at the last sync
+  ledgerSource?: string; // Chain ID and endpoints of the last synced network
+  ledgerSkewMs?: number; // Trusted time minus that network's ledger time
+};
+
+type TimeAnchor = {
+  trustedMs: number;
+  monotonicMs: number;
+  wallMs: number;
+  source: TimeSource;
+};
+
+let initialized = false;
+let anchor: TimeAnchor | null = null;
+let ledgerOffsetMs: number | undefined;
+let ledgerSource: string | undefined;
+let ledgerSkewMs = 0;
+let lastWallMs = 0;
+let clockChangeListener: ((reason: string) => void) | null = null;
+
+function monotonicNow(): number {
+  return performance.now();
+}
+
+function createAnchor(trustedMs: number, source: TimeSource): TimeAnchor {
+  return {
+    trustedMs,
+    monotonicMs: monotonicNow(),
+    wallMs: Date.now(),
+    source,
+  };
+}
+
+/**
+ * Sets the handler called when the device clock was changed. Reveal
+ * schedules use it to invalidate themselves.
+ */
+export function onClockChange(listener: (reason: string) => void): void {
+  clockChangeListener = listener;
+}
+
+function reportClockChange(reason: string): void {
+  console.warn(`Device clock change detected: ${reason}`);
+  clockChangeListener?.(reason);
+}
+
+/**
+ * Loads the last trusted time and saves it whenever the app goes to the
+ * background. Called once during app initialization, before reveal schedules
+ * are checked.
+ */
+export async function initializeTrustedTime(): Promise<void> {
+  if (initialized) return;
+  initialized = true;
+
+  try {
+    const stored = await getValue(TRUSTED_TIME_MARK_KEY);
+    const mark = stored ? (JSON.parse(stored) as TrustedTimeMark) : null;
+
+    anchor = mark
+      ? createAnchor(mark.trustedMs, "monotonic")
+      : createAnchor(Date.now(), "device");
+    ledgerOffsetMs = mark?.ledgerOffsetMs;
+    ledgerSource = mark?.ledgerSource;
+    ledgerSkewMs = mark?.ledgerSkewMs ?? 0;
+    lastWallMs = mark?.wallMs ?? 0;
+    checkDeviceClock();
+  } catch (error) {
+    console.error("Failed to load trusted time:", error);
+    anchor = createAnchor(Date.now(), "device");
+  }
+
+  AppState.addEventListener("change", (state) => {
+    if (state === "background") {
+      saveTrustedTimeMark();
+    }
+  });
+}
+
+/**
+ * Gets the trusted current time
+ *
+ * @returns The time in milliseconds and where it comes from
+ */
+export function getTrustedNow(): { now: number; source: TimeSource } {
+  if (!anchor) {
+    anchor = createAnchor(Date.now(), "device");
+  }
+
+  return { now: getAnchoredTime(anchor), source: anchor.source };
+}
+
+/**
+ * Gets the time to start a delay from: the later of the trusted time and the
+ * device clock, so neither a lagging trusted time nor a clock set back makes
+ * a delay end early
+ */
+export function getDelayStartTime(): number {
+  return Math.max(getTrustedNow().now, Date.now());
+}
+
+/**
+ * Checks the device clock against the monotonic clock. The monotonic clock
+ * only pauses, so a device clock that fell behind it was set back.
+ */
+export function checkDeviceClock(): void {
+  if (!anchor) return;
+
+  const wallElapsed = Date.now() - anchor.wallMs;
+  const monotonicElapsed = monotonicNow() - anchor.monotonicMs;
+  if (
+    wallElapsed < monotonicElapsed - MAX_CLOCK_CHANGE_MS ||
+    Date.now() < lastWallMs - MAX_CLOCK_CHANGE_MS
+  ) {
+    reportClockChange("device clock moved backwards");
+    // Re-anchor so the same change is reported once
+    anchor = createAnchor(getAnchoredTime(anchor), anchor.source);
+  }
+  lastWallMs = Math.max(lastWallMs, Date.now());
+}
+
+function getAnchoredTime(current: TimeAnchor): number {
+  return current.trustedMs + (monotonicNow() - current.monotonicMs);
+}
+
+/**
+ * Fetches the ledger time of the active network from a node on the expected
+ * chain
+ *
+ * @returns The time in milliseconds, and the chain ID and endpoints it was
+ * fetched from
+ * @throws Error if the network has no endpoint or the node is on another chain
+ */
+async function fetchLedgerTime(): Promise<{
+  ledgerMs: number;
+  source: string;
+}> {
+  const { chainId, client } = getLibraClientConfig();
+  if (!client) {
+    throw new Error("The active network has no RPC URL configured");
+  }
+
+  const info = await fetchVerifiedLedgerInfo(getLibraClient(), chainId);
+  return {
+    // The ledger timestamp is in microseconds
+    ledgerMs: Math.floor(Number(info.ledger_timestamp) / 1000),
+    source: `${chainId}|${client.urls.join(" ")}`,
+  };
+}
+
+/**
+ * Re-anchors the trusted time to the ledger timestamp. Also detects a device
+ * clock moved forwards since the last sync with the same network.
+ *
+ * A network other than the last one synced with starts at the current
+ * trusted time, so it cannot advance the time past the monotonic estimate.
+ *
+ * @returns True if the ledger time was fetched from a verified node
+ */
+export async function syncTrustedTime(): Promise<boolean> {
+  try {
+    const { ledgerMs, source } = await fetchLedgerTime();
+    const offsetMs = Date.now() - ledgerMs;
+    const current = anchor ? getAnchoredTime(anchor) : Date.now();
+
+    if (source !== ledgerSource) {
+      ledgerSource = source;
+      ledgerSkewMs = current - ledgerMs;
+    } else if (
+      ledgerOffsetMs !== undefined &&
+      Math.abs(offsetMs - ledgerOffsetMs) > MAX_CLOCK_CHANGE_MS
+    ) {
+      reportClockChange("device clock offset from the ledger changed");
+    }
+
+    // Never move the trusted time backwards
+    const ledgerTrustedMs = ledgerMs + ledgerSkewMs;
+    anchor = createAnchor(
+      anchor?.source === "ledger"
+        ? Math.max(ledgerTrustedMs, current)
+        : ledgerTrustedMs,
+      "ledger",
+    );
+    ledgerOffsetMs = offsetMs;
+    await saveTrustedTimeMark();
+    return true;
+  } catch (error) {
+    console.warn("Could not fetch the ledger time:", error);
+    return false;
+  }
+}
+
+/**
+ * Saves the current trusted time, so the next launch continues from it
+ */
+export async function saveTrustedTimeMark(): Promise<void> {
+  try {
+    const mark: TrustedTimeMark = {
+      trustedMs: getTrustedNow().now,
+      wallMs: lastWallMs,
+      ledgerOffsetMs,
+      ledgerSource,
+      ledgerSkewMs,
+    };
+    await saveValue(TRUSTED_TIME_MARK_KEY, JSON.stringify(mark));
+  } catch (error) {
+    console.error("Failed to save trusted time:", error);
+  }
+}
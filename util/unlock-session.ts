@@ -0,0 +1,310 @@
+/**
+ * Unlock Session
+ *
+ * Opt-in: when `app_settings.unlock_session_minutes` is set, the keys derived
+ * from a PIN entered for signing or saving stay in memory for that many
+ * minutes. Further operations on the same records then skip both the PIN
+ * prompt and the key derivation. The PIN itself is never kept.
+ *
+ * The session ends when the app goes to the background, on "Lock now"
+ * (lockUnlockSession), when its time runs out, and whenever the PIN or the
+ * unlocked profile changes. Reveals never use the session.
+ *
+ * Records encrypted with the session (encryptWithSession) reuse the salt of
+ * the session key, so they share it with the record the key was derived for;
+ * each still gets a fresh GCM nonce. A fresh salt would need the PIN to
+ * derive a new key, which is what the session avoids. Sharing a salt only
+ * means one derivation opens all of these records, which holds for the
+ * session anyway; the next save with the PIN writes a fresh salt again.
+ *
+ * A session key only opens records with its salt, so the first operation on
+ * another account's record in a session still asks for the PIN. That record
+ * is then re-encrypted with the session key (decryptWithPinAndUnlock returns
+ * it for the caller to save), after one extra derivation confirms the key
+ * belongs to the same PIN. Records used together thus come to share a salt,
+ * and a single PIN entry opens all of them in later sessions.
+ */
+import { AppState } from "react-native";
+import { observable } from "@legendapp/state";
+import { appConfig } from "./app-config-store";
+import {
+  base64ToUint8Array,
+  decryptWithEnvelopeKey,
+  decryptWithPin,
+  deriveEnvelopeKey,
+  deriveNewEnvelopeKey,
+  encryptWithEnvelopeKey,
+  stringToUint8Array,
+  uint8ArrayToBase64,
+  type EnvelopeKey,
+} from "./crypto";
+import { getPreferredKdfParams, kdfParamsEqual } from "./kdf";
+
+// Keys kept at most; records of one PIN share few salts in practice
+const MAX_SESSION_KEYS = 8;
+
+export const UNLOCK_SESSION_MINUTE_OPTIONS = [0, 1, 5, 15, 30];
+
+type UnlockSessionState = {
+  active: boolean;
+  expiresAt: number | null;
+};
+
+/**
+ * Reactive session state, read by the settings screen
+ */
+export const unlockSession = observable<UnlockSessionState>({
+  active: false,
+  expiresAt: null,
+});
+
+let sessionKeys: EnvelopeKey[] = [];
+let expiryTimer: ReturnType<typeof setTimeout> | null = null;
+let appStateSubscription: { remove: () => void } | null = null;
+
+type DecryptResult = { value: string; verified: boolean };
+
+function getSessionMinutes(): number {
+  return appConfig.app_settings.unlock_session_minutes.peek() ?? 0;
+}
+
+/**
+ * Sets how long a PIN entry keeps signing unlocked. Ends the running session,
+ * so the new duration applies from the next PIN entry.
+ *
+ * @param minutes - Session length, 0 turns sessions off
+ */
+export function setUnlockSessionMinutes(minutes: number): void {
+  appConfig.app_settings.unlock_session_minutes.set(
+    minutes > 0 ? minutes : undefined,
+  );
+  lockUnlockSession();
+}
+
+/**
+ * Ends the session when the app goes to the background. Called once during
+ * app initialization.
+ */
+export function initializeUnlockSession(): void {
+  if (appStateSubscription) return;
+
+  appStateSubscription = AppState.addEventListener("change", (state) => {
+    if (state === "background") {
+      lockUnlockSession();
+    }
+  });
+}
+
+/**
+ * Checks whether a session is running, ending it if its time ran out
+ */
+export function isUnlockSessionActive(): boolean {
+  const { active, expiresAt } = unlockSession.peek();
+  if (active && expiresAt !== null && Date.now() >= expiresAt) {
+    lockUnlockSession();
+    return false;
+  }
+  return active;
+}
+
+/**
+ * Ends the session and wipes its keys
+ */
+export function lockUnlockSession(): void {
+  for (const sessionKey of sessionKeys) {
+    sessionKey.key.fill(0);
+  }
+  sessionKeys = [];
+
+  if (expiryTimer) {
+    clearTimeout(expiryTimer);
+    expiryTimer = null;
+  }
+
+  if (unlockSession.active.peek()) {
+    console.log("Unlock session ended");
+  }
+  unlockSession.set({ active: false, expiresAt: null });
+}
+
+/**
+ * Keeps a derived key in the session, starting one if sessions are enabled
+ */
+function addSessionKey(envelopeKey: EnvelopeKey): void {
+  const minutes = getSessionMinutes();
+  if (minutes <= 0) {
+    return;
+  }
+
+  if (!isUnlockSessionActive()) {
+    const durationMs = minutes * 60 * 1000;
+    unlockSession.set({ active: true, expiresAt: Date.now() + durationMs });
+    expiryTimer = setTimeout(lockUnlockSession, durationMs);
+  }
+
+  sessionKeys = [
+    { ...envelopeKey, key: envelopeKey.key.slice() },
+    ...sessionKeys.filter(
+      (sessionKey) =>
+        uint8ArrayToBase64(sessionKey.salt) !==
+        uint8ArrayToBase64(envelopeKey.salt),
+    ),
+  ].slice(0, MAX_SESSION_KEYS);
+}
+
+/**
+ * Decrypts a record with a key held by the session
+ *
+ * @param encryptedData - The encrypted data as base64 string
+ * @returns The decrypted value, or null if no session key opens the record
+ */
+export function decryptWithSession(encryptedData: string): string | null {
+  if (!isUnlockSessionActive()) {
+    return null;
+  }
+
+  const bytes = base64ToUint8Array(encryptedData);
+  for (const sessionKey of sessionKeys) {
+    const result = decryptWithEnvelopeKey(bytes, sessionKey);
+    if (result?.verified) {
+      return new TextDecoder().decode(result.value);
+    }
+  }
+  return null;
+}
+
+/**
+ * Re-encrypts a value with the session key for the current KDF parameters,
+ * if the PIN derives that same key
+ *
+ * @param value - The decrypted value
+ * @param pinBytes - The PIN the value was decrypted with
+ * @param salt - Salt of the record the value came from
+ * @returns The re-encrypted record as base64 string, or undefined if the
+ *          session holds no such key or the record already uses it
+ */
+async function rekeyForSession(
+  value: Uint8Array,
+  pinBytes: Uint8Array,
+  salt: Uint8Array,
+): Promise<string | undefined> {
+  if (!isUnlockSessionActive()) {
+    return undefined;
+  }
+
+  const params = await getPreferredKdfParams();
+  const sessionKey = sessionKeys.find((item) =>
+    kdfParamsEqual(item.params, params),
+  );
+  if (
+    !sessionKey ||
+    uint8ArrayToBase64(sessionKey.salt) === uint8ArrayToBase64(salt)
+  ) {
+    return undefined;
+  }
+
+  // Another PIN's session key would lock the record away from its own PIN
+  const rekeyed = encryptWithEnvelopeKey(value, sessionKey);
+  const pinKey = await deriveEnvelopeKey(rekeyed, pinBytes);
+  const samePin = pinKey
+    ? decryptWithEnvelopeKey(rekeyed, pinKey)?.verified === true
+    : false;
+  pinKey?.key.fill(0);
+  return samePin ? uint8ArrayToBase64(rekeyed) : undefined;
+}
+
+/**
+ * Decrypts a record with the PIN and keeps the derived key in the session.
+ * A record the session cannot open yet is re-encrypted with the session key,
+ * see the module comment.
+ *
+ * @param encryptedData - The encrypted data as base64 string
+ * @param pin - The PIN to use
+ * @returns The decrypted value and verification status, plus the record
+ *          re-encrypted with the session key for the caller to save, or null
+ *          on failure
+ */
+export async function decryptWithPinAndUnlock(
+  encryptedData: string,
+  pin: string,
+): Promise<(DecryptResult & { rekeyed?: string }) | null> {
+  const bytes = base64ToUint8Array(encryptedData);
+  const pinBytes = stringToUint8Array(pin);
+
+  const envelopeKey = await deriveEnvelopeKey(bytes, pinBytes);
+  const result = envelopeKey
+    ? decryptWithEnvelopeKey(bytes, envelopeKey)
+    : null;
+
+  if (envelopeKey && result?.verified) {
+    const rekeyed = await rekeyForSession(
+      result.value,
+      pinBytes,
+      envelopeKey.salt,
+    );
+    if (!rekeyed) {
+      addSessionKey(envelopeKey);
+    }
+    return {
+      value: new TextDecoder().decode(result.value),
+      verified: true,
+      rekeyed,
+    };
+  }
+
+  // Legacy records have no envelope to derive a session key from
+  const legacy = await decryptWithPin(bytes, pinBytes);
+  return legacy
+    ? {
+        value: new TextDecoder().decode(legacy.value),
+        verified: legacy.verified,
+      }
+    : null;
+}
+
+/**
+ * Encrypts a value with a session key for the current KDF parameters. The
+ * record reuses the key's salt, see the module comment.
+ *
+ * @param value - The data to encrypt
+ * @returns The encrypted data as base64 string, or null if the session holds
+ *          no suitable key
+ */
+export async function encryptWithSession(
+  value: string,
+): Promise<string | null> {
+  if (!isUnlockSessionActive()) {
+    return null;
+  }
+
+  const params = await getPreferredKdfParams();
+  const sessionKey = sessionKeys.find((item) =>
+    kdfParamsEqual(item.params, params),
+  );
+  return sessionKey
+    ? uint8ArrayToBase64(
+        encryptWithEnvelopeKey(stringToUint8Array(value), sessionKey),
+      )
+    : null;
+}
+
+/**
+ * Encrypts a value with the PIN and keeps the derived key in the session
+ *
+ * @param value - The data to encrypt
+ * @param pin - The PIN to use
+ * @returns The encrypted data as base64 string
+ */
+export async function encryptWithPinAndUnlock(
+  value: string,
+  pin: string,
+): Promise<string> {
+  const envelopeKey = await deriveNewEnvelopeKey(
+    stringToUint8Array(pin),
+    await getPreferredKdfParams(),
+  );
+  addSessionKey(envelopeKey);
+  return uint8ArrayToBase64(
+    encryptWithEnvelopeKey(stringToUint8Array(value), envelopeKey),
+  );
+}
@@ -1,5 +1,6 @@
 import { appConfig } from "./app-config-store";
 import { getValue } from "./secure-store";
+import { getVisibleProfiles } from "./duress";
 
 /**
  * Utility functions to determine user state and onboarding status
@@ -17,13 +18,14 @@ interface Profile {
 
 /**
  * Helper function to safely get profiles from appConfig
+ * (only the decoy profile while duress mode is active)
  */
 function getProfiles(): Record<string, Profile> | null {
   try {
     if (!appConfig || !appConfig.profiles) {
       return null;
     }
-    const profiles = appConfig.profiles.get();
+    const profiles = getVisibleProfiles();
     return profiles && typeof profiles === "object" ? profiles : null;
   } catch (error) {
     console.error("Error getting profiles:", error);
@@ -0,0 +1,596 @@
+/**
+ * Encrypted Wallet Backup
+ *
+ * Creates and restores a single backup file holding the whole AppConfig
+ * (profiles, nicknames, networks, settings) plus every stored `account_*`
+ * secret. The contents are encrypted under a backup passphrase chosen by the
+ * user, independent of the device PIN, so the file can be restored on a new
+ * phone. See BACKUP-FORMAT.md for the file format.
+ *
+ * File layout (JSON):
+ *
+ *   {
+ *     "format": "carpe-wallet-backup",
+ *     "version": 1,
+ *     "created_at": <unix ms>,
+ *     "payload": <base64 encryption envelope, see crypto.ts>
+ *   }
+ *
+ * The decrypted payload is JSON of the form
+ * `{ "config": AppConfig, "secrets": { [accountId]: string } }`.
+ */
+import {
+  appConfig,
+  createProfile,
+  addAccountToProfile,
+  setAccountSecretSource,
+  updateAccountKeyStoredStatus,
+} from "./app-config-store";
+import type { AccountState } from "./app-config-store";
+import {
+  NetworkTypeEnum,
+  type AppConfig,
+  type AppSettings,
+  type Profile,
+} from "./app-config-types";
+import {
+  encryptWithPin,
+  decryptWithPin,
+  stringToUint8Array,
+  uint8ArrayToBase64,
+  base64ToUint8Array,
+} from "./crypto";
+import { getPreferredKdfParams } from "./kdf";
+import { getRandomBytes } from "./random";
+import { deleteValue, getValue, saveValue } from "./secure-store";
+import {
+  verifyStoredPin,
+  secureDecryptWithPin,
+  secureEncryptWithPin,
+} from "./pin-security";
+import { getVisibleProfiles, isAccountHidden, setSecretOwner } from "./duress";
+import { recordAuditEvent } from "./security-audit";
+import { restoreRevealPolicy } from "./reveal-controller";
+import { refreshSetupStatus } from "./setup-state";
+import { reportErrorAuto } from "./error-utils";
+
+// Identifies backup files written by this app
+const BACKUP_FORMAT = "carpe-wallet-backup";
+
+// Current backup format version. Bump when the payload layout changes and
+// keep reading every older version.
+const BACKUP_VERSION = 1;
+
+type WalletBackupFile = {
+  format: string;
+  version: number;
+  created_at: number;
+  payload: string;
+};
+
+/**
+ * Decrypted contents of a backup file
+ */
+export type WalletBackupContents = {
+  createdAt: number;
+  config: AppConfig;
+  secrets: Record<string, string>;
+};
+
+/**
+ * How a backed-up account will be handled on import
+ */
+type BackupAccountPreview = {
+  id: string;
+  address: string;
+  nickname?: string;
+  hasSecret: boolean;
+  conflict: string | null; // Reason the account is skipped, if any
+};
+
+/**
+ * How a backed-up profile will be handled on import
+ */
+type BackupProfilePreview = {
+  name: string;
+  networkName: string;
+  status: "new" | "merge" | "conflict";
+  conflict: string | null; // Reason the profile is skipped, if any
+  accounts: BackupAccountPreview[];
+};
+
+/**
+ * Summary of what importing a backup would do
+ */
+export type BackupImportPreview = {
+  profiles: BackupProfilePreview[];
+  newAccountCount: number;
+  conflicts: string[];
+};
+
+/**
+ * Converts an encryption secret (PIN or passphrase) to bytes
+ */
+function secretBytes(secret: string): Uint8Array {
+  return stringToUint8Array(secret);
+}
+
+/**
+ * Creates an encrypted backup of the current wallet state. Every stored
+ * secret is decrypted with the PIN and re-encrypted under the backup
+ * passphrase. Fails if any secret cannot be decrypted, so a backup never
+ * silently misses a key.
+ *
+ * @param pin - The current PIN
+ * @param passphrase - The backup passphrase chosen by the user
+ * @returns Promise resolving to the backup file contents, or an error
+ */
+export async function createWalletBackup(
+  pin: string,
+  passphrase: string,
+): Promise<{ success: boolean; backup?: string; error?: string }> {
+  try {
+    if (!(await verifyStoredPin(pin))) {
+      return { success: false, error: "Incorrect PIN" };
+    }
+
+    const profiles = getVisibleProfiles();
+    const secrets: Record<string, string> = {};
+
+    for (const profile of Object.values(profiles)) {
+      for (const account of profile.accounts) {
+        if (isAccountHidden(account.id)) {
+          continue;
+        }
+
+        const encrypted = await getValue(`account_${account.id}`);
+        if (!encrypted) {
+          continue;
+        }
+
+        const decrypted = await secureDecryptWithPin(encrypted, pin);
+        if (!decrypted || !decrypted.verified) {
+          return {
+            success: false,
+            error: `Could not decrypt the secret of account ${account.nickname || account.account_address}`,
+          };
+        }
+        secrets[account.id] = decrypted.value;
+      }
+    }
+
+    const contents: WalletBackupContents = {
+      createdAt: Date.now(),
+      config: {
+        app_settings: appConfig.app_settings.peek(),
+        profiles,
+        activeAccountId: appConfig.activeAccountId.peek(),
+      },
+      secrets,
+    };
+
+    const encrypted = await encryptWithPin(
+      stringToUint8Array(JSON.stringify(contents)),
+      secretBytes(passphrase),
+      await getPreferredKdfParams(),
+    );
+    if (encrypted.length === 0) {
+      return { success: false, error: "Failed to encrypt the backup" };
+    }
+
+    const file: WalletBackupFile = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      created_at: contents.createdAt,
+      payload: uint8ArrayToBase64(encrypted),
+    };
+
+    recordAuditEvent("backup_exported", {
+      secrets: Object.keys(secrets).length,
+    });
+    return { success: true, backup: JSON.stringify(file, null, 2) };
+  } catch (error) {
+    reportErrorAuto("walletBackup.createWalletBackup", error);
+    return { success: false, error: "Failed to create the backup" };
+  }
+}
+
+/**
+ * Checks that decrypted contents have the expected shape
+ */
+function isValidContents(value: unknown): value is WalletBackupContents {
+  if (!value || typeof value !== "object") return false;
+  const contents = value as WalletBackupContents;
+
+  if (!contents.config || typeof contents.config.profiles !== "object") {
+    return false;
+  }
+  if (!contents.secrets || typeof contents.secrets !== "object") {
+    return false;
+  }
+
+  const networkTypes = Object.values(NetworkTypeEnum) as string[];
+  const profilesValid = Object.entries(contents.config.profiles).every(
+    ([name, profile]) =>
+      profile?.name === name &&
+      typeof profile.network?.network_name === "string" &&
+      networkTypes.includes(profile.network.network_type) &&
+      (profile.network.rpc_urls === undefined ||
+        (Array.isArray(profile.network.rpc_urls) &&
+          profile.network.rpc_urls.every((url) => typeof url === "string"))) &&
+      Array.isArray(profile.accounts) &&
+      profile.accounts.every(
+        (account) =>
+          typeof account.id === "string" &&
+          typeof account.account_address === "string",
+      ),
+  );
+
+  return (
+    profilesValid &&
+    Object.values(contents.secrets).every(
+      (secret) => typeof secret === "string",
+    )
+  );
+}
+
+/**
+ * Validates a backup file and decrypts it with the backup passphrase
+ *
+ * @param backupText - The backup file contents
+ * @param passphrase - The backup passphrase
+ * @returns Promise resolving to the decrypted contents, or an error
+ */
+export async function decryptWalletBackup(
+  backupText: string,
+  passphrase: string,
+): Promise<{
+  success: boolean;
+  contents?: WalletBackupContents;
+  error?: string;
+}> {
+  let file: WalletBackupFile;
+  try {
+    file = JSON.parse(backupText.trim());
+  } catch {
+    return { success: false, error: "This is not a wallet backup file" };
+  }
+
+  if (file?.format !== BACKUP_FORMAT || typeof file.payload !== "string") {
+    return { success: false, error: "This is not a wallet backup file" };
+  }
+
+  if (
+    typeof file.version !== "number" ||
+    file.version < 1 ||
+    file.version > BACKUP_VERSION
+  ) {
+    return {
+      success: false,
+      error: `Unsupported backup version ${file.version}. Please update the app.`,
+    };
+  }
+
+  try {
+    const decrypted = await decryptWithPin(
+      base64ToUint8Array(file.payload),
+      secretBytes(passphrase),
+    );
+    if (!decrypted || !decrypted.verified) {
+      return {
+        success: false,
+        error: "Wrong backup passphrase or damaged backup file",
+      };
+    }
+
+    const contents = JSON.parse(new TextDecoder().decode(decrypted.value));
+    if (!isValidContents(contents)) {
+      return { success: false, error: "The backup file is damaged" };
+    }
+
+    return { success: true, contents };
+  } catch (error) {
+    console.error("Error decrypting wallet backup:", error);
+    return { success: false, error: "The backup file is damaged" };
+  }
+}
+
+/**
+ * Finds which existing profile already holds an address
+ */
+function findProfileWithAddress(
+  profiles: Record<string, Profile>,
+  address: string,
+): string | null {
+  const normalized = address.toLowerCase();
+  for (const [name, profile] of Object.entries(profiles)) {
+    if (
+      profile.accounts.some(
+        (account) => account.account_address.toLowerCase() === normalized,
+      )
+    ) {
+      return name;
+    }
+  }
+  return null;
+}
+
+/**
+ * Works out what importing a backup would do without changing anything.
+ * Profiles are merged by name when they use the same network; a profile name
+ * on a different network, or an address that already exists, is reported as
+ * a conflict and skipped.
+ *
+ * @param contents - Decrypted backup contents
+ * @returns The import preview
+ */
+export function previewWalletBackupImport(
+  contents: WalletBackupContents,
+): BackupImportPreview {
+  const existingProfiles = getVisibleProfiles();
+  const conflicts: string[] = [];
+  let newAccountCount = 0;
+
+  const profiles = Object.values(contents.config.profiles).map(
+    (profile): BackupProfilePreview => {
+      const existing = existingProfiles[profile.name];
+      const networkMismatch =
+        existing &&
+        (existing.network.network_type !== profile.network.network_type ||
+          existing.network.network_name !== profile.network.network_name);
+
+      const profileConflict = networkMismatch
+        ? `Profile "${profile.name}" already exists on network ${existing.network.network_name}`
+        : null;
+      if (profileConflict) {
+        conflicts.push(profileConflict);
+      }
+
+      const accounts = profile.accounts.map((account) => {
+        const holder = findProfileWithAddress(
+          existingProfiles,
+          account.account_address,
+        );
+        const accountConflict = holder
+          ? `Address ${account.account_address} already exists in profile "${holder}"`
+          : null;
+
+        if (accountConflict) {
+          conflicts.push(accountConflict);
+        } else if (!profileConflict) {
+          newAccountCount++;
+        }
+
+        return {
+          id: account.id,
+          address: account.account_address,
+          nickname: account.nickname,
+          hasSecret:
+            account.id in contents.secrets ||
+            (!!account.secret_account_id &&
+              account.secret_account_id in contents.secrets),
+          conflict: profileConflict ?? accountConflict,
+        };
+      });
+
+      return {
+        name: profile.name,
+        networkName: profile.network.network_name,
+        status: profileConflict ? "conflict" : existing ? "merge" : "new",
+        conflict: profileConflict,
+        accounts,
+      };
+    },
+  );
+
+  return { profiles, newAccountCount, conflicts };
+}
+
+/**
+ * Generates a fresh account ID, used when a backed-up ID is already taken
+ */
+function generateAccountId(): string {
+  return uint8ArrayToBase64(getRandomBytes(16)).replace(/[/+=]/g, "");
+}
+
+function isDuration(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Picks the settings a backup may restore, dropping unknown fields and values
+ * of the wrong type
+ */
+function pickAppSettings(settings: unknown): Partial<AppSettings> {
+  if (!settings || typeof settings !== "object") return {};
+  const source = settings as Record<string, unknown>;
+  const picked: Partial<AppSettings> = {};
+
+  if (source.theme === "dark" || source.theme === "light") {
+    picked.theme = source.theme;
+  }
+  if (isDuration(source.unlock_session_minutes)) {
+    picked.unlock_session_minutes = source.unlock_session_minutes;
+  }
+  if (isDuration(source.auto_lock_minutes)) {
+    picked.auto_lock_minutes = source.auto_lock_minutes;
+  }
+  if (isDuration(source.auto_lock_background_seconds)) {
+    picked.auto_lock_background_seconds = source.auto_lock_background_seconds;
+  }
+  if (typeof source.app_pin_only === "boolean") {
+    picked.app_pin_only = source.app_pin_only;
+  }
+  if (isDuration(source.clipboard_clear_seconds)) {
+    picked.clipboard_clear_seconds = source.clipboard_clear_seconds;
+  }
+  return picked;
+}
+
+/**
+ * Imports a decrypted backup: creates missing profiles, adds every account
+ * without a conflict and stores its secret encrypted with the device PIN. On a
+ * fresh install the backed-up app settings are restored too; a wallet that
+ * already has accounts keeps its own.
+ *
+ * @param contents - Decrypted backup contents
+ * @param pin - The current PIN, used to encrypt the imported secrets
+ * @returns Promise resolving to the import result
+ */
+export async function importWalletBackup(
+  contents: WalletBackupContents,
+  pin: string,
+): Promise<{
+  success: boolean;
+  importedAccounts: number;
+  conflicts: string[];
+  error?: string;
+}> {
+  try {
+    if (!(await verifyStoredPin(pin))) {
+      return {
+        success: false,
+        importedAccounts: 0,
+        conflicts: [],
+        error: "Incorrect PIN",
+      };
+    }
+
+    const preview = previewWalletBackupImport(contents);
+    const conflicts = [...preview.conflicts];
+    const takenIds = new Set(
+      Object.values(appConfig.profiles.peek()).flatMap((profile) =>
+        profile.accounts.map((account) => account.id),
+      ),
+    );
+    const freshInstall = takenIds.size === 0;
+    // Backup account ID to local ID, for every imported account
+    const importedIds = new Map<string, string>();
+    // Backup account ID to local ID, for accounts whose secret was stored
+    const secretIds = new Map<string, string>();
+    // Accounts that share the secret of another account, linked after all
+    // secrets are stored
+    const sharedSecrets: { id: string; secretAccountId: string }[] = [];
+    let importedAccounts = 0;
+
+    for (const profilePreview of preview.profiles) {
+      if (profilePreview.status === "conflict") {
+        continue;
+      }
+
+      const profile = contents.config.profiles[profilePreview.name];
+      if (
+        profilePreview.status === "new" &&
+        !createProfile(profile.name, profile.network)
+      ) {
+        conflicts.push(`Profile "${profile.name}" could not be created`);
+        continue;
+      }
+
+      for (const account of profile.accounts) {
+        const accountPreview = profilePreview.accounts.find(
+          (item) => item.id === account.id,
+        );
+        if (!accountPreview || accountPreview.conflict) {
+          continue;
+        }
+
+        const id = takenIds.has(account.id) ? generateAccountId() : account.id;
+        const secret = contents.secrets[account.id];
+
+        // Store the secret first so an account never claims a key it lacks
+        if (secret) {
+          const encrypted = await secureEncryptWithPin(secret, pin);
+          if (!encrypted) {
+            conflicts.push(
+              `Could not store the secret of ${account.account_address}`,
+            );
+            continue;
+          }
+          await saveValue(`account_${id}`, encrypted);
+          await setSecretOwner(id);
+        }
+
+        const imported: AccountState = {
+          ...account,
+          id,
+          is_key_stored: Boolean(secret),
+          secret_account_id: undefined,
+          reveal_schedule: undefined,
+          // Signed with the other device's key; signed again once added
+          reveal_policy: undefined,
+          pending_reveal_policy: undefined,
+          reveal_policy_mac: undefined,
+        };
+
+        if (!addAccountToProfile(profile.name, imported)) {
+          // Do not leave a secret behind that no account refers to
+          if (secret) {
+            await deleteValue(`account_${id}`);
+            await setSecretOwner(id, false);
+          }
+          conflicts.push(`Could not import ${account.account_address}`);
+          continue;
+        }
+
+        takenIds.add(id);
+        importedIds.set(account.id, id);
+        importedAccounts++;
+        if (
+          (account.reveal_policy || account.pending_reveal_policy) &&
+          !restoreRevealPolicy(
+            id,
+            account.reveal_policy,
+            account.pending_reveal_policy,
+          )
+        ) {
+          conflicts.push(
+            `Could not restore the reveal policy of ${account.account_address}`,
+          );
+        }
+        if (secret) {
+          secretIds.set(account.id, id);
+        } else if (account.secret_account_id) {
+          sharedSecrets.push({
+            id,
+            secretAccountId: account.secret_account_id,
+          });
+        }
+      }
+    }
+
+    for (const { id, secretAccountId } of sharedSecrets) {
+      const localSecretId = secretIds.get(secretAccountId);
+      if (localSecretId) {
+        setAccountSecretSource(id, localSecretId);
+        updateAccountKeyStoredStatus(id, true);
+      }
+    }
+
+    // Restore the backed-up active account on a fresh install, under the ID
+    // it was imported with
+    const backupActiveId = contents.config.activeAccountId;
+    const activeId = backupActiveId ? importedIds.get(backupActiveId) : null;
+    if (appConfig.activeAccountId.peek() === null && activeId) {
+      appConfig.activeAccountId.set(activeId);
+    }
+    if (freshInstall) {
+      appConfig.app_settings.set({
+        ...appConfig.app_settings.peek(),
+        ...pickAppSettings(contents.config.app_settings),
+      });
+    }
+
+    refreshSetupStatus();
+
+    return { success: true, importedAccounts, conflicts };
+  } catch (error) {
+    reportErrorAuto("walletBackup.importWalletBackup", error);
+    return {
+      success: false,
+      importedAccounts: 0,
+      conflicts: [],
+      error: "Failed to import the backup",
+    };
+  }
+}